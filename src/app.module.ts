@@ -27,6 +27,7 @@ import { OrgAdminModule } from './modules/org-admin/org-admin.module';
 import { MonitoringModule } from './modules/monitoring/monitoring.module';
 import { AdminModule } from './modules/admin/admin.module';
 import { AIQuestionsModule } from './modules/ai-questions/ai-questions.module';
+import { ApiKeysModule } from './modules/api-keys/api-keys.module';
 
 @Module({
   imports: [
@@ -77,6 +78,7 @@ import { AIQuestionsModule } from './modules/ai-questions/ai-questions.module';
     ShortlistingModule,
     SystemConfigModule,
     OrgAdminModule,
+    ApiKeysModule,
     AdminModule,
     MonitoringModule,
     AIQuestionsModule,
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../../modules/api-keys/schemas/api-key.schema';
+
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+
+/**
+ * Allow API keys holding any of the given scopes on a route.
+ * Routes without this decorator reject API keys.
+ */
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(API_KEY_SCOPES_KEY, scopes);
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const BLOCK_IMPERSONATION_KEY = 'blockImpersonation';
+
+/**
+ * Reject the route for impersonation tokens (destructive or irreversible
+ * actions). Enforced by ImpersonationAuditInterceptor.
+ */
+export const BlockImpersonation = () =>
+  SetMetadata(BLOCK_IMPERSONATION_KEY, true);
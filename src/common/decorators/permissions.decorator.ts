@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../utils/role-permissions.util';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Require every listed permission, granted either by the user's built-in
+ * role preset or by custom organization roles. Enforced by PermissionsGuard.
+ */
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
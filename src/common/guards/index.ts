@@ -1,8 +1,10 @@
 // Authentication Guards
 export { JwtAuthGuard } from './jwt-auth.guard';
+export { JwtOrApiKeyAuthGuard } from './jwt-or-api-key-auth.guard';
 
 // Authorization Guards
 export { RolesGuard } from './roles.guard';
+export { PermissionsGuard } from './permissions.guard';
 export { OrganizationGuard } from './organization.guard';
 
 // Invitation & Exam Guards
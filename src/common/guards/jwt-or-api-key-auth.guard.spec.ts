@@ -0,0 +1,111 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from '@nestjs/passport';
+import { JwtOrApiKeyAuthGuard } from './jwt-or-api-key-auth.guard';
+import { ApiKeyScopes } from '../decorators/api-key-scopes.decorator';
+import { ApiKeyScope } from '../../modules/api-keys/schemas/api-key.schema';
+
+class TestController {
+  @ApiKeyScopes(ApiKeyScope.RESULTS_READ, ApiKeyScope.INVITATIONS_MANAGE)
+  getResults() {}
+
+  deleteExam() {}
+}
+
+describe('JwtOrApiKeyAuthGuard', () => {
+  let guard: JwtOrApiKeyAuthGuard;
+
+  const mockApiKeyService = { authenticate: jest.fn() };
+
+  const buildContext = (method: keyof TestController, headers: any) => {
+    const request = { headers, ip: '203.0.113.7', user: undefined };
+    const context = {
+      getHandler: () => TestController.prototype[method],
+      getClass: () => TestController,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+    return { context, request };
+  };
+
+  const principal = (scopes: ApiKeyScope[]) => ({
+    userId: 'creator',
+    isApiKey: true,
+    scopes,
+  });
+
+  beforeEach(() => {
+    guard = new JwtOrApiKeyAuthGuard(new Reflector(), mockApiKeyService as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should attach the key principal when it holds a listed scope', async () => {
+    mockApiKeyService.authenticate.mockResolvedValue(
+      principal([ApiKeyScope.INVITATIONS_MANAGE]),
+    );
+    const { context, request } = buildContext('getResults', {
+      'x-api-key': 'smk_key',
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(mockApiKeyService.authenticate).toHaveBeenCalledWith(
+      'smk_key',
+      '203.0.113.7',
+    );
+    expect(request.user).toMatchObject({ isApiKey: true });
+  });
+
+  it('should accept the key in an ApiKey authorization header', async () => {
+    mockApiKeyService.authenticate.mockResolvedValue(
+      principal([ApiKeyScope.RESULTS_READ]),
+    );
+    const { context } = buildContext('getResults', {
+      authorization: 'ApiKey smk_key',
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(mockApiKeyService.authenticate).toHaveBeenCalledWith(
+      'smk_key',
+      '203.0.113.7',
+    );
+  });
+
+  it('should reject a key without any listed scope', async () => {
+    mockApiKeyService.authenticate.mockResolvedValue(
+      principal([ApiKeyScope.QUESTIONS_MANAGE]),
+    );
+    const { context, request } = buildContext('getResults', {
+      'x-api-key': 'smk_key',
+    });
+
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      'API key is missing a required scope: results:read or invitations:manage',
+    );
+    expect(request.user).toBeUndefined();
+  });
+
+  it('should reject keys on routes that do not accept them', async () => {
+    const { context } = buildContext('deleteExam', { 'x-api-key': 'smk_key' });
+
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(mockApiKeyService.authenticate).not.toHaveBeenCalled();
+  });
+
+  it('should fall through to the JWT strategy without a key', async () => {
+    const jwtCanActivate = jest
+      .spyOn(AuthGuard('jwt').prototype, 'canActivate')
+      .mockResolvedValue(true);
+    const { context } = buildContext('deleteExam', {
+      authorization: 'Bearer token',
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(jwtCanActivate).toHaveBeenCalledWith(context);
+    expect(mockApiKeyService.authenticate).not.toHaveBeenCalled();
+  });
+});
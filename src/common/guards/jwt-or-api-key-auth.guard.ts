@@ -0,0 +1,78 @@
+import {
+  Injectable,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiKeyService } from '../../modules/api-keys/services/api-key.service';
+import { ApiKeyScope } from '../../modules/api-keys/schemas/api-key.schema';
+import { API_KEY_SCOPES_KEY } from '../decorators/api-key-scopes.decorator';
+
+/**
+ * JwtOrApiKeyAuthGuard - Drop-in replacement for JwtAuthGuard that also
+ * accepts organization API keys.
+ *
+ * Requests carrying an `X-API-Key` header (or `Authorization: ApiKey <key>`)
+ * are authenticated against the organization's keys; everything else falls
+ * through to the regular JWT strategy.
+ *
+ * API keys are only accepted on routes decorated with @ApiKeyScopes(),
+ * and the key must hold at least one of the listed scopes.
+ */
+@Injectable()
+export class JwtOrApiKeyAuthGuard extends AuthGuard('jwt') {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeyService: ApiKeyService,
+  ) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const apiKey = this.extractApiKey(request);
+
+    if (!apiKey) {
+      return super.canActivate(context) as Promise<boolean>;
+    }
+
+    const allowedScopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(
+      API_KEY_SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!allowedScopes || allowedScopes.length === 0) {
+      throw new ForbiddenException('This endpoint does not accept API keys');
+    }
+
+    const principal = await this.apiKeyService.authenticate(apiKey, request.ip);
+
+    const hasScope = allowedScopes.some((scope) =>
+      principal.scopes.includes(scope),
+    );
+
+    if (!hasScope) {
+      throw new ForbiddenException(
+        `API key is missing a required scope: ${allowedScopes.join(' or ')}`,
+      );
+    }
+
+    request.user = principal;
+    return true;
+  }
+
+  private extractApiKey(request: any): string | null {
+    const header = request.headers['x-api-key'];
+    if (header) {
+      return Array.isArray(header) ? header[0] : header;
+    }
+
+    const authorization = request.headers.authorization;
+    if (authorization?.startsWith('ApiKey ')) {
+      return authorization.substring(7);
+    }
+
+    return null;
+  }
+}
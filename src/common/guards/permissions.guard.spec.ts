@@ -0,0 +1,106 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from './permissions.guard';
+import { Permission } from '../utils/role-permissions.util';
+import { UserRole } from '../../modules/users/schemas/user.schema';
+import { ExamsController } from '../../modules/exams/controllers/exams.controller';
+import { RecruitmentResultsController } from '../../modules/exams/controllers/recruitment-results.controller';
+import { ExamAnalyticsController } from '../../modules/analytics/controllers/exam-analytics.controller';
+import { UserManagementController } from '../../modules/org-admin/controllers/user-management.controller';
+
+describe('PermissionsGuard', () => {
+  const guard = new PermissionsGuard(new Reflector());
+
+  const buildContext = (controller: any, method: string, user: any) =>
+    ({
+      getHandler: () => controller.prototype[method],
+      getClass: () => controller,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  const route = ([controller, method]: [any, string]) => [
+    `${controller.name}.${method}`,
+    controller,
+    method,
+  ];
+
+  const recruiter = { role: UserRole.RECRUITER };
+
+  it.each(
+    [
+      [ExamsController, 'createExam'],
+      [ExamsController, 'updateExamStatus'],
+      [ExamsController, 'sendInvitations'],
+      [ExamsController, 'publishResults'],
+      [ExamsController, 'getExamResults'],
+      [RecruitmentResultsController, 'exportRecruitmentResults'],
+      [RecruitmentResultsController, 'shortlistCandidates'],
+      [ExamAnalyticsController, 'getExamAnalytics'],
+    ].map(route),
+  )('should let a recruiter use %s', (_route, controller, method) => {
+    expect(guard.canActivate(buildContext(controller, method, recruiter))).toBe(
+      true,
+    );
+  });
+
+  it.each(
+    [
+      [ExamsController, 'deleteExam'],
+      [ExamsController, 'enrollCandidates'],
+      [ExamsController, 'submitPreview'],
+      [UserManagementController, 'createUser'],
+    ].map(route),
+  )('should not let a recruiter use %s', (_route, controller, method) => {
+    expect(() =>
+      guard.canActivate(buildContext(controller, method, recruiter)),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('should allow permissions granted by a custom role', () => {
+    const user = {
+      role: UserRole.RECRUITER,
+      permissions: [Permission.EXAMS_CREATE, Permission.CANDIDATES_ENROLL],
+    };
+
+    expect(
+      guard.canActivate(
+        buildContext(ExamsController, 'enrollCandidates', user),
+      ),
+    ).toBe(true);
+  });
+
+  it('should check the resolved permissions rather than the role preset', () => {
+    const user = {
+      role: UserRole.ORG_ADMIN,
+      permissions: [Permission.RESULTS_VIEW],
+    };
+
+    expect(() =>
+      guard.canActivate(
+        buildContext(UserManagementController, 'getAllUsers', user),
+      ),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('should fall back to the role preset for API key principals', () => {
+    const apiKey = { role: UserRole.ORG_ADMIN, isApiKey: true };
+
+    expect(
+      guard.canActivate(buildContext(ExamsController, 'deleteExam', apiKey)),
+    ).toBe(true);
+  });
+
+  it('should allow routes without required permissions', () => {
+    expect(
+      guard.canActivate(
+        buildContext(ExamsController, 'getAllExams', recruiter),
+      ),
+    ).toBe(true);
+  });
+
+  it('should reject unauthenticated requests', () => {
+    expect(() =>
+      guard.canActivate(buildContext(ExamsController, 'createExam', undefined)),
+    ).toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,49 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { Permission, RolePermissions } from '../utils/role-permissions.util';
+
+/**
+ * PermissionsGuard - Companion to RolesGuard for routes decorated with
+ * @RequirePermissions().
+ *
+ * JwtStrategy resolves request.user.permissions (role preset plus custom
+ * organization roles). Principals without a resolved set, such as API keys,
+ * fall back to the preset of their role.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredPermissions || requiredPermissions.length === 0) {
+      return true;
+    }
+
+    const user = context.switchToHttp().getRequest().user;
+    if (!user) {
+      throw new ForbiddenException('User not authenticated');
+    }
+
+    const granted: Permission[] =
+      user.permissions || RolePermissions.getPresetPermissions(user.role);
+
+    if (!RolePermissions.hasPermissions(granted, requiredPermissions)) {
+      throw new ForbiddenException(
+        `Access denied. Required permissions: ${requiredPermissions.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
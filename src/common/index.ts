@@ -6,3 +6,6 @@ export * from './utils';
 
 // Decorators
 export { Roles } from './decorators/roles.decorator';
+export { ApiKeyScopes } from './decorators/api-key-scopes.decorator';
+export { BlockImpersonation } from './decorators/block-impersonation.decorator';
+export { RequirePermissions } from './decorators/permissions.decorator';
@@ -0,0 +1,159 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { METHOD_METADATA } from '@nestjs/common/constants';
+import { RequestMethod } from '@nestjs/common/enums';
+import { Reflector } from '@nestjs/core';
+import { of } from 'rxjs';
+import { ImpersonationAuditInterceptor } from './impersonation-audit.interceptor';
+import { BLOCK_IMPERSONATION_KEY } from '../decorators/block-impersonation.decorator';
+import { ImpersonationAuditEvent } from '../../modules/admin/schemas/impersonation-audit-log.schema';
+import { ApiKeysController } from '../../modules/api-keys/controllers/api-keys.controller';
+import { UserManagementController } from '../../modules/org-admin/controllers/user-management.controller';
+import { OrgRolesController } from '../../modules/org-admin/controllers/org-roles.controller';
+import { QuestionManagementController } from '../../modules/org-admin/controllers/question-management.controller';
+import { QuestionPoolsController } from '../../modules/question-pools/controllers/question-pools.controller';
+import { QuestionsController } from '../../modules/questions/controllers/questions.controller';
+import { ExamsController } from '../../modules/exams/controllers/exams.controller';
+import { ExamTemplatesController } from '../../modules/exam-templates/controllers/exam-templates.controller';
+import { AIQuestionsController } from '../../modules/ai-questions/controllers/ai-questions.controller';
+import { SystemConfigController } from '../../modules/system-config/controllers/system-config.controller';
+import { OrganizationsController } from '../../modules/organizations/controllers/organizations.controller';
+import { SuperAdminController } from '../../modules/organizations/controllers/super-admin.controller';
+import { AuthController } from '../../modules/auth/controllers/auth.controller';
+
+describe('ImpersonationAuditInterceptor', () => {
+  let interceptor: ImpersonationAuditInterceptor;
+
+  const mockImpersonationService = { record: jest.fn() };
+  const next = { handle: jest.fn(() => of('ok')) };
+
+  const impersonatedUser = {
+    id: 'target-user',
+    impersonatedBy: 'super-admin',
+    impersonationId: 'imp-1',
+  };
+
+  const buildContext = (controller: any, method: string, user: any) =>
+    ({
+      getType: () => 'http',
+      getHandler: () => controller.prototype[method],
+      getClass: () => controller,
+      switchToHttp: () => ({
+        getRequest: () => ({
+          user,
+          method: 'POST',
+          originalUrl: '/api/v1/resource?x=1',
+          ip: '127.0.0.1',
+          headers: { 'user-agent': 'jest' },
+        }),
+        getResponse: () => ({ statusCode: 200 }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    interceptor = new ImpersonationAuditInterceptor(
+      new Reflector(),
+      mockImpersonationService as any,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each(
+    [
+      [ApiKeysController, 'createApiKey'],
+      [ApiKeysController, 'rotateApiKey'],
+      [ApiKeysController, 'revokeApiKey'],
+      [UserManagementController, 'createUser'],
+      [UserManagementController, 'updateUser'],
+      [UserManagementController, 'deleteUser'],
+      [OrgRolesController, 'deleteRole'],
+      [OrgRolesController, 'setUserRoles'],
+      [QuestionManagementController, 'deleteQuestion'],
+      [QuestionPoolsController, 'remove'],
+    ].map(([controller, method]: [any, string]) => [
+      `${controller.name}.${method}`,
+      controller,
+      method,
+    ]),
+  )('should reject %s while impersonating', (_route, controller, method) => {
+    const context = buildContext(controller, method, impersonatedUser);
+
+    expect(() => interceptor.intercept(context, next)).toThrow(
+      ForbiddenException,
+    );
+    expect(next.handle).not.toHaveBeenCalled();
+    expect(mockImpersonationService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: ImpersonationAuditEvent.BLOCKED,
+        path: '/api/v1/resource',
+      }),
+    );
+  });
+
+  it('should let the real user through a blocked route', () => {
+    const context = buildContext(ApiKeysController, 'createApiKey', {
+      id: 'target-user',
+    });
+
+    interceptor.intercept(context, next);
+
+    expect(next.handle).toHaveBeenCalled();
+    expect(mockImpersonationService.record).not.toHaveBeenCalled();
+  });
+
+  it('should audit allowed routes while impersonating', (done) => {
+    const context = buildContext(
+      ApiKeysController,
+      'getApiKeys',
+      impersonatedUser,
+    );
+
+    interceptor.intercept(context, next).subscribe(() => {
+      expect(mockImpersonationService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: ImpersonationAuditEvent.REQUEST,
+          statusCode: 200,
+        }),
+      );
+      done();
+    });
+  });
+
+  it('should block every DELETE route', () => {
+    const controllers = [
+      ApiKeysController,
+      UserManagementController,
+      OrgRolesController,
+      QuestionManagementController,
+      QuestionPoolsController,
+      QuestionsController,
+      ExamsController,
+      ExamTemplatesController,
+      AIQuestionsController,
+      SystemConfigController,
+      OrganizationsController,
+      SuperAdminController,
+      AuthController,
+    ];
+
+    const deleteRoutes = controllers.flatMap((controller) =>
+      Object.getOwnPropertyNames(controller.prototype)
+        .map((method) => controller.prototype[method])
+        .filter(
+          (handler) =>
+            Reflect.getMetadata(METHOD_METADATA, handler) ===
+            RequestMethod.DELETE,
+        ),
+    );
+
+    expect(deleteRoutes.length).toBeGreaterThan(controllers.length);
+    for (const handler of deleteRoutes) {
+      expect([
+        handler.name,
+        Reflect.getMetadata(BLOCK_IMPERSONATION_KEY, handler),
+      ]).toEqual([handler.name, true]);
+    }
+  });
+});
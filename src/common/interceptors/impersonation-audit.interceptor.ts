@@ -0,0 +1,92 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  ForbiddenException,
+  HttpStatus,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Observable, throwError } from 'rxjs';
+import { tap, catchError } from 'rxjs/operators';
+import { Request, Response } from 'express';
+import { BLOCK_IMPERSONATION_KEY } from '../decorators/block-impersonation.decorator';
+import { ImpersonationService } from '../../modules/admin/services/impersonation.service';
+import { ImpersonationAuditEvent } from '../../modules/admin/schemas/impersonation-audit-log.schema';
+
+/**
+ * Writes every request made with an impersonation token to the audit
+ * collection and rejects routes marked with @BlockImpersonation().
+ *
+ * Registered globally (APP_INTERCEPTOR) so it runs after the route guards
+ * have populated request.user.
+ */
+@Injectable()
+export class ImpersonationAuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly impersonationService: ImpersonationService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const user = (request as any).user;
+
+    if (!user?.impersonatedBy) {
+      return next.handle();
+    }
+
+    const entry = {
+      impersonationId: user.impersonationId,
+      impersonatorId: user.impersonatedBy,
+      targetUserId: user.id,
+      method: request.method,
+      path: request.originalUrl.split('?')[0],
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent'],
+    };
+
+    const blocked = this.reflector.getAllAndOverride<boolean>(
+      BLOCK_IMPERSONATION_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (blocked) {
+      void this.impersonationService.record({
+        ...entry,
+        event: ImpersonationAuditEvent.BLOCKED,
+        statusCode: HttpStatus.FORBIDDEN,
+      });
+      throw new ForbiddenException(
+        'This action is not allowed while impersonating a user',
+      );
+    }
+
+    const startTime = Date.now();
+
+    return next.handle().pipe(
+      tap(() => {
+        const response = context.switchToHttp().getResponse<Response>();
+        void this.impersonationService.record({
+          ...entry,
+          event: ImpersonationAuditEvent.REQUEST,
+          statusCode: response.statusCode,
+          durationMs: Date.now() - startTime,
+        });
+      }),
+      catchError((error) => {
+        void this.impersonationService.record({
+          ...entry,
+          event: ImpersonationAuditEvent.REQUEST,
+          statusCode: error.status || HttpStatus.INTERNAL_SERVER_ERROR,
+          durationMs: Date.now() - startTime,
+        });
+        return throwError(() => error);
+      }),
+    );
+  }
+}
@@ -44,6 +44,34 @@ export class SecurityLoggerInterceptor implements NestInterceptor {
       tap(() => {
         const duration = Date.now() - startTime;
 
+        // Admin lifted a login lockout
+        if (this.isUnlockOperation(url)) {
+          this.logger.log({
+            event: 'ACCOUNT_UNLOCKED',
+            method,
+            url: this.sanitizeUrl(url),
+            ip: clientIp,
+            user: user?.email || 'unknown',
+            userId: user?.id,
+            role: user?.role,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        // A user or admin signed a device out
+        if (method === 'DELETE' && this.isSessionRevocation(url)) {
+          this.logger.log({
+            event: 'SESSION_REVOKED',
+            method,
+            url: this.sanitizeUrl(url),
+            ip: clientIp,
+            user: user?.email || 'unknown',
+            userId: user?.id,
+            role: user?.role,
+            timestamp: new Date().toISOString(),
+          });
+        }
+
         // Log successful security-sensitive operations
         if (this.isSecuritySensitive(url)) {
           this.logger.log({
@@ -62,8 +90,22 @@ export class SecurityLoggerInterceptor implements NestInterceptor {
       catchError((error) => {
         const duration = Date.now() - startTime;
 
-        // Log authentication/authorization failures
-        if (error.status === 401) {
+        // Log brute-force lockouts raised by LoginAttemptService
+        if (error.status === 423) {
+          const lockout = error.getResponse?.()?.lockout;
+          this.logger.warn({
+            event: lockout?.triggered
+              ? 'ACCOUNT_LOCKOUT'
+              : 'LOCKED_LOGIN_ATTEMPT',
+            scope: lockout?.scope,
+            lockedUntil: lockout?.lockedUntil,
+            method,
+            url: this.sanitizeUrl(url),
+            ip: clientIp,
+            userAgent,
+            timestamp: new Date().toISOString(),
+          });
+        } else if (error.status === 401) {
           this.logger.warn({
             event: 'UNAUTHORIZED_ACCESS_ATTEMPT',
             method,
@@ -132,11 +174,20 @@ export class SecurityLoggerInterceptor implements NestInterceptor {
       '/auth/register',
       '/auth/forgot-password',
       '/auth/reset-password',
+      '/auth/magic-link',
       '/invitation/',
     ];
     return authPatterns.some((pattern) => url.includes(pattern));
   }
 
+  private isUnlockOperation(url: string): boolean {
+    return /\/users\/[^/]+\/unlock/.test(url);
+  }
+
+  private isSessionRevocation(url: string): boolean {
+    return /\/sessions(\/[^/?]+)?(\?|$)/.test(url);
+  }
+
   private isSecuritySensitive(url: string): boolean {
     const sensitivePatterns = [
       '/invitation',
@@ -0,0 +1,79 @@
+import { AccommodationUtil } from './accommodation.util';
+import { ProctoringProfile } from '../../modules/exams/schemas/exam.schema';
+import { ViolationType } from '../../modules/proctoring/schemas/violation.schema';
+
+describe('AccommodationUtil', () => {
+  const start = new Date('2026-01-01T10:00:00Z');
+
+  const timeAndAHalf = AccommodationUtil.normalize({
+    timeMultiplier: 1.5,
+    extraMinutes: 10,
+    breakMinutes: 15,
+    proctoringProfile: ProctoringProfile.RELAXED,
+  });
+
+  describe('durationMinutes', () => {
+    it('should apply the multiplier before the extra minutes', () => {
+      expect(AccommodationUtil.durationMinutes(60, timeAndAHalf)).toBe(100);
+      expect(AccommodationUtil.sectionMinutes(20, timeAndAHalf)).toBe(30);
+    });
+
+    it('should leave durations unchanged without accommodations', () => {
+      expect(AccommodationUtil.durationMinutes(60)).toBe(60);
+      expect(AccommodationUtil.sectionMinutes(undefined, timeAndAHalf)).toBe(
+        undefined,
+      );
+    });
+  });
+
+  describe('remainingBreakMinutes', () => {
+    it('should subtract finished breaks only', () => {
+      const breaks = [
+        { startedAt: start, endedAt: start, reservedMinutes: 15, minutes: 6 },
+        { startedAt: start, reservedMinutes: 9 },
+      ];
+
+      expect(
+        AccommodationUtil.remainingBreakMinutes(timeAndAHalf, breaks),
+      ).toBe(9);
+      expect(AccommodationUtil.activeBreak(breaks)).toBe(breaks[1]);
+    });
+  });
+
+  describe('proctoringRules', () => {
+    const settings = { violationWarningLimit: 3, autoSubmitOnViolation: true };
+
+    it('should not count assistive-tech triggers under the relaxed profile', () => {
+      const rules = AccommodationUtil.proctoringRules(
+        settings,
+        ViolationType.TAB_SWITCH,
+        timeAndAHalf,
+      );
+
+      expect(rules).toEqual({
+        countsTowardLimit: false,
+        violationLimit: 6,
+        autoSubmit: false,
+      });
+      expect(
+        AccommodationUtil.proctoringRules(
+          settings,
+          ViolationType.MULTIPLE_FACES,
+          timeAndAHalf,
+        ).countsTowardLimit,
+      ).toBe(true);
+    });
+
+    it('should not count violations during a break', () => {
+      const rules = AccommodationUtil.proctoringRules(
+        settings,
+        ViolationType.NO_FACE,
+        undefined,
+        true,
+      );
+
+      expect(rules.countsTowardLimit).toBe(false);
+      expect(rules.autoSubmit).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  Accommodations,
+  ProctoringProfile,
+} from '../../modules/exams/schemas/exam.schema';
+import { SessionBreak } from '../../modules/proctoring/schemas/exam-session.schema';
+import { ViolationType } from '../../modules/proctoring/schemas/violation.schema';
+
+// Violations that screen readers, magnifiers and dictation software trigger
+// on their own. Under the relaxed profile they are recorded but not counted.
+const ASSISTIVE_TECH_VIOLATIONS: string[] = [
+  ViolationType.TAB_SWITCH,
+  ViolationType.FULLSCREEN_EXIT,
+  ViolationType.COPY_PASTE,
+  ViolationType.RIGHT_CLICK,
+];
+
+export interface ProctoringRules {
+  countsTowardLimit: boolean;
+  violationLimit: number;
+  autoSubmit: boolean;
+}
+
+/**
+ * Per-candidate accommodations: longer durations, paused breaks and a
+ * relaxed proctoring profile. A missing accommodation means the exam's own
+ * settings apply unchanged.
+ */
+export class AccommodationUtil {
+  static normalize(
+    accommodations?: Partial<Accommodations> | null,
+  ): Accommodations | undefined {
+    if (!accommodations) {
+      return undefined;
+    }
+
+    return {
+      timeMultiplier: Math.max(1, accommodations.timeMultiplier || 1),
+      extraMinutes: Math.max(0, accommodations.extraMinutes || 0),
+      breakMinutes: Math.max(0, accommodations.breakMinutes || 0),
+      proctoringProfile:
+        accommodations.proctoringProfile || ProctoringProfile.STANDARD,
+      notes: accommodations.notes,
+    };
+  }
+
+  /**
+   * Accommodations of an enrolled candidate, if any were set
+   */
+  static forCandidate(
+    exam: {
+      candidateAccommodations?: Array<{
+        candidateId: any;
+        accommodations: Accommodations;
+      }>;
+    },
+    candidateId: string,
+  ): Accommodations | undefined {
+    const entry = (exam.candidateAccommodations || []).find(
+      (item) => item.candidateId?.toString() === candidateId,
+    );
+    return this.normalize(entry?.accommodations);
+  }
+
+  /**
+   * Exam duration in minutes for this candidate
+   */
+  static durationMinutes(
+    baseMinutes: number,
+    accommodations?: Accommodations,
+  ): number {
+    if (!accommodations) {
+      return baseMinutes;
+    }
+    return (
+      Math.ceil(baseMinutes * accommodations.timeMultiplier) +
+      accommodations.extraMinutes
+    );
+  }
+
+  /**
+   * Section duration in minutes; only the multiplier applies per section
+   */
+  static sectionMinutes(
+    baseMinutes: number | undefined,
+    accommodations?: Accommodations,
+  ): number | undefined {
+    if (!baseMinutes || !accommodations) {
+      return baseMinutes;
+    }
+    return Math.ceil(baseMinutes * accommodations.timeMultiplier);
+  }
+
+  static activeBreak(breaks?: SessionBreak[]): SessionBreak | undefined {
+    return (breaks || []).find((item) => !item.endedAt);
+  }
+
+  /**
+   * Break budget left, excluding any break still in progress
+   */
+  static remainingBreakMinutes(
+    accommodations: Accommodations | undefined,
+    breaks?: SessionBreak[],
+  ): number {
+    const used = (breaks || [])
+      .filter((item) => item.endedAt)
+      .reduce((sum, item) => sum + (item.minutes || 0), 0);
+    return Math.max(0, (accommodations?.breakMinutes || 0) - used);
+  }
+
+  /**
+   * How a violation is handled for this candidate. Nothing counts while the
+   * candidate is on a break, since they are expected to leave the screen.
+   */
+  static proctoringRules(
+    settings: {
+      violationWarningLimit?: number;
+      autoSubmitOnViolation?: boolean;
+    },
+    type: string,
+    accommodations?: Accommodations,
+    onBreak = false,
+  ): ProctoringRules {
+    const limit = settings.violationWarningLimit || 3;
+    const relaxed =
+      accommodations?.proctoringProfile === ProctoringProfile.RELAXED;
+
+    return {
+      countsTowardLimit:
+        !onBreak && !(relaxed && ASSISTIVE_TECH_VIOLATIONS.includes(type)),
+      violationLimit: relaxed ? limit * 2 : limit,
+      autoSubmit: !relaxed && !!settings.autoSubmitOnViolation,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { DifficultyLevel } from '../../modules/questions/schemas/question.schema';
+import { AdaptiveTestingUtil } from './adaptive-testing.util';
+
+describe('AdaptiveTestingUtil', () => {
+  describe('itemDifficulty', () => {
+    it('should fall back to the difficulty level for uncalibrated items', () => {
+      expect(
+        AdaptiveTestingUtil.itemDifficulty({
+          difficulty: DifficultyLevel.HARD,
+          analytics: { difficultyIndex: 0.1, totalAttempts: 3 },
+        }),
+      ).toBe(1.5);
+    });
+
+    it('should use the observed error rate once calibrated', () => {
+      const easy = AdaptiveTestingUtil.itemDifficulty({
+        difficulty: DifficultyLevel.HARD,
+        analytics: { difficultyIndex: 0.2, totalAttempts: 100 },
+      });
+
+      expect(easy).toBeCloseTo(Math.log(0.2 / 0.8));
+    });
+  });
+
+  describe('estimateAbility', () => {
+    it('should start at the prior mean', () => {
+      const estimate = AdaptiveTestingUtil.estimateAbility([]);
+
+      expect(estimate.ability).toBeCloseTo(0, 5);
+      expect(estimate.standardError).toBeCloseTo(1, 1);
+    });
+
+    it('should rise with correct answers and stay finite', () => {
+      const responses = [0, 0.5, 1].map((difficulty, i) => ({
+        questionId: `q${i}`,
+        difficulty,
+        correct: true,
+      }));
+
+      const estimate = AdaptiveTestingUtil.estimateAbility(responses);
+
+      expect(estimate.ability).toBeGreaterThan(0);
+      expect(Number.isFinite(estimate.ability)).toBe(true);
+      expect(estimate.standardError).toBeLessThan(1);
+    });
+  });
+
+  describe('selectNextItem', () => {
+    it('should pick the item closest to the ability', () => {
+      const items = [
+        { difficulty: -2 },
+        { difficulty: 0.9 },
+        { difficulty: 3 },
+      ];
+
+      expect(AdaptiveTestingUtil.selectNextItem(items, 1, () => 0, 1)).toBe(
+        items[1],
+      );
+    });
+  });
+
+  describe('shouldStop', () => {
+    const rule = {
+      minQuestions: 3,
+      maxQuestions: 10,
+      targetStandardError: 0.4,
+    };
+
+    it('should not stop before the minimum', () => {
+      expect(
+        AdaptiveTestingUtil.shouldStop(
+          { ability: 0, standardError: 0.1 },
+          2,
+          rule,
+        ),
+      ).toBe(false);
+    });
+
+    it('should stop once precise enough or at the maximum', () => {
+      expect(
+        AdaptiveTestingUtil.shouldStop(
+          { ability: 0, standardError: 0.3 },
+          4,
+          rule,
+        ),
+      ).toBe(true);
+      expect(
+        AdaptiveTestingUtil.shouldStop(
+          { ability: 0, standardError: 0.9 },
+          10,
+          rule,
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('abilityToPercentage', () => {
+    it('should map average ability to 50', () => {
+      expect(AdaptiveTestingUtil.abilityToPercentage(0)).toBeCloseTo(50, 5);
+      expect(AdaptiveTestingUtil.abilityToPercentage(1)).toBeCloseTo(84.13, 1);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { DifficultyLevel } from '../../modules/questions/schemas/question.schema';
+
+export interface AdaptiveResponse {
+  questionId: string;
+  difficulty: number;
+  correct: boolean;
+}
+
+export interface AbilityEstimate {
+  ability: number;
+  standardError: number;
+}
+
+export interface AdaptiveStopRule {
+  minQuestions: number;
+  maxQuestions: number;
+  targetStandardError?: number;
+}
+
+// Item difficulty (logits) for questions without enough attempts to calibrate
+export const DIFFICULTY_LEVEL_LOGITS: Record<DifficultyLevel, number> = {
+  [DifficultyLevel.EASY]: -1.5,
+  [DifficultyLevel.MEDIUM]: 0,
+  [DifficultyLevel.HARD]: 1.5,
+  [DifficultyLevel.EXPERT]: 2.5,
+};
+
+// Attempts needed before analytics.difficultyIndex is trusted
+export const MIN_CALIBRATION_ATTEMPTS = 30;
+
+// Ability grid for the posterior, in logits
+const GRID_MIN = -4;
+const GRID_MAX = 4;
+const GRID_STEP = 0.1;
+
+/**
+ * Computerized adaptive testing under the Rasch (1PL) model.
+ *
+ * Ability is estimated as the expected a posteriori (EAP) value with a
+ * standard normal prior, which stays finite for all-correct or all-wrong
+ * response patterns. The next item is the one whose difficulty is closest
+ * to the current ability, i.e. the most informative one.
+ */
+export class AdaptiveTestingUtil {
+  /**
+   * Difficulty of a question in logits, from its observed error rate once
+   * calibrated, otherwise from its difficulty level
+   */
+  static itemDifficulty(question: {
+    difficulty?: DifficultyLevel | string;
+    analytics?: { difficultyIndex?: number; totalAttempts?: number };
+  }): number {
+    const analytics = question.analytics;
+    if (
+      analytics?.totalAttempts >= MIN_CALIBRATION_ATTEMPTS &&
+      analytics.difficultyIndex !== undefined
+    ) {
+      // difficultyIndex is the share of wrong answers: 0 = easy, 1 = hard
+      const p = Math.min(0.98, Math.max(0.02, analytics.difficultyIndex));
+      return Math.log(p / (1 - p));
+    }
+
+    return DIFFICULTY_LEVEL_LOGITS[question.difficulty as DifficultyLevel] ?? 0;
+  }
+
+  static probabilityCorrect(ability: number, difficulty: number): number {
+    return 1 / (1 + Math.exp(difficulty - ability));
+  }
+
+  static estimateAbility(responses: AdaptiveResponse[]): AbilityEstimate {
+    let weightSum = 0;
+    let mean = 0;
+    let meanOfSquares = 0;
+
+    for (let theta = GRID_MIN; theta <= GRID_MAX + 1e-9; theta += GRID_STEP) {
+      let weight = Math.exp((-theta * theta) / 2);
+      for (const response of responses) {
+        const p = this.probabilityCorrect(theta, response.difficulty);
+        weight *= response.correct ? p : 1 - p;
+      }
+
+      weightSum += weight;
+      mean += weight * theta;
+      meanOfSquares += weight * theta * theta;
+    }
+
+    mean /= weightSum;
+    const variance = meanOfSquares / weightSum - mean * mean;
+
+    return {
+      ability: mean,
+      standardError: Math.sqrt(Math.max(0, variance)),
+    };
+  }
+
+  /**
+   * Ability as a 0-100 score: the share of the reference population
+   * (standard normal) the candidate is estimated to outperform
+   */
+  static abilityToPercentage(ability: number): number {
+    return this.normalCdf(ability) * 100;
+  }
+
+  static shouldStop(
+    estimate: AbilityEstimate,
+    itemsServed: number,
+    rule: AdaptiveStopRule,
+  ): boolean {
+    if (itemsServed >= rule.maxQuestions) {
+      return true;
+    }
+    if (itemsServed < rule.minQuestions) {
+      return false;
+    }
+    return (
+      rule.targetStandardError !== undefined &&
+      estimate.standardError <= rule.targetStandardError
+    );
+  }
+
+  /**
+   * Pick the next item among the most informative ones
+   * @param spread How many of the closest items to choose from, which limits
+   * how often the same item is exposed to every candidate
+   */
+  static selectNextItem<T extends { difficulty: number }>(
+    items: T[],
+    ability: number,
+    random: () => number = Math.random,
+    spread = 3,
+  ): T | null {
+    if (items.length === 0) {
+      return null;
+    }
+
+    const closest = [...items]
+      .sort(
+        (a, b) =>
+          Math.abs(a.difficulty - ability) - Math.abs(b.difficulty - ability),
+      )
+      .slice(0, spread);
+
+    return closest[Math.floor(random() * closest.length)];
+  }
+
+  // Abramowitz and Stegun 7.1.26
+  private static normalCdf(x: number): number {
+    const z = Math.abs(x) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * z);
+    const erf =
+      1 -
+      ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+        t +
+        0.254829592) *
+        t *
+        Math.exp(-z * z);
+
+    return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+  }
+}
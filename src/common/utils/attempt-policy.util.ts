@@ -0,0 +1,115 @@
+import { AttemptScoringPolicy } from '../../modules/exams/schemas/exam.schema';
+
+export interface AttemptScore {
+  attemptNumber: number;
+  scoring: {
+    totalScore: number;
+    totalMarks: number;
+    percentage: number;
+    passed: boolean;
+  };
+}
+
+export interface EffectiveScoring {
+  policy: AttemptScoringPolicy;
+  attemptsCounted: number;
+  totalScore: number;
+  totalMarks: number;
+  percentage: number;
+  passed: boolean;
+}
+
+/**
+ * Decides which of a candidate's attempts represents them under an exam's
+ * attempt scoring policy, and what score that representation carries.
+ */
+export class AttemptPolicyUtil {
+  /**
+   * Attempt that counts toward ranking, shortlisting and certificates.
+   * AVERAGE has no single best attempt, so the latest one carries the average.
+   */
+  static selectCountedAttempt<T extends AttemptScore>(
+    attempts: T[],
+    policy: AttemptScoringPolicy = AttemptScoringPolicy.BEST,
+  ): T | null {
+    if (attempts.length === 0) {
+      return null;
+    }
+
+    const byAttempt = [...attempts].sort(
+      (a, b) => a.attemptNumber - b.attemptNumber,
+    );
+
+    switch (policy) {
+      case AttemptScoringPolicy.FIRST:
+        return byAttempt[0];
+      case AttemptScoringPolicy.LATEST:
+      case AttemptScoringPolicy.AVERAGE:
+        return byAttempt[byAttempt.length - 1];
+      case AttemptScoringPolicy.BEST:
+      default:
+        // Earliest attempt wins a tie
+        return byAttempt.reduce((best, attempt) =>
+          attempt.scoring.percentage > best.scoring.percentage ? attempt : best,
+        );
+    }
+  }
+
+  /**
+   * Score a candidate is ranked by under the policy
+   */
+  static getEffectiveScoring(
+    attempts: AttemptScore[],
+    policy: AttemptScoringPolicy = AttemptScoringPolicy.BEST,
+    passingPercentage?: number,
+  ): EffectiveScoring | null {
+    const counted = this.selectCountedAttempt(attempts, policy);
+    if (!counted) {
+      return null;
+    }
+
+    if (policy !== AttemptScoringPolicy.AVERAGE) {
+      return {
+        policy,
+        attemptsCounted: 1,
+        totalScore: counted.scoring.totalScore,
+        totalMarks: counted.scoring.totalMarks,
+        percentage: counted.scoring.percentage,
+        passed: counted.scoring.passed,
+      };
+    }
+
+    const average = (values: number[]) =>
+      values.reduce((sum, value) => sum + value, 0) / values.length;
+    const percentage = average(attempts.map((a) => a.scoring.percentage));
+
+    return {
+      policy,
+      attemptsCounted: attempts.length,
+      totalScore: average(attempts.map((a) => a.scoring.totalScore)),
+      totalMarks: average(attempts.map((a) => a.scoring.totalMarks)),
+      percentage,
+      passed:
+        passingPercentage !== undefined
+          ? percentage >= passingPercentage
+          : counted.scoring.passed,
+    };
+  }
+
+  /**
+   * Scoring to rank a stored result by: the policy score on counted
+   * attempts, falling back to the attempt's own scoring
+   */
+  static scoreOf(result: {
+    scoring?: { totalScore: number; percentage: number; passed: boolean };
+    effectiveScoring?: Pick<
+      EffectiveScoring,
+      'totalScore' | 'percentage' | 'passed'
+    >;
+  }): { totalScore: number; percentage: number; passed: boolean } {
+    return (
+      result.effectiveScoring ||
+      result.scoring || { totalScore: 0, percentage: 0, passed: false }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { CandidateQuestionUtil } from './candidate-question.util';
+import {
+  CodingLanguage,
+  QuestionType,
+} from '../../modules/questions/schemas/question.schema';
+
+describe('CandidateQuestionUtil', () => {
+  const multipleChoice = {
+    _id: 'q1',
+    text: 'Which structure gives O(1) average lookup?',
+    type: QuestionType.MULTIPLE_CHOICE,
+    marks: 2,
+    options: [
+      { id: 'a', text: 'Linked list', isCorrect: false },
+      { id: 'b', text: 'Hash table', isCorrect: true },
+    ],
+    correctAnswer: 'b',
+    explanation: 'Hashing maps keys straight to buckets',
+    tags: ['hashing'],
+    analytics: { correctAttempts: 40, totalAttempts: 50 },
+    createdBy: 'author-1',
+    organizationId: 'org-1',
+  };
+
+  const coding = {
+    _id: 'q2',
+    text: 'Return the sum of two integers read from stdin',
+    type: QuestionType.CODING,
+    marks: 10,
+    correctAnswer: 'print(sum(map(int, input().split())))',
+    codingDetails: {
+      language: [CodingLanguage.PYTHON],
+      starterCode: 'def solve():',
+      timeLimit: 2000,
+      memoryLimit: 256,
+      testCases: [
+        { input: '1 2', expectedOutput: '3', isHidden: false, points: 5 },
+        { input: '-4 9', expectedOutput: '5', isHidden: true, points: 5 },
+      ],
+    },
+  };
+
+  describe('serialize', () => {
+    it('should never include the answer key', () => {
+      const json = JSON.stringify(
+        CandidateQuestionUtil.serializeMany([multipleChoice, coding]),
+      );
+
+      expect(json).not.toContain('isCorrect');
+      expect(json).not.toContain('correctAnswer');
+      expect(json).not.toContain('explanation');
+      expect(json).not.toContain('isHidden');
+      expect(json).not.toContain('-4 9');
+    });
+
+    it('should keep only whitelisted fields', () => {
+      const view = CandidateQuestionUtil.serialize(multipleChoice);
+
+      expect(view.options).toEqual([
+        { id: 'a', text: 'Linked list' },
+        { id: 'b', text: 'Hash table' },
+      ]);
+      expect(view).not.toHaveProperty('tags');
+      expect(view).not.toHaveProperty('analytics');
+      expect(view).not.toHaveProperty('createdBy');
+      expect(view).not.toHaveProperty('organizationId');
+    });
+
+    it('should send only the visible test cases of coding questions', () => {
+      const view = CandidateQuestionUtil.serialize(coding);
+
+      expect(view.codingDetails).toEqual({
+        language: [CodingLanguage.PYTHON],
+        starterCode: 'def solve():',
+        testCases: [{ input: '1 2', expectedOutput: '3' }],
+        timeLimit: 2000,
+        memoryLimit: 256,
+      });
+    });
+
+    it('should read mongoose documents through toObject', () => {
+      const document = { toObject: () => multipleChoice };
+
+      const view = CandidateQuestionUtil.serialize(document);
+
+      expect(view._id).toBe('q1');
+      expect(view).not.toHaveProperty('correctAnswer');
+    });
+
+    it('should arrange options after stripping them', () => {
+      const view = CandidateQuestionUtil.serialize(multipleChoice, (options) =>
+        [...options].reverse(),
+      );
+
+      expect(view.options.map((option) => option.id)).toEqual(['b', 'a']);
+    });
+  });
+});
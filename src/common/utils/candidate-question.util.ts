@@ -0,0 +1,123 @@
+import {
+  CodingLanguage,
+  DifficultyLevel,
+  Question,
+  QuestionCategory,
+  QuestionType,
+} from '../../modules/questions/schemas/question.schema';
+
+export interface CandidateOption {
+  id: string;
+  text: string;
+}
+
+export interface CandidateTestCase {
+  input: string;
+  expectedOutput: string;
+}
+
+/**
+ * A question as a candidate may see it while sitting an exam
+ */
+export interface CandidateQuestion {
+  _id: any;
+  text: string;
+  type: QuestionType;
+  difficulty?: DifficultyLevel;
+  category?: QuestionCategory;
+  marks: number;
+  negativeMarks?: number;
+  estimatedTime?: number;
+  options: CandidateOption[];
+  hints?: string[];
+  attachments?: Array<{ type: string; url: string; caption?: string }>;
+  media?: { image?: string; video?: string; audio?: string };
+  codingDetails?: {
+    language: CodingLanguage[];
+    starterCode?: string;
+    testCases: CandidateTestCase[];
+    timeLimit?: number;
+    memoryLimit?: number;
+  };
+}
+
+/**
+ * Candidate-facing view of a Question. Fields are whitelisted rather than
+ * stripped, so grading data (correctAnswer, options[].isCorrect,
+ * explanation, hidden test cases) and anything added to the schema later
+ * stays on the server unless it is listed here.
+ */
+export class CandidateQuestionUtil {
+  /**
+   * @param question Question document or plain object
+   * @param arrangeOptions Applied to the options, e.g. a shuffle
+   */
+  static serialize(
+    question: Partial<Question> | Record<string, any>,
+    arrangeOptions: (options: CandidateOption[]) => CandidateOption[] = (o) =>
+      o,
+  ): CandidateQuestion {
+    const source: Record<string, any> =
+      typeof (question as any).toObject === 'function'
+        ? (question as any).toObject()
+        : question;
+
+    const view: CandidateQuestion = {
+      _id: source._id,
+      text: source.text,
+      type: source.type,
+      difficulty: source.difficulty,
+      category: source.category,
+      marks: source.marks,
+      negativeMarks: source.negativeMarks,
+      estimatedTime: source.estimatedTime,
+      options: arrangeOptions(
+        (source.options || []).map((option) => ({
+          id: option.id,
+          text: option.text,
+        })),
+      ),
+      hints: source.hints,
+      attachments: source.attachments?.map((attachment) => ({
+        type: attachment.type,
+        url: attachment.url,
+        caption: attachment.caption,
+      })),
+      media: source.media
+        ? {
+            image: source.media.image,
+            video: source.media.video,
+            audio: source.media.audio,
+          }
+        : undefined,
+    };
+
+    if (source.codingDetails) {
+      const coding = source.codingDetails;
+      view.codingDetails = {
+        language: coding.language,
+        starterCode: coding.starterCode,
+        // Hidden test cases are only run by the grader
+        testCases: (coding.testCases || [])
+          .filter((testCase) => !testCase.isHidden)
+          .map((testCase) => ({
+            input: testCase.input,
+            expectedOutput: testCase.expectedOutput,
+          })),
+        timeLimit: coding.timeLimit,
+        memoryLimit: coding.memoryLimit,
+      };
+    }
+
+    return view;
+  }
+
+  static serializeMany(
+    questions: Array<Partial<Question> | Record<string, any>>,
+    arrangeOptions?: (options: CandidateOption[]) => CandidateOption[],
+  ): CandidateQuestion[] {
+    return questions.map((question) =>
+      this.serialize(question, arrangeOptions),
+    );
+  }
+}
@@ -1,5 +1,31 @@
 // Grading Utilities
 export * from './grading.util';
+export * from './attempt-policy.util';
+
+// Exam Section Utilities
+export * from './section-navigation.util';
+
+// Adaptive Testing Utilities
+export * from './adaptive-testing.util';
+
+// Candidate Accommodation Utilities
+export * from './accommodation.util';
+
+// Candidate Question View Utilities
+export * from './candidate-question.util';
 
 // Role & Permission Utilities
-export { RolePermissions } from './role-permissions.util';
+export { RolePermissions, Permission } from './role-permissions.util';
+
+// Secure Token Utilities
+export { SecureTokenUtil } from './secure-token.util';
+
+// Outbound Request Utilities
+export { OutboundUrlUtil } from './outbound-url.util';
+
+// TOTP (Two-Factor Authentication) Utilities
+export { TotpUtil, TotpOptions } from './totp.util';
+
+// QTI 2.1 Import/Export Utilities
+export * from './zip.util';
+export * from './qti.util';
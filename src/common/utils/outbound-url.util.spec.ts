@@ -0,0 +1,52 @@
+import { OutboundUrlUtil } from './outbound-url.util';
+
+describe('OutboundUrlUtil', () => {
+  describe('isPrivateAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '172.31.255.255',
+      '192.168.1.10',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '[::1]',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ])('should block %s', (address) => {
+      expect(OutboundUrlUtil.isPrivateAddress(address)).toBe(true);
+    });
+
+    it.each(['8.8.8.8', '172.32.0.1', '1.1.1.1', '2606:4700:4700::1111'])(
+      'should allow %s',
+      (address) => {
+        expect(OutboundUrlUtil.isPrivateAddress(address)).toBe(false);
+      },
+    );
+  });
+
+  describe('assertPublicHttps', () => {
+    it.each([
+      ['http://login.acme.com', 'URL must use https'],
+      ['https://localhost:8443', 'private or loopback'],
+      ['https://idp.localhost', 'private or loopback'],
+      ['https://127.0.0.1', 'private or loopback'],
+      ['https://[::1]/realms/acme', 'private or loopback'],
+      ['https://169.254.169.254/latest', 'private or loopback'],
+      ['not a url', 'Invalid URL'],
+    ])('should reject %s', async (url, message) => {
+      await expect(OutboundUrlUtil.assertPublicHttps(url)).rejects.toThrow(
+        message,
+      );
+    });
+
+    it('should accept a public https address', async () => {
+      await expect(
+        OutboundUrlUtil.assertPublicHttps('https://8.8.8.8/issuer'),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
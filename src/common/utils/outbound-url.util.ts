@@ -0,0 +1,95 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+// IPv4 ranges the server must never be made to call: loopback, private,
+// link-local (cloud metadata), carrier-grade NAT, multicast and reserved
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+/**
+ * Guards server-side requests to URLs supplied by tenants (e.g. an
+ * organization's SSO issuer) against reaching internal services.
+ */
+export class OutboundUrlUtil {
+  /**
+   * Whether an IP literal is loopback, private, link-local or reserved
+   */
+  static isPrivateAddress(address: string): boolean {
+    const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+
+    if (isIP(ip) === 4) {
+      const value = this.ipv4ToNumber(ip);
+      return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+        const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+        return (value & mask) >>> 0 === (this.ipv4ToNumber(base) & mask) >>> 0;
+      });
+    }
+
+    if (isIP(ip) === 6) {
+      // IPv4-mapped addresses are checked as IPv4
+      const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+      if (mapped) {
+        return this.isPrivateAddress(mapped[1]);
+      }
+      return (
+        ip === '::' ||
+        ip === '::1' ||
+        /^f[cd]/.test(ip) || // unique local fc00::/7
+        /^fe[89ab]/.test(ip) || // link-local fe80::/10
+        /^ff/.test(ip) // multicast
+      );
+    }
+
+    return false;
+  }
+
+  /**
+   * Reject URLs that are not https or whose host is, or resolves to, a
+   * private address
+   * @throws Error describing why the URL is not allowed
+   */
+  static async assertPublicHttps(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error('Invalid URL');
+    }
+
+    if (parsed.protocol !== 'https:') {
+      throw new Error('URL must use https');
+    }
+
+    const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (host === 'localhost' || host.endsWith('.localhost')) {
+      throw new Error('URL must not point to a private or loopback address');
+    }
+
+    const addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true })).map((entry) => entry.address);
+
+    if (addresses.some((address) => this.isPrivateAddress(address))) {
+      throw new Error('URL must not point to a private or loopback address');
+    }
+  }
+
+  private static ipv4ToNumber(ip: string): number {
+    return (
+      ip
+        .split('.')
+        .reduce((value, octet) => (value << 8) + Number(octet), 0) >>> 0
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { QtiQuestion, QtiUtil } from './qti.util';
+import { ZipUtil } from './zip.util';
+import { QuestionType } from '../../modules/questions/schemas/question.schema';
+
+describe('QtiUtil', () => {
+  const questions: QtiQuestion[] = [
+    {
+      _id: 'q1',
+      text: 'Which structure gives O(1) average lookup?',
+      type: QuestionType.MULTIPLE_CHOICE,
+      options: [
+        { id: 'a', text: 'Linked list', isCorrect: false },
+        { id: 'b', text: 'Hash <table>', isCorrect: true },
+      ],
+      correctAnswer: 'b',
+      explanation: 'Hashing maps keys straight to buckets',
+      marks: 2,
+      negativeMarks: 0.5,
+    },
+    {
+      _id: 'q2',
+      text: 'Which of these are JavaScript primitives?',
+      type: QuestionType.MULTIPLE_RESPONSE,
+      options: [
+        { id: 'a', text: 'string', isCorrect: true },
+        { id: 'b', text: 'Array', isCorrect: false },
+        { id: 'c', text: 'symbol', isCorrect: true },
+      ],
+      correctAnswer: ['a', 'c'],
+      marks: 3,
+      negativeMarks: 0,
+    },
+    {
+      _id: 'q3',
+      text: 'HTTP is a stateless protocol.',
+      type: QuestionType.TRUE_FALSE,
+      options: [
+        { id: 'true', text: 'True', isCorrect: true },
+        { id: 'false', text: 'False', isCorrect: false },
+      ],
+      correctAnswer: true,
+      marks: 1,
+    },
+    {
+      _id: 'q4',
+      text: 'The ___ keyword declares a block-scoped constant.',
+      type: QuestionType.FILL_BLANK,
+      correctAnswer: 'const',
+      marks: 1,
+    },
+    {
+      _id: 'q5',
+      text: 'Explain the CAP theorem.\nGive an example.',
+      type: QuestionType.ESSAY,
+      marks: 10,
+    },
+    {
+      _id: 'q6',
+      text: 'Reverse a linked list in place.',
+      type: QuestionType.CODING,
+      marks: 5,
+    },
+  ];
+
+  it('should round-trip every question type through a package', () => {
+    const archive = QtiUtil.buildPackage({
+      identifier: 'TEST_1',
+      title: 'Fundamentals',
+      sections: [{ title: 'All', questions }],
+    });
+
+    const items = QtiUtil.readPackage(archive);
+    const imported = items.map((item) => QtiUtil.parseItem(item.xml).question);
+
+    expect(items.map((item) => item.href)).toEqual(
+      questions.map((q) => `items/ITEM_${q._id}.xml`),
+    );
+    expect(imported[0]).toMatchObject({
+      type: QuestionType.MULTIPLE_CHOICE,
+      options: questions[0].options,
+      correctAnswer: 'b',
+      marks: 2,
+      negativeMarks: 0.5,
+      explanation: 'Hashing maps keys straight to buckets',
+    });
+    expect(imported[1]).toMatchObject({
+      type: QuestionType.MULTIPLE_RESPONSE,
+      correctAnswer: ['a', 'c'],
+      marks: 3,
+    });
+    expect(imported[2]).toMatchObject({
+      type: QuestionType.TRUE_FALSE,
+      correctAnswer: true,
+    });
+    expect(imported[3]).toMatchObject({
+      text: 'The _____ keyword declares a block-scoped constant.',
+      type: QuestionType.FILL_BLANK,
+      correctAnswer: 'const',
+    });
+    expect(imported[4]).toMatchObject({
+      text: 'Explain the CAP theorem.\nGive an example.',
+      type: QuestionType.ESSAY,
+      marks: 10,
+    });
+    expect(imported[5].type).toBe(QuestionType.CODING);
+  });
+
+  it('should infer the type of items from other tools', () => {
+    const { question } = QtiUtil.parseItem(`<?xml version="1.0"?>
+      <qti:assessmentItem xmlns:qti="http://www.imsglobal.org/xsd/imsqti_v2p1"
+        identifier="ext1" title="Primes" adaptive="false" timeDependent="false">
+        <qti:responseDeclaration identifier="R1" cardinality="multiple" baseType="identifier">
+          <qti:mapping defaultValue="0">
+            <qti:mapEntry mapKey="two" mappedValue="1"/>
+            <qti:mapEntry mapKey="four" mappedValue="-1"/>
+            <qti:mapEntry mapKey="five" mappedValue="1"/>
+          </qti:mapping>
+        </qti:responseDeclaration>
+        <qti:itemBody>
+          <qti:p>Select every prime number below ten.</qti:p>
+          <qti:choiceInteraction responseIdentifier="R1" maxChoices="3">
+            <qti:simpleChoice identifier="two">2</qti:simpleChoice>
+            <qti:simpleChoice identifier="four">4</qti:simpleChoice>
+            <qti:simpleChoice identifier="five">5</qti:simpleChoice>
+          </qti:choiceInteraction>
+        </qti:itemBody>
+      </qti:assessmentItem>`);
+
+    expect(question).toMatchObject({
+      text: 'Select every prime number below ten.',
+      type: QuestionType.MULTIPLE_RESPONSE,
+      correctAnswer: ['two', 'five'],
+      marks: 1,
+      negativeMarks: 0,
+    });
+  });
+
+  it('should report items that cannot be represented', () => {
+    const result = QtiUtil.parseItem(`<assessmentItem identifier="m1">
+        <itemBody><matchInteraction responseIdentifier="RESPONSE"/></itemBody>
+      </assessmentItem>`);
+    const malformed = QtiUtil.parseItem('<assessmentItem><itemBody>');
+
+    expect(result.error).toEqual({
+      field: 'itemBody',
+      error: 'matchInteraction is not supported',
+    });
+    expect(malformed.error.field).toBe('xml');
+  });
+
+  it('should reject archives without a manifest', () => {
+    const archive = ZipUtil.create([
+      { name: 'item.xml', data: Buffer.from('<assessmentItem/>') },
+    ]);
+
+    expect(() => QtiUtil.readPackage(archive)).toThrow(
+      'Package has no imsmanifest.xml',
+    );
+    expect(() => QtiUtil.readPackage(Buffer.from('not a zip'))).toThrow(
+      'Not a zip archive',
+    );
+  });
+});
@@ -0,0 +1,750 @@
+import { posix } from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { QuestionType } from '../../modules/questions/schemas/question.schema';
+import { ZipEntry, ZipUtil } from './zip.util';
+
+export interface QtiQuestion {
+  _id?: unknown;
+  text: string;
+  type: QuestionType;
+  options?: Array<{ id: string; text: string; isCorrect?: boolean }>;
+  correctAnswer?: any;
+  explanation?: string;
+  marks: number;
+  negativeMarks?: number;
+}
+
+export interface QtiTest {
+  identifier: string;
+  title: string;
+  sections: Array<{ title: string; questions: QtiQuestion[] }>;
+}
+
+export interface QtiPackageItem {
+  identifier: string;
+  href: string;
+  xml?: string; // undefined when the manifest points at a missing file
+}
+
+export interface QtiItemResult {
+  question?: QtiQuestion;
+  error?: { field: string; error: string };
+}
+
+// fast-xml-parser preserveOrder node: { tag: children[], ':@': attributes }
+type XmlNode = Record<string, any>;
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA = 'http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd';
+const CP_NAMESPACE = 'http://www.imsglobal.org/xsd/imscp_v1p1';
+const CP_SCHEMA =
+  'http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd';
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+
+const ATTRIBUTES = ':@';
+const RESPONSE = 'RESPONSE';
+const BLANK = '_____';
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const BLOCK_TAGS = new Set([
+  'p',
+  'div',
+  'prompt',
+  'pre',
+  'blockquote',
+  'li',
+  'tr',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+]);
+
+// Free-text types, scored by a person
+const EXTENDED_TEXT_TYPES = [
+  QuestionType.SHORT_ANSWER,
+  QuestionType.ESSAY,
+  QuestionType.SUBJECTIVE,
+  QuestionType.CODING,
+];
+
+/**
+ * IMS QTI 2.1 content packages: questions map to assessmentItems
+ * (choiceInteraction, textEntryInteraction or extendedTextInteraction), an
+ * exam to an assessmentTest, bundled in a zip with imsmanifest.xml.
+ * The question type is kept in the item label for a lossless round trip.
+ */
+export class QtiUtil {
+  static buildPackage(test: QtiTest): Buffer {
+    const files: ZipEntry[] = [];
+    const resources: string[] = [];
+    const seen = new Set<string>();
+
+    const sections = test.sections.map((section, index) => {
+      const refs = section.questions.map((question) => {
+        const identifier = `ITEM_${question._id ?? files.length + 1}`;
+        if (seen.has(identifier)) {
+          return '';
+        }
+        seen.add(identifier);
+
+        const href = `items/${identifier}.xml`;
+        files.push({
+          name: href,
+          data: Buffer.from(this.buildItem(question, identifier), 'utf8'),
+        });
+        resources.push(
+          `<resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="${href}">` +
+            `<file href="${href}"/></resource>`,
+        );
+        return `<assessmentItemRef identifier="${identifier}" href="${href}"/>`;
+      });
+
+      return (
+        `<assessmentSection identifier="SECTION_${index + 1}" title="${this.escape(section.title)}" visible="true">` +
+        refs.join('') +
+        '</assessmentSection>'
+      );
+    });
+
+    const testXml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<assessmentTest ${this.namespaces(QTI_NAMESPACE, QTI_SCHEMA)} identifier="${test.identifier}" title="${this.escape(test.title)}">`,
+      '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+      '<testPart identifier="PART_1" navigationMode="nonlinear" submissionMode="simultaneous">',
+      ...sections,
+      '</testPart>',
+      '<outcomeProcessing><setOutcomeValue identifier="SCORE"><sum><testVariables variableIdentifier="SCORE"/></sum></setOutcomeValue></outcomeProcessing>',
+      '</assessmentTest>',
+    ].join('\n');
+
+    const itemRefs = [...seen]
+      .map((identifier) => `<dependency identifierref="${identifier}"/>`)
+      .join('');
+    const manifest = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<manifest ${this.namespaces(CP_NAMESPACE, CP_SCHEMA)} identifier="MANIFEST_${test.identifier}">`,
+      '<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>',
+      '<organizations/>',
+      '<resources>',
+      `<resource identifier="${test.identifier}" type="imsqti_test_xmlv2p1" href="assessment.xml">` +
+        `<file href="assessment.xml"/>${itemRefs}</resource>`,
+      ...resources,
+      '</resources>',
+      '</manifest>',
+    ].join('\n');
+
+    return ZipUtil.create([
+      { name: 'imsmanifest.xml', data: Buffer.from(manifest, 'utf8') },
+      { name: 'assessment.xml', data: Buffer.from(testXml, 'utf8') },
+      ...files,
+    ]);
+  }
+
+  /**
+   * The QTI item resources of a package, in manifest order
+   * @throws Error when the archive or its manifest cannot be read
+   */
+  static readPackage(archive: Buffer): QtiPackageItem[] {
+    const files = new Map(
+      ZipUtil.read(archive).map((entry) => [
+        posix.normalize(entry.name.replace(/\\/g, '/')),
+        entry.data,
+      ]),
+    );
+
+    const manifest = files.get('imsmanifest.xml');
+    if (!manifest) {
+      throw new Error('Package has no imsmanifest.xml');
+    }
+
+    const resources = this.findAll(
+      this.parseXml(manifest.toString('utf8')),
+      (tag) => tag === 'resource',
+    ).filter((resource) =>
+      /^imsqti_item_xmlv2p\d/.test(this.attribute(resource, 'type') || ''),
+    );
+    if (!resources.length) {
+      throw new Error('Package has no QTI 2.x items');
+    }
+
+    return resources.map((resource, index) => {
+      const file = this.childrenOf(resource).find(
+        (child) => this.tagOf(child) === 'file',
+      );
+      const href = posix.normalize(
+        posix.join(
+          this.attribute(resource, 'base') || '',
+          decodeURIComponent(
+            this.attribute(resource, 'href') ||
+              (file && this.attribute(file, 'href')) ||
+              '',
+          ),
+        ),
+      );
+
+      return {
+        identifier: this.attribute(resource, 'identifier') || `${index + 1}`,
+        href,
+        xml: files.get(href)?.toString('utf8'),
+      };
+    });
+  }
+
+  static buildItem(question: QtiQuestion, identifier: string): string {
+    const marks = question.marks ?? 1;
+    const declarations: string[] = [];
+    let body: string;
+    let scoring: string[] = [];
+
+    switch (question.type) {
+      case QuestionType.MULTIPLE_CHOICE:
+      case QuestionType.MULTIPLE_RESPONSE:
+      case QuestionType.TRUE_FALSE: {
+        const multiple = question.type === QuestionType.MULTIPLE_RESPONSE;
+        const choices = this.choicesOf(question);
+
+        declarations.push(
+          this.responseDeclaration(
+            RESPONSE,
+            multiple ? 'multiple' : 'single',
+            'identifier',
+            choices.filter((c) => c.isCorrect).map((c) => c.identifier),
+          ),
+        );
+        body =
+          `<choiceInteraction responseIdentifier="${RESPONSE}" shuffle="false" maxChoices="${multiple ? 0 : 1}">` +
+          `<prompt>${this.richText(question.text)}</prompt>` +
+          choices
+            .map(
+              (c) =>
+                `<simpleChoice identifier="${c.identifier}">${this.richText(c.text)}</simpleChoice>`,
+            )
+            .join('') +
+          '</choiceInteraction>';
+        scoring = this.scoreProcessing(
+          [RESPONSE],
+          (id) =>
+            `<match><variable identifier="${id}"/><correct identifier="${id}"/></match>`,
+          question.negativeMarks,
+        );
+        break;
+      }
+
+      case QuestionType.FILL_BLANK: {
+        const answers = [].concat(question.correctAnswer ?? []).map(String);
+        const ids =
+          answers.length > 1
+            ? answers.map((_, index) => `${RESPONSE}_${index + 1}`)
+            : [RESPONSE];
+
+        ids.forEach((id, index) =>
+          declarations.push(
+            this.responseDeclaration(
+              id,
+              'single',
+              'string',
+              answers.slice(index, index + 1),
+            ),
+          ),
+        );
+        body = this.fillBlankBody(question.text, ids);
+        scoring = this.scoreProcessing(
+          ids,
+          (id) =>
+            `<stringMatch caseSensitive="false"><variable identifier="${id}"/><correct identifier="${id}"/></stringMatch>`,
+          question.negativeMarks,
+        );
+        break;
+      }
+
+      default: {
+        const modelAnswer =
+          typeof question.correctAnswer === 'string' &&
+          question.correctAnswer.trim()
+            ? [question.correctAnswer]
+            : [];
+        const lines = question.type === QuestionType.SHORT_ANSWER ? 3 : 15;
+        const format =
+          question.type === QuestionType.CODING ? ' format="preformatted"' : '';
+
+        declarations.push(
+          this.responseDeclaration(RESPONSE, 'single', 'string', modelAnswer),
+        );
+        body =
+          `<extendedTextInteraction responseIdentifier="${RESPONSE}" expectedLines="${lines}"${format}>` +
+          `<prompt>${this.richText(question.text)}</prompt>` +
+          '</extendedTextInteraction>';
+      }
+    }
+
+    declarations.push(
+      `<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float" normalMaximum="${marks}">` +
+        '<defaultValue><value>0</value></defaultValue></outcomeDeclaration>',
+      '<outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">' +
+        `<defaultValue><value>${marks}</value></defaultValue></outcomeDeclaration>`,
+    );
+
+    const feedback: string[] = [];
+    if (question.explanation) {
+      declarations.push(
+        '<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>',
+      );
+      scoring.push(
+        '<setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>',
+      );
+      feedback.push(
+        '<modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">' +
+          `${this.richText(question.explanation)}</modalFeedback>`,
+      );
+    }
+
+    const title = question.text.replace(/\s+/g, ' ').trim().slice(0, 80);
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<assessmentItem ${this.namespaces(QTI_NAMESPACE, QTI_SCHEMA)} identifier="${identifier}" title="${this.escape(title)}" ` +
+        `label="${question.type}" adaptive="false" timeDependent="false" toolName="SkillMetric">`,
+      ...declarations,
+      `<itemBody>${body}</itemBody>`,
+      scoring.length
+        ? `<responseProcessing>${scoring.join('')}</responseProcessing>`
+        : '',
+      ...feedback,
+      '</assessmentItem>',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  /**
+   * Map an assessmentItem onto a question. Items this platform cannot
+   * represent come back with an error naming the offending part.
+   */
+  static parseItem(xml: string): QtiItemResult {
+    let nodes: XmlNode[];
+    try {
+      nodes = this.parseXml(xml);
+    } catch (error) {
+      return this.invalid('xml', `Malformed XML: ${error.message}`);
+    }
+
+    const item = this.findAll(nodes, (tag) => tag === 'assessmentItem')[0];
+    if (!item) {
+      return this.invalid('assessmentItem', 'Not a QTI assessment item');
+    }
+
+    const content = this.childrenOf(item);
+    const body = content.find((node) => this.tagOf(node) === 'itemBody');
+    const interactions = body
+      ? this.findAll(this.childrenOf(body), (tag) =>
+          tag.endsWith('Interaction'),
+        )
+      : [];
+    if (!interactions.length) {
+      return this.invalid('itemBody', 'Item has no interaction');
+    }
+
+    const kind = this.tagOf(interactions[0]);
+    if (
+      interactions.some((interaction) => this.tagOf(interaction) !== kind) ||
+      (interactions.length > 1 && kind !== 'textEntryInteraction')
+    ) {
+      return this.invalid(
+        'itemBody',
+        'Items with more than one interaction are not supported',
+      );
+    }
+
+    const declarations = new Map(
+      this.findAll(content, (tag) => tag === 'responseDeclaration').map(
+        (declaration) => [
+          this.attribute(declaration, 'identifier'),
+          declaration,
+        ],
+      ),
+    );
+    const correctOf = (interaction: XmlNode) =>
+      this.correctValues(
+        declarations.get(this.attribute(interaction, 'responseIdentifier')),
+      );
+
+    const feedback = this.findAll(content, (tag) => tag === 'modalFeedback')
+      .map((node) => this.plainText(this.childrenOf(node)))
+      .filter(Boolean);
+    const question: QtiQuestion = {
+      text: this.plainText(this.childrenOf(body)),
+      type: undefined,
+      options: [],
+      marks: this.maxScore(content),
+      negativeMarks: this.penalty(content),
+      explanation: feedback.join('\n') || undefined,
+    };
+    const label = this.attribute(item, 'label') as QuestionType;
+
+    switch (kind) {
+      case 'choiceInteraction': {
+        const [interaction] = interactions;
+        const choices = this.childrenOf(interaction)
+          .filter((node) => this.tagOf(node) === 'simpleChoice')
+          .map((node) => ({
+            id: this.attribute(node, 'identifier'),
+            text: this.plainText(this.childrenOf(node)),
+          }));
+        const correct = new Set(correctOf(interaction));
+
+        if (choices.length < 2) {
+          return this.invalid('simpleChoice', 'Items need at least 2 choices');
+        }
+        if (choices.some((choice) => !choice.id || !choice.text)) {
+          return this.invalid(
+            'simpleChoice',
+            'Every choice needs an identifier and text',
+          );
+        }
+        if (!correct.size) {
+          return this.invalid(
+            'correctResponse',
+            'Item has no correct response',
+          );
+        }
+        const unknown = [...correct].find(
+          (id) => !choices.some((choice) => choice.id === id),
+        );
+        if (unknown) {
+          return this.invalid(
+            'correctResponse',
+            `Correct response ${unknown} is not one of the choices`,
+          );
+        }
+
+        question.options = choices.map((choice) => ({
+          ...choice,
+          isCorrect: correct.has(choice.id),
+        }));
+
+        const maxChoices = Number(
+          this.attribute(interaction, 'maxChoices') ?? 1,
+        );
+        if (maxChoices !== 1 || label === QuestionType.MULTIPLE_RESPONSE) {
+          question.type = QuestionType.MULTIPLE_RESPONSE;
+          question.correctAnswer = [...correct];
+        } else if (correct.size > 1) {
+          return this.invalid(
+            'correctResponse',
+            'Single-choice items must have exactly one correct response',
+          );
+        } else if (this.isTrueFalse(choices)) {
+          const answer = question.options.find((option) => option.isCorrect);
+          question.type = QuestionType.TRUE_FALSE;
+          question.correctAnswer = answer.text.toLowerCase() === 'true';
+        } else {
+          question.type = QuestionType.MULTIPLE_CHOICE;
+          question.correctAnswer = [...correct][0];
+        }
+        break;
+      }
+
+      case 'textEntryInteraction': {
+        const answers = interactions.map(
+          (interaction) => correctOf(interaction)[0],
+        );
+        if (answers.some((answer) => !answer)) {
+          return this.invalid(
+            'correctResponse',
+            'Every blank needs a correct response',
+          );
+        }
+
+        question.type = QuestionType.FILL_BLANK;
+        question.correctAnswer = answers.length === 1 ? answers[0] : answers;
+        break;
+      }
+
+      case 'extendedTextInteraction': {
+        const [modelAnswer] = correctOf(interactions[0]);
+        question.type = EXTENDED_TEXT_TYPES.includes(label)
+          ? label
+          : QuestionType.ESSAY;
+
+        if (question.type === QuestionType.SHORT_ANSWER && !modelAnswer) {
+          return this.invalid(
+            'correctResponse',
+            'Short answer items need a model answer',
+          );
+        }
+        question.correctAnswer = modelAnswer;
+        break;
+      }
+
+      default:
+        return this.invalid('itemBody', `${kind} is not supported`);
+    }
+
+    return { question };
+  }
+
+  private static choicesOf(question: QtiQuestion) {
+    const options = question.options || [];
+    const answers = [].concat(question.correctAnswer ?? []).map(String);
+    const isCorrect = (option: { id: string; text: string }) =>
+      options.some((o) => o.isCorrect)
+        ? options.find((o) => o.id === option.id)?.isCorrect === true
+        : question.type === QuestionType.TRUE_FALSE
+          ? option.text.trim().toLowerCase() === answers[0]
+          : answers.includes(option.id);
+
+    // Choice identifiers must be XML names; option ids are kept when they are
+    const used = new Set<string>();
+    return options.map((option, index) => {
+      const identifier =
+        IDENTIFIER.test(option.id) && !used.has(option.id)
+          ? option.id
+          : `CHOICE_${index + 1}`;
+      used.add(identifier);
+      return { identifier, text: option.text, isCorrect: isCorrect(option) };
+    });
+  }
+
+  private static fillBlankBody(text: string, ids: string[]): string {
+    const entry = (id: string) =>
+      `<textEntryInteraction responseIdentifier="${id}" expectedLength="20"/>`;
+    const parts = text.split(/_{2,}/);
+
+    if (parts.length - 1 === ids.length) {
+      return `<p>${parts
+        .map(
+          (part, index) =>
+            this.richText(part) + (ids[index] ? entry(ids[index]) : ''),
+        )
+        .join('')}</p>`;
+    }
+
+    // Blanks we cannot place in the text go after it
+    return (
+      `<p>${this.richText(text)}</p>` +
+      ids.map((id) => `<p>${entry(id)}</p>`).join('')
+    );
+  }
+
+  private static responseDeclaration(
+    identifier: string,
+    cardinality: 'single' | 'multiple',
+    baseType: 'identifier' | 'string',
+    values: string[],
+  ): string {
+    const correct = values.length
+      ? `<correctResponse>${values
+          .map((value) => `<value>${this.escape(value)}</value>`)
+          .join('')}</correctResponse>`
+      : '';
+    return (
+      `<responseDeclaration identifier="${identifier}" cardinality="${cardinality}" baseType="${baseType}">` +
+      `${correct}</responseDeclaration>`
+    );
+  }
+
+  /**
+   * Full marks when every response matches; negative marks for a wrong
+   * answer but not for an unanswered item, as GradingUtil does
+   */
+  private static scoreProcessing(
+    ids: string[],
+    matches: (id: string) => string,
+    negativeMarks = 0,
+  ): string[] {
+    const all = (conditions: string[]) =>
+      conditions.length > 1
+        ? `<and>${conditions.join('')}</and>`
+        : conditions[0];
+    const score = (value: string) =>
+      `<setOutcomeValue identifier="SCORE">${value}</setOutcomeValue>`;
+    const correct = all(ids.map(matches));
+
+    if (!negativeMarks) {
+      return [
+        `<responseCondition><responseIf>${correct}${score('<variable identifier="MAXSCORE"/>')}</responseIf></responseCondition>`,
+      ];
+    }
+
+    const unanswered = all(
+      ids.map((id) => `<isNull><variable identifier="${id}"/></isNull>`),
+    );
+    return [
+      '<responseCondition>' +
+        `<responseIf>${unanswered}${score('<baseValue baseType="float">0</baseValue>')}</responseIf>` +
+        `<responseElseIf>${correct}${score('<variable identifier="MAXSCORE"/>')}</responseElseIf>` +
+        `<responseElse>${score(`<baseValue baseType="float">${-negativeMarks}</baseValue>`)}</responseElse>` +
+        '</responseCondition>',
+    ];
+  }
+
+  private static correctValues(declaration?: XmlNode): string[] {
+    if (!declaration) {
+      return [];
+    }
+
+    const content = this.childrenOf(declaration);
+    const correct = content.find(
+      (node) => this.tagOf(node) === 'correctResponse',
+    );
+    if (correct) {
+      return this.childrenOf(correct)
+        .filter((node) => this.tagOf(node) === 'value')
+        .map((node) => this.plainText(this.childrenOf(node)))
+        .filter(Boolean);
+    }
+
+    // Tools that only score through a mapping: positively mapped keys count
+    return this.findAll(content, (tag) => tag === 'mapEntry')
+      .filter((entry) => Number(this.attribute(entry, 'mappedValue')) > 0)
+      .map((entry) => this.attribute(entry, 'mapKey'));
+  }
+
+  private static maxScore(content: XmlNode[]): number {
+    const outcomes = content.filter(
+      (node) => this.tagOf(node) === 'outcomeDeclaration',
+    );
+    const outcome = (identifier: string) =>
+      outcomes.find(
+        (node) => this.attribute(node, 'identifier') === identifier,
+      );
+
+    const maxScore = outcome('MAXSCORE');
+    const value = maxScore
+      ? this.findAll(this.childrenOf(maxScore), (tag) => tag === 'value')[0]
+      : undefined;
+    const marks = Number(
+      value
+        ? this.plainText(this.childrenOf(value))
+        : outcome('SCORE') && this.attribute(outcome('SCORE'), 'normalMaximum'),
+    );
+
+    return Number.isFinite(marks) && marks > 0 ? marks : 1;
+  }
+
+  private static penalty(content: XmlNode[]): number {
+    const processing = content.find(
+      (node) => this.tagOf(node) === 'responseProcessing',
+    );
+    if (!processing) {
+      return 0;
+    }
+
+    const penalties = this.findAll(
+      this.childrenOf(processing),
+      (tag) => tag === 'setOutcomeValue',
+    )
+      .filter((node) => this.attribute(node, 'identifier') === 'SCORE')
+      .flatMap((node) =>
+        this.findAll(this.childrenOf(node), (tag) => tag === 'baseValue'),
+      )
+      .map((node) => Number(this.plainText(this.childrenOf(node))))
+      .filter((value) => value < 0);
+
+    return penalties.length ? -Math.min(...penalties) : 0;
+  }
+
+  private static isTrueFalse(choices: Array<{ text: string }>): boolean {
+    const texts = choices.map((choice) => choice.text.toLowerCase()).sort();
+    return texts.length === 2 && texts[0] === 'false' && texts[1] === 'true';
+  }
+
+  /**
+   * Text content with line breaks kept for <br/> and block elements;
+   * text entries read as blanks and only the prompt of other interactions
+   */
+  private static plainText(nodes: XmlNode[]): string {
+    const collect = (children: XmlNode[]): string =>
+      children
+        .map((node) => {
+          const tag = this.tagOf(node);
+          if (tag === '#text') {
+            return String(node[tag]).replace(/\s+/g, ' ');
+          }
+          if (tag === 'br') {
+            return '\n';
+          }
+          if (tag === 'textEntryInteraction') {
+            return BLANK;
+          }
+
+          const content = tag.endsWith('Interaction')
+            ? this.childrenOf(node).filter(
+                (child) => this.tagOf(child) === 'prompt',
+              )
+            : this.childrenOf(node);
+          const text = collect(content);
+          return BLOCK_TAGS.has(tag) ? `\n${text}\n` : text;
+        })
+        .join('');
+
+    return collect(nodes)
+      .split('\n')
+      .map((line) => line.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private static parseXml(xml: string): XmlNode[] {
+    const parser = new XMLParser({
+      preserveOrder: true,
+      ignoreAttributes: false,
+      attributeNamePrefix: '',
+      removeNSPrefix: true,
+      trimValues: false,
+      parseTagValue: false,
+      parseAttributeValue: false,
+      htmlEntities: true,
+    });
+    return parser.parse(xml.replace(/^\uFEFF/, ''), true);
+  }
+
+  private static findAll(
+    nodes: XmlNode[],
+    matches: (tag: string) => boolean,
+  ): XmlNode[] {
+    return nodes.flatMap((node) => [
+      ...(matches(this.tagOf(node)) ? [node] : []),
+      ...this.findAll(this.childrenOf(node), matches),
+    ]);
+  }
+
+  private static tagOf(node: XmlNode): string {
+    return Object.keys(node).find((key) => key !== ATTRIBUTES);
+  }
+
+  private static childrenOf(node: XmlNode): XmlNode[] {
+    const children = node[this.tagOf(node)];
+    return Array.isArray(children) ? children : [];
+  }
+
+  private static attribute(node: XmlNode, name: string): string | undefined {
+    return node[ATTRIBUTES]?.[name];
+  }
+
+  private static invalid(field: string, error: string): QtiItemResult {
+    return { error: { field, error } };
+  }
+
+  private static namespaces(namespace: string, schema: string): string {
+    return (
+      `xmlns="${namespace}" xmlns:xsi="${XSI_NAMESPACE}" ` +
+      `xsi:schemaLocation="${namespace} ${schema}"`
+    );
+  }
+
+  private static richText(text: string): string {
+    return this.escape(text).replace(/\r?\n/g, '<br/>');
+  }
+
+  private static escape(value: string): string {
+    return String(value ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
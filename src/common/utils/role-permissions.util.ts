@@ -1,10 +1,75 @@
 import { UserRole } from '../../modules/users/schemas/user.schema';
 import { ExamCategory } from '../../modules/exams/schemas/exam.schema';
 
+/**
+ * Fine-grained permissions. Built-in roles map to a preset of these; organizations
+ * can define additional named permission sets (OrgRole) and assign them to users.
+ */
+export enum Permission {
+  EXAMS_CREATE = 'exams:create',
+  EXAMS_UPDATE = 'exams:update',
+  EXAMS_DELETE = 'exams:delete',
+  EXAMS_TAKE = 'exams:take',
+  CANDIDATES_ENROLL = 'candidates:enroll',
+  CANDIDATES_SHORTLIST = 'candidates:shortlist',
+  INVITATIONS_SEND = 'invitations:send',
+  QUESTIONS_MANAGE = 'questions:manage',
+  RESULTS_VIEW = 'results:view',
+  RESULTS_EXPORT = 'results:export',
+  RESULTS_GRADE = 'results:grade',
+  RESULTS_PUBLISH = 'results:publish',
+  PROCTORING_MONITOR = 'proctoring:monitor',
+  ANALYTICS_VIEW = 'analytics:view',
+  USERS_MANAGE = 'users:manage',
+  ROLES_MANAGE = 'roles:manage',
+  SETTINGS_MANAGE = 'settings:manage',
+}
+
+const STAFF_PERMISSIONS = Object.values(Permission).filter(
+  (permission) => permission !== Permission.EXAMS_TAKE,
+);
+
+/**
+ * Built-in presets for the four system roles (mirrors the checks below)
+ */
+const ROLE_PRESETS: Record<UserRole, Permission[]> = {
+  [UserRole.SUPER_ADMIN]: STAFF_PERMISSIONS,
+  [UserRole.ORG_ADMIN]: STAFF_PERMISSIONS,
+  [UserRole.RECRUITER]: [
+    Permission.EXAMS_CREATE,
+    Permission.EXAMS_UPDATE,
+    Permission.CANDIDATES_SHORTLIST,
+    Permission.INVITATIONS_SEND,
+    Permission.RESULTS_VIEW,
+    Permission.RESULTS_EXPORT,
+    Permission.RESULTS_PUBLISH,
+    Permission.PROCTORING_MONITOR,
+    Permission.ANALYTICS_VIEW,
+  ],
+  [UserRole.CANDIDATE]: [Permission.EXAMS_TAKE],
+};
+
 /**
  * Centralized permission logic for role-based access control
  */
 export class RolePermissions {
+  /**
+   * Permissions granted by a built-in role before any custom roles
+   */
+  static getPresetPermissions(role: UserRole): Permission[] {
+    return [...(ROLE_PRESETS[role] || [])];
+  }
+
+  /**
+   * Check that a permission set includes every required permission
+   */
+  static hasPermissions(
+    granted: Permission[],
+    required: Permission[],
+  ): boolean {
+    return required.every((permission) => granted.includes(permission));
+  }
+
   /**
    * Check if a role can create exams
    */
@@ -0,0 +1,171 @@
+import {
+  SectionNavigationUtil,
+  SectionProgress,
+} from './section-navigation.util';
+
+describe('SectionNavigationUtil', () => {
+  const start = new Date('2026-01-01T10:00:00Z');
+  const minutes = (n: number) => new Date(start.getTime() + n * 60 * 1000);
+
+  const buildProgress = (): SectionProgress => {
+    const { sections } = SectionNavigationUtil.arrange(
+      [
+        {
+          name: 'Aptitude',
+          questionIds: ['q1', 'q2'],
+          duration: 20,
+          forwardOnly: true,
+        },
+        {
+          name: 'Coding',
+          questionIds: ['q3'],
+          duration: 40,
+          forwardOnly: false,
+        },
+      ],
+      [{ _id: 'q1' }, { _id: 'q2' }, { _id: 'q3' }],
+      start,
+    );
+    return { sections, currentSectionIndex: 0 };
+  };
+
+  describe('arrange', () => {
+    it('should open only the first section', () => {
+      const { sections } = buildProgress();
+
+      expect(sections[0].startedAt).toEqual(start);
+      expect(sections[0].deadline).toEqual(minutes(20));
+      expect(sections[1].startedAt).toBeUndefined();
+    });
+  });
+
+  describe('canAnswer', () => {
+    it('should allow questions in the current section', () => {
+      expect(
+        SectionNavigationUtil.canAnswer(buildProgress(), 'q1', minutes(5))
+          .allowed,
+      ).toBe(true);
+    });
+
+    it('should reject questions in a section not reached yet', () => {
+      expect(
+        SectionNavigationUtil.canAnswer(buildProgress(), 'q3', minutes(5))
+          .allowed,
+      ).toBe(false);
+    });
+
+    it('should lock a forward-only section once left', () => {
+      const progress = buildProgress();
+      SectionNavigationUtil.advance(progress, minutes(10));
+
+      expect(
+        SectionNavigationUtil.canAnswer(progress, 'q1', minutes(11)).allowed,
+      ).toBe(false);
+      expect(
+        SectionNavigationUtil.canAnswer(progress, 'q3', minutes(11)).allowed,
+      ).toBe(true);
+    });
+
+    it('should reject answers after the section deadline', () => {
+      const progress = buildProgress();
+
+      expect(
+        SectionNavigationUtil.canAnswer(progress, 'q1', minutes(21)).allowed,
+      ).toBe(false);
+    });
+  });
+
+  describe('syncExpired', () => {
+    it('should move past an expired section and open the next', () => {
+      const progress = buildProgress();
+
+      expect(SectionNavigationUtil.syncExpired(progress, minutes(25))).toBe(
+        true,
+      );
+      expect(progress.currentSectionIndex).toBe(1);
+      expect(progress.sections[0].completedAt).toEqual(minutes(20));
+      expect(progress.sections[1].deadline).toEqual(minutes(65));
+    });
+  });
+
+  describe('servedQuestions', () => {
+    const questions = [{ _id: 'q1' }, { _id: 'q2' }, { _id: 'q3' }];
+    const servedIds = (progress: SectionProgress, now: Date) =>
+      SectionNavigationUtil.servedQuestions(progress, questions, now).map(
+        (q) => q._id,
+      );
+
+    it('should hold back sections not reached yet', () => {
+      expect(servedIds(buildProgress(), minutes(5))).toEqual(['q1', 'q2']);
+    });
+
+    it('should serve the next section once the candidate advances', () => {
+      const progress = buildProgress();
+      SectionNavigationUtil.advance(progress, minutes(10));
+
+      expect(servedIds(progress, minutes(10))).toEqual(['q3']);
+    });
+
+    it('should keep serving earlier sections the candidate can go back to', () => {
+      const progress = buildProgress();
+      progress.sections[0].forwardOnly = false;
+      SectionNavigationUtil.advance(progress, minutes(10));
+
+      expect(servedIds(progress, minutes(10))).toEqual(['q1', 'q2', 'q3']);
+      expect(servedIds(progress, minutes(25))).toEqual(['q3']);
+    });
+
+    it('should serve everything for exams without sections', () => {
+      expect(
+        servedIds({ sections: [], currentSectionIndex: 0 }, minutes(5)),
+      ).toEqual(['q1', 'q2', 'q3']);
+    });
+  });
+
+  describe('mergeSubmittedAnswers', () => {
+    it('should keep saved answers for closed sections', () => {
+      const progress = buildProgress();
+      SectionNavigationUtil.advance(progress, minutes(10));
+
+      const answers = SectionNavigationUtil.mergeSubmittedAnswers(
+        progress,
+        [{ questionId: 'q1', answer: 'saved' }],
+        [
+          { questionId: 'q1', answer: 'changed' },
+          { questionId: 'q3', answer: 'new' },
+        ],
+        minutes(15),
+      );
+
+      expect(answers).toEqual([
+        { questionId: 'q1', answer: 'saved' },
+        { questionId: 'q3', answer: 'new' },
+      ]);
+    });
+  });
+
+  describe('scoreSections', () => {
+    it('should score each section against its cutoff', () => {
+      const { sections } = buildProgress();
+
+      const scores = SectionNavigationUtil.scoreSections(
+        sections,
+        [
+          { questionId: 'q1', marksObtained: 2, totalMarks: 2 },
+          { questionId: 'q2', marksObtained: 0, totalMarks: 2 },
+          { questionId: 'q3', marksObtained: 10, totalMarks: 10 },
+        ],
+        [3, undefined],
+      );
+
+      expect(scores[0]).toMatchObject({
+        name: 'Aptitude',
+        score: 2,
+        maxScore: 4,
+        percentage: 50,
+        cleared: false,
+      });
+      expect(scores[1].cleared).toBeUndefined();
+    });
+  });
+});
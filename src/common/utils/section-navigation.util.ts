@@ -0,0 +1,297 @@
+import { SessionSection } from '../../modules/proctoring/schemas/exam-session.schema';
+
+/**
+ * Session fields that describe where a candidate is in a sectioned exam
+ */
+export interface SectionProgress {
+  sections: SessionSection[];
+  currentSectionIndex: number;
+}
+
+export interface AnswerPermission {
+  allowed: boolean;
+  reason?: string;
+}
+
+export interface SectionScoreInput {
+  questionId: string;
+  marksObtained: number;
+  totalMarks: number;
+}
+
+export interface SectionScoreSummary {
+  name: string;
+  score: number;
+  maxScore: number;
+  percentage: number;
+  cutoffScore?: number;
+  cleared?: boolean;
+}
+
+/**
+ * Server-side rules for sectioned exams.
+ *
+ * Candidates move through sections in order. A timed section closes at its
+ * deadline, and a forward-only section closes as soon as the candidate moves
+ * past it. Answers are only accepted for questions in an open section the
+ * candidate has reached.
+ */
+export class SectionNavigationUtil {
+  static isSectioned(session: Partial<SectionProgress>): boolean {
+    return (session.sections?.length || 0) > 0;
+  }
+
+  /**
+   * Order questions section by section and open the first section
+   * @param arrange Applied to each section's questions, e.g. a shuffle
+   */
+  static arrange<T extends { _id: any }>(
+    sections: SessionSection[],
+    questions: T[],
+    now: Date,
+    arrange: (questions: T[]) => T[] = (q) => q,
+  ): { questions: T[]; sections: SessionSection[] } {
+    const byId = new Map(questions.map((q) => [q._id.toString(), q]));
+
+    const arranged = sections.map((section) => {
+      const sectionQuestions = arrange(
+        section.questionIds.map((id) => byId.get(id)).filter(Boolean),
+      );
+      return {
+        section: {
+          ...section,
+          questionIds: sectionQuestions.map((q) => q._id.toString()),
+        },
+        questions: sectionQuestions,
+      };
+    });
+
+    const opened = arranged.map((a) => a.section);
+    if (opened.length > 0) {
+      this.open(opened[0], now);
+    }
+
+    return {
+      questions: arranged.flatMap((a) => a.questions),
+      sections: opened,
+    };
+  }
+
+  static getCurrentSection(progress: SectionProgress): SessionSection | null {
+    return progress.sections[progress.currentSectionIndex] || null;
+  }
+
+  /**
+   * Move past sections whose time ran out.
+   * @returns Whether the progress changed and needs saving
+   */
+  static syncExpired(progress: SectionProgress, now: Date): boolean {
+    let changed = false;
+
+    let current = this.getCurrentSection(progress);
+    while (
+      current &&
+      !current.completedAt &&
+      current.deadline &&
+      new Date(current.deadline) <= now
+    ) {
+      current.completedAt = new Date(current.deadline);
+      changed = true;
+
+      if (progress.currentSectionIndex >= progress.sections.length - 1) {
+        break;
+      }
+      progress.currentSectionIndex++;
+      current = this.getCurrentSection(progress);
+      this.open(current, now);
+    }
+
+    return changed;
+  }
+
+  /**
+   * Close the current section and open the next one
+   * @returns The opened section, or null when already in the last section
+   */
+  static advance(progress: SectionProgress, now: Date): SessionSection | null {
+    if (progress.currentSectionIndex >= progress.sections.length - 1) {
+      return null;
+    }
+
+    const current = this.getCurrentSection(progress);
+    if (current && !current.completedAt) {
+      current.completedAt = now;
+    }
+
+    progress.currentSectionIndex++;
+    const next = this.getCurrentSection(progress);
+    this.open(next, now);
+    return next;
+  }
+
+  /**
+   * Questions to send to the candidate: the current section, plus earlier
+   * sections they can still go back to. Later sections stay on the server
+   * until the candidate reaches them. Exams without sections are unchanged.
+   */
+  static servedQuestions<T extends { _id: any }>(
+    progress: Partial<SectionProgress>,
+    questions: T[],
+    now: Date,
+  ): T[] {
+    if (!this.isSectioned(progress)) {
+      return questions;
+    }
+
+    const current = progress.currentSectionIndex || 0;
+    const served = new Set(
+      progress.sections
+        .filter(
+          (section, index) =>
+            index === current ||
+            (index < current &&
+              !section.forwardOnly &&
+              !(section.deadline && new Date(section.deadline) <= now)),
+        )
+        .flatMap((section) => section.questionIds),
+    );
+
+    return questions.filter((q) => served.has(q._id.toString()));
+  }
+
+  /**
+   * Close every section, on submit
+   */
+  static closeAll(progress: SectionProgress, now: Date): void {
+    progress.sections.forEach((section) => {
+      if (section.startedAt && !section.completedAt) {
+        section.completedAt = now;
+      }
+    });
+  }
+
+  static canAnswer(
+    progress: SectionProgress,
+    questionId: string,
+    now: Date,
+  ): AnswerPermission {
+    const index = progress.sections.findIndex((section) =>
+      section.questionIds.includes(questionId),
+    );
+    if (index === -1) {
+      return { allowed: false, reason: 'Question is not part of this exam' };
+    }
+
+    const section = progress.sections[index];
+    if (index > progress.currentSectionIndex || !section.startedAt) {
+      return {
+        allowed: false,
+        reason: `Section "${section.name}" has not started yet`,
+      };
+    }
+
+    if (section.deadline && new Date(section.deadline) <= now) {
+      return {
+        allowed: false,
+        reason: `Time for section "${section.name}" is over`,
+      };
+    }
+
+    if (index < progress.currentSectionIndex && section.forwardOnly) {
+      return {
+        allowed: false,
+        reason: `Section "${section.name}" is locked`,
+      };
+    }
+
+    if (index === progress.currentSectionIndex && section.completedAt) {
+      return {
+        allowed: false,
+        reason: `Section "${section.name}" is closed`,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Final answers for a submit: submitted answers for questions that are
+   * still open, saved answers for everything else
+   */
+  static mergeSubmittedAnswers<T extends { questionId: string }>(
+    progress: SectionProgress,
+    savedAnswers: T[],
+    submittedAnswers: T[],
+    now: Date,
+  ): T[] {
+    const merged = new Map(
+      (savedAnswers || []).map((answer) => [
+        answer.questionId?.toString(),
+        answer,
+      ]),
+    );
+
+    for (const answer of submittedAnswers || []) {
+      const questionId = answer.questionId?.toString();
+      if (this.canAnswer(progress, questionId, now).allowed) {
+        merged.set(questionId, answer);
+      }
+    }
+
+    return [...merged.values()];
+  }
+
+  /**
+   * Score each section from graded questions
+   * @param cutoffs Cutoff score by section position
+   */
+  static scoreSections(
+    sections: SessionSection[],
+    graded: SectionScoreInput[],
+    cutoffs: Array<number | undefined> = [],
+  ): SectionScoreSummary[] {
+    const byQuestion = new Map(graded.map((g) => [g.questionId.toString(), g]));
+
+    return sections.map((section, index) => {
+      const results = section.questionIds
+        .map((id) => byQuestion.get(id))
+        .filter(Boolean);
+      const score = results.reduce((sum, r) => sum + (r.marksObtained || 0), 0);
+      const maxScore = results.reduce((sum, r) => sum + (r.totalMarks || 0), 0);
+      const cutoffScore = cutoffs[index];
+
+      return {
+        name: section.name,
+        score,
+        maxScore,
+        percentage: maxScore > 0 ? (score / maxScore) * 100 : 0,
+        cutoffScore,
+        cleared: cutoffScore !== undefined ? score >= cutoffScore : undefined,
+      };
+    });
+  }
+
+  /**
+   * Section state safe to return to the candidate
+   */
+  static describe(progress: SectionProgress) {
+    return progress.sections.map((section, index) => ({
+      index,
+      name: section.name,
+      questionIds: section.questionIds,
+      duration: section.duration,
+      forwardOnly: section.forwardOnly,
+      startedAt: section.startedAt,
+      deadline: section.deadline,
+      completedAt: section.completedAt,
+      isCurrent: index === progress.currentSectionIndex,
+    }));
+  }
+
+  private static open(section: SessionSection, now: Date): void {
+    section.startedAt = now;
+    section.deadline = section.duration
+      ? new Date(now.getTime() + section.duration * 60 * 1000)
+      : undefined;
+  }
+}
@@ -0,0 +1,21 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Helpers for single-use tokens that are emailed to users.
+ * Only the hash is ever persisted, so a database leak does not expose usable links.
+ */
+export class SecureTokenUtil {
+  /**
+   * Generate a URL-safe random token
+   */
+  static generate(bytes = 32): string {
+    return randomBytes(bytes).toString('hex');
+  }
+
+  /**
+   * Hash a token for storage and lookup
+   */
+  static hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
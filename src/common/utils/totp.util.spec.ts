@@ -0,0 +1,90 @@
+import { TotpUtil } from './totp.util';
+
+describe('TotpUtil', () => {
+  // RFC 6238 appendix B shared secret "12345678901234567890" in base32
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('generate', () => {
+    it.each([
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+    ])('should match the RFC 6238 vector at %i', (seconds, code) => {
+      expect(TotpUtil.generate(secret, seconds * 1000, { digits: 8 })).toBe(
+        code,
+      );
+    });
+  });
+
+  describe('verify', () => {
+    const now = 1111111111 * 1000;
+    const step = Math.floor(now / 1000 / 30);
+
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+    });
+
+    it('should return the matched time step', () => {
+      expect(TotpUtil.verify(secret, TotpUtil.generate(secret, now))).toBe(
+        step,
+      );
+    });
+
+    it('should accept one step of clock drift either side', () => {
+      expect(
+        TotpUtil.verify(secret, TotpUtil.generate(secret, now - 30 * 1000)),
+      ).toBe(step - 1);
+      expect(
+        TotpUtil.verify(secret, TotpUtil.generate(secret, now + 30 * 1000)),
+      ).toBe(step + 1);
+    });
+
+    it('should reject codes outside the drift window', () => {
+      expect(
+        TotpUtil.verify(secret, TotpUtil.generate(secret, now - 90 * 1000)),
+      ).toBeNull();
+    });
+
+    it('should ignore spaces in the code', () => {
+      const code = TotpUtil.generate(secret, now);
+
+      expect(
+        TotpUtil.verify(secret, `${code.slice(0, 3)} ${code.slice(3)}`),
+      ).toBe(step);
+    });
+
+    it.each(['', '12345', '1234567', 'abcdef'])(
+      'should reject the malformed code "%s"',
+      (code) => {
+        expect(TotpUtil.verify(secret, code)).toBeNull();
+      },
+    );
+  });
+
+  it('should round-trip a generated secret', () => {
+    const generated = TotpUtil.generateSecret();
+
+    expect(generated).toMatch(/^[A-Z2-7]{32}$/);
+    expect(
+      TotpUtil.verify(generated, TotpUtil.generate(generated)),
+    ).not.toBeNull();
+  });
+
+  it('should build an authenticator provisioning URI', () => {
+    const uri = new URL(
+      TotpUtil.buildProvisioningUri(secret, 'ada@acme.com', 'SkillMetric'),
+    );
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/SkillMetric:ada@acme.com');
+    expect(uri.searchParams.get('secret')).toBe(secret);
+    expect(uri.searchParams.get('issuer')).toBe('SkillMetric');
+  });
+});
@@ -0,0 +1,208 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+export interface ZipReadOptions {
+  maxEntries?: number;
+  maxTotalSize?: number; // bytes, uncompressed
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const STORED = 0;
+const DEFLATED = 8;
+const UTF8_NAMES = 0x0800;
+const ENCRYPTED = 0x0001;
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Minimal ZIP (PKWARE APPNOTE) archives: deflated entries on write; stored or
+ * deflated entries on read. No Zip64, encryption or multi-disk archives.
+ */
+export class ZipUtil {
+  static create(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+    const { time, date } = this.dosDateTime(modifiedAt);
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      const name = Buffer.from(entry.name, 'utf8');
+      const compressed = deflateRawSync(entry.data);
+      const crc = this.crc32(entry.data);
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(LOCAL_HEADER, 0);
+      local.writeUInt16LE(20, 4); // version needed: 2.0
+      local.writeUInt16LE(UTF8_NAMES, 6);
+      local.writeUInt16LE(DEFLATED, 8);
+      local.writeUInt16LE(time, 10);
+      local.writeUInt16LE(date, 12);
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(compressed.length, 18);
+      local.writeUInt32LE(entry.data.length, 22);
+      local.writeUInt16LE(name.length, 26);
+      local.writeUInt16LE(0, 28);
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(CENTRAL_HEADER, 0);
+      central.writeUInt16LE(20, 4); // version made by
+      central.writeUInt16LE(20, 6);
+      central.writeUInt16LE(UTF8_NAMES, 8);
+      central.writeUInt16LE(DEFLATED, 10);
+      central.writeUInt16LE(time, 12);
+      central.writeUInt16LE(date, 14);
+      central.writeUInt32LE(crc, 16);
+      central.writeUInt32LE(compressed.length, 20);
+      central.writeUInt32LE(entry.data.length, 24);
+      central.writeUInt16LE(name.length, 28);
+      central.writeUInt32LE(offset, 42);
+
+      localParts.push(local, name, compressed);
+      centralParts.push(central, name);
+      offset += local.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+  }
+
+  /**
+   * Read the file entries of an archive (directories are skipped).
+   * @throws Error when the archive is malformed, unsupported or too large
+   */
+  static read(archive: Buffer, options: ZipReadOptions = {}): ZipEntry[] {
+    const { maxEntries = 5000, maxTotalSize = 100 * 1024 * 1024 } = options;
+    const end = this.findEndOfCentralDirectory(archive);
+    const count = archive.readUInt16LE(end + 10);
+    let cursor = archive.readUInt32LE(end + 16);
+    let totalSize = 0;
+
+    if (count > maxEntries) {
+      throw new Error(`Archive has more than ${maxEntries} entries`);
+    }
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      if (
+        cursor + 46 > archive.length ||
+        archive.readUInt32LE(cursor) !== CENTRAL_HEADER
+      ) {
+        throw new Error('Corrupt archive: bad central directory');
+      }
+
+      const flags = archive.readUInt16LE(cursor + 8);
+      const method = archive.readUInt16LE(cursor + 10);
+      const crc = archive.readUInt32LE(cursor + 16);
+      const compressedSize = archive.readUInt32LE(cursor + 20);
+      const size = archive.readUInt32LE(cursor + 24);
+      const nameLength = archive.readUInt16LE(cursor + 28);
+      const extraLength = archive.readUInt16LE(cursor + 30);
+      const commentLength = archive.readUInt16LE(cursor + 32);
+      const localOffset = archive.readUInt32LE(cursor + 42);
+      const name = archive.toString(
+        'utf8',
+        cursor + 46,
+        cursor + 46 + nameLength,
+      );
+      cursor += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith('/')) {
+        continue;
+      }
+      if (flags & ENCRYPTED) {
+        throw new Error(`${name} is encrypted`);
+      }
+      if (method !== STORED && method !== DEFLATED) {
+        throw new Error(`${name} uses an unsupported compression method`);
+      }
+
+      totalSize += size;
+      if (totalSize > maxTotalSize) {
+        throw new Error('Archive is too large once extracted');
+      }
+
+      if (
+        localOffset + 30 > archive.length ||
+        archive.readUInt32LE(localOffset) !== LOCAL_HEADER
+      ) {
+        throw new Error(`Corrupt archive: bad local header for ${name}`);
+      }
+      const dataStart =
+        localOffset +
+        30 +
+        archive.readUInt16LE(localOffset + 26) +
+        archive.readUInt16LE(localOffset + 28);
+      const raw = archive.subarray(dataStart, dataStart + compressedSize);
+
+      const data =
+        method === STORED
+          ? Buffer.from(raw)
+          : inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+      if (data.length !== size || this.crc32(data) !== crc) {
+        throw new Error(`Corrupt archive: checksum mismatch for ${name}`);
+      }
+
+      entries.push({ name, data });
+    }
+
+    return entries;
+  }
+
+  /**
+   * CRC-32 (IEEE 802.3) as used by ZIP
+   */
+  static crc32(data: Buffer): number {
+    if (!crcTable) {
+      crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        crcTable[n] = c >>> 0;
+      }
+    }
+
+    let crc = 0xffffffff;
+    for (const byte of data) {
+      crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  private static findEndOfCentralDirectory(archive: Buffer): number {
+    // The record is 22 bytes plus a comment of up to 64KB
+    const stop = Math.max(0, archive.length - 22 - 0xffff);
+    for (let i = archive.length - 22; i >= stop; i--) {
+      if (archive.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        return i;
+      }
+    }
+    throw new Error('Not a zip archive');
+  }
+
+  private static dosDateTime(value: Date): { time: number; date: number } {
+    const year = Math.max(value.getFullYear(), 1980);
+    return {
+      time:
+        (value.getHours() << 11) |
+        (value.getMinutes() << 5) |
+        Math.floor(value.getSeconds() / 2),
+      date:
+        ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    };
+  }
+}
@@ -2,6 +2,7 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
+import { SecurityLoggerInterceptor } from './common/interceptors/security-logger.interceptor';
 import helmet from 'helmet';
 import * as cookieParser from 'cookie-parser';
 import * as csurf from 'csurf';
@@ -94,12 +95,8 @@ async function bootstrap() {
   //   app.useGlobalFilters(httpExceptionFilter);
   // }
 
-  // Global Security Logger Interceptor
-  // TODO: Implement SecurityLoggerInterceptor provider
-  // const securityLoggerInterceptor = app.get('SecurityLoggerInterceptor');
-  // if (securityLoggerInterceptor) {
-  //   app.useGlobalInterceptors(securityLoggerInterceptor);
-  // }
+  // Global Security Logger Interceptor (audit trail incl. login lockouts)
+  app.useGlobalInterceptors(new SecurityLoggerInterceptor());
 
   // Validation
   app.useGlobalPipes(
@@ -1,15 +1,36 @@
 import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ConfigModule } from '@nestjs/config';
 import { MigrationController } from './controllers/migration.controller';
+import { ImpersonationController } from './controllers/impersonation.controller';
+import { ImpersonationService } from './services/impersonation.service';
+import {
+  ImpersonationAuditLog,
+  ImpersonationAuditLogSchema,
+} from './schemas/impersonation-audit-log.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+import { ImpersonationAuditInterceptor } from '../../common/interceptors/impersonation-audit.interceptor';
 
 @Module({
   imports: [
     ConfigModule,
-    MongooseModule.forFeature([]), // Using @InjectConnection() for direct DB access
+    AuthModule,
+    // Migrations use @InjectConnection() for direct DB access
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: ImpersonationAuditLog.name, schema: ImpersonationAuditLogSchema },
+    ]),
   ],
-  controllers: [MigrationController],
-  providers: [],
-  exports: [],
+  controllers: [MigrationController, ImpersonationController],
+  providers: [
+    ImpersonationService,
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: ImpersonationAuditInterceptor,
+    },
+  ],
+  exports: [ImpersonationService],
 })
 export class AdminModule {}
@@ -0,0 +1,88 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { UserRole } from '../../users/schemas/user.schema';
+import { ImpersonationService } from '../services/impersonation.service';
+import {
+  ImpersonationAuditQueryDto,
+  StartImpersonationDto,
+} from '../dto/impersonation.dto';
+
+@ApiTags('admin-impersonation')
+@Controller('admin/impersonation')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ImpersonationController {
+  constructor(private readonly impersonationService: ImpersonationService) {}
+
+  /**
+   * POST /admin/impersonation/users/:userId
+   * Issue a time-boxed access token acting as the user (SUPER_ADMIN only)
+   */
+  @Post('users/:userId')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({
+    summary: 'Impersonate a user',
+    description:
+      'Returns a short-lived access token (no refresh token) carrying an impersonatedBy claim. ' +
+      'Destructive actions are blocked and every request is written to the impersonation audit log.',
+  })
+  @ApiParam({ name: 'userId', description: 'User to impersonate' })
+  @ApiResponse({ status: 201, description: 'Impersonation token issued' })
+  @ApiResponse({ status: 403, description: 'Forbidden - SUPER_ADMIN only' })
+  async startImpersonation(
+    @Param('userId') userId: string,
+    @Body() startImpersonationDto: StartImpersonationDto,
+    @Request() req,
+  ) {
+    return this.impersonationService.startImpersonation(
+      userId,
+      startImpersonationDto,
+      req.user,
+      { ipAddress: req.ip, userAgent: req.headers['user-agent'] },
+    );
+  }
+
+  /**
+   * POST /admin/impersonation/end
+   * Called with the impersonation token itself to revoke it early
+   */
+  @Post('end')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'End the current impersonation session' })
+  async endImpersonation(@Request() req) {
+    return this.impersonationService.endImpersonation(req.user, {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  /**
+   * GET /admin/impersonation/audit
+   * Impersonation lifecycle events and requests, newest first
+   */
+  @Get('audit')
+  @Roles(UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Get the impersonation audit log' })
+  async getAuditLog(@Query() query: ImpersonationAuditQueryDto) {
+    return this.impersonationService.getAuditLog(query);
+  }
+}
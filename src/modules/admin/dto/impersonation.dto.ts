@@ -0,0 +1,71 @@
+import {
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ImpersonationAuditEvent } from '../schemas/impersonation-audit-log.schema';
+
+export class StartImpersonationDto {
+  @ApiProperty({
+    example: 'Ticket #4812: candidate cannot see exam',
+    description: 'Why support needs to act as this user; kept in the audit log',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional({ default: 30, minimum: 5, maximum: 60 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(5)
+  @Max(60)
+  durationMinutes?: number;
+}
+
+export class ImpersonationAuditQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  impersonationId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsMongoId()
+  impersonatorId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsMongoId()
+  targetUserId?: string;
+
+  @ApiPropertyOptional({ enum: ImpersonationAuditEvent })
+  @IsOptional()
+  @IsEnum(ImpersonationAuditEvent)
+  event?: ImpersonationAuditEvent;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+}
@@ -3,3 +3,13 @@ export { AdminModule } from './admin.module';
 
 // Controllers
 export { MigrationController } from './controllers/migration.controller';
+export { ImpersonationController } from './controllers/impersonation.controller';
+
+// Services
+export { ImpersonationService } from './services/impersonation.service';
+
+// Schemas
+export {
+  ImpersonationAuditLog,
+  ImpersonationAuditEvent,
+} from './schemas/impersonation-audit-log.schema';
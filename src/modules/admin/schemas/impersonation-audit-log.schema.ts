@@ -0,0 +1,61 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum ImpersonationAuditEvent {
+  STARTED = 'STARTED',
+  REQUEST = 'REQUEST',
+  BLOCKED = 'BLOCKED',
+  ENDED = 'ENDED',
+}
+
+/**
+ * One entry per impersonation lifecycle event and per request made with an
+ * impersonation token
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class ImpersonationAuditLog extends Document {
+  @Prop({ required: true })
+  impersonationId: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  impersonatorId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  targetUserId: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: Object.values(ImpersonationAuditEvent),
+    required: true,
+  })
+  event: ImpersonationAuditEvent;
+
+  @Prop()
+  method?: string;
+
+  @Prop()
+  path?: string;
+
+  @Prop()
+  statusCode?: number;
+
+  @Prop()
+  durationMs?: number;
+
+  @Prop()
+  reason?: string;
+
+  @Prop()
+  ipAddress?: string;
+
+  @Prop()
+  userAgent?: string;
+}
+
+export const ImpersonationAuditLogSchema = SchemaFactory.createForClass(
+  ImpersonationAuditLog,
+);
+
+ImpersonationAuditLogSchema.index({ impersonationId: 1, createdAt: 1 });
+ImpersonationAuditLogSchema.index({ impersonatorId: 1, createdAt: -1 });
+ImpersonationAuditLogSchema.index({ targetUserId: 1, createdAt: -1 });
@@ -0,0 +1,201 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { User, UserRole } from '../../users/schemas/user.schema';
+import { TokenService } from '../../auth/services/token.service';
+import { SessionRevokedReason } from '../../auth/schemas/user-session.schema';
+import {
+  ImpersonationAuditEvent,
+  ImpersonationAuditLog,
+} from '../schemas/impersonation-audit-log.schema';
+import {
+  ImpersonationAuditQueryDto,
+  StartImpersonationDto,
+} from '../dto/impersonation.dto';
+
+const DEFAULT_DURATION_MINUTES = 30;
+
+export interface ImpersonationAuditEntry {
+  impersonationId: string;
+  impersonatorId: string;
+  targetUserId: string;
+  event: ImpersonationAuditEvent;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  durationMs?: number;
+  reason?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Lets super admins see the platform as another user through a time-boxed
+ * access token, and keeps the audit trail of everything done with it.
+ */
+@Injectable()
+export class ImpersonationService {
+  private readonly logger = new Logger(ImpersonationService.name);
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(ImpersonationAuditLog.name)
+    private auditLogModel: Model<ImpersonationAuditLog>,
+    private readonly tokenService: TokenService,
+  ) {}
+
+  async startImpersonation(
+    targetUserId: string,
+    dto: StartImpersonationDto,
+    impersonator: any,
+    context: { ipAddress?: string; userAgent?: string } = {},
+  ) {
+    if (impersonator.impersonatedBy) {
+      throw new BadRequestException('Already impersonating a user');
+    }
+
+    if (!Types.ObjectId.isValid(targetUserId)) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (targetUserId === impersonator.id) {
+      throw new BadRequestException('You cannot impersonate yourself');
+    }
+
+    const user = await this.userModel.findById(targetUserId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.role === UserRole.SUPER_ADMIN) {
+      throw new ForbiddenException('Super admins cannot be impersonated');
+    }
+
+    if (!user.isActive) {
+      throw new BadRequestException('Cannot impersonate an inactive user');
+    }
+
+    const durationMinutes = dto.durationMinutes || DEFAULT_DURATION_MINUTES;
+    const { accessToken, impersonationId, expiresAt } =
+      this.tokenService.issueImpersonationToken(
+        user,
+        impersonator.id,
+        durationMinutes * 60,
+      );
+
+    await this.record({
+      impersonationId,
+      impersonatorId: impersonator.id,
+      targetUserId,
+      event: ImpersonationAuditEvent.STARTED,
+      reason: dto.reason,
+      ...context,
+    });
+
+    this.logger.warn(
+      `Super admin ${impersonator.email} started impersonating ${user.email} ` +
+        `for ${durationMinutes} minutes (${impersonationId})`,
+    );
+
+    return {
+      accessToken,
+      impersonationId,
+      expiresAt,
+      user: this.tokenService.buildUserInfo(user),
+    };
+  }
+
+  /**
+   * Revoke the impersonation token the request was made with
+   */
+  async endImpersonation(
+    user: any,
+    context: { ipAddress?: string; userAgent?: string } = {},
+  ) {
+    if (!user.impersonatedBy) {
+      throw new BadRequestException('Not an impersonation session');
+    }
+
+    await this.tokenService.revokeSession(
+      user.id,
+      user.impersonationId,
+      SessionRevokedReason.LOGOUT,
+      user.impersonatedBy,
+    );
+
+    await this.record({
+      impersonationId: user.impersonationId,
+      impersonatorId: user.impersonatedBy,
+      targetUserId: user.id,
+      event: ImpersonationAuditEvent.ENDED,
+      ...context,
+    });
+
+    return { message: 'Impersonation ended' };
+  }
+
+  async getAuditLog(query: ImpersonationAuditQueryDto) {
+    const { page = 1, limit = 50 } = query;
+    const filter: any = {};
+
+    if (query.impersonationId) {
+      filter.impersonationId = query.impersonationId;
+    }
+    if (query.impersonatorId) {
+      filter.impersonatorId = new Types.ObjectId(query.impersonatorId);
+    }
+    if (query.targetUserId) {
+      filter.targetUserId = new Types.ObjectId(query.targetUserId);
+    }
+    if (query.event) {
+      filter.event = query.event;
+    }
+
+    const [entries, total] = await Promise.all([
+      this.auditLogModel
+        .find(filter)
+        .populate('impersonatorId', 'name email')
+        .populate('targetUserId', 'name email role')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.auditLogModel.countDocuments(filter),
+    ]);
+
+    return {
+      entries,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Append an audit entry. Failures are logged, never thrown, so auditing
+   * cannot break the request being audited.
+   */
+  async record(entry: ImpersonationAuditEntry): Promise<void> {
+    try {
+      await this.auditLogModel.create({
+        ...entry,
+        impersonatorId: new Types.ObjectId(entry.impersonatorId),
+        targetUserId: new Types.ObjectId(entry.targetUserId),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to write impersonation audit entry for ${entry.impersonationId}: ${error.message}`,
+      );
+    }
+  }
+}
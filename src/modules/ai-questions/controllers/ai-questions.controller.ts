@@ -25,6 +25,7 @@ import {
   RegenerateQuestionCommand,
 } from '../commands';
 import { AIGenerationService } from '../services';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
 
 @Controller('ai-questions')
 @UseGuards(JwtAuthGuard)
@@ -189,6 +190,7 @@ export class AIQuestionsController {
    * Delete generation record (soft delete)
    */
   @Delete(':id')
+  @BlockImpersonation()
   @HttpCode(HttpStatus.NO_CONTENT)
   async deleteGeneration(@Param('id') id: string, @Request() req) {
     await this.aiGenerationService.deleteGeneration(
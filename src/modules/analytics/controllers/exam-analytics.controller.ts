@@ -10,9 +10,13 @@ import { ExamAnalyticsService } from '../services/exam-analytics.service';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../../auth/guards/roles.guard';
 import { Roles } from '../../auth/decorators/roles.decorator';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/permissions.decorator';
+import { Permission } from '../../../common/utils/role-permissions.util';
 
 @Controller('analytics/exams')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, RolesGuard, PermissionsGuard)
+@RequirePermissions(Permission.ANALYTICS_VIEW)
 export class ExamAnalyticsController {
   constructor(private readonly analyticsService: ExamAnalyticsService) {}
 
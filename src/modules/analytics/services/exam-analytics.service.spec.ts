@@ -0,0 +1,97 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ExamAnalyticsService } from './exam-analytics.service';
+import { Exam } from '../../exams/schemas/exam.schema';
+import { Result } from '../../results/schemas/result.schema';
+import { ExamSession } from '../../proctoring/schemas/exam-session.schema';
+import { Question } from '../../questions/schemas/question.schema';
+
+describe('ExamAnalyticsService', () => {
+  let service: ExamAnalyticsService;
+
+  const select = (value: any) => ({
+    select: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockExamModel = { findById: jest.fn() };
+  const mockResultModel = { find: jest.fn() };
+  const mockSessionModel = { find: jest.fn() };
+  const mockQuestionModel = { findById: jest.fn().mockResolvedValue(null) };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExamAnalyticsService,
+        { provide: getModelToken(Exam.name), useValue: mockExamModel },
+        { provide: getModelToken(Result.name), useValue: mockResultModel },
+        {
+          provide: getModelToken(ExamSession.name),
+          useValue: mockSessionModel,
+        },
+        { provide: getModelToken(Question.name), useValue: mockQuestionModel },
+      ],
+    }).compile();
+
+    service = module.get<ExamAnalyticsService>(ExamAnalyticsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getQuestionAnalytics', () => {
+    const examId = new Types.ObjectId();
+    const shared = new Types.ObjectId();
+    const onlyFirst = new Types.ObjectId();
+    const onlySecond = new Types.ObjectId();
+    const sessions = [
+      { _id: new Types.ObjectId(), questionOrder: [shared, onlyFirst] },
+      { _id: new Types.ObjectId(), questionOrder: [shared, onlySecond] },
+    ];
+    const results = sessions.map((session) => ({
+      session: session._id,
+      answers: session.questionOrder.map((questionId) => ({
+        questionId,
+        selectedOption: 'A',
+        isCorrect: true,
+      })),
+    }));
+
+    const statsOf = (analytics: any, questionId: Types.ObjectId) =>
+      analytics.questions.find(
+        (question) => question.questionId === questionId.toString(),
+      );
+
+    beforeEach(() => {
+      // Pool-based exam: nothing is static, every set is drawn per session
+      mockExamModel.findById.mockResolvedValue({ _id: examId, questions: [] });
+      mockResultModel.find.mockReturnValue(select(results));
+      mockSessionModel.find.mockReturnValue(select(sessions));
+    });
+
+    it("should report the questions of each session's drawn set", async () => {
+      const analytics = await service.getQuestionAnalytics(examId.toString());
+
+      expect(analytics.totalQuestions).toBe(3);
+      expect(mockSessionModel.find).toHaveBeenCalledWith({ examId });
+    });
+
+    it('should count a question only for the sessions that served it', async () => {
+      const analytics = await service.getQuestionAnalytics(examId.toString());
+
+      expect(statsOf(analytics, shared)).toMatchObject({
+        servedTo: 2,
+        totalAttempts: 2,
+        successRate: 100,
+      });
+      expect(statsOf(analytics, onlyFirst)).toMatchObject({
+        servedTo: 1,
+        totalAttempts: 1,
+        unanswered: 0,
+        successRate: 100,
+      });
+      expect(statsOf(analytics, onlySecond).servedTo).toBe(1);
+    });
+  });
+});
@@ -64,7 +64,10 @@ export class ExamAnalyticsService {
     const exam = await this.examModel.findById(examId);
     const totalEnrolled = exam.enrolledCandidates.length;
 
-    const sessions = await this.sessionModel.find({ examId: examId });
+    const sessions = await this.sessionModel.find({
+      examId: examId,
+      isPreview: { $ne: true },
+    });
     const totalStarted = sessions.filter((s) => s.status !== 'ACTIVE').length;
     const totalSubmitted = sessions.filter((s) => s.status === 'COMPLETED').length;
     const totalInProgress = sessions.filter((s) => s.status === 'IN_PROGRESS').length;
@@ -196,7 +199,7 @@ export class ExamAnalyticsService {
    */
   private async getTimeAnalysis(examId: string) {
     const sessions = await this.sessionModel
-      .find({ examId: examId, status: 'COMPLETED' })
+      .find({ examId: examId, status: 'COMPLETED', isPreview: { $ne: true } })
       .select('startTime endTime');
 
     if (sessions.length === 0) {
@@ -300,7 +303,9 @@ export class ExamAnalyticsService {
    * Violation Analysis
    */
   private async getViolationAnalysis(examId: string) {
-    const sessions = await this.sessionModel.find({ examId: examId }).select('violations warningCount');
+    const sessions = await this.sessionModel
+      .find({ examId: examId, isPreview: { $ne: true } })
+      .select('violations warningCount');
 
     const totalSessions = sessions.length;
     const sessionsWithViolations = sessions.filter(
@@ -338,25 +343,55 @@ export class ExamAnalyticsService {
    * Success rate, average time, difficulty index per question
    */
   async getQuestionAnalytics(examId: string) {
-    const exam = await this.examModel.findById(examId).populate('questions');
+    const exam = await this.examModel.findById(examId);
     if (!exam) {
       throw new NotFoundException('Exam not found');
     }
 
     const results = await this.resultModel
       .find({ exam: examId, status: { $in: ['GRADED', 'PUBLISHED'] } })
-      .select('answers');
+      .select('answers session');
+
+    // Sessions that were served each question. Pool-based exams give every
+    // candidate a different set, so a question is only counted for the
+    // results whose session actually contained it.
+    const sessions = await this.sessionModel
+      .find({ examId: new Types.ObjectId(examId) })
+      .select('questionOrder');
+    const servedBy = new Map<string, Set<string>>();
+    for (const session of sessions) {
+      for (const questionId of session.questionOrder || []) {
+        const key = questionId.toString();
+        if (!servedBy.has(key)) {
+          servedBy.set(key, new Set());
+        }
+        servedBy.get(key).add(session._id.toString());
+      }
+    }
+
+    const questionIds = [
+      ...new Set([
+        ...exam.questions.map((id) => id.toString()),
+        ...servedBy.keys(),
+      ]),
+    ];
 
     const questionStats: any[] = [];
 
-    for (const questionId of exam.questions) {
-      const stats = await this.calculateQuestionStats(questionId.toString(), results);
-      questionStats.push(stats);
+    for (const questionId of questionIds) {
+      const sessionIds = servedBy.get(questionId);
+      const relevantResults = sessionIds
+        ? results.filter((result) =>
+            sessionIds.has(result.session?.toString()),
+          )
+        : results;
+      const stats = await this.calculateQuestionStats(questionId, relevantResults);
+      questionStats.push({ ...stats, servedTo: relevantResults.length });
     }
 
     return {
       examId,
-      totalQuestions: exam.questions.length,
+      totalQuestions: questionIds.length,
       questions: questionStats,
       generatedAt: new Date(),
     };
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ApiKey, ApiKeySchema } from './schemas/api-key.schema';
+import {
+  Organization,
+  OrganizationSchema,
+} from '../organizations/schemas/organization.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
+import { ApiKeysController } from './controllers/api-keys.controller';
+import { ApiKeyService } from './services/api-key.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ApiKey.name, schema: ApiKeySchema },
+      { name: Organization.name, schema: OrganizationSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+  ],
+  controllers: [ApiKeysController],
+  providers: [ApiKeyService],
+  exports: [ApiKeyService],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guards/roles.guard';
+import { Roles } from '../../../common/decorators/roles.decorator';
+import { UserRole } from '../../users/schemas/user.schema';
+import { ApiKeyService } from '../services/api-key.service';
+import { CreateApiKeyDto, UpdateApiKeyDto } from '../dto/api-key.dto';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
+
+@ApiTags('Organization Admin - API Keys')
+@ApiBearerAuth()
+@Controller('org-admin/api-keys')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ORG_ADMIN)
+export class ApiKeysController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Post()
+  @BlockImpersonation()
+  @ApiOperation({ summary: 'Create a scoped API key' })
+  @ApiResponse({
+    status: 201,
+    description: 'API key created; the plaintext key is returned once',
+  })
+  @ApiResponse({ status: 403, description: 'API access not enabled' })
+  async createApiKey(@Body() dto: CreateApiKeyDto, @Request() req) {
+    return this.apiKeyService.createApiKey(
+      dto,
+      req.user.organizationId,
+      req.user.id,
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List API keys with usage counters' })
+  @ApiResponse({ status: 200, description: 'API keys retrieved successfully' })
+  async getApiKeys(@Request() req) {
+    return this.apiKeyService.getApiKeys(req.user.organizationId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get API key details and usage' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async getApiKeyById(@Param('id') id: string, @Request() req) {
+    return this.apiKeyService.getApiKeyById(id, req.user.organizationId);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Rename an API key or change its scopes' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async updateApiKey(
+    @Param('id') id: string,
+    @Body() dto: UpdateApiKeyDto,
+    @Request() req,
+  ) {
+    return this.apiKeyService.updateApiKey(id, dto, req.user.organizationId);
+  }
+
+  @Post(':id/rotate')
+  @BlockImpersonation()
+  @ApiOperation({ summary: 'Rotate the secret of an API key' })
+  @ApiResponse({
+    status: 201,
+    description: 'New plaintext key returned once; the old one stops working',
+  })
+  async rotateApiKey(@Param('id') id: string, @Request() req) {
+    return this.apiKeyService.rotateApiKey(id, req.user.organizationId);
+  }
+
+  @Delete(':id')
+  @BlockImpersonation()
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiResponse({ status: 200, description: 'API key revoked successfully' })
+  async revokeApiKey(@Param('id') id: string, @Request() req) {
+    return this.apiKeyService.revokeApiKey(
+      id,
+      req.user.organizationId,
+      req.user.id,
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ApiKeyDocument = ApiKey & Document;
+
+export enum ApiKeyScope {
+  RESULTS_READ = 'results:read',
+  INVITATIONS_MANAGE = 'invitations:manage',
+  QUESTIONS_MANAGE = 'questions:manage',
+}
+
+@Schema({ _id: false })
+class ApiKeyUsage {
+  @Prop({ type: Number, default: 0 })
+  totalRequests: number;
+
+  @Prop({ type: Date })
+  lastUsedAt: Date;
+
+  @Prop()
+  lastUsedIp: string;
+}
+
+@Schema({ timestamps: true })
+export class ApiKey {
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @Prop({ required: true, maxlength: 100 })
+  name: string;
+
+  // Non-secret leading characters, shown in listings to identify the key
+  @Prop({ required: true })
+  keyPrefix: string;
+
+  // SHA-256 of the full key; the plaintext is only returned once
+  @Prop({ required: true, unique: true, select: false })
+  keyHash: string;
+
+  @Prop({
+    type: [String],
+    enum: Object.values(ApiKeyScope),
+    default: [],
+  })
+  scopes: ApiKeyScope[];
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Boolean, default: true })
+  isActive: boolean;
+
+  @Prop({ type: Date })
+  expiresAt: Date;
+
+  @Prop({ type: Date })
+  revokedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  revokedBy: Types.ObjectId;
+
+  @Prop({ type: Date })
+  lastRotatedAt: Date;
+
+  @Prop({ type: ApiKeyUsage, default: () => ({}) })
+  usage: ApiKeyUsage;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
+
+// Indexes
+ApiKeySchema.index({ organizationId: 1, isActive: 1 });
@@ -0,0 +1,239 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ApiKeyService } from './api-key.service';
+import { ApiKey, ApiKeyScope } from '../schemas/api-key.schema';
+import { Organization } from '../../organizations/schemas/organization.schema';
+import { User, UserRole } from '../../users/schemas/user.schema';
+import { SecureTokenUtil } from '../../../common/utils/secure-token.util';
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+
+  // In-memory stand-in for the api key collection
+  let keys: any[];
+
+  const organizationId = new Types.ObjectId();
+  const creatorId = new Types.ObjectId();
+  let organization: any;
+  let creator: any;
+
+  const found = (value: any) =>
+    Object.assign(Promise.resolve(value), {
+      exec: jest.fn().mockResolvedValue(value),
+    });
+  const matches = (doc: any, filter: Record<string, any>) =>
+    Object.entries(filter).every(
+      ([key, value]) => String(doc[key]) === String(value),
+    );
+
+  const mockApiKeyModel = {
+    create: jest.fn(async (data) => {
+      const apiKey = {
+        _id: new Types.ObjectId(),
+        isActive: true,
+        usage: { totalRequests: 0 },
+        save: jest.fn().mockResolvedValue(undefined),
+        ...data,
+      };
+      keys.push(apiKey);
+      return apiKey;
+    }),
+    findOne: jest.fn((filter) =>
+      found(keys.find((apiKey) => matches(apiKey, filter)) || null),
+    ),
+    updateOne: jest.fn(async (filter, update) => {
+      const apiKey = keys.find((k) => matches(k, filter));
+      apiKey.usage.totalRequests += update.$inc['usage.totalRequests'];
+      apiKey.usage.lastUsedIp = update.$set['usage.lastUsedIp'];
+    }),
+  };
+  const query = (value: () => any) =>
+    jest.fn(() => {
+      const chain: any = { exec: jest.fn(async () => value()) };
+      chain.select = jest.fn(() => chain);
+      return chain;
+    });
+  const mockOrganizationModel = { findById: query(() => organization) };
+  const mockUserModel = { findById: query(() => creator) };
+
+  const issue = async (scopes = [ApiKeyScope.RESULTS_READ]) =>
+    service.createApiKey(
+      { name: 'ATS', scopes },
+      organizationId.toString(),
+      creatorId.toString(),
+    );
+
+  beforeEach(async () => {
+    keys = [];
+    organization = { _id: organizationId, features: { apiAccess: true } };
+    creator = {
+      _id: creatorId,
+      role: UserRole.ORG_ADMIN,
+      isActive: true,
+      organizationIds: [organizationId],
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        { provide: getModelToken(ApiKey.name), useValue: mockApiKeyModel },
+        {
+          provide: getModelToken(Organization.name),
+          useValue: mockOrganizationModel,
+        },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeyService>(ApiKeyService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createApiKey', () => {
+    it('should return the key once and store only its hash', async () => {
+      const { key, apiKey } = await issue();
+
+      expect(key).toMatch(/^smk_[0-9a-f]{64}$/);
+      expect(apiKey.keyPrefix).toBe(key.substring(0, 12));
+      expect(keys[0].keyHash).toBe(SecureTokenUtil.hash(key));
+      expect(apiKey).not.toHaveProperty('keyHash');
+    });
+
+    it('should require API access on the plan', async () => {
+      organization.features.apiAccess = false;
+
+      await expect(issue()).rejects.toThrow(ForbiddenException);
+      expect(keys).toHaveLength(0);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should resolve a key to its organization and scopes', async () => {
+      const { key, apiKey } = await issue([
+        ApiKeyScope.RESULTS_READ,
+        ApiKeyScope.RESULTS_READ,
+        ApiKeyScope.QUESTIONS_MANAGE,
+      ]);
+
+      const principal = await service.authenticate(key, '203.0.113.7');
+
+      expect(principal).toMatchObject({
+        userId: creatorId.toString(),
+        role: UserRole.ORG_ADMIN,
+        organizationId: organizationId.toString(),
+        organizationIds: [organizationId.toString()],
+        isApiKey: true,
+        apiKeyId: apiKey._id.toString(),
+        scopes: [ApiKeyScope.RESULTS_READ, ApiKeyScope.QUESTIONS_MANAGE],
+      });
+    });
+
+    it('should record usage', async () => {
+      const { key } = await issue();
+
+      await service.authenticate(key, '203.0.113.7');
+      await service.authenticate(key, '198.51.100.1');
+
+      expect(keys[0].usage).toMatchObject({
+        totalRequests: 2,
+        lastUsedIp: '198.51.100.1',
+      });
+    });
+
+    it('should reject an unknown key', async () => {
+      await issue();
+
+      await expect(
+        service.authenticate('smk_0000000000000000'),
+      ).rejects.toThrow('Invalid API key');
+    });
+
+    it('should reject a revoked key', async () => {
+      const { key, apiKey } = await issue();
+      await service.revokeApiKey(
+        apiKey._id.toString(),
+        organizationId.toString(),
+        creatorId.toString(),
+      );
+
+      await expect(service.authenticate(key)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject an expired key', async () => {
+      const { key } = await issue();
+      keys[0].expiresAt = new Date(Date.now() - 1000);
+
+      await expect(service.authenticate(key)).rejects.toThrow(
+        'API key has expired',
+      );
+    });
+
+    it('should reject keys once the plan loses API access', async () => {
+      const { key } = await issue();
+      organization.features.apiAccess = false;
+
+      await expect(service.authenticate(key)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(keys[0].usage.totalRequests).toBe(0);
+    });
+
+    it.each([
+      ['is deactivated', { isActive: false }],
+      ['leaves the organization', { organizationIds: [] }],
+      ['is no longer an admin', { role: UserRole.RECRUITER }],
+    ])('should reject keys once their creator %s', async (_change, update) => {
+      const { key } = await issue();
+      Object.assign(creator, update);
+
+      await expect(service.authenticate(key)).rejects.toThrow(
+        'API key owner no longer has access to this organization',
+      );
+      expect(keys[0].usage.totalRequests).toBe(0);
+    });
+
+    it('should reject keys of a deleted creator', async () => {
+      const { key } = await issue();
+      creator = null;
+
+      await expect(service.authenticate(key)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should stop accepting the old secret after rotation', async () => {
+      const { key, apiKey } = await issue();
+
+      const rotated = await service.rotateApiKey(
+        apiKey._id.toString(),
+        organizationId.toString(),
+      );
+
+      await expect(service.authenticate(key)).rejects.toThrow(
+        'Invalid API key',
+      );
+      await expect(service.authenticate(rotated.key)).resolves.toMatchObject({
+        apiKeyId: apiKey._id.toString(),
+      });
+    });
+  });
+
+  it("should not manage another organization's keys", async () => {
+    const { apiKey } = await issue();
+
+    await expect(
+      service.revokeApiKey(
+        apiKey._id.toString(),
+        new Types.ObjectId().toString(),
+        creatorId.toString(),
+      ),
+    ).rejects.toThrow('API key not found');
+  });
+});
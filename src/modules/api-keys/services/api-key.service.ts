@@ -0,0 +1,276 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  UnauthorizedException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ApiKey, ApiKeyScope } from '../schemas/api-key.schema';
+import { Organization } from '../../organizations/schemas/organization.schema';
+import { User, UserRole } from '../../users/schemas/user.schema';
+import { CreateApiKeyDto, UpdateApiKeyDto } from '../dto/api-key.dto';
+import { SecureTokenUtil } from '../../../common/utils/secure-token.util';
+
+const API_KEY_PREFIX = 'smk_';
+
+/**
+ * Principal attached to request.user when a request authenticates with an API key.
+ * Shaped like the JwtStrategy user so existing controllers and guards keep working.
+ */
+export interface ApiKeyPrincipal {
+  userId: string;
+  id: string;
+  email: string;
+  role: UserRole;
+  organizationId: string;
+  organizationIds: string[];
+  isApiKey: true;
+  apiKeyId: string;
+  scopes: ApiKeyScope[];
+}
+
+@Injectable()
+export class ApiKeyService {
+  constructor(
+    @InjectModel(ApiKey.name) private apiKeyModel: Model<ApiKey>,
+    @InjectModel(Organization.name)
+    private organizationModel: Model<Organization>,
+    @InjectModel(User.name) private userModel: Model<User>,
+  ) {}
+
+  async createApiKey(
+    dto: CreateApiKeyDto,
+    organizationId: string,
+    userId: string,
+  ) {
+    await this.assertApiAccessEnabled(organizationId);
+
+    if (dto.expiresAt && new Date(dto.expiresAt) <= new Date()) {
+      throw new BadRequestException('Expiry date must be in the future');
+    }
+
+    const { key, keyPrefix, keyHash } = this.generateKey();
+
+    const apiKey = await this.apiKeyModel.create({
+      organizationId: new Types.ObjectId(organizationId),
+      name: dto.name,
+      keyPrefix,
+      keyHash,
+      scopes: [...new Set(dto.scopes)],
+      createdBy: new Types.ObjectId(userId),
+      expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
+    });
+
+    return {
+      apiKey: this.toResponse(apiKey),
+      key, // Only time the plaintext key is returned
+      message: 'Store this key securely. It will not be shown again.',
+    };
+  }
+
+  async getApiKeys(organizationId: string) {
+    const apiKeys = await this.apiKeyModel
+      .find({ organizationId: new Types.ObjectId(organizationId) })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return apiKeys.map((apiKey) => this.toResponse(apiKey));
+  }
+
+  async getApiKeyById(id: string, organizationId: string) {
+    const apiKey = await this.findOrgKey(id, organizationId);
+    return this.toResponse(apiKey);
+  }
+
+  async updateApiKey(id: string, dto: UpdateApiKeyDto, organizationId: string) {
+    const apiKey = await this.findOrgKey(id, organizationId);
+
+    if (!apiKey.isActive) {
+      throw new BadRequestException('Cannot update a revoked API key');
+    }
+
+    if (dto.name) {
+      apiKey.name = dto.name;
+    }
+
+    if (dto.scopes) {
+      apiKey.scopes = [...new Set(dto.scopes)];
+    }
+
+    await apiKey.save();
+
+    return this.toResponse(apiKey);
+  }
+
+  /**
+   * Replace the secret of an existing key. The old secret stops working immediately.
+   */
+  async rotateApiKey(id: string, organizationId: string) {
+    await this.assertApiAccessEnabled(organizationId);
+
+    const apiKey = await this.findOrgKey(id, organizationId);
+
+    if (!apiKey.isActive) {
+      throw new BadRequestException('Cannot rotate a revoked API key');
+    }
+
+    const { key, keyPrefix, keyHash } = this.generateKey();
+    apiKey.keyPrefix = keyPrefix;
+    apiKey.keyHash = keyHash;
+    apiKey.lastRotatedAt = new Date();
+    await apiKey.save();
+
+    return {
+      apiKey: this.toResponse(apiKey),
+      key,
+      message: 'Store this key securely. It will not be shown again.',
+    };
+  }
+
+  async revokeApiKey(id: string, organizationId: string, userId: string) {
+    const apiKey = await this.findOrgKey(id, organizationId);
+
+    if (!apiKey.isActive) {
+      throw new BadRequestException('API key is already revoked');
+    }
+
+    apiKey.isActive = false;
+    apiKey.revokedAt = new Date();
+    apiKey.revokedBy = new Types.ObjectId(userId);
+    await apiKey.save();
+
+    return { message: 'API key revoked successfully' };
+  }
+
+  /**
+   * Resolve a presented key to a principal and record usage
+   */
+  async authenticate(
+    rawKey: string,
+    ipAddress?: string,
+  ): Promise<ApiKeyPrincipal> {
+    const apiKey = await this.apiKeyModel
+      .findOne({ keyHash: SecureTokenUtil.hash(rawKey), isActive: true })
+      .exec();
+
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+      throw new UnauthorizedException('API key has expired');
+    }
+
+    const organizationId = apiKey.organizationId.toString();
+    const actingUserId = apiKey.createdBy.toString();
+
+    // The plan may have been downgraded since the key was issued
+    await this.assertApiAccessEnabled(organizationId);
+    await this.assertCreatorIsOrgAdmin(actingUserId, organizationId);
+
+    await this.apiKeyModel.updateOne(
+      { _id: apiKey._id },
+      {
+        $inc: { 'usage.totalRequests': 1 },
+        $set: { 'usage.lastUsedAt': new Date(), 'usage.lastUsedIp': ipAddress },
+      },
+    );
+
+    return {
+      userId: actingUserId,
+      id: actingUserId,
+      email: `api-key:${apiKey.keyPrefix}`,
+      role: UserRole.ORG_ADMIN,
+      organizationId,
+      organizationIds: [organizationId],
+      isApiKey: true,
+      apiKeyId: apiKey._id.toString(),
+      scopes: apiKey.scopes,
+    };
+  }
+
+  private async assertApiAccessEnabled(organizationId: string) {
+    const organization = await this.organizationModel
+      .findById(organizationId)
+      .select('features')
+      .exec();
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    if (!organization.features?.apiAccess) {
+      throw new ForbiddenException(
+        'API access is not enabled for this organization',
+      );
+    }
+  }
+
+  /**
+   * Keys act as their creator, so they stop working once the creator is
+   * deactivated, leaves the organization or is no longer its admin
+   */
+  private async assertCreatorIsOrgAdmin(
+    userId: string,
+    organizationId: string,
+  ) {
+    const creator = await this.userModel
+      .findById(userId)
+      .select('role isActive organizationIds')
+      .exec();
+
+    if (
+      !creator?.isActive ||
+      creator.role !== UserRole.ORG_ADMIN ||
+      !creator.organizationIds?.some((id) => id.toString() === organizationId)
+    ) {
+      throw new UnauthorizedException(
+        'API key owner no longer has access to this organization',
+      );
+    }
+  }
+
+  private async findOrgKey(id: string, organizationId: string) {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('API key not found');
+    }
+
+    const apiKey = await this.apiKeyModel.findOne({
+      _id: id,
+      organizationId: new Types.ObjectId(organizationId),
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    return apiKey;
+  }
+
+  private generateKey() {
+    const key = `${API_KEY_PREFIX}${SecureTokenUtil.generate(32)}`;
+    return {
+      key,
+      keyPrefix: key.substring(0, API_KEY_PREFIX.length + 8),
+      keyHash: SecureTokenUtil.hash(key),
+    };
+  }
+
+  private toResponse(apiKey: any) {
+    return {
+      _id: apiKey._id,
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      scopes: apiKey.scopes,
+      isActive: apiKey.isActive,
+      expiresAt: apiKey.expiresAt,
+      revokedAt: apiKey.revokedAt,
+      lastRotatedAt: apiKey.lastRotatedAt,
+      usage: apiKey.usage,
+      createdBy: apiKey.createdBy,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
@@ -6,14 +6,78 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { CqrsModule } from '@nestjs/cqrs';
 import { AuthController } from './controllers/auth.controller';
 import { User, UserSchema } from '../users/schemas/user.schema';
-import { ExamInvitation, ExamInvitationSchema } from '../exams/schemas/exam-invitation.schema';
-import { ExamSession, ExamSessionSchema } from '../proctoring/schemas/exam-session.schema';
+import {
+  ExamInvitation,
+  ExamInvitationSchema,
+} from '../exams/schemas/exam-invitation.schema';
+import {
+  ExamSession,
+  ExamSessionSchema,
+} from '../proctoring/schemas/exam-session.schema';
+import {
+  Organization,
+  OrganizationSchema,
+} from '../organizations/schemas/organization.schema';
+import { Exam, ExamSchema } from '../exams/schemas/exam.schema';
+import { OrgRole, OrgRoleSchema } from '../org-admin/schemas/org-role.schema';
 import { LoginHandler } from './commands/handlers/login.handler';
 import { RegisterHandler } from './commands/handlers/register.handler';
+import { RegisterCandidateHandler } from './commands/handlers/register-candidate.handler';
+import { RefreshTokenHandler } from './commands/handlers/refresh-token.handler';
+import { LogoutHandler } from './commands/handlers/logout.handler';
+import { ChangePasswordHandler } from './commands/handlers/change-password.handler';
+import { ForgotPasswordHandler } from './commands/handlers/forgot-password.handler';
+import { ResetPasswordHandler } from './commands/handlers/reset-password.handler';
+import { VerifyEmailHandler } from './commands/handlers/verify-email.handler';
+import { ResendVerificationHandler } from './commands/handlers/resend-verification.handler';
+import { VerifyMfaLoginHandler } from './commands/handlers/verify-mfa-login.handler';
+import { SetupMfaHandler } from './commands/handlers/setup-mfa.handler';
+import { EnableMfaHandler } from './commands/handlers/enable-mfa.handler';
+import { DisableMfaHandler } from './commands/handlers/disable-mfa.handler';
+import { RegenerateRecoveryCodesHandler } from './commands/handlers/regenerate-recovery-codes.handler';
+import { StartSsoLoginHandler } from './commands/handlers/start-sso-login.handler';
+import { CompleteSsoLoginHandler } from './commands/handlers/complete-sso-login.handler';
+import { ListSessionsHandler } from './commands/handlers/list-sessions.handler';
+import { RevokeSessionHandler } from './commands/handlers/revoke-session.handler';
+import { RequestMagicLinkHandler } from './commands/handlers/request-magic-link.handler';
+import { VerifyMagicLinkHandler } from './commands/handlers/verify-magic-link.handler';
+import { GetLoginOptionsHandler } from './commands/handlers/get-login-options.handler';
+import { TokenService } from './services/token.service';
+import { EmailVerificationService } from './services/email-verification.service';
+import { MfaService } from './services/mfa.service';
+import { LoginAttemptService } from './services/login-attempt.service';
+import { OidcService } from './services/oidc.service';
+import { SessionService } from './services/session.service';
+import { MagicLinkService } from './services/magic-link.service';
+import { UserSession, UserSessionSchema } from './schemas/user-session.schema';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { InvitationJwtStrategy } from './strategies/invitation-jwt.strategy';
+import { EmailModule } from '../email/email.module';
 
-const CommandHandlers = [LoginHandler, RegisterHandler];
+const CommandHandlers = [
+  LoginHandler,
+  RegisterHandler,
+  RegisterCandidateHandler,
+  RefreshTokenHandler,
+  LogoutHandler,
+  ChangePasswordHandler,
+  ForgotPasswordHandler,
+  ResetPasswordHandler,
+  VerifyEmailHandler,
+  ResendVerificationHandler,
+  VerifyMfaLoginHandler,
+  SetupMfaHandler,
+  EnableMfaHandler,
+  DisableMfaHandler,
+  RegenerateRecoveryCodesHandler,
+  StartSsoLoginHandler,
+  CompleteSsoLoginHandler,
+  ListSessionsHandler,
+  RevokeSessionHandler,
+  RequestMagicLinkHandler,
+  VerifyMagicLinkHandler,
+  GetLoginOptionsHandler,
+];
 
 @Module({
   imports: [
@@ -33,10 +97,33 @@ const CommandHandlers = [LoginHandler, RegisterHandler];
       { name: User.name, schema: UserSchema },
       { name: ExamInvitation.name, schema: ExamInvitationSchema },
       { name: ExamSession.name, schema: ExamSessionSchema },
+      { name: Organization.name, schema: OrganizationSchema },
+      { name: Exam.name, schema: ExamSchema },
+      { name: OrgRole.name, schema: OrgRoleSchema },
+      { name: UserSession.name, schema: UserSessionSchema },
     ]),
+    EmailModule,
   ],
   controllers: [AuthController],
-  providers: [...CommandHandlers, JwtStrategy, InvitationJwtStrategy],
-  exports: [JwtStrategy, PassportModule],
+  providers: [
+    ...CommandHandlers,
+    TokenService,
+    EmailVerificationService,
+    MfaService,
+    LoginAttemptService,
+    OidcService,
+    SessionService,
+    MagicLinkService,
+    JwtStrategy,
+    InvitationJwtStrategy,
+  ],
+  exports: [
+    JwtStrategy,
+    PassportModule,
+    TokenService,
+    SessionService,
+    EmailVerificationService,
+    LoginAttemptService,
+  ],
 })
 export class AuthModule {}
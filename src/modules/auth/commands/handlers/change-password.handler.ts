@@ -0,0 +1,55 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as bcrypt from 'bcrypt';
+import { ChangePasswordCommand } from '../impl/change-password.command';
+import { User } from '../../../users/schemas/user.schema';
+import { TokenService } from '../../services/token.service';
+
+@CommandHandler(ChangePasswordCommand)
+export class ChangePasswordHandler
+  implements ICommandHandler<ChangePasswordCommand>
+{
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    private tokenService: TokenService,
+  ) {}
+
+  async execute(command: ChangePasswordCommand) {
+    const { userId, currentPassword, newPassword } = command;
+
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const isPasswordValid = await bcrypt.compare(
+      currentPassword,
+      user.password,
+    );
+    if (!isPasswordValid) {
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+
+    if (currentPassword === newPassword) {
+      throw new BadRequestException(
+        'New password must be different from the current password',
+      );
+    }
+
+    user.password = await bcrypt.hash(newPassword, 10);
+    await user.save();
+
+    // Sign out every device, including the one making this request
+    await this.tokenService.revokeAllUserTokens(user._id.toString());
+
+    return {
+      message: 'Password changed successfully. Please log in again.',
+    };
+  }
+}
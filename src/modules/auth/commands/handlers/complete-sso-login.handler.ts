@@ -0,0 +1,35 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { CompleteSsoLoginCommand } from '../impl/complete-sso-login.command';
+import { OidcService } from '../../services/oidc.service';
+import { TokenService } from '../../services/token.service';
+import { SessionLoginMethod } from '../../schemas/user-session.schema';
+
+@CommandHandler(CompleteSsoLoginCommand)
+export class CompleteSsoLoginHandler
+  implements ICommandHandler<CompleteSsoLoginCommand>
+{
+  constructor(
+    private oidcService: OidcService,
+    private tokenService: TokenService,
+  ) {}
+
+  async execute(command: CompleteSsoLoginCommand) {
+    const { code, state, ipAddress, userAgent } = command;
+
+    // The identity provider has already authenticated the user (and applied its own MFA)
+    const user = await this.oidcService.completeAuthorization(code, state);
+
+    const { accessToken, refreshToken } =
+      await this.tokenService.issueTokenPair(user, undefined, {
+        ipAddress,
+        userAgent,
+        loginMethod: SessionLoginMethod.SSO,
+      });
+
+    return {
+      user: this.tokenService.buildUserInfo(user),
+      accessToken,
+      refreshToken,
+    };
+  }
+}
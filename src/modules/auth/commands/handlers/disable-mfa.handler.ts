@@ -0,0 +1,14 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { DisableMfaCommand } from '../impl/disable-mfa.command';
+import { MfaService } from '../../services/mfa.service';
+
+@CommandHandler(DisableMfaCommand)
+export class DisableMfaHandler implements ICommandHandler<DisableMfaCommand> {
+  constructor(private mfaService: MfaService) {}
+
+  async execute(command: DisableMfaCommand) {
+    await this.mfaService.disable(command.userId, command.code);
+
+    return { message: 'Two-factor authentication disabled' };
+  }
+}
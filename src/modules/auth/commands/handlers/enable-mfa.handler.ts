@@ -0,0 +1,21 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { EnableMfaCommand } from '../impl/enable-mfa.command';
+import { MfaService } from '../../services/mfa.service';
+
+@CommandHandler(EnableMfaCommand)
+export class EnableMfaHandler implements ICommandHandler<EnableMfaCommand> {
+  constructor(private mfaService: MfaService) {}
+
+  async execute(command: EnableMfaCommand) {
+    const recoveryCodes = await this.mfaService.completeEnrollment(
+      command.userId,
+      command.code,
+    );
+
+    return {
+      message:
+        'Two-factor authentication enabled. Store these recovery codes somewhere safe; they will not be shown again.',
+      recoveryCodes,
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ForgotPasswordHandler } from './forgot-password.handler';
+import { ForgotPasswordCommand } from '../impl/forgot-password.command';
+import { User } from '../../../users/schemas/user.schema';
+import { EmailService } from '../../../email/services/email.service';
+import { RateLimiterService } from '../../../redis/rate-limiter.service';
+import { SecureTokenUtil } from '../../../../common/utils/secure-token.util';
+
+describe('ForgotPasswordHandler', () => {
+  let handler: ForgotPasswordHandler;
+
+  // In-memory stand-in for the Redis counters
+  let counters: Map<string, number>;
+
+  const user = {
+    name: 'Ada',
+    email: 'ada@acme.com',
+    passwordResetToken: undefined,
+    passwordResetExpires: undefined,
+    save: jest.fn().mockResolvedValue(undefined),
+  } as any;
+
+  const mockUserModel = { findOne: jest.fn() };
+  const mockEmailService = { queuePasswordResetEmail: jest.fn() };
+  const mockRateLimiter = {
+    hit: jest.fn(async (key: string) => {
+      counters.set(key, (counters.get(key) || 0) + 1);
+      return counters.get(key);
+    }),
+  };
+
+  const forgot = (email = 'Ada@Acme.com ', ipAddress = '203.0.113.7') =>
+    handler.execute(new ForgotPasswordCommand(email, ipAddress));
+
+  beforeEach(async () => {
+    counters = new Map();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ForgotPasswordHandler,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: EmailService, useValue: mockEmailService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => 'https://exams.acme.com') },
+        },
+        { provide: RateLimiterService, useValue: mockRateLimiter },
+      ],
+    }).compile();
+
+    handler = module.get<ForgotPasswordHandler>(ForgotPasswordHandler);
+    mockUserModel.findOne.mockResolvedValue(user);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should store only the hash of the emailed token', async () => {
+    await forgot();
+
+    expect(mockUserModel.findOne).toHaveBeenCalledWith({
+      email: 'ada@acme.com',
+      isActive: true,
+    });
+    const { resetUrl } =
+      mockEmailService.queuePasswordResetEmail.mock.calls[0][0];
+    const token = new URL(resetUrl).searchParams.get('token');
+    expect(resetUrl).toMatch(/^https:\/\/exams\.acme\.com\/reset-password/);
+    expect(user.passwordResetToken).toBe(SecureTokenUtil.hash(token));
+    expect(user.passwordResetToken).not.toBe(token);
+    expect(user.passwordResetExpires.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should replace the previous token on a new request', async () => {
+    await forgot();
+    const first = user.passwordResetToken;
+
+    await forgot();
+
+    expect(user.passwordResetToken).not.toBe(first);
+  });
+
+  it('should answer the same for unknown addresses', async () => {
+    const known = await forgot();
+    mockUserModel.findOne.mockResolvedValue(null);
+
+    const unknown = await forgot('nobody@acme.com');
+
+    expect(unknown).toEqual(known);
+    expect(mockEmailService.queuePasswordResetEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should silently stop emailing an address after the limit', async () => {
+    for (let i = 0; i < 4; i++) {
+      await forgot();
+    }
+
+    expect(mockEmailService.queuePasswordResetEmail).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject an IP address flooding requests', async () => {
+    for (let i = 0; i < 10; i++) {
+      await forgot(`user${i}@acme.com`);
+    }
+
+    await expect(forgot()).rejects.toThrow(HttpException);
+    await expect(forgot()).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+  });
+});
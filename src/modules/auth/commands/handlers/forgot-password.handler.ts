@@ -0,0 +1,96 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { ForgotPasswordCommand } from '../impl/forgot-password.command';
+import { User } from '../../../users/schemas/user.schema';
+import { EmailService } from '../../../email/services/email.service';
+import { SecureTokenUtil } from '../../../../common/utils/secure-token.util';
+import { RateLimiterService } from '../../../redis/rate-limiter.service';
+
+const RESET_TOKEN_TTL_MINUTES = 60;
+const RATE_LIMIT_WINDOW_SECONDS = 60 * 60;
+const MAX_REQUESTS_PER_EMAIL = 3;
+const MAX_REQUESTS_PER_IP = 10;
+
+@CommandHandler(ForgotPasswordCommand)
+export class ForgotPasswordHandler
+  implements ICommandHandler<ForgotPasswordCommand>
+{
+  private readonly logger = new Logger(ForgotPasswordHandler.name);
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    private emailService: EmailService,
+    private configService: ConfigService,
+    private rateLimiter: RateLimiterService,
+  ) {}
+
+  async execute(command: ForgotPasswordCommand) {
+    const email = command.email.toLowerCase().trim();
+
+    // Same response whether or not the account exists, to prevent enumeration
+    const response = {
+      message:
+        'If an account exists for this email, a password reset link has been sent.',
+    };
+
+    if (command.ipAddress) {
+      const ipRequests = await this.rateLimiter.hit(
+        `auth:password-reset:ip:${command.ipAddress}`,
+        RATE_LIMIT_WINDOW_SECONDS,
+      );
+      if (ipRequests > MAX_REQUESTS_PER_IP) {
+        throw new HttpException(
+          'Too many password reset requests. Please try again later.',
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    // Silently drop excess requests for one address so a mailbox can't be flooded
+    const emailRequests = await this.rateLimiter.hit(
+      `auth:password-reset:email:${email}`,
+      RATE_LIMIT_WINDOW_SECONDS,
+    );
+    if (emailRequests > MAX_REQUESTS_PER_EMAIL) {
+      this.logger.warn(`Password reset rate limit reached for ${email}`);
+      return response;
+    }
+
+    const user = await this.userModel.findOne({ email, isActive: true });
+    if (!user) {
+      return response;
+    }
+
+    // Issuing a new token replaces (and so invalidates) any previous one
+    const token = SecureTokenUtil.generate();
+    user.passwordResetToken = SecureTokenUtil.hash(token);
+    user.passwordResetExpires = new Date(
+      Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000,
+    );
+    await user.save();
+
+    const frontendUrl = this.configService.get(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+
+    try {
+      await this.emailService.queuePasswordResetEmail({
+        name: user.name,
+        email: user.email,
+        resetUrl: `${frontendUrl}/reset-password?token=${token}`,
+        expiresInMinutes: RESET_TOKEN_TTL_MINUTES,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue password reset email for ${email}:`,
+        error,
+      );
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,14 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { GetLoginOptionsCommand } from '../impl/get-login-options.command';
+import { MagicLinkService } from '../../services/magic-link.service';
+
+@CommandHandler(GetLoginOptionsCommand)
+export class GetLoginOptionsHandler
+  implements ICommandHandler<GetLoginOptionsCommand>
+{
+  constructor(private magicLinkService: MagicLinkService) {}
+
+  async execute(command: GetLoginOptionsCommand) {
+    return this.magicLinkService.getLoginOptions(command.organizationId);
+  }
+}
@@ -0,0 +1,24 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { ListSessionsCommand } from '../impl/list-sessions.command';
+import { SessionService } from '../../services/session.service';
+
+@CommandHandler(ListSessionsCommand)
+export class ListSessionsHandler
+  implements ICommandHandler<ListSessionsCommand>
+{
+  constructor(private sessionService: SessionService) {}
+
+  async execute(command: ListSessionsCommand) {
+    const { userId, currentSessionId } = command;
+
+    const sessions = await this.sessionService.listActiveSessions(
+      userId,
+      currentSessionId,
+    );
+
+    return {
+      data: sessions,
+      total: sessions.length,
+    };
+  }
+}
@@ -1,66 +1,79 @@
 import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
 import { UnauthorizedException } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import * as bcrypt from 'bcrypt';
 import { LoginCommand } from '../impl/login.command';
 import { User } from '../../../users/schemas/user.schema';
+import { TokenService } from '../../services/token.service';
+import { MfaService } from '../../services/mfa.service';
+import { LoginAttemptService } from '../../services/login-attempt.service';
+import { SessionLoginMethod } from '../../schemas/user-session.schema';
 
 @CommandHandler(LoginCommand)
 export class LoginHandler implements ICommandHandler<LoginCommand> {
   constructor(
     @InjectModel(User.name) private userModel: Model<User>,
-    private jwtService: JwtService,
+    private tokenService: TokenService,
+    private mfaService: MfaService,
+    private loginAttemptService: LoginAttemptService,
   ) {}
 
   async execute(command: LoginCommand) {
-    const { email, password } = command;
+    const { password, ipAddress, userAgent } = command;
+    const email = command.email.toLowerCase().trim();
+
+    // Locked accounts/IPs are rejected before the password is even checked
+    await this.loginAttemptService.assertCanAttempt(email, ipAddress);
 
     // Find user
     const user = await this.userModel.findOne({ email, isActive: true });
     if (!user) {
+      await this.loginAttemptService.recordFailure(email, ipAddress);
       throw new UnauthorizedException('Invalid credentials');
     }
 
     // Verify password
     const isPasswordValid = await bcrypt.compare(password, user.password);
     if (!isPasswordValid) {
+      await this.loginAttemptService.recordFailure(email, ipAddress);
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    await this.loginAttemptService.recordSuccess(email);
+
+    // Second factor: hand back a short-lived challenge token instead of a session
+    if (user.mfaEnabled) {
+      return {
+        mfaRequired: true,
+        mfaToken: this.mfaService.issuePendingToken(user, false),
+        message: 'Enter the code from your authenticator app to continue.',
+      };
+    }
+
+    if (await this.mfaService.isMfaRequired(user)) {
+      return {
+        mfaRequired: true,
+        mfaSetupRequired: true,
+        mfaToken: this.mfaService.issuePendingToken(user, true),
+        message:
+          'Your organization requires two-factor authentication. Set it up to continue.',
+      };
+    }
+
     // Update last login
     user.lastLogin = new Date();
     await user.save();
 
-    // Generate tokens
-    // For multi-org support: use first organization as default, or null if none
-    const defaultOrgId = user.organizationIds && user.organizationIds.length > 0
-      ? user.organizationIds[0]
-      : null;
-
-    const payload = {
-      sub: user._id,
-      userId: user._id,
-      email: user.email,
-      role: user.role,
-      organizationId: defaultOrgId, // Default org for backward compatibility
-      organizationIds: user.organizationIds, // Full list of orgs
-    };
-
-    const accessToken = this.jwtService.sign(payload);
-    const refreshToken = this.jwtService.sign(payload, { expiresIn: '7d' });
+    const { accessToken, refreshToken } =
+      await this.tokenService.issueTokenPair(user, undefined, {
+        ipAddress,
+        userAgent,
+        loginMethod: SessionLoginMethod.PASSWORD,
+      });
 
     return {
-      user: {
-        id: user._id,
-        fullName: user.name,
-        email: user.email,
-        role: user.role,
-        candidateId: user.candidateId,
-        organizationId: defaultOrgId?.toString(), // Default org
-        organizationIds: user.organizationIds.map(id => id.toString()), // All orgs
-      },
+      user: this.tokenService.buildUserInfo(user),
       accessToken,
       refreshToken,
     };
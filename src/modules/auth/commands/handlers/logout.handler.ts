@@ -0,0 +1,22 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { LogoutCommand } from '../impl/logout.command';
+import { TokenService } from '../../services/token.service';
+
+@CommandHandler(LogoutCommand)
+export class LogoutHandler implements ICommandHandler<LogoutCommand> {
+  constructor(private tokenService: TokenService) {}
+
+  async execute(command: LogoutCommand) {
+    const { refreshToken, accessToken } = command;
+
+    if (refreshToken) {
+      await this.tokenService.revokeRefreshToken(refreshToken);
+    }
+
+    if (accessToken) {
+      await this.tokenService.revokeAccessToken(accessToken);
+    }
+
+    return { message: 'Logged out successfully' };
+  }
+}
@@ -0,0 +1,47 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { UnauthorizedException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { RefreshTokenCommand } from '../impl/refresh-token.command';
+import { User } from '../../../users/schemas/user.schema';
+import { TokenService } from '../../services/token.service';
+
+@CommandHandler(RefreshTokenCommand)
+export class RefreshTokenHandler
+  implements ICommandHandler<RefreshTokenCommand>
+{
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    private tokenService: TokenService,
+  ) {}
+
+  async execute(command: RefreshTokenCommand) {
+    const { refreshToken, ipAddress, userAgent } = command;
+
+    if (!refreshToken) {
+      throw new UnauthorizedException('Refresh token is required');
+    }
+
+    // Verifies signature, allow list and reuse
+    const payload = await this.tokenService.consumeRefreshToken(refreshToken);
+
+    // Reload the user so role/org changes and deactivation take effect
+    const user = await this.userModel.findById(payload.sub);
+    if (!user || !user.isActive) {
+      await this.tokenService.revokeAllUserTokens(payload.sub);
+      throw new UnauthorizedException('User is no longer active');
+    }
+
+    // Rotate within the same family; the presented token is now superseded
+    const tokens = await this.tokenService.issueTokenPair(
+      user,
+      payload.familyId,
+      { ipAddress, userAgent },
+    );
+
+    return {
+      user: this.tokenService.buildUserInfo(user),
+      ...tokens,
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { RegenerateRecoveryCodesCommand } from '../impl/regenerate-recovery-codes.command';
+import { MfaService } from '../../services/mfa.service';
+
+@CommandHandler(RegenerateRecoveryCodesCommand)
+export class RegenerateRecoveryCodesHandler
+  implements ICommandHandler<RegenerateRecoveryCodesCommand>
+{
+  constructor(private mfaService: MfaService) {}
+
+  async execute(command: RegenerateRecoveryCodesCommand) {
+    const recoveryCodes = await this.mfaService.regenerateRecoveryCodes(
+      command.userId,
+      command.code,
+    );
+
+    return {
+      message: 'Previous recovery codes are no longer valid.',
+      recoveryCodes,
+    };
+  }
+}
@@ -0,0 +1,208 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as bcrypt from 'bcrypt';
+import { RegisterCandidateCommand } from '../impl/register-candidate.command';
+import { User, UserRole } from '../../../users/schemas/user.schema';
+import {
+  Organization,
+  OrganizationStatus,
+} from '../../../organizations/schemas/organization.schema';
+import {
+  Exam,
+  ExamAccessMode,
+  ExamCategory,
+  ExamStatus,
+} from '../../../exams/schemas/exam.schema';
+import { EmailVerificationService } from '../../services/email-verification.service';
+
+// Exams a candidate can still be enrolled into
+const ENROLLABLE_STATUSES = [
+  ExamStatus.PUBLISHED,
+  ExamStatus.SCHEDULED,
+  ExamStatus.ACTIVE,
+];
+
+/**
+ * Public sign-up for general assessments. The account joins the exam's
+ * organization as an external candidate; both the organization's and the
+ * exam's allowed domain lists are enforced when set.
+ */
+@CommandHandler(RegisterCandidateCommand)
+export class RegisterCandidateHandler
+  implements ICommandHandler<RegisterCandidateCommand>
+{
+  private readonly logger = new Logger(RegisterCandidateHandler.name);
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(Exam.name) private examModel: Model<Exam>,
+    @InjectModel(Organization.name)
+    private organizationModel: Model<Organization>,
+    private emailVerificationService: EmailVerificationService,
+  ) {}
+
+  async execute(command: RegisterCandidateCommand) {
+    const { name, password, examId, enrollInPublicExams } = command;
+    const email = command.email.toLowerCase().trim();
+    const domain = email.split('@')[1];
+
+    const exam = await this.examModel.findById(examId);
+    if (
+      !exam ||
+      exam.category !== ExamCategory.GENERAL_ASSESSMENT ||
+      !ENROLLABLE_STATUSES.includes(exam.status)
+    ) {
+      throw new NotFoundException(
+        'Exam not found or not open for registration',
+      );
+    }
+
+    if (exam.accessMode === ExamAccessMode.INVITATION_BASED) {
+      throw new BadRequestException(
+        'This exam is available by invitation only',
+      );
+    }
+
+    const organization = await this.organizationModel
+      .findById(exam.organizationId)
+      .select('name status features')
+      .exec();
+    if (
+      !organization ||
+      [OrganizationStatus.SUSPENDED, OrganizationStatus.EXPIRED].includes(
+        organization.status,
+      )
+    ) {
+      throw new NotFoundException(
+        'Exam not found or not open for registration',
+      );
+    }
+
+    if (!this.isDomainAllowed(organization.features?.allowedDomains, domain)) {
+      throw new ForbiddenException(
+        `Email domain ${domain} is not allowed for this organization`,
+      );
+    }
+
+    if (!this.isDomainAllowed(exam.accessControl?.allowedDomains, domain)) {
+      throw new ForbiddenException(
+        `Email domain ${domain} is not allowed for this exam`,
+      );
+    }
+
+    const existingUser = await this.userModel.findOne({ email });
+    if (existingUser) {
+      throw new ConflictException(
+        'User with this email already exists. Please log in instead.',
+      );
+    }
+
+    const user = new this.userModel({
+      name,
+      email,
+      password: await bcrypt.hash(password, 10),
+      role: UserRole.CANDIDATE,
+      candidateType: 'EXTERNAL',
+      organizationIds: [organization._id],
+      isActive: true,
+    });
+    await user.save();
+
+    const enrolledExams = await this.enrollIntoExams(
+      user,
+      exam,
+      domain,
+      enrollInPublicExams,
+    );
+
+    await this.emailVerificationService.sendVerificationEmail(user);
+
+    this.logger.log(
+      `Candidate ${email} self-registered with organization ${organization._id} ` +
+        `(${enrolledExams.length} exam enrollments)`,
+    );
+
+    return {
+      user: {
+        id: user._id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        candidateType: user.candidateType,
+        emailVerified: user.emailVerified,
+      },
+      organization: { id: organization._id, name: organization.name },
+      enrolledExams,
+      message:
+        'Registration successful. Please verify your email address, then log in.',
+    };
+  }
+
+  /**
+   * The target exam is joined only when it is public; other public general
+   * assessments of the organization are added unless the candidate opted out.
+   */
+  private async enrollIntoExams(
+    user: User,
+    exam: Exam,
+    domain: string,
+    enrollInPublicExams: boolean,
+  ) {
+    const candidates = enrollInPublicExams
+      ? await this.examModel
+          .find({
+            organizationId: exam.organizationId,
+            category: ExamCategory.GENERAL_ASSESSMENT,
+            status: { $in: ENROLLABLE_STATUSES },
+            accessMode: { $ne: ExamAccessMode.INVITATION_BASED },
+            'accessControl.isPublic': true,
+          })
+          .select('title accessControl')
+          .exec()
+      : exam.accessControl?.isPublic
+        ? [exam]
+        : [];
+
+    const eligible = candidates.filter(
+      (candidate) =>
+        !candidate.accessControl?.requiresApproval &&
+        this.isDomainAllowed(candidate.accessControl?.allowedDomains, domain),
+    );
+
+    if (eligible.length === 0) {
+      return [];
+    }
+
+    await this.examModel.updateMany(
+      { _id: { $in: eligible.map((candidate) => candidate._id) } },
+      { $addToSet: { enrolledCandidates: user._id as Types.ObjectId } },
+    );
+
+    return eligible.map((candidate) => ({
+      examId: candidate._id,
+      title: candidate.title,
+    }));
+  }
+
+  private isDomainAllowed(
+    allowedDomains: string[] | undefined,
+    domain: string,
+  ) {
+    // An empty list means no restriction
+    if (!allowedDomains || allowedDomains.length === 0) {
+      return true;
+    }
+
+    return allowedDomains.some(
+      (allowed) => allowed.toLowerCase().replace(/^@/, '') === domain,
+    );
+  }
+}
@@ -5,10 +5,14 @@ import { Model } from 'mongoose';
 import * as bcrypt from 'bcrypt';
 import { RegisterCommand } from '../impl/register.command';
 import { User } from '../../../users/schemas/user.schema';
+import { EmailVerificationService } from '../../services/email-verification.service';
 
 @CommandHandler(RegisterCommand)
 export class RegisterHandler implements ICommandHandler<RegisterCommand> {
-  constructor(@InjectModel(User.name) private userModel: Model<User>) {}
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    private emailVerificationService: EmailVerificationService,
+  ) {}
 
   async execute(command: RegisterCommand) {
     const { name, email, password, role, candidateId } = command;
@@ -33,12 +37,15 @@ export class RegisterHandler implements ICommandHandler<RegisterCommand> {
 
     await user.save();
 
+    await this.emailVerificationService.sendVerificationEmail(user);
+
     return {
       id: user._id,
       name: user.name,
       email: user.email,
       role: user.role,
       candidateId: user.candidateId,
+      emailVerified: user.emailVerified,
     };
   }
 }
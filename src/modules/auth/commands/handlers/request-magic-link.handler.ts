@@ -0,0 +1,19 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { RequestMagicLinkCommand } from '../impl/request-magic-link.command';
+import { MagicLinkService } from '../../services/magic-link.service';
+
+@CommandHandler(RequestMagicLinkCommand)
+export class RequestMagicLinkHandler
+  implements ICommandHandler<RequestMagicLinkCommand>
+{
+  constructor(private magicLinkService: MagicLinkService) {}
+
+  async execute(command: RequestMagicLinkCommand) {
+    const { email, ipAddress } = command;
+
+    return this.magicLinkService.requestLink(
+      email.toLowerCase().trim(),
+      ipAddress,
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ResendVerificationCommand } from '../impl/resend-verification.command';
+import { User } from '../../../users/schemas/user.schema';
+import { EmailVerificationService } from '../../services/email-verification.service';
+import { RateLimiterService } from '../../../redis/rate-limiter.service';
+
+const RATE_LIMIT_WINDOW_SECONDS = 60 * 60;
+const MAX_REQUESTS_PER_EMAIL = 3;
+const MAX_REQUESTS_PER_IP = 10;
+
+@CommandHandler(ResendVerificationCommand)
+export class ResendVerificationHandler
+  implements ICommandHandler<ResendVerificationCommand>
+{
+  private readonly logger = new Logger(ResendVerificationHandler.name);
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    private emailVerificationService: EmailVerificationService,
+    private rateLimiter: RateLimiterService,
+  ) {}
+
+  async execute(command: ResendVerificationCommand) {
+    const email = command.email.toLowerCase().trim();
+
+    // Same response whether or not the account exists, to prevent enumeration
+    const response = {
+      message:
+        'If an unverified account exists for this email, a verification link has been sent.',
+    };
+
+    if (command.ipAddress) {
+      const ipRequests = await this.rateLimiter.hit(
+        `auth:email-verification:ip:${command.ipAddress}`,
+        RATE_LIMIT_WINDOW_SECONDS,
+      );
+      if (ipRequests > MAX_REQUESTS_PER_IP) {
+        throw new HttpException(
+          'Too many verification requests. Please try again later.',
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    const emailRequests = await this.rateLimiter.hit(
+      `auth:email-verification:email:${email}`,
+      RATE_LIMIT_WINDOW_SECONDS,
+    );
+    if (emailRequests > MAX_REQUESTS_PER_EMAIL) {
+      this.logger.warn(`Verification email rate limit reached for ${email}`);
+      return response;
+    }
+
+    const user = await this.userModel.findOne({
+      email,
+      isActive: true,
+      emailVerified: { $ne: true },
+    });
+    if (user) {
+      await this.emailVerificationService.sendVerificationEmail(user);
+    }
+
+    return response;
+  }
+}
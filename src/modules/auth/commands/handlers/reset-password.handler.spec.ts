@@ -0,0 +1,103 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import * as bcrypt from 'bcrypt';
+import { ResetPasswordHandler } from './reset-password.handler';
+import { ResetPasswordCommand } from '../impl/reset-password.command';
+import { User } from '../../../users/schemas/user.schema';
+import { TokenService } from '../../services/token.service';
+import { SecureTokenUtil } from '../../../../common/utils/secure-token.util';
+
+describe('ResetPasswordHandler', () => {
+  let handler: ResetPasswordHandler;
+  let user: any;
+
+  const token = SecureTokenUtil.generate();
+
+  // Applies the handler's filter and $unset to the single stored user
+  const mockUserModel = {
+    findOneAndUpdate: jest.fn(async (filter, update) => {
+      const matches =
+        user.isActive === filter.isActive &&
+        user.passwordResetToken === filter.passwordResetToken &&
+        user.passwordResetExpires > filter.passwordResetExpires.$gt;
+      if (!matches) {
+        return null;
+      }
+      for (const field of Object.keys(update.$unset)) {
+        user[field] = undefined;
+      }
+      return user;
+    }),
+  };
+  const mockTokenService = { revokeAllUserTokens: jest.fn() };
+
+  const reset = (resetToken = token) =>
+    handler.execute(new ResetPasswordCommand(resetToken, 'N3w-passw0rd!'));
+
+  beforeEach(async () => {
+    user = {
+      _id: new Types.ObjectId(),
+      isActive: true,
+      password: 'old-hash',
+      passwordResetToken: SecureTokenUtil.hash(token),
+      passwordResetExpires: new Date(Date.now() + 60 * 1000),
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ResetPasswordHandler,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: TokenService, useValue: mockTokenService },
+      ],
+    }).compile();
+
+    handler = module.get<ResetPasswordHandler>(ResetPasswordHandler);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should set the new password and sign out every session', async () => {
+    await reset();
+
+    await expect(bcrypt.compare('N3w-passw0rd!', user.password)).resolves.toBe(
+      true,
+    );
+    expect(user.passwordResetToken).toBeUndefined();
+    expect(mockTokenService.revokeAllUserTokens).toHaveBeenCalledWith(
+      user._id.toString(),
+    );
+  });
+
+  it('should only redeem a token once', async () => {
+    await reset();
+
+    await expect(reset()).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject an expired token', async () => {
+    user.passwordResetExpires = new Date(Date.now() - 1000);
+
+    await expect(reset()).rejects.toThrow(
+      'Invalid or expired password reset token',
+    );
+    expect(user.password).toBe('old-hash');
+  });
+
+  it('should reject a token that was not issued', async () => {
+    await expect(reset(SecureTokenUtil.generate())).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should reject the stored hash used as a token', async () => {
+    await expect(reset(user.passwordResetToken)).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(mockTokenService.revokeAllUserTokens).not.toHaveBeenCalled();
+  });
+});
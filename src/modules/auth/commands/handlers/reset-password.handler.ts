@@ -0,0 +1,48 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as bcrypt from 'bcrypt';
+import { ResetPasswordCommand } from '../impl/reset-password.command';
+import { User } from '../../../users/schemas/user.schema';
+import { TokenService } from '../../services/token.service';
+import { SecureTokenUtil } from '../../../../common/utils/secure-token.util';
+
+@CommandHandler(ResetPasswordCommand)
+export class ResetPasswordHandler
+  implements ICommandHandler<ResetPasswordCommand>
+{
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    private tokenService: TokenService,
+  ) {}
+
+  async execute(command: ResetPasswordCommand) {
+    const { token, newPassword } = command;
+
+    // Clear the token atomically so it can only be redeemed once
+    const user = await this.userModel.findOneAndUpdate(
+      {
+        passwordResetToken: SecureTokenUtil.hash(token),
+        passwordResetExpires: { $gt: new Date() },
+        isActive: true,
+      },
+      { $unset: { passwordResetToken: 1, passwordResetExpires: 1 } },
+      { new: true },
+    );
+
+    if (!user) {
+      throw new BadRequestException('Invalid or expired password reset token');
+    }
+
+    user.password = await bcrypt.hash(newPassword, 10);
+    await user.save();
+
+    // Sign out every existing session, in case the account was compromised
+    await this.tokenService.revokeAllUserTokens(user._id.toString());
+
+    return {
+      message: 'Password has been reset successfully. Please log in.',
+    };
+  }
+}
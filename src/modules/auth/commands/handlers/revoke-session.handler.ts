@@ -0,0 +1,37 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { NotFoundException } from '@nestjs/common';
+import { RevokeSessionCommand } from '../impl/revoke-session.command';
+import { SessionService } from '../../services/session.service';
+import { TokenService } from '../../services/token.service';
+import { SessionRevokedReason } from '../../schemas/user-session.schema';
+
+@CommandHandler(RevokeSessionCommand)
+export class RevokeSessionHandler
+  implements ICommandHandler<RevokeSessionCommand>
+{
+  constructor(
+    private sessionService: SessionService,
+    private tokenService: TokenService,
+  ) {}
+
+  async execute(command: RevokeSessionCommand) {
+    const { userId, sessionId } = command;
+
+    const session = await this.sessionService.findActiveSession(
+      userId,
+      sessionId,
+    );
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.tokenService.revokeSession(
+      userId,
+      session.familyId,
+      SessionRevokedReason.USER_REVOKED,
+      userId,
+    );
+
+    return { message: 'Session revoked successfully' };
+  }
+}
@@ -0,0 +1,33 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { BadRequestException } from '@nestjs/common';
+import { SetupMfaCommand } from '../impl/setup-mfa.command';
+import { MfaService } from '../../services/mfa.service';
+
+@CommandHandler(SetupMfaCommand)
+export class SetupMfaHandler implements ICommandHandler<SetupMfaCommand> {
+  constructor(private mfaService: MfaService) {}
+
+  async execute(command: SetupMfaCommand) {
+    let userId = command.userId;
+
+    if (command.mfaToken) {
+      const payload = this.mfaService.verifyPendingToken(command.mfaToken);
+      if (!payload.setupRequired) {
+        throw new BadRequestException(
+          'Two-factor authentication is already enabled',
+        );
+      }
+      userId = payload.sub;
+    }
+
+    const { secret, otpauthUrl } =
+      await this.mfaService.startEnrollment(userId);
+
+    return {
+      secret,
+      otpauthUrl, // Render as a QR code for authenticator apps
+      message:
+        'Scan the QR code with your authenticator app, then confirm with a code.',
+    };
+  }
+}
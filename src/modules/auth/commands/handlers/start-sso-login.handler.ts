@@ -0,0 +1,22 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { StartSsoLoginCommand } from '../impl/start-sso-login.command';
+import { OidcService } from '../../services/oidc.service';
+
+@CommandHandler(StartSsoLoginCommand)
+export class StartSsoLoginHandler
+  implements ICommandHandler<StartSsoLoginCommand>
+{
+  constructor(private oidcService: OidcService) {}
+
+  async execute(command: StartSsoLoginCommand) {
+    const { organizationId, email } = command;
+
+    const { authorizationUrl, state } =
+      await this.oidcService.createAuthorizationRequest(
+        organizationId,
+        email?.toLowerCase().trim(),
+      );
+
+    return { authorizationUrl, state };
+  }
+}
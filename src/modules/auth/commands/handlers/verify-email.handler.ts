@@ -0,0 +1,17 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { VerifyEmailCommand } from '../impl/verify-email.command';
+import { EmailVerificationService } from '../../services/email-verification.service';
+
+@CommandHandler(VerifyEmailCommand)
+export class VerifyEmailHandler implements ICommandHandler<VerifyEmailCommand> {
+  constructor(private emailVerificationService: EmailVerificationService) {}
+
+  async execute(command: VerifyEmailCommand) {
+    const user = await this.emailVerificationService.verify(command.token);
+
+    return {
+      message: 'Email verified successfully',
+      email: user.email,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { VerifyMagicLinkCommand } from '../impl/verify-magic-link.command';
+import { MagicLinkService } from '../../services/magic-link.service';
+import { TokenService } from '../../services/token.service';
+import { SessionLoginMethod } from '../../schemas/user-session.schema';
+
+@CommandHandler(VerifyMagicLinkCommand)
+export class VerifyMagicLinkHandler
+  implements ICommandHandler<VerifyMagicLinkCommand>
+{
+  constructor(
+    private magicLinkService: MagicLinkService,
+    private tokenService: TokenService,
+  ) {}
+
+  async execute(command: VerifyMagicLinkCommand) {
+    const { token, deviceId, ipAddress, userAgent } = command;
+
+    const user = await this.magicLinkService.redeemLink(
+      token,
+      deviceId,
+      ipAddress,
+    );
+
+    // Opening a link delivered to the inbox proves ownership of the address
+    user.emailVerified = true;
+    user.lastLogin = new Date();
+    await user.save();
+
+    const { accessToken, refreshToken } =
+      await this.tokenService.issueTokenPair(user, undefined, {
+        ipAddress,
+        userAgent,
+        loginMethod: SessionLoginMethod.MAGIC_LINK,
+      });
+
+    return {
+      user: this.tokenService.buildUserInfo(user),
+      accessToken,
+      refreshToken,
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { VerifyMfaLoginCommand } from '../impl/verify-mfa-login.command';
+import { User } from '../../../users/schemas/user.schema';
+import { MfaService } from '../../services/mfa.service';
+import { TokenService } from '../../services/token.service';
+import { SessionLoginMethod } from '../../schemas/user-session.schema';
+
+@CommandHandler(VerifyMfaLoginCommand)
+export class VerifyMfaLoginHandler
+  implements ICommandHandler<VerifyMfaLoginCommand>
+{
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    private mfaService: MfaService,
+    private tokenService: TokenService,
+  ) {}
+
+  async execute(command: VerifyMfaLoginCommand) {
+    const { mfaToken, code, recoveryCode, ipAddress, userAgent } = command;
+
+    const payload = this.mfaService.verifyPendingToken(mfaToken);
+
+    let recoveryCodes: string[] | undefined;
+
+    if (payload.setupRequired) {
+      // First login after the organization enforced MFA: confirm enrollment
+      if (!code) {
+        throw new BadRequestException(
+          'Enter the code from your authenticator app to finish setup',
+        );
+      }
+      recoveryCodes = await this.mfaService.completeEnrollment(
+        payload.sub,
+        code,
+      );
+    } else {
+      if (!code && !recoveryCode) {
+        throw new BadRequestException(
+          'An authentication code or recovery code is required',
+        );
+      }
+      await this.mfaService.verifySecondFactor(payload.sub, code, recoveryCode);
+    }
+
+    const user = await this.userModel.findById(payload.sub);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    // Update last login
+    user.lastLogin = new Date();
+    await user.save();
+
+    const { accessToken, refreshToken } =
+      await this.tokenService.issueTokenPair(user, undefined, {
+        ipAddress,
+        userAgent,
+        loginMethod: SessionLoginMethod.MFA,
+      });
+
+    return {
+      user: this.tokenService.buildUserInfo(user),
+      accessToken,
+      refreshToken,
+      ...(recoveryCodes && { recoveryCodes }),
+    };
+  }
+}
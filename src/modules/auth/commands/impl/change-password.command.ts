@@ -0,0 +1,7 @@
+export class ChangePasswordCommand {
+  constructor(
+    public readonly userId: string,
+    public readonly currentPassword: string,
+    public readonly newPassword: string,
+  ) {}
+}
@@ -0,0 +1,8 @@
+export class CompleteSsoLoginCommand {
+  constructor(
+    public readonly code: string,
+    public readonly state: string,
+    public readonly ipAddress?: string,
+    public readonly userAgent?: string,
+  ) {}
+}
@@ -0,0 +1,6 @@
+export class EnableMfaCommand {
+  constructor(
+    public readonly userId: string,
+    public readonly code: string,
+  ) {}
+}
@@ -0,0 +1,3 @@
+export class GetLoginOptionsCommand {
+  constructor(public readonly organizationId: string) {}
+}
@@ -0,0 +1,6 @@
+export class ListSessionsCommand {
+  constructor(
+    public readonly userId: string,
+    public readonly currentSessionId?: string, // Refresh family of the caller
+  ) {}
+}
@@ -2,5 +2,7 @@ export class LoginCommand {
   constructor(
     public readonly email: string,
     public readonly password: string,
+    public readonly ipAddress?: string,
+    public readonly userAgent?: string,
   ) {}
 }
@@ -0,0 +1,6 @@
+export class LogoutCommand {
+  constructor(
+    public readonly refreshToken?: string,
+    public readonly accessToken?: string,
+  ) {}
+}
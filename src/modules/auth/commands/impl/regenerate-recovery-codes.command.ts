@@ -0,0 +1,6 @@
+export class RegenerateRecoveryCodesCommand {
+  constructor(
+    public readonly userId: string,
+    public readonly code: string,
+  ) {}
+}
@@ -0,0 +1,9 @@
+export class RegisterCandidateCommand {
+  constructor(
+    public readonly name: string,
+    public readonly email: string,
+    public readonly password: string,
+    public readonly examId: string,
+    public readonly enrollInPublicExams: boolean = true,
+  ) {}
+}
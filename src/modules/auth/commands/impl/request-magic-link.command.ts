@@ -0,0 +1,6 @@
+export class RequestMagicLinkCommand {
+  constructor(
+    public readonly email: string,
+    public readonly ipAddress?: string,
+  ) {}
+}
@@ -0,0 +1,6 @@
+export class ResendVerificationCommand {
+  constructor(
+    public readonly email: string,
+    public readonly ipAddress?: string,
+  ) {}
+}
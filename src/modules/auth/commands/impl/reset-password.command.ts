@@ -0,0 +1,6 @@
+export class ResetPasswordCommand {
+  constructor(
+    public readonly token: string,
+    public readonly newPassword: string,
+  ) {}
+}
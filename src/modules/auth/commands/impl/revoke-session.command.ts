@@ -0,0 +1,6 @@
+export class RevokeSessionCommand {
+  constructor(
+    public readonly userId: string,
+    public readonly sessionId: string,
+  ) {}
+}
@@ -0,0 +1,6 @@
+export class SetupMfaCommand {
+  constructor(
+    public readonly userId?: string,
+    public readonly mfaToken?: string, // Forced enrollment during login
+  ) {}
+}
@@ -0,0 +1,6 @@
+export class StartSsoLoginCommand {
+  constructor(
+    public readonly organizationId?: string,
+    public readonly email?: string, // Used to find the organization by domain
+  ) {}
+}
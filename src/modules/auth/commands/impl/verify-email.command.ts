@@ -0,0 +1,3 @@
+export class VerifyEmailCommand {
+  constructor(public readonly token: string) {}
+}
@@ -0,0 +1,8 @@
+export class VerifyMagicLinkCommand {
+  constructor(
+    public readonly token: string,
+    public readonly deviceId: string,
+    public readonly ipAddress?: string,
+    public readonly userAgent?: string,
+  ) {}
+}
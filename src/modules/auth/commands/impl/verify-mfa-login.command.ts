@@ -0,0 +1,9 @@
+export class VerifyMfaLoginCommand {
+  constructor(
+    public readonly mfaToken: string,
+    public readonly code?: string,
+    public readonly recoveryCode?: string,
+    public readonly ipAddress?: string,
+    public readonly userAgent?: string,
+  ) {}
+}
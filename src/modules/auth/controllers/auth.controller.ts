@@ -1,12 +1,44 @@
-import { Controller, Post, Body, Get, UseGuards, Request, Res, Query } from '@nestjs/common';
-import { Response } from 'express';
+import { Controller, Post, Body, Get, Delete, Param, UseGuards, Request, Req, Res, Query, HttpCode } from '@nestjs/common';
+import { Request as ExpressRequest, Response } from 'express';
 import { CommandBus } from '@nestjs/cqrs';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
 import { LoginCommand } from '../commands/impl/login.command';
 import { RegisterCommand } from '../commands/impl/register.command';
+import { RegisterCandidateCommand } from '../commands/impl/register-candidate.command';
+import { RefreshTokenCommand } from '../commands/impl/refresh-token.command';
+import { LogoutCommand } from '../commands/impl/logout.command';
+import { ChangePasswordCommand } from '../commands/impl/change-password.command';
+import { ForgotPasswordCommand } from '../commands/impl/forgot-password.command';
+import { ResetPasswordCommand } from '../commands/impl/reset-password.command';
+import { VerifyEmailCommand } from '../commands/impl/verify-email.command';
+import { ResendVerificationCommand } from '../commands/impl/resend-verification.command';
+import { VerifyMfaLoginCommand } from '../commands/impl/verify-mfa-login.command';
+import { SetupMfaCommand } from '../commands/impl/setup-mfa.command';
+import { EnableMfaCommand } from '../commands/impl/enable-mfa.command';
+import { DisableMfaCommand } from '../commands/impl/disable-mfa.command';
+import { RegenerateRecoveryCodesCommand } from '../commands/impl/regenerate-recovery-codes.command';
+import { StartSsoLoginCommand } from '../commands/impl/start-sso-login.command';
+import { CompleteSsoLoginCommand } from '../commands/impl/complete-sso-login.command';
+import { ListSessionsCommand } from '../commands/impl/list-sessions.command';
+import { RevokeSessionCommand } from '../commands/impl/revoke-session.command';
+import { RequestMagicLinkCommand } from '../commands/impl/request-magic-link.command';
+import { VerifyMagicLinkCommand } from '../commands/impl/verify-magic-link.command';
+import { GetLoginOptionsCommand } from '../commands/impl/get-login-options.command';
 import { LoginDto } from '../dto/login.dto';
 import { RegisterDto } from '../dto/register.dto';
+import { RegisterCandidateDto } from '../dto/register-candidate.dto';
+import { RefreshTokenDto } from '../dto/refresh-token.dto';
+import { ChangePasswordDto } from '../dto/change-password.dto';
+import { ForgotPasswordDto } from '../dto/forgot-password.dto';
+import { ResetPasswordDto } from '../dto/reset-password.dto';
+import { VerifyEmailDto } from '../dto/verify-email.dto';
+import { ResendVerificationDto } from '../dto/resend-verification.dto';
+import { MfaCodeDto, MfaTokenDto, VerifyMfaLoginDto } from '../dto/mfa.dto';
+import { StartSsoLoginDto, CompleteSsoLoginDto } from '../dto/sso.dto';
+import { RequestMagicLinkDto, VerifyMagicLinkDto } from '../dto/magic-link.dto';
 import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
 
 @ApiTags('auth')
 @Controller('auth')
@@ -24,12 +56,23 @@ export class AuthController {
   async login(
     @Body() loginDto: LoginDto,
     @Query('useCookies') useCookies: string,
+    @Req() request: ExpressRequest,
     @Res({ passthrough: true }) response: Response,
   ) {
     const result = await this.commandBus.execute(
-      new LoginCommand(loginDto.email, loginDto.password),
+      new LoginCommand(
+        loginDto.email,
+        loginDto.password,
+        request.ip,
+        request.headers['user-agent'],
+      ),
     );
 
+    // Password accepted but a second factor is needed - no session yet
+    if (result.mfaRequired) {
+      return result;
+    }
+
     // If useCookies query param is 'true', set tokens as secure httpOnly cookies
     if (useCookies === 'true') {
       this.setAuthCookies(response, result.accessToken, result.refreshToken);
@@ -45,6 +88,240 @@ export class AuthController {
     return result;
   }
 
+  @Post('login/mfa')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Complete login with a TOTP or recovery code',
+    description:
+      'Exchanges the mfaToken from /auth/login plus a second factor for access/refresh tokens. ' +
+      'When setup was required, the code confirms enrollment and recovery codes are returned.',
+  })
+  @ApiQuery({
+    name: 'useCookies',
+    required: false,
+    type: Boolean,
+    description: 'Set to true to receive JWT tokens as secure httpOnly cookies',
+  })
+  async verifyMfaLogin(
+    @Body() verifyMfaLoginDto: VerifyMfaLoginDto,
+    @Query('useCookies') useCookies: string,
+    @Req() request: ExpressRequest,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const result = await this.commandBus.execute(
+      new VerifyMfaLoginCommand(
+        verifyMfaLoginDto.mfaToken,
+        verifyMfaLoginDto.code,
+        verifyMfaLoginDto.recoveryCode,
+        request.ip,
+        request.headers['user-agent'],
+      ),
+    );
+
+    if (useCookies === 'true') {
+      this.setAuthCookies(response, result.accessToken, result.refreshToken);
+
+      return {
+        user: result.user,
+        recoveryCodes: result.recoveryCodes,
+        message: 'Login successful. Tokens set as secure cookies.',
+      };
+    }
+
+    return result;
+  }
+
+  @Post('login/mfa/setup')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Start mandatory MFA enrollment during login',
+    description:
+      'Used when /auth/login returned mfaSetupRequired. Returns the secret and otpauth:// URI for the QR code.',
+  })
+  async setupMfaDuringLogin(@Body() mfaTokenDto: MfaTokenDto) {
+    return this.commandBus.execute(
+      new SetupMfaCommand(undefined, mfaTokenDto.mfaToken),
+    );
+  }
+
+  @Post('sso/authorize')
+  @HttpCode(200)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Start OpenID Connect single sign-on',
+    description:
+      'Returns the identity provider URL to redirect the browser to (authorization code + PKCE). ' +
+      'The organization is chosen by id or by the domain of the work email.',
+  })
+  async startSsoLogin(@Body() startSsoLoginDto: StartSsoLoginDto) {
+    return this.commandBus.execute(
+      new StartSsoLoginCommand(
+        startSsoLoginDto.organizationId,
+        startSsoLoginDto.email,
+      ),
+    );
+  }
+
+  @Post('sso/callback')
+  @HttpCode(200)
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Complete single sign-on',
+    description:
+      'Exchanges the code and state from the identity provider redirect for access/refresh tokens. ' +
+      'Users are provisioned into the organization on first sign-in.',
+  })
+  @ApiQuery({
+    name: 'useCookies',
+    required: false,
+    type: Boolean,
+    description: 'Set to true to receive JWT tokens as secure httpOnly cookies',
+  })
+  async completeSsoLogin(
+    @Body() completeSsoLoginDto: CompleteSsoLoginDto,
+    @Query('useCookies') useCookies: string,
+    @Req() request: ExpressRequest,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const result = await this.commandBus.execute(
+      new CompleteSsoLoginCommand(
+        completeSsoLoginDto.code,
+        completeSsoLoginDto.state,
+        request.ip,
+        request.headers['user-agent'],
+      ),
+    );
+
+    if (useCookies === 'true') {
+      this.setAuthCookies(response, result.accessToken, result.refreshToken);
+
+      return {
+        user: result.user,
+        message: 'Login successful. Tokens set as secure cookies.',
+      };
+    }
+
+    return result;
+  }
+
+  @Get('login-options/:organizationId')
+  @ApiOperation({
+    summary: 'Get candidate sign-in methods for an organization',
+    description:
+      'Tells the login page which methods to offer and which one to show first.',
+  })
+  async getLoginOptions(@Param('organizationId') organizationId: string) {
+    return this.commandBus.execute(new GetLoginOptionsCommand(organizationId));
+  }
+
+  @Post('magic-link')
+  @HttpCode(200)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Request a passwordless sign-in link (candidates)',
+    description:
+      'Emails a single-use link valid for 15 minutes. The returned deviceId must be sent ' +
+      'back with the link token from the same device and network.',
+  })
+  async requestMagicLink(
+    @Body() requestMagicLinkDto: RequestMagicLinkDto,
+    @Req() request: ExpressRequest,
+  ) {
+    return this.commandBus.execute(
+      new RequestMagicLinkCommand(requestMagicLinkDto.email, request.ip),
+    );
+  }
+
+  @Post('magic-link/verify')
+  @HttpCode(200)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Sign in with a magic link',
+    description: 'Exchanges the emailed link token for access/refresh tokens.',
+  })
+  @ApiQuery({
+    name: 'useCookies',
+    required: false,
+    type: Boolean,
+    description: 'Set to true to receive JWT tokens as secure httpOnly cookies',
+  })
+  async verifyMagicLink(
+    @Body() verifyMagicLinkDto: VerifyMagicLinkDto,
+    @Query('useCookies') useCookies: string,
+    @Req() request: ExpressRequest,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const result = await this.commandBus.execute(
+      new VerifyMagicLinkCommand(
+        verifyMagicLinkDto.token,
+        verifyMagicLinkDto.deviceId,
+        request.ip,
+        request.headers['user-agent'],
+      ),
+    );
+
+    if (useCookies === 'true') {
+      this.setAuthCookies(response, result.accessToken, result.refreshToken);
+
+      return {
+        user: result.user,
+        message: 'Login successful. Tokens set as secure cookies.',
+      };
+    }
+
+    return result;
+  }
+
+  @Post('mfa/setup')
+  @UseGuards(JwtAuthGuard)
+  @BlockImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Start TOTP enrollment (admin roles)',
+    description: 'Returns the secret and otpauth:// URI for the QR code.',
+  })
+  async setupMfa(@Request() req) {
+    return this.commandBus.execute(new SetupMfaCommand(req.user.id));
+  }
+
+  @Post('mfa/enable')
+  @UseGuards(JwtAuthGuard)
+  @BlockImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Confirm TOTP enrollment and receive recovery codes',
+  })
+  async enableMfa(@Body() mfaCodeDto: MfaCodeDto, @Request() req) {
+    return this.commandBus.execute(
+      new EnableMfaCommand(req.user.id, mfaCodeDto.code),
+    );
+  }
+
+  @Post('mfa/disable')
+  @UseGuards(JwtAuthGuard)
+  @BlockImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Disable two-factor authentication' })
+  async disableMfa(@Body() mfaCodeDto: MfaCodeDto, @Request() req) {
+    return this.commandBus.execute(
+      new DisableMfaCommand(req.user.id, mfaCodeDto.code),
+    );
+  }
+
+  @Post('mfa/recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  @BlockImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Regenerate MFA recovery codes' })
+  async regenerateRecoveryCodes(
+    @Body() mfaCodeDto: MfaCodeDto,
+    @Request() req,
+  ) {
+    return this.commandBus.execute(
+      new RegenerateRecoveryCodesCommand(req.user.id, mfaCodeDto.code),
+    );
+  }
+
   @Post('register/admin')
   @ApiOperation({ summary: 'Register admin user' })
   async registerAdmin(@Body() registerDto: RegisterDto) {
@@ -59,11 +336,40 @@ export class AuthController {
     );
   }
 
+  @Post('register/candidate')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Self-register as a candidate for a general assessment',
+    description:
+      "Creates an external candidate in the exam's organization. The email domain must match the " +
+      "organization's and the exam's allowed domains when those are set. Public general assessments " +
+      'of the organization are enrolled automatically.',
+  })
+  async registerCandidate(@Body() registerCandidateDto: RegisterCandidateDto) {
+    return this.commandBus.execute(
+      new RegisterCandidateCommand(
+        registerCandidateDto.name,
+        registerCandidateDto.email,
+        registerCandidateDto.password,
+        registerCandidateDto.examId,
+        registerCandidateDto.enrollInPublicExams ?? true,
+      ),
+    );
+  }
+
   @Post('student/login')
   @ApiOperation({ summary: 'Student login' })
-  async studentLogin(@Body() loginDto: LoginDto) {
+  async studentLogin(
+    @Body() loginDto: LoginDto,
+    @Req() request: ExpressRequest,
+  ) {
     return this.commandBus.execute(
-      new LoginCommand(loginDto.email, loginDto.password),
+      new LoginCommand(
+        loginDto.email,
+        loginDto.password,
+        request.ip,
+        request.headers['user-agent'],
+      ),
     );
   }
 
@@ -75,11 +381,195 @@ export class AuthController {
     return req.user;
   }
 
+  @Post('refresh')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Rotate refresh token',
+    description:
+      'Exchanges a valid refresh token (body or refreshToken cookie) for a new access/refresh pair. ' +
+      'The presented refresh token is invalidated; replaying it revokes the whole session.',
+  })
+  @ApiQuery({
+    name: 'useCookies',
+    required: false,
+    type: Boolean,
+    description:
+      'Set to true to receive the rotated tokens as secure httpOnly cookies',
+  })
+  async refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Query('useCookies') useCookies: string,
+    @Req() request: ExpressRequest,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const refreshToken =
+      refreshTokenDto.refreshToken || request.cookies?.['refreshToken'];
+
+    const result = await this.commandBus.execute(
+      new RefreshTokenCommand(
+        refreshToken,
+        request.ip,
+        request.headers['user-agent'],
+      ),
+    );
+
+    if (useCookies === 'true') {
+      this.setAuthCookies(response, result.accessToken, result.refreshToken);
+
+      return {
+        user: result.user,
+        message: 'Tokens refreshed. New tokens set as secure cookies.',
+      };
+    }
+
+    return result;
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List active sessions (signed-in devices)',
+    description:
+      'The session making the request is flagged with current: true.',
+  })
+  async listSessions(@Request() req) {
+    return this.commandBus.execute(
+      new ListSessionsCommand(req.user.id, req.user.sessionId),
+    );
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @BlockImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Revoke a session',
+    description:
+      'Signs the device out immediately: its refresh token and access tokens stop working.',
+  })
+  async revokeSession(@Param('id') sessionId: string, @Request() req) {
+    return this.commandBus.execute(
+      new RevokeSessionCommand(req.user.id, sessionId),
+    );
+  }
+
+  @Post('change-password')
+  @UseGuards(JwtAuthGuard)
+  @BlockImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Change password and sign out all sessions' })
+  async changePassword(
+    @Body() changePasswordDto: ChangePasswordDto,
+    @Request() req,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const result = await this.commandBus.execute(
+      new ChangePasswordCommand(
+        req.user.id,
+        changePasswordDto.currentPassword,
+        changePasswordDto.newPassword,
+      ),
+    );
+
+    this.clearAuthCookies(response);
+    return result;
+  }
+
+  @Post('forgot-password')
+  @HttpCode(200)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Request a password reset email',
+    description:
+      'Always responds with the same message so account existence is not revealed.',
+  })
+  async forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+    @Req() request: ExpressRequest,
+  ) {
+    return this.commandBus.execute(
+      new ForgotPasswordCommand(forgotPasswordDto.email, request.ip),
+    );
+  }
+
+  @Post('reset-password')
+  @HttpCode(200)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Reset password using the token from the reset email',
+    description: 'The token is single-use; all existing sessions are revoked.',
+  })
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.commandBus.execute(
+      new ResetPasswordCommand(
+        resetPasswordDto.token,
+        resetPasswordDto.newPassword,
+      ),
+    );
+  }
+
+  @Post('verify-email')
+  @HttpCode(200)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Verify email address using the emailed token' })
+  async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.commandBus.execute(
+      new VerifyEmailCommand(verifyEmailDto.token),
+    );
+  }
+
+  @Post('resend-verification')
+  @HttpCode(200)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({
+    summary: 'Resend the email verification link',
+    description:
+      'Always responds with the same message so account existence is not revealed.',
+  })
+  async resendVerification(
+    @Body() resendVerificationDto: ResendVerificationDto,
+    @Req() request: ExpressRequest,
+  ) {
+    return this.commandBus.execute(
+      new ResendVerificationCommand(resendVerificationDto.email, request.ip),
+    );
+  }
+
   @Post('logout')
-  @ApiOperation({ summary: 'User logout (clears authentication cookies)' })
-  async logout(@Res({ passthrough: true }) response: Response) {
+  @ApiOperation({
+    summary: 'User logout (revokes current tokens and clears auth cookies)',
+  })
+  async logout(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Req() request: ExpressRequest,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const refreshToken =
+      refreshTokenDto.refreshToken || request.cookies?.['refreshToken'];
+
+    const result = await this.commandBus.execute(
+      new LogoutCommand(refreshToken, this.extractAccessToken(request)),
+    );
+
     this.clearAuthCookies(response);
-    return { message: 'Logged out successfully' };
+    return result;
+  }
+
+  /**
+   * Read the access token the same way JwtStrategy does (cookie first, then header)
+   */
+  private extractAccessToken(request: ExpressRequest): string | undefined {
+    if (request.cookies?.['accessToken']) {
+      return request.cookies['accessToken'];
+    }
+
+    const authorization = request.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.substring(7);
+    }
+
+    return undefined;
   }
 
   /**
@@ -0,0 +1,23 @@
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RequestMagicLinkDto {
+  @ApiProperty({ example: 'student@college.edu' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+}
+
+export class VerifyMagicLinkDto {
+  @ApiProperty({ description: 'Token from the emailed sign-in link' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({
+    description: 'deviceId returned when the link was requested on this device',
+  })
+  @IsString()
+  @IsNotEmpty()
+  deviceId: string;
+}
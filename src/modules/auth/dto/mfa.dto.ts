@@ -0,0 +1,38 @@
+import { IsNotEmpty, IsOptional, IsString, Length } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class MfaCodeDto {
+  @ApiProperty({
+    example: '123456',
+    description: 'Code from the authenticator app',
+  })
+  @IsString()
+  @Length(6, 6)
+  code: string;
+}
+
+export class MfaTokenDto {
+  @ApiProperty({ description: 'Token returned by the password login step' })
+  @IsString()
+  @IsNotEmpty()
+  mfaToken: string;
+}
+
+export class VerifyMfaLoginDto extends MfaTokenDto {
+  @ApiPropertyOptional({
+    example: '123456',
+    description: 'Code from the authenticator app',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(6, 6)
+  code?: string;
+
+  @ApiPropertyOptional({
+    example: 'a1b2c-3d4e5',
+    description: 'Single-use recovery code',
+  })
+  @IsOptional()
+  @IsString()
+  recoveryCode?: string;
+}
@@ -0,0 +1,12 @@
+import { IsOptional, IsString } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiPropertyOptional({
+    description:
+      'Refresh token. May be omitted when it is sent as the refreshToken cookie.',
+  })
+  @IsOptional()
+  @IsString()
+  refreshToken?: string;
+}
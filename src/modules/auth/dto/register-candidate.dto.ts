@@ -0,0 +1,44 @@
+import {
+  IsBoolean,
+  IsEmail,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RegisterCandidateDto {
+  @ApiProperty({ example: 'Jane Doe' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ example: 'jane@example.com' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiProperty({ example: 'password123' })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(6)
+  password: string;
+
+  @ApiProperty({
+    description:
+      'General assessment exam the candidate is registering for; its organization owns the account',
+  })
+  @IsMongoId()
+  examId: string;
+
+  @ApiPropertyOptional({
+    default: true,
+    description:
+      "Also enroll into the organization's other public general assessments",
+  })
+  @IsOptional()
+  @IsBoolean()
+  enrollInPublicExams?: boolean;
+}
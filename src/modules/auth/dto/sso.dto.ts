@@ -0,0 +1,38 @@
+import {
+  IsEmail,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class StartSsoLoginDto {
+  @ApiPropertyOptional({ description: 'Organization to sign in to' })
+  @IsOptional()
+  @IsMongoId()
+  organizationId?: string;
+
+  @ApiPropertyOptional({
+    example: 'jane@acme.com',
+    description:
+      'Work email; its domain selects the organization when organizationId is omitted',
+  })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+}
+
+export class CompleteSsoLoginDto {
+  @ApiProperty({
+    description: 'Authorization code returned by the identity provider',
+  })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @ApiProperty({ description: 'State value returned by the identity provider' })
+  @IsString()
+  @IsNotEmpty()
+  state: string;
+}
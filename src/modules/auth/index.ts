@@ -11,10 +11,66 @@ export { InvitationJwtStrategy } from './strategies/invitation-jwt.strategy';
 // Commands
 export { LoginCommand } from './commands/impl/login.command';
 export { RegisterCommand } from './commands/impl/register.command';
+export { RegisterCandidateCommand } from './commands/impl/register-candidate.command';
+export { RefreshTokenCommand } from './commands/impl/refresh-token.command';
+export { LogoutCommand } from './commands/impl/logout.command';
+export { ChangePasswordCommand } from './commands/impl/change-password.command';
+export { ForgotPasswordCommand } from './commands/impl/forgot-password.command';
+export { ResetPasswordCommand } from './commands/impl/reset-password.command';
+export { VerifyEmailCommand } from './commands/impl/verify-email.command';
+export { ResendVerificationCommand } from './commands/impl/resend-verification.command';
+export { VerifyMfaLoginCommand } from './commands/impl/verify-mfa-login.command';
+export { SetupMfaCommand } from './commands/impl/setup-mfa.command';
+export { EnableMfaCommand } from './commands/impl/enable-mfa.command';
+export { DisableMfaCommand } from './commands/impl/disable-mfa.command';
+export { RegenerateRecoveryCodesCommand } from './commands/impl/regenerate-recovery-codes.command';
+export { StartSsoLoginCommand } from './commands/impl/start-sso-login.command';
+export { CompleteSsoLoginCommand } from './commands/impl/complete-sso-login.command';
+export { ListSessionsCommand } from './commands/impl/list-sessions.command';
+export { RevokeSessionCommand } from './commands/impl/revoke-session.command';
+export { RequestMagicLinkCommand } from './commands/impl/request-magic-link.command';
+export { VerifyMagicLinkCommand } from './commands/impl/verify-magic-link.command';
+export { GetLoginOptionsCommand } from './commands/impl/get-login-options.command';
 
 // Command Handlers
 export { LoginHandler } from './commands/handlers/login.handler';
 export { RegisterHandler } from './commands/handlers/register.handler';
+export { RegisterCandidateHandler } from './commands/handlers/register-candidate.handler';
+export { RefreshTokenHandler } from './commands/handlers/refresh-token.handler';
+export { LogoutHandler } from './commands/handlers/logout.handler';
+export { ChangePasswordHandler } from './commands/handlers/change-password.handler';
+export { ForgotPasswordHandler } from './commands/handlers/forgot-password.handler';
+export { ResetPasswordHandler } from './commands/handlers/reset-password.handler';
+export { VerifyEmailHandler } from './commands/handlers/verify-email.handler';
+export { ResendVerificationHandler } from './commands/handlers/resend-verification.handler';
+export { VerifyMfaLoginHandler } from './commands/handlers/verify-mfa-login.handler';
+export { SetupMfaHandler } from './commands/handlers/setup-mfa.handler';
+export { EnableMfaHandler } from './commands/handlers/enable-mfa.handler';
+export { DisableMfaHandler } from './commands/handlers/disable-mfa.handler';
+export { RegenerateRecoveryCodesHandler } from './commands/handlers/regenerate-recovery-codes.handler';
+export { StartSsoLoginHandler } from './commands/handlers/start-sso-login.handler';
+export { CompleteSsoLoginHandler } from './commands/handlers/complete-sso-login.handler';
+export { ListSessionsHandler } from './commands/handlers/list-sessions.handler';
+export { RevokeSessionHandler } from './commands/handlers/revoke-session.handler';
+export { RequestMagicLinkHandler } from './commands/handlers/request-magic-link.handler';
+export { VerifyMagicLinkHandler } from './commands/handlers/verify-magic-link.handler';
+export { GetLoginOptionsHandler } from './commands/handlers/get-login-options.handler';
+
+// Services
+export { TokenService } from './services/token.service';
+export { EmailVerificationService } from './services/email-verification.service';
+export { MfaService } from './services/mfa.service';
+export { LoginAttemptService } from './services/login-attempt.service';
+export { OidcService } from './services/oidc.service';
+export { SessionService } from './services/session.service';
+export { MagicLinkService } from './services/magic-link.service';
+
+// Schemas
+export {
+  UserSession,
+  SessionLoginMethod,
+  SessionRevokedReason,
+} from './schemas/user-session.schema';
 
 // Guards
 export { RolesGuard } from './guards/roles.guard';
@@ -0,0 +1,77 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum SessionLoginMethod {
+  PASSWORD = 'PASSWORD',
+  MFA = 'MFA',
+  SSO = 'SSO',
+  MAGIC_LINK = 'MAGIC_LINK',
+}
+
+export enum SessionRevokedReason {
+  LOGOUT = 'LOGOUT',
+  USER_REVOKED = 'USER_REVOKED',
+  ADMIN_REVOKED = 'ADMIN_REVOKED',
+  TOKEN_REUSE = 'TOKEN_REUSE',
+  ALL_SESSIONS_REVOKED = 'ALL_SESSIONS_REVOKED',
+}
+
+/**
+ * One signed-in device. Backed by a refresh token family in Redis;
+ * this record is what users and admins see and revoke.
+ */
+@Schema({ timestamps: true })
+export class UserSession extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  // Refresh token family this session maps to
+  @Prop({ required: true, unique: true })
+  familyId: string;
+
+  @Prop({
+    type: String,
+    enum: Object.values(SessionLoginMethod),
+    default: SessionLoginMethod.PASSWORD,
+  })
+  loginMethod: SessionLoginMethod;
+
+  // Human readable device summary, e.g. "Chrome on Windows"
+  @Prop()
+  device?: string;
+
+  @Prop()
+  userAgent?: string;
+
+  @Prop()
+  ipAddress?: string;
+
+  @Prop({ type: Date, default: Date.now })
+  lastSeenAt: Date;
+
+  @Prop()
+  lastSeenIp?: string;
+
+  // When the refresh chain expires if it is not used again
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+
+  @Prop({ type: Date })
+  revokedAt?: Date;
+
+  @Prop({ type: String, enum: Object.values(SessionRevokedReason) })
+  revokedReason?: SessionRevokedReason;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  revokedBy?: Types.ObjectId;
+}
+
+export const UserSessionSchema = SchemaFactory.createForClass(UserSession);
+
+// Indexes
+UserSessionSchema.index({ userId: 1, revokedAt: 1, expiresAt: -1 });
+// Drop records a month after the session could no longer be used
+UserSessionSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 30 * 24 * 60 * 60 },
+);
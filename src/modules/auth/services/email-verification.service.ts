@@ -0,0 +1,83 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+import { EmailService } from '../../email/services/email.service';
+import { SecureTokenUtil } from '../../../common/utils/secure-token.util';
+
+const VERIFICATION_TOKEN_TTL_HOURS = 48;
+
+/**
+ * Issues and redeems email verification tokens.
+ * Shared by self-registration, admin-created accounts and the resend endpoint.
+ */
+@Injectable()
+export class EmailVerificationService {
+  private readonly logger = new Logger(EmailVerificationService.name);
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    private emailService: EmailService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Generate a fresh token for the user and queue the verification email.
+   * Any previously issued token stops working.
+   */
+  async sendVerificationEmail(user: User): Promise<void> {
+    if (user.emailVerified) {
+      return;
+    }
+
+    const token = SecureTokenUtil.generate();
+    user.emailVerificationToken = SecureTokenUtil.hash(token);
+    user.emailVerificationExpires = new Date(
+      Date.now() + VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000,
+    );
+    await user.save();
+
+    const frontendUrl = this.configService.get(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+
+    try {
+      await this.emailService.queueEmailVerificationEmail({
+        name: user.name,
+        email: user.email,
+        verificationUrl: `${frontendUrl}/verify-email?token=${token}`,
+        expiresInHours: VERIFICATION_TOKEN_TTL_HOURS,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue verification email for ${user.email}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Mark the owner of a token as verified. Tokens are single-use.
+   */
+  async verify(token: string): Promise<User> {
+    const user = await this.userModel.findOneAndUpdate(
+      {
+        emailVerificationToken: SecureTokenUtil.hash(token),
+        emailVerificationExpires: { $gt: new Date() },
+      },
+      {
+        $set: { emailVerified: true },
+        $unset: { emailVerificationToken: 1, emailVerificationExpires: 1 },
+      },
+      { new: true },
+    );
+
+    if (!user) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    return user;
+  }
+}
@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { LoginAttemptService } from './login-attempt.service';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+import { RateLimiterService } from '../../redis/rate-limiter.service';
+
+describe('LoginAttemptService', () => {
+  let service: LoginAttemptService;
+  let now: number;
+
+  // In-memory Redis covering the commands the lockout uses, with expiry
+  let store: Map<string, { value: string; expiresAt?: number }>;
+  const live = (key: string) => {
+    const entry = store.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= now) {
+      store.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+  const mockRedis: any = {
+    get: jest.fn(async (key) => live(key)?.value ?? null),
+    set: jest.fn(async (key, value, _ex, seconds) => {
+      store.set(key, { value, expiresAt: now + seconds * 1000 });
+      return 'OK';
+    }),
+    incr: jest.fn(async (key) => {
+      const entry = live(key) || { value: '0' };
+      entry.value = (parseInt(entry.value, 10) + 1).toString();
+      store.set(key, entry);
+      return parseInt(entry.value, 10);
+    }),
+    expire: jest.fn(async (key, seconds) => {
+      live(key).expiresAt = now + seconds * 1000;
+    }),
+    pttl: jest.fn(async (key) => {
+      const entry = live(key);
+      return entry ? entry.expiresAt - now : -2;
+    }),
+    del: jest.fn(async (...keys) => keys.forEach((key) => store.delete(key))),
+    multi: jest.fn(() => {
+      const queued: Array<() => Promise<unknown>> = [];
+      const chain = {
+        set: (...args) => queued.push(() => mockRedis.set(...args)) && chain,
+        del: (...args) => queued.push(() => mockRedis.del(...args)) && chain,
+        exec: async () => {
+          for (const command of queued) {
+            await command();
+          }
+        },
+      };
+      return chain;
+    }),
+  };
+
+  const email = 'ada@acme.com';
+  const ip = '203.0.113.7';
+
+  const fail = async (account = email, address = ip) => {
+    await service.assertCanAttempt(account, address);
+    await service.recordFailure(account, address);
+  };
+  const statusOf = (promise: Promise<unknown>) =>
+    promise.then(
+      () => undefined,
+      (error: HttpException) => error.getStatus(),
+    );
+  const wait = (seconds: number) => {
+    now += seconds * 1000;
+  };
+
+  beforeEach(async () => {
+    store = new Map();
+    now = Date.parse('2026-01-01T10:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAttemptService,
+        RateLimiterService,
+        { provide: REDIS_CLIENT, useValue: mockRedis },
+      ],
+    }).compile();
+
+    service = module.get<LoginAttemptService>(LoginAttemptService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should let the first failures retry straight away', async () => {
+    for (let i = 0; i < 3; i++) {
+      await fail();
+    }
+
+    await expect(service.assertCanAttempt(email, ip)).resolves.toBeUndefined();
+  });
+
+  it('should make each attempt wait longer after three failures', async () => {
+    for (let i = 0; i < 4; i++) {
+      await fail();
+    }
+
+    expect(await statusOf(service.assertCanAttempt(email, ip))).toBe(
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+    wait(2);
+    await expect(service.assertCanAttempt(email, ip)).resolves.toBeUndefined();
+  });
+
+  it('should lock the account on the fifth failure', async () => {
+    for (let i = 0; i < 4; i++) {
+      await fail();
+      wait(30);
+    }
+
+    expect(await statusOf(fail())).toBe(423);
+    expect(await statusOf(service.assertCanAttempt(email))).toBe(423);
+    await expect(service.getAccountLockStatus(email)).resolves.toMatchObject({
+      locked: true,
+      lockedUntil: new Date(now + 15 * 60 * 1000),
+    });
+  });
+
+  it('should lift the lock after fifteen minutes', async () => {
+    for (let i = 0; i < 5; i++) {
+      await statusOf(fail());
+      wait(30);
+    }
+
+    wait(15 * 60);
+
+    await expect(service.assertCanAttempt(email, ip)).resolves.toBeUndefined();
+  });
+
+  it('should clear the failures on a successful login', async () => {
+    for (let i = 0; i < 4; i++) {
+      await fail();
+      wait(30);
+    }
+
+    await service.recordSuccess(email);
+
+    await expect(service.getAccountLockStatus(email)).resolves.toEqual({
+      locked: false,
+      lockedUntil: undefined,
+      failedAttempts: 0,
+    });
+    await fail();
+    await expect(service.assertCanAttempt(email, ip)).resolves.toBeUndefined();
+  });
+
+  it('should let an admin unlock the account', async () => {
+    for (let i = 0; i < 5; i++) {
+      await statusOf(fail());
+      wait(30);
+    }
+
+    await service.unlockAccount(email);
+
+    await expect(service.assertCanAttempt(email, ip)).resolves.toBeUndefined();
+  });
+
+  it('should lock an IP spraying passwords across accounts', async () => {
+    for (let i = 0; i < 19; i++) {
+      await fail(`user${i}@acme.com`);
+    }
+
+    expect(await statusOf(fail('user19@acme.com'))).toBe(423);
+    expect(await statusOf(service.assertCanAttempt('new@acme.com', ip))).toBe(
+      423,
+    );
+    await expect(
+      service.assertCanAttempt('new@acme.com', '198.51.100.1'),
+    ).resolves.toBeUndefined();
+  });
+});
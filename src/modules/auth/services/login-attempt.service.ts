@@ -0,0 +1,211 @@
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+import { RateLimiterService } from '../../redis/rate-limiter.service';
+
+// Per-account: after DELAY_AFTER_FAILURES misses each attempt must wait
+// progressively longer; at MAX_ACCOUNT_FAILURES the account is locked.
+const DELAY_AFTER_FAILURES = 3;
+const MAX_DELAY_SECONDS = 30;
+const MAX_ACCOUNT_FAILURES = 5;
+
+// Per-IP: catches one client spraying passwords across many accounts
+const MAX_IP_FAILURES = 20;
+
+// 423 Locked (not part of Nest's HttpStatus enum)
+const HTTP_STATUS_LOCKED = 423;
+
+const FAILURE_WINDOW_SECONDS = 15 * 60;
+const LOCKOUT_SECONDS = 15 * 60;
+
+export type LockoutScope = 'ACCOUNT' | 'IP';
+
+export interface LockStatus {
+  locked: boolean;
+  lockedUntil?: Date;
+  failedAttempts: number;
+}
+
+/**
+ * Brute-force protection for password login, backed by Redis counters.
+ *
+ * Redis keys:
+ * - auth:login-failures:<scope>:<id>  -> failures in the current window
+ * - auth:login-lock:<scope>:<id>      -> unix time (ms) the lock expires
+ * - auth:login-delay:account:<email>  -> set while the next attempt must wait
+ */
+@Injectable()
+export class LoginAttemptService {
+  private readonly logger = new Logger(LoginAttemptService.name);
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly rateLimiter: RateLimiterService,
+  ) {}
+
+  /**
+   * Reject the attempt up front if the account or IP is locked or cooling down
+   */
+  async assertCanAttempt(email: string, ipAddress?: string): Promise<void> {
+    const accountLock = await this.redis.get(this.lockKey('ACCOUNT', email));
+    if (accountLock) {
+      throw this.lockedException('ACCOUNT', parseInt(accountLock, 10), false);
+    }
+
+    if (ipAddress) {
+      const ipLock = await this.redis.get(this.lockKey('IP', ipAddress));
+      if (ipLock) {
+        throw this.lockedException('IP', parseInt(ipLock, 10), false);
+      }
+    }
+
+    const delayMs = await this.redis.pttl(this.delayKey(email));
+    if (delayMs > 0) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: `Too many failed attempts. Try again in ${Math.ceil(delayMs / 1000)} seconds.`,
+          retryAfter: Math.ceil(delayMs / 1000),
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Count a failed attempt. Throws when this failure triggers a lockout.
+   */
+  async recordFailure(email: string, ipAddress?: string): Promise<void> {
+    let lockout: HttpException | null = null;
+
+    if (ipAddress) {
+      const ipFailures = await this.rateLimiter.hit(
+        this.failuresKey('IP', ipAddress),
+        FAILURE_WINDOW_SECONDS,
+      );
+      if (ipFailures >= MAX_IP_FAILURES) {
+        lockout = await this.lock('IP', ipAddress);
+      }
+    }
+
+    const accountFailures = await this.rateLimiter.hit(
+      this.failuresKey('ACCOUNT', email),
+      FAILURE_WINDOW_SECONDS,
+    );
+    if (accountFailures >= MAX_ACCOUNT_FAILURES) {
+      lockout = await this.lock('ACCOUNT', email);
+    }
+
+    if (lockout) {
+      throw lockout;
+    }
+
+    if (accountFailures > DELAY_AFTER_FAILURES) {
+      const delaySeconds = Math.min(
+        2 ** (accountFailures - DELAY_AFTER_FAILURES),
+        MAX_DELAY_SECONDS,
+      );
+      await this.redis.set(this.delayKey(email), '1', 'EX', delaySeconds);
+    }
+  }
+
+  /**
+   * Successful login clears the account's failure history
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.redis.del(
+      this.failuresKey('ACCOUNT', email),
+      this.delayKey(email),
+    );
+  }
+
+  /**
+   * Lift an account lockout (admin action)
+   */
+  async unlockAccount(email: string): Promise<void> {
+    await this.redis.del(
+      this.lockKey('ACCOUNT', email),
+      this.failuresKey('ACCOUNT', email),
+      this.delayKey(email),
+    );
+  }
+
+  async getAccountLockStatus(email: string): Promise<LockStatus> {
+    const [lockedUntil, failures] = await Promise.all([
+      this.redis.get(this.lockKey('ACCOUNT', email)),
+      this.redis.get(this.failuresKey('ACCOUNT', email)),
+    ]);
+
+    return {
+      locked: !!lockedUntil,
+      lockedUntil: lockedUntil
+        ? new Date(parseInt(lockedUntil, 10))
+        : undefined,
+      failedAttempts: failures ? parseInt(failures, 10) : 0,
+    };
+  }
+
+  private async lock(scope: LockoutScope, id: string): Promise<HttpException> {
+    const lockedUntil = Date.now() + LOCKOUT_SECONDS * 1000;
+
+    await this.redis
+      .multi()
+      .set(
+        this.lockKey(scope, id),
+        lockedUntil.toString(),
+        'EX',
+        LOCKOUT_SECONDS,
+      )
+      .del(this.failuresKey(scope, id))
+      .exec();
+
+    this.logger.warn(
+      `Login lockout triggered for ${scope.toLowerCase()} ${id}`,
+    );
+
+    return this.lockedException(scope, lockedUntil, true);
+  }
+
+  /**
+   * 423 Locked. The lockout fields are picked up by SecurityLoggerInterceptor.
+   */
+  private lockedException(
+    scope: LockoutScope,
+    lockedUntil: number,
+    triggered: boolean,
+  ): HttpException {
+    return new HttpException(
+      {
+        statusCode: HTTP_STATUS_LOCKED,
+        message:
+          scope === 'ACCOUNT'
+            ? 'Account temporarily locked due to too many failed login attempts'
+            : 'Too many failed login attempts from this network. Try again later.',
+        lockout: {
+          scope,
+          triggered,
+          lockedUntil: new Date(lockedUntil).toISOString(),
+        },
+      },
+      HTTP_STATUS_LOCKED,
+    );
+  }
+
+  private failuresKey(scope: LockoutScope, id: string): string {
+    return `auth:login-failures:${scope.toLowerCase()}:${id}`;
+  }
+
+  private lockKey(scope: LockoutScope, id: string): string {
+    return `auth:login-lock:${scope.toLowerCase()}:${id}`;
+  }
+
+  private delayKey(email: string): string {
+    return `auth:login-delay:account:${email}`;
+  }
+}
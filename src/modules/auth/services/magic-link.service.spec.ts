@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { HttpStatus, UnauthorizedException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { MagicLinkService } from './magic-link.service';
+import { User, UserRole } from '../../users/schemas/user.schema';
+import { Organization } from '../../organizations/schemas/organization.schema';
+import { EmailService } from '../../email/services/email.service';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+import { RateLimiterService } from '../../redis/rate-limiter.service';
+
+describe('MagicLinkService', () => {
+  let service: MagicLinkService;
+  const jwtService = new JwtService({ secret: 'test-secret' });
+
+  // In-memory stand-ins for the Redis keys and counters
+  let store: Map<string, string>;
+  let counters: Map<string, number>;
+
+  const ip = '203.0.113.7';
+  const candidate = {
+    _id: new Types.ObjectId(),
+    name: 'Ada',
+    email: 'ada@acme.com',
+    role: UserRole.CANDIDATE,
+    organizationIds: [new Types.ObjectId()],
+  };
+
+  const mockUserModel = { findOne: jest.fn() };
+  const mockOrganizationModel = { exists: jest.fn() };
+  const mockEmailService = { queueMagicLinkEmail: jest.fn() };
+  const mockRedis = {
+    set: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    ttl: jest.fn().mockResolvedValue(600),
+    multi: jest.fn(() => {
+      let key: string;
+      const chain = {
+        get: (k: string) => {
+          key = k;
+          return chain;
+        },
+        del: () => chain,
+        exec: async () => {
+          const value = store.get(key) ?? null;
+          store.delete(key);
+          return [
+            [null, value],
+            [null, value ? 1 : 0],
+          ];
+        },
+      };
+      return chain;
+    }),
+  };
+  const mockRateLimiter = {
+    hit: jest.fn(async (key: string) => {
+      counters.set(key, (counters.get(key) || 0) + 1);
+      return counters.get(key);
+    }),
+  };
+
+  const requestLink = async (email = 'Ada@acme.com') => {
+    const { deviceId } = await service.requestLink(email, ip);
+    const { calls } = mockEmailService.queueMagicLinkEmail.mock;
+    const token = calls.length
+      ? new URL(calls[calls.length - 1][0].loginUrl).searchParams.get('token')
+      : undefined;
+    return { deviceId, token };
+  };
+
+  beforeEach(async () => {
+    store = new Map();
+    counters = new Map();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MagicLinkService,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        {
+          provide: getModelToken(Organization.name),
+          useValue: mockOrganizationModel,
+        },
+        { provide: REDIS_CLIENT, useValue: mockRedis },
+        { provide: RateLimiterService, useValue: mockRateLimiter },
+        { provide: JwtService, useValue: jwtService },
+        { provide: ConfigService, useValue: { get: jest.fn((_k, d) => d) } },
+        { provide: EmailService, useValue: mockEmailService },
+      ],
+    }).compile();
+
+    service = module.get<MagicLinkService>(MagicLinkService);
+    mockUserModel.findOne.mockResolvedValue(candidate);
+    mockOrganizationModel.exists.mockResolvedValue({ _id: 'org' });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('requestLink', () => {
+    it('should email a link for an eligible candidate', async () => {
+      const { deviceId, token } = await requestLink();
+
+      expect(mockUserModel.findOne).toHaveBeenCalledWith({
+        email: 'ada@acme.com',
+        role: UserRole.CANDIDATE,
+        isActive: true,
+      });
+      expect(deviceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(token).toBeTruthy();
+      expect(
+        mockEmailService.queueMagicLinkEmail.mock.calls[0][0].loginUrl,
+      ).not.toContain(deviceId);
+    });
+
+    it('should answer the same when sign-in links are off', async () => {
+      const eligible = await service.requestLink('ada@acme.com', ip);
+      mockOrganizationModel.exists.mockResolvedValue(null);
+
+      const ineligible = await service.requestLink('ada@acme.com', ip);
+
+      expect(Object.keys(ineligible)).toEqual(Object.keys(eligible));
+      expect(ineligible.message).toBe(eligible.message);
+      expect(mockEmailService.queueMagicLinkEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse more than three requests for an address', async () => {
+      for (let i = 0; i < 3; i++) {
+        await requestLink();
+      }
+
+      await expect(requestLink()).rejects.toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+      });
+    });
+  });
+
+  describe('redeemLink', () => {
+    it('should sign in on the requesting device and network', async () => {
+      const { deviceId, token } = await requestLink();
+
+      await expect(service.redeemLink(token, deviceId, ip)).resolves.toBe(
+        candidate,
+      );
+    });
+
+    it('should only redeem a link once', async () => {
+      const { deviceId, token } = await requestLink();
+      await service.redeemLink(token, deviceId, ip);
+
+      await expect(service.redeemLink(token, deviceId, ip)).rejects.toThrow(
+        'Invalid or expired sign-in link',
+      );
+    });
+
+    it('should burn a link opened on another device', async () => {
+      const { deviceId, token } = await requestLink();
+
+      await expect(
+        service.redeemLink(token, 'another-device', ip),
+      ).rejects.toThrow('must be opened on the device and network');
+      await expect(service.redeemLink(token, deviceId, ip)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject a link opened from another network', async () => {
+      const { deviceId, token } = await requestLink();
+
+      await expect(
+        service.redeemLink(token, deviceId, '198.51.100.1'),
+      ).rejects.toThrow('must be opened on the device and network');
+    });
+
+    it('should reject an expired link', async () => {
+      const { deviceId, token } = await requestLink();
+      const { type, sub, jti } = jwtService.decode(token);
+      const expired = jwtService.sign({ type, sub, jti }, { expiresIn: -10 });
+
+      await expect(service.redeemLink(expired, deviceId, ip)).rejects.toThrow(
+        'Invalid or expired sign-in link',
+      );
+    });
+
+    it('should reject other signed tokens', async () => {
+      const token = jwtService.sign({
+        type: 'MFA_PENDING',
+        sub: candidate._id.toString(),
+      });
+
+      await expect(service.redeemLink(token, 'device', ip)).rejects.toThrow(
+        'Invalid token type',
+      );
+    });
+
+    it('should reject the link once sign-in links are turned off', async () => {
+      const { deviceId, token } = await requestLink();
+      mockOrganizationModel.exists.mockResolvedValue(null);
+
+      await expect(service.redeemLink(token, deviceId, ip)).rejects.toThrow(
+        'Email sign-in is not available',
+      );
+    });
+  });
+});
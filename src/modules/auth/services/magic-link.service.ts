@@ -0,0 +1,268 @@
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import Redis from 'ioredis';
+import { User, UserRole } from '../../users/schemas/user.schema';
+import { Organization } from '../../organizations/schemas/organization.schema';
+import { EmailService } from '../../email/services/email.service';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+import { RateLimiterService } from '../../redis/rate-limiter.service';
+import { SecureTokenUtil } from '../../../common/utils/secure-token.util';
+
+const MAGIC_LINK_TTL_MINUTES = 15;
+
+// Requests per window before further requests are refused
+const MAX_REQUESTS_PER_EMAIL = 3;
+const MAX_REQUESTS_PER_IP = 10;
+const REQUEST_WINDOW_SECONDS = 15 * 60;
+
+export interface MagicLinkPayload {
+  type: 'MAGIC_LINK';
+  sub: string;
+  jti: string;
+}
+
+interface MagicLinkBinding {
+  userId: string;
+  ipAddress?: string;
+  deviceHash: string;
+}
+
+/**
+ * Passwordless sign-in for candidates of organizations that enable it.
+ *
+ * The emailed link carries a signed, short-lived token. Redemption is
+ * single-use and bound to the requesting client: the same IP address and
+ * the device id returned when the link was requested (kept by the client,
+ * never emailed).
+ *
+ * Redis keys:
+ * - auth:magic-link:<jti>                    -> binding of an unused link
+ * - auth:magic-link-requests:<scope>:<id>    -> requests in the current window
+ */
+@Injectable()
+export class MagicLinkService {
+  private readonly logger = new Logger(MagicLinkService.name);
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(Organization.name)
+    private organizationModel: Model<Organization>,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly rateLimiter: RateLimiterService,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  /**
+   * Email a sign-in link if the address belongs to an eligible candidate.
+   * The response is identical either way so accounts cannot be enumerated.
+   */
+  async requestLink(email: string, ipAddress?: string) {
+    await this.assertWithinRateLimit('email', email);
+    if (ipAddress) {
+      await this.assertWithinRateLimit('ip', ipAddress);
+    }
+
+    const deviceId = SecureTokenUtil.generate(16);
+    const user = await this.findEligibleCandidate(email);
+
+    if (user) {
+      const jti = uuidv4();
+      const binding: MagicLinkBinding = {
+        userId: user._id.toString(),
+        ipAddress,
+        deviceHash: SecureTokenUtil.hash(deviceId),
+      };
+
+      await this.redis.set(
+        this.linkKey(jti),
+        JSON.stringify(binding),
+        'EX',
+        MAGIC_LINK_TTL_MINUTES * 60,
+      );
+
+      const payload: MagicLinkPayload = {
+        type: 'MAGIC_LINK',
+        sub: user._id.toString(),
+        jti,
+      };
+      const token = this.jwtService.sign(payload, {
+        expiresIn: `${MAGIC_LINK_TTL_MINUTES}m`,
+      });
+
+      const frontendUrl = this.configService.get(
+        'FRONTEND_URL',
+        'http://localhost:3000',
+      );
+
+      try {
+        await this.emailService.queueMagicLinkEmail({
+          name: user.name,
+          email: user.email,
+          loginUrl: `${frontendUrl}/magic-link?token=${token}`,
+          expiresInMinutes: MAGIC_LINK_TTL_MINUTES,
+          ipAddress,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to queue magic link email for ${user.email}:`,
+          error,
+        );
+      }
+    }
+
+    return {
+      deviceId,
+      expiresInMinutes: MAGIC_LINK_TTL_MINUTES,
+      message:
+        'If this email belongs to a candidate account with email sign-in enabled, a sign-in link has been sent. ' +
+        'Open it on this device.',
+    };
+  }
+
+  /**
+   * Consume a link. Any mismatch burns the link; the candidate requests a new one.
+   */
+  async redeemLink(
+    token: string,
+    deviceId: string,
+    ipAddress?: string,
+  ): Promise<User> {
+    let payload: MagicLinkPayload;
+    try {
+      payload = this.jwtService.verify<MagicLinkPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired sign-in link');
+    }
+
+    if (payload.type !== 'MAGIC_LINK') {
+      throw new UnauthorizedException('Invalid token type');
+    }
+
+    // Atomic read-and-delete makes the link single-use
+    const [[, raw]] = await this.redis
+      .multi()
+      .get(this.linkKey(payload.jti))
+      .del(this.linkKey(payload.jti))
+      .exec();
+
+    if (!raw) {
+      throw new UnauthorizedException('Invalid or expired sign-in link');
+    }
+
+    const binding: MagicLinkBinding = JSON.parse(raw as string);
+
+    if (
+      binding.userId !== payload.sub ||
+      binding.deviceHash !== SecureTokenUtil.hash(deviceId || '') ||
+      (binding.ipAddress && binding.ipAddress !== ipAddress)
+    ) {
+      this.logger.warn(
+        `Magic link for user ${payload.sub} redeemed from a different device or network`,
+      );
+      throw new UnauthorizedException(
+        'This sign-in link must be opened on the device and network that requested it',
+      );
+    }
+
+    const user = await this.findEligibleCandidate(undefined, payload.sub);
+    if (!user) {
+      throw new UnauthorizedException('Email sign-in is not available');
+    }
+
+    return user;
+  }
+
+  /**
+   * Candidate sign-in methods of an organization, for branded login pages
+   */
+  async getLoginOptions(organizationId: string) {
+    const organization = Types.ObjectId.isValid(organizationId)
+      ? await this.organizationModel
+          .findById(organizationId)
+          .select(
+            'name security.magicLinkLogin security.defaultCandidateLogin sso.enabled',
+          )
+          .exec()
+      : null;
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const magicLinkLogin = !!organization.security?.magicLinkLogin;
+
+    return {
+      organizationId,
+      name: organization.name,
+      password: true,
+      magicLink: magicLinkLogin,
+      sso: !!organization.sso?.enabled,
+      defaultCandidateLogin: magicLinkLogin
+        ? organization.security?.defaultCandidateLogin || 'PASSWORD'
+        : 'PASSWORD',
+    };
+  }
+
+  /**
+   * Active candidate belonging to an organization that allows magic links
+   */
+  private async findEligibleCandidate(
+    email?: string,
+    userId?: string,
+  ): Promise<User | null> {
+    const user = await this.userModel.findOne({
+      ...(email && { email: email.toLowerCase().trim() }),
+      ...(userId && { _id: userId }),
+      role: UserRole.CANDIDATE,
+      isActive: true,
+    });
+
+    if (!user || !user.organizationIds?.length) {
+      return null;
+    }
+
+    const enabled = await this.organizationModel.exists({
+      _id: { $in: user.organizationIds },
+      'security.magicLinkLogin': true,
+    });
+
+    return enabled ? user : null;
+  }
+
+  private async assertWithinRateLimit(scope: 'email' | 'ip', id: string) {
+    const limit =
+      scope === 'email' ? MAX_REQUESTS_PER_EMAIL : MAX_REQUESTS_PER_IP;
+    const key = `auth:magic-link-requests:${scope}:${id.toLowerCase()}`;
+
+    const count = await this.rateLimiter.hit(key, REQUEST_WINDOW_SECONDS);
+    if (count > limit) {
+      const retryAfter = await this.redis.ttl(key);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: `Too many sign-in link requests. Try again in ${Math.ceil(retryAfter / 60)} minutes.`,
+          retryAfter,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private linkKey(jti: string): string {
+    return `auth:magic-link:${jti}`;
+  }
+}
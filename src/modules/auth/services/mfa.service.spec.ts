@@ -0,0 +1,201 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { MfaService } from './mfa.service';
+import { User, UserRole } from '../../users/schemas/user.schema';
+import { Organization } from '../../organizations/schemas/organization.schema';
+import { TotpUtil } from '../../../common/utils/totp.util';
+import { SecureTokenUtil } from '../../../common/utils/secure-token.util';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+import { RateLimiterService } from '../../redis/rate-limiter.service';
+
+describe('MfaService', () => {
+  let service: MfaService;
+  let user: any;
+
+  // In-memory stand-ins for the Redis keys and counters
+  let keys: Set<string>;
+  let counters: Map<string, number>;
+
+  const secret = TotpUtil.generateSecret();
+  const recoveryCode = 'a1b2c-3d4e5';
+
+  const mockUserModel = {
+    findById: jest.fn(() => {
+      const chain: any = { exec: jest.fn().mockResolvedValue(user) };
+      chain.select = jest.fn(() => chain);
+      return chain;
+    }),
+    updateOne: jest.fn(async (filter, update) => {
+      const hash = update.$pull?.mfaRecoveryCodes;
+      if (!hash || !user.mfaRecoveryCodes.includes(hash)) {
+        return { modifiedCount: 0 };
+      }
+      user.mfaRecoveryCodes = user.mfaRecoveryCodes.filter((h) => h !== hash);
+      return { modifiedCount: 1 };
+    }),
+  };
+  const mockRedis = {
+    set: jest.fn(async (key: string) => {
+      if (keys.has(key)) {
+        return null;
+      }
+      keys.add(key);
+      return 'OK';
+    }),
+  };
+  const mockRateLimiter = {
+    hit: jest.fn(async (key: string) => {
+      counters.set(key, (counters.get(key) || 0) + 1);
+      return counters.get(key);
+    }),
+    reset: jest.fn(async (key: string) => {
+      counters.delete(key);
+    }),
+  };
+
+  const verify = (code?: string, recovery?: string) =>
+    service.verifySecondFactor(user._id.toString(), code, recovery);
+
+  beforeEach(async () => {
+    keys = new Set();
+    counters = new Map();
+    user = {
+      _id: new Types.ObjectId(),
+      email: 'admin@acme.com',
+      role: UserRole.ORG_ADMIN,
+      isActive: true,
+      mfaEnabled: true,
+      mfaSecret: secret,
+      mfaRecoveryCodes: [SecureTokenUtil.hash('a1b2c3d4e5')],
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: getModelToken(Organization.name), useValue: {} },
+        { provide: JwtService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn((_k, d) => d) } },
+        { provide: RateLimiterService, useValue: mockRateLimiter },
+        { provide: REDIS_CLIENT, useValue: mockRedis },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('verifySecondFactor', () => {
+    it('should accept a current code', async () => {
+      await expect(verify(TotpUtil.generate(secret))).resolves.toBeUndefined();
+    });
+
+    it('should reject a wrong code', async () => {
+      const wrong = TotpUtil.generate(secret, Date.now() - 10 * 60 * 1000);
+
+      await expect(verify(wrong)).rejects.toThrow(
+        'Invalid authentication code',
+      );
+    });
+
+    it('should reject a code used a second time', async () => {
+      const code = TotpUtil.generate(secret);
+      await verify(code);
+
+      await expect(verify(code)).rejects.toThrow(
+        'Authentication code already used',
+      );
+    });
+
+    it('should remember used codes per user and time step', async () => {
+      await verify(TotpUtil.generate(secret));
+
+      const step = Math.floor(Date.now() / 1000 / 30);
+      expect(keys).toContain(`auth:mfa-used:${user._id}:${step}`);
+    });
+
+    it('should lock out guessing after five attempts', async () => {
+      for (let i = 0; i < 5; i++) {
+        await expect(verify('000000')).rejects.toThrow(UnauthorizedException);
+      }
+
+      await expect(verify(TotpUtil.generate(secret))).rejects.toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+      });
+    });
+
+    it('should reset the attempt counter after a valid code', async () => {
+      await expect(verify('000000')).rejects.toThrow(UnauthorizedException);
+
+      await verify(TotpUtil.generate(secret));
+
+      expect(counters.size).toBe(0);
+    });
+
+    it('should accept a recovery code only once', async () => {
+      await expect(
+        verify(undefined, recoveryCode.toUpperCase()),
+      ).resolves.toBeUndefined();
+
+      await expect(verify(undefined, recoveryCode)).rejects.toThrow(
+        'Invalid recovery code',
+      );
+      expect(user.mfaRecoveryCodes).toHaveLength(0);
+    });
+
+    it('should refuse accounts without two-factor enabled', async () => {
+      user.mfaEnabled = false;
+
+      await expect(verify(TotpUtil.generate(secret))).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('completeEnrollment', () => {
+    beforeEach(() => {
+      Object.assign(user, {
+        mfaEnabled: false,
+        mfaSecret: undefined,
+        mfaPendingSecret: secret,
+        mfaRecoveryCodes: [],
+      });
+    });
+
+    it('should enable two-factor once the pending secret is confirmed', async () => {
+      const codes = await service.completeEnrollment(
+        user._id.toString(),
+        TotpUtil.generate(secret),
+      );
+
+      expect(user.mfaEnabled).toBe(true);
+      expect(user.mfaSecret).toBe(secret);
+      expect(user.mfaPendingSecret).toBeUndefined();
+      expect(codes).toHaveLength(10);
+      expect(user.mfaRecoveryCodes).toEqual(
+        codes.map((code) => SecureTokenUtil.hash(code.replace('-', ''))),
+      );
+    });
+
+    it('should keep the secret pending on a wrong code', async () => {
+      await expect(
+        service.completeEnrollment(user._id.toString(), '000000'),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(user.mfaEnabled).toBe(false);
+      expect(user.save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import Redis from 'ioredis';
+import { User, UserRole } from '../../users/schemas/user.schema';
+import { Organization } from '../../organizations/schemas/organization.schema';
+import { TotpUtil } from '../../../common/utils/totp.util';
+import { SecureTokenUtil } from '../../../common/utils/secure-token.util';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+import { RateLimiterService } from '../../redis/rate-limiter.service';
+
+// Roles allowed to enroll in two-factor authentication
+const MFA_ROLES = [
+  UserRole.SUPER_ADMIN,
+  UserRole.ORG_ADMIN,
+  UserRole.RECRUITER,
+];
+
+// Roles an organization can force into two-factor authentication
+const ORG_ENFORCED_MFA_ROLES = [UserRole.ORG_ADMIN, UserRole.RECRUITER];
+
+const MFA_PENDING_TOKEN_EXPIRY = '5m';
+const RECOVERY_CODE_COUNT = 10;
+const MAX_CODE_ATTEMPTS = 5;
+const CODE_ATTEMPT_WINDOW_SECONDS = 5 * 60;
+
+export interface MfaPendingPayload {
+  type: 'MFA_PENDING';
+  sub: string;
+  setupRequired: boolean;
+}
+
+/**
+ * TOTP enrollment, verification and recovery codes for admin accounts
+ */
+@Injectable()
+export class MfaService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(Organization.name)
+    private organizationModel: Model<Organization>,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+    private rateLimiter: RateLimiterService,
+    @Inject(REDIS_CLIENT) private redis: Redis,
+  ) {}
+
+  /**
+   * Whether any of the user's organizations mandates MFA for their role
+   */
+  async isMfaRequired(user: User): Promise<boolean> {
+    if (!ORG_ENFORCED_MFA_ROLES.includes(user.role)) {
+      return false;
+    }
+
+    if (!user.organizationIds || user.organizationIds.length === 0) {
+      return false;
+    }
+
+    const enforcing = await this.organizationModel.exists({
+      _id: { $in: user.organizationIds },
+      'security.mfaRequiredForAdmins': true,
+    });
+
+    return !!enforcing;
+  }
+
+  /**
+   * Short-lived token proving the password step succeeded.
+   * It is not accepted by JwtStrategy and only unlocks the MFA login routes.
+   */
+  issuePendingToken(user: User, setupRequired: boolean): string {
+    const payload: MfaPendingPayload = {
+      type: 'MFA_PENDING',
+      sub: user._id.toString(),
+      setupRequired,
+    };
+    return this.jwtService.sign(payload, {
+      expiresIn: MFA_PENDING_TOKEN_EXPIRY,
+    });
+  }
+
+  verifyPendingToken(mfaToken: string): MfaPendingPayload {
+    let payload: MfaPendingPayload;
+    try {
+      payload = this.jwtService.verify<MfaPendingPayload>(mfaToken);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired MFA token');
+    }
+
+    if (payload.type !== 'MFA_PENDING') {
+      throw new UnauthorizedException('Invalid token type');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Generate a new secret and store it as pending until a code confirms it
+   */
+  async startEnrollment(userId: string) {
+    const user = await this.findUser(userId);
+
+    if (!MFA_ROLES.includes(user.role)) {
+      throw new ForbiddenException(
+        'Two-factor authentication is only available for admin accounts',
+      );
+    }
+
+    if (user.mfaEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = TotpUtil.generateSecret();
+    user.mfaPendingSecret = secret;
+    await user.save();
+
+    const issuer = this.configService.get('MFA_ISSUER', 'SkillMetric');
+
+    return {
+      secret,
+      otpauthUrl: TotpUtil.buildProvisioningUri(secret, user.email, issuer),
+    };
+  }
+
+  /**
+   * Confirm the pending secret with a code from the app and turn MFA on.
+   * Returns plaintext recovery codes; they are never shown again.
+   */
+  async completeEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId, '+mfaPendingSecret');
+
+    if (user.mfaEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    if (!user.mfaPendingSecret) {
+      throw new BadRequestException(
+        'Start two-factor setup before verifying a code',
+      );
+    }
+
+    await this.assertValidTotp(user, user.mfaPendingSecret, code);
+
+    const { codes, hashes } = this.generateRecoveryCodes();
+
+    user.mfaEnabled = true;
+    user.mfaSecret = user.mfaPendingSecret;
+    user.mfaPendingSecret = undefined;
+    user.mfaRecoveryCodes = hashes;
+    await user.save();
+
+    return codes;
+  }
+
+  /**
+   * Check a TOTP code or a single-use recovery code for an enrolled user
+   */
+  async verifySecondFactor(
+    userId: string,
+    code?: string,
+    recoveryCode?: string,
+  ): Promise<void> {
+    const user = await this.findUser(userId, '+mfaSecret');
+
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      throw new BadRequestException(
+        'Two-factor authentication is not enabled for this account',
+      );
+    }
+
+    if (recoveryCode) {
+      await this.assertAttemptsRemaining(userId);
+      const hash = SecureTokenUtil.hash(
+        this.normalizeRecoveryCode(recoveryCode),
+      );
+
+      // Pull the code atomically so it can only be used once
+      const consumed = await this.userModel.updateOne(
+        { _id: user._id, mfaRecoveryCodes: hash },
+        { $pull: { mfaRecoveryCodes: hash } },
+      );
+
+      if (consumed.modifiedCount === 0) {
+        throw new UnauthorizedException('Invalid recovery code');
+      }
+      return;
+    }
+
+    await this.assertValidTotp(user, user.mfaSecret, code);
+  }
+
+  /**
+   * Turn MFA off. Not allowed while an organization mandates it.
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.findUser(userId);
+
+    if (await this.isMfaRequired(user)) {
+      throw new ForbiddenException(
+        'Your organization requires two-factor authentication',
+      );
+    }
+
+    await this.verifySecondFactor(userId, code);
+
+    await this.userModel.updateOne(
+      { _id: user._id },
+      {
+        $set: { mfaEnabled: false },
+        $unset: { mfaSecret: 1, mfaPendingSecret: 1, mfaRecoveryCodes: 1 },
+      },
+    );
+  }
+
+  /**
+   * Replace all recovery codes after confirming a current TOTP code
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    await this.verifySecondFactor(userId, code);
+
+    const { codes, hashes } = this.generateRecoveryCodes();
+    await this.userModel.updateOne(
+      { _id: userId },
+      { $set: { mfaRecoveryCodes: hashes } },
+    );
+
+    return codes;
+  }
+
+  private async assertValidTotp(
+    user: User,
+    secret: string,
+    code: string,
+  ): Promise<void> {
+    const userId = user._id.toString();
+    await this.assertAttemptsRemaining(userId);
+
+    const step = code ? TotpUtil.verify(secret, code) : null;
+    if (step === null) {
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+
+    // A code may only be used once, even within its validity window
+    const firstUse = await this.redis.set(
+      `auth:mfa-used:${userId}:${step}`,
+      '1',
+      'EX',
+      CODE_ATTEMPT_WINDOW_SECONDS,
+      'NX',
+    );
+    if (!firstUse) {
+      throw new UnauthorizedException('Authentication code already used');
+    }
+
+    await this.rateLimiter.reset(this.attemptsKey(userId));
+  }
+
+  private async assertAttemptsRemaining(userId: string): Promise<void> {
+    const attempts = await this.rateLimiter.hit(
+      this.attemptsKey(userId),
+      CODE_ATTEMPT_WINDOW_SECONDS,
+    );
+    if (attempts > MAX_CODE_ATTEMPTS) {
+      throw new HttpException(
+        'Too many authentication attempts. Please try again later.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private generateRecoveryCodes() {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = SecureTokenUtil.generate(5);
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    return {
+      codes,
+      hashes: codes.map((code) =>
+        SecureTokenUtil.hash(this.normalizeRecoveryCode(code)),
+      ),
+    };
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+  }
+
+  private async findUser(userId: string, select?: string): Promise<User> {
+    const query = this.userModel.findById(userId);
+    if (select) {
+      query.select(select);
+    }
+    const user = await query.exec();
+
+    if (!user || !user.isActive) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private attemptsKey(userId: string): string {
+    return `auth:mfa-attempts:${userId}`;
+  }
+}
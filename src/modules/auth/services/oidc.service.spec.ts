@@ -0,0 +1,436 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, generateKeyPairSync, randomBytes } from 'crypto';
+import { Types } from 'mongoose';
+import { OidcService } from './oidc.service';
+import { User } from '../../users/schemas/user.schema';
+import { Organization } from '../../organizations/schemas/organization.schema';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+import { OutboundUrlUtil } from '../../../common/utils/outbound-url.util';
+
+const CLIENT_ID = 'skillmetric-test';
+const CLIENT_SECRET = 'test-client-secret';
+const REDIRECT_URI = 'http://localhost:3000/sso/callback';
+
+/**
+ * Minimal OpenID Connect provider: discovery, JWKS and a token endpoint
+ * that enforces client credentials, redirect URI and PKCE (S256).
+ */
+class MockIdentityProvider {
+  issuer: string;
+  private server: Server;
+  private readonly jwtService = new JwtService();
+  private readonly keyId = 'test-key';
+  private readonly keys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  private readonly codes = new Map<
+    string,
+    { codeChallenge: string; redirectUri: string; claims: any }
+  >();
+
+  async start() {
+    this.server = createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) => this.server.listen(0, resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+  }
+
+  async stop() {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  /**
+   * Simulate the user signing in at the IdP: returns the redirect parameters
+   */
+  authorize(authorizationUrl: string, claims: Record<string, any>) {
+    const params = new URL(authorizationUrl).searchParams;
+    const code = randomBytes(16).toString('hex');
+
+    this.codes.set(code, {
+      codeChallenge: params.get('code_challenge'),
+      redirectUri: params.get('redirect_uri'),
+      claims: { nonce: params.get('nonce'), ...claims },
+    });
+
+    return { code, state: params.get('state') };
+  }
+
+  private handle(req: any, res: any) {
+    const send = (status: number, body: any) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/openid-configuration') {
+      return send(200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+      });
+    }
+
+    if (req.url === '/jwks') {
+      const jwk = this.keys.publicKey.export({ format: 'jwk' });
+      return send(200, {
+        keys: [{ ...jwk, kid: this.keyId, use: 'sig', alg: 'RS256' }],
+      });
+    }
+
+    if (req.url === '/token' && req.method === 'POST') {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const body = new URLSearchParams(raw);
+        const grant = this.codes.get(body.get('code'));
+        this.codes.delete(body.get('code'));
+
+        const challenge = createHash('sha256')
+          .update(body.get('code_verifier') || '')
+          .digest('base64url');
+
+        if (
+          !grant ||
+          body.get('client_id') !== CLIENT_ID ||
+          body.get('client_secret') !== CLIENT_SECRET ||
+          body.get('redirect_uri') !== grant.redirectUri ||
+          challenge !== grant.codeChallenge
+        ) {
+          return send(400, { error: 'invalid_grant' });
+        }
+
+        const idToken = this.jwtService.sign(grant.claims, {
+          privateKey: this.keys.privateKey.export({
+            type: 'pkcs8',
+            format: 'pem',
+          }) as string,
+          algorithm: 'RS256',
+          keyid: this.keyId,
+          issuer: this.issuer,
+          audience: CLIENT_ID,
+          expiresIn: '5m',
+        });
+
+        send(200, {
+          access_token: 'idp-access-token',
+          token_type: 'Bearer',
+          id_token: idToken,
+        });
+      });
+      return;
+    }
+
+    send(404, { error: 'not_found' });
+  }
+}
+
+/**
+ * Minimal in-memory stand-in for the ioredis commands OidcService uses
+ */
+class FakeRedis {
+  store = new Map<string, string>();
+
+  async set(key: string, value: string) {
+    this.store.set(key, value);
+    return 'OK';
+  }
+
+  multi() {
+    const ops: Array<() => [null, any]> = [];
+    const chain = {
+      get: (key: string) => {
+        ops.push(() => [null, this.store.get(key) ?? null]);
+        return chain;
+      },
+      del: (key: string) => {
+        ops.push(() => [null, this.store.delete(key) ? 1 : 0]);
+        return chain;
+      },
+      exec: async () => ops.map((op) => op()),
+    };
+    return chain;
+  }
+}
+
+const query = (value: any) => ({
+  select: () => query(value),
+  exec: async () => value,
+});
+
+describe('OidcService', () => {
+  let idp: MockIdentityProvider;
+  let service: OidcService;
+  let organization: any;
+  let users: any[];
+
+  const userModel = {
+    findOne: jest.fn((filter: any) =>
+      query(
+        users.find((user) =>
+          Object.entries(filter).every(([key, value]) => user[key] === value),
+        ) ?? null,
+      ),
+    ),
+    create: jest.fn(async (doc: any) => {
+      const user = { _id: new Types.ObjectId(), isActive: true, ...doc };
+      users.push(user);
+      return user;
+    }),
+  };
+
+  const organizationModel = {
+    findById: jest.fn(() => query(organization)),
+    findOne: jest.fn(() => query(organization)),
+  };
+
+  beforeAll(async () => {
+    idp = new MockIdentityProvider();
+    await idp.start();
+  });
+
+  afterAll(async () => {
+    await idp.stop();
+  });
+
+  beforeEach(async () => {
+    users = [];
+    jest.clearAllMocks();
+    // The mock IdP listens on loopback, which real issuers may not use
+    jest
+      .spyOn(OutboundUrlUtil, 'assertPublicHttps')
+      .mockResolvedValue(undefined);
+
+    organization = {
+      _id: new Types.ObjectId(),
+      name: 'Acme Corp',
+      features: { allowedDomains: ['acme.com'] },
+      sso: {
+        enabled: true,
+        issuer: idp.issuer,
+        clientId: CLIENT_ID,
+        clientSecret: CLIENT_SECRET,
+        scopes: ['openid', 'email', 'profile'],
+        roleClaim: 'groups',
+        roleMappings: [{ claimValue: 'talent-team', role: 'RECRUITER' }],
+        defaultRole: 'CANDIDATE',
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [JwtModule.register({ secret: 'test-secret' })],
+      providers: [
+        OidcService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        {
+          provide: getModelToken(Organization.name),
+          useValue: organizationModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) =>
+              key === 'OIDC_REDIRECT_URI' ? REDIRECT_URI : undefined,
+          },
+        },
+        { provide: REDIS_CLIENT, useValue: new FakeRedis() },
+      ],
+    }).compile();
+
+    service = module.get<OidcService>(OidcService);
+  });
+
+  const signIn = async (claims: Record<string, any>) => {
+    const { authorizationUrl } = await service.createAuthorizationRequest(
+      organization._id.toString(),
+    );
+    const { code, state } = idp.authorize(authorizationUrl, claims);
+    return service.completeAuthorization(code, state);
+  };
+
+  it('should build a PKCE authorization request for the organization IdP', async () => {
+    const { authorizationUrl, state } =
+      await service.createAuthorizationRequest(undefined, 'jane@acme.com');
+    const params = new URL(authorizationUrl).searchParams;
+
+    expect(authorizationUrl.startsWith(`${idp.issuer}/authorize?`)).toBe(true);
+    expect(params.get('client_id')).toBe(CLIENT_ID);
+    expect(params.get('redirect_uri')).toBe(REDIRECT_URI);
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('code_challenge')).toBeTruthy();
+    expect(params.get('state')).toBe(state);
+    expect(params.get('login_hint')).toBe('jane@acme.com');
+  });
+
+  it('should provision a new employee into the organization on first sign-in', async () => {
+    const user: any = await signIn({
+      sub: 'idp-user-1',
+      email: 'Jane@acme.com',
+      email_verified: true,
+      name: 'Jane Doe',
+    });
+
+    expect(userModel.create).toHaveBeenCalledTimes(1);
+    expect(user.email).toBe('jane@acme.com');
+    expect(user.role).toBe('CANDIDATE');
+    expect(user.candidateType).toBe('EMPLOYEE');
+    expect(user.organizationIds).toEqual([organization._id]);
+    expect(user.ssoSubject).toBe('idp-user-1');
+    expect(user.ssoIssuer).toBe(idp.issuer);
+  });
+
+  it('should map IdP group claims to roles', async () => {
+    const user: any = await signIn({
+      sub: 'idp-user-2',
+      email: 'rick@acme.com',
+      groups: ['everyone', 'talent-team'],
+    });
+
+    expect(user.role).toBe('RECRUITER');
+    expect(user.candidateType).toBeUndefined();
+  });
+
+  it('should link an existing member of the organization', async () => {
+    const existing: any = {
+      _id: new Types.ObjectId(),
+      email: 'sam@acme.com',
+      role: 'CANDIDATE',
+      isActive: true,
+      organizationIds: [organization._id],
+      save: jest.fn(),
+    };
+    users.push(existing);
+
+    const user: any = await signIn({
+      sub: 'idp-user-3',
+      email: 'sam@acme.com',
+    });
+
+    expect(userModel.create).not.toHaveBeenCalled();
+    expect(user).toBe(existing);
+    expect(existing.organizationIds).toEqual([organization._id]);
+    expect(existing.ssoSubject).toBe('idp-user-3');
+    expect(existing.save).toHaveBeenCalled();
+  });
+
+  it('should not take over an account of another organization', async () => {
+    const victim: any = {
+      _id: new Types.ObjectId(),
+      email: 'ceo@acme.com',
+      role: 'ORG_ADMIN',
+      isActive: true,
+      organizationIds: [new Types.ObjectId()],
+      save: jest.fn(),
+    };
+    users.push(victim);
+
+    await expect(
+      signIn({
+        sub: 'attacker',
+        email: 'ceo@acme.com',
+        email_verified: true,
+        groups: ['talent-team'],
+      }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(victim.organizationIds).toHaveLength(1);
+    expect(victim.ssoSubject).toBeUndefined();
+    expect(victim.role).toBe('ORG_ADMIN');
+    expect(victim.save).not.toHaveBeenCalled();
+  });
+
+  it('should not relink an account that already has an SSO identity', async () => {
+    const linked: any = {
+      _id: new Types.ObjectId(),
+      email: 'lee@acme.com',
+      role: 'RECRUITER',
+      isActive: true,
+      organizationIds: [organization._id],
+      ssoIssuer: 'https://other-idp.example.com',
+      ssoSubject: 'lee',
+      save: jest.fn(),
+    };
+    users.push(linked);
+
+    await expect(
+      signIn({ sub: 'idp-user-6', email: 'lee@acme.com' }),
+    ).rejects.toThrow(UnauthorizedException);
+    expect(linked.save).not.toHaveBeenCalled();
+  });
+
+  it('should not change the role of an account shared with other organizations', async () => {
+    const shared: any = {
+      _id: new Types.ObjectId(),
+      email: 'kim@acme.com',
+      role: 'ORG_ADMIN',
+      isActive: true,
+      organizationIds: [organization._id, new Types.ObjectId()],
+      save: jest.fn(),
+    };
+    users.push(shared);
+
+    const user: any = await signIn({
+      sub: 'idp-user-7',
+      email: 'kim@acme.com',
+    });
+    // Linked now: a second sign-in goes through the SSO identity
+    await signIn({ sub: 'idp-user-7', email: 'kim@acme.com' });
+
+    expect(user).toBe(shared);
+    expect(shared.role).toBe('ORG_ADMIN');
+  });
+
+  it('should refuse to contact an issuer on a loopback address', async () => {
+    jest.restoreAllMocks();
+
+    await expect(
+      service.createAuthorizationRequest(organization._id.toString()),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject emails outside the allowed domains', async () => {
+    await expect(
+      signIn({ sub: 'idp-user-4', email: 'mallory@evil.com' }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(userModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should only redeem a state once', async () => {
+    const { authorizationUrl } = await service.createAuthorizationRequest(
+      organization._id.toString(),
+    );
+    const claims = { sub: 'idp-user-5', email: 'ann@acme.com' };
+    const first = idp.authorize(authorizationUrl, claims);
+    const replay = idp.authorize(authorizationUrl, claims);
+
+    await service.completeAuthorization(first.code, first.state);
+
+    await expect(
+      service.completeAuthorization(replay.code, replay.state),
+    ).rejects.toThrow('Invalid or expired SSO state');
+  });
+
+  it('should fail when the IdP rejects the PKCE verifier', async () => {
+    const { authorizationUrl } = await service.createAuthorizationRequest(
+      organization._id.toString(),
+    );
+    // Code issued for a different authorization request (different challenge)
+    const { state } = idp.authorize(authorizationUrl, {});
+    const { authorizationUrl: otherUrl } =
+      await service.createAuthorizationRequest(organization._id.toString());
+    const { code } = idp.authorize(otherUrl, {
+      sub: 'idp-user-6',
+      email: 'eve@acme.com',
+    });
+
+    await expect(service.completeAuthorization(code, state)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+});
@@ -0,0 +1,592 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import Redis from 'ioredis';
+import * as bcrypt from 'bcrypt';
+import { createHash, createPublicKey } from 'crypto';
+import { User, UserRole } from '../../users/schemas/user.schema';
+import { Organization } from '../../organizations/schemas/organization.schema';
+import { SecureTokenUtil } from '../../../common/utils/secure-token.util';
+import { OutboundUrlUtil } from '../../../common/utils/outbound-url.util';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+
+const AUTH_REQUEST_TTL_SECONDS = 10 * 60;
+const METADATA_CACHE_MS = 60 * 60 * 1000;
+
+// Roles an IdP claim may grant; SUPER_ADMIN is never provisioned via SSO
+const SSO_ASSIGNABLE_ROLES: string[] = [
+  UserRole.ORG_ADMIN,
+  UserRole.RECRUITER,
+  UserRole.CANDIDATE,
+];
+
+interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface PendingAuthorization {
+  organizationId: string;
+  codeVerifier: string;
+  nonce: string;
+}
+
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  [claim: string]: any;
+}
+
+/**
+ * OpenID Connect single sign-on (authorization code + PKCE) configured per
+ * organization, with just-in-time user provisioning.
+ *
+ * Redis keys:
+ * - auth:oidc-state:<state> -> pending authorization (org, PKCE verifier, nonce)
+ */
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+  private readonly metadataCache = new Map<
+    string,
+    { metadata: OidcProviderMetadata; expiresAt: number }
+  >();
+  private readonly jwksCache = new Map<
+    string,
+    { keys: any[]; expiresAt: number }
+  >();
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(Organization.name)
+    private organizationModel: Model<Organization>,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+    @Inject(REDIS_CLIENT) private redis: Redis,
+  ) {}
+
+  /**
+   * Resolve the organization (by id, or by the email's domain) and build the
+   * IdP authorization URL. The PKCE verifier and nonce stay server-side.
+   */
+  async createAuthorizationRequest(organizationId?: string, email?: string) {
+    const organization = await this.resolveOrganization(organizationId, email);
+    const sso = organization.sso;
+    const metadata = await this.getProviderMetadata(sso.issuer);
+
+    const state = SecureTokenUtil.generate(16);
+    const nonce = SecureTokenUtil.generate(16);
+    const codeVerifier = Buffer.from(
+      SecureTokenUtil.generate(32),
+      'hex',
+    ).toString('base64url');
+    const codeChallenge = createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64url');
+
+    const pending: PendingAuthorization = {
+      organizationId: organization._id.toString(),
+      codeVerifier,
+      nonce,
+    };
+    await this.redis.set(
+      this.stateKey(state),
+      JSON.stringify(pending),
+      'EX',
+      AUTH_REQUEST_TTL_SECONDS,
+    );
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: sso.clientId,
+      redirect_uri: this.getRedirectUri(),
+      scope: (sso.scopes?.length
+        ? sso.scopes
+        : ['openid', 'email', 'profile']
+      ).join(' '),
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    });
+    if (email) {
+      params.set('login_hint', email);
+    }
+
+    return {
+      authorizationUrl: `${metadata.authorization_endpoint}?${params.toString()}`,
+      state,
+      organizationId: pending.organizationId,
+    };
+  }
+
+  /**
+   * Exchange the authorization code, validate the ID token and return the
+   * (possibly newly provisioned) local user.
+   */
+  async completeAuthorization(code: string, state: string): Promise<User> {
+    const pending = await this.consumeState(state);
+
+    const organization = await this.loadSsoOrganization(pending.organizationId);
+    const sso = organization.sso;
+    const metadata = await this.getProviderMetadata(sso.issuer);
+
+    const tokenResponse = await this.exchangeCode(
+      metadata,
+      sso.clientId,
+      sso.clientSecret,
+      code,
+      pending.codeVerifier,
+    );
+
+    const claims = await this.verifyIdToken(
+      tokenResponse.id_token,
+      metadata,
+      sso.clientId,
+    );
+
+    if (claims.nonce !== pending.nonce) {
+      throw new UnauthorizedException('ID token nonce mismatch');
+    }
+
+    return this.provisionUser(organization, claims);
+  }
+
+  /**
+   * Find or create the local account for the IdP identity and keep its
+   * organization membership and role in sync with the IdP.
+   */
+  async provisionUser(
+    organization: Organization & { _id: Types.ObjectId },
+    claims: OidcClaims,
+  ): Promise<User> {
+    const email = claims.email?.toLowerCase().trim();
+
+    if (!email) {
+      throw new UnauthorizedException(
+        'Identity provider did not return an email address',
+      );
+    }
+
+    if (claims.email_verified === false) {
+      throw new UnauthorizedException(
+        'Email address is not verified by the identity provider',
+      );
+    }
+
+    this.assertAllowedDomain(organization, email);
+
+    const role = this.mapRole(organization, claims);
+    const organizationId = organization._id;
+
+    let user = await this.userModel
+      .findOne({ ssoIssuer: claims.iss, ssoSubject: claims.sub })
+      .exec();
+
+    if (!user) {
+      user = await this.userModel.findOne({ email }).exec();
+
+      // An IdP may only claim accounts of its own organization that are not
+      // linked to an SSO identity yet; anything else would let one tenant's
+      // IdP sign in as another tenant's user
+      if (user && user.ssoSubject) {
+        throw new UnauthorizedException(
+          'This account is linked to a different SSO identity',
+        );
+      }
+    }
+
+    if (user && !this.isMember(user, organizationId)) {
+      throw new ForbiddenException(
+        'An account with this email belongs to another organization',
+      );
+    }
+
+    if (!user) {
+      const randomPassword = await bcrypt.hash(
+        SecureTokenUtil.generate(32),
+        10,
+      );
+
+      user = await this.userModel.create({
+        name: this.buildName(claims, email),
+        email,
+        password: randomPassword, // SSO users never sign in with a password
+        role,
+        organizationIds: [organizationId],
+        ...(role === UserRole.CANDIDATE && { candidateType: 'EMPLOYEE' }),
+        emailVerified: true,
+        ssoIssuer: claims.iss,
+        ssoSubject: claims.sub,
+        lastLogin: new Date(),
+      });
+
+      this.logger.log(
+        `Provisioned ${role} ${email} into organization ${organizationId} via SSO`,
+      );
+      return user;
+    }
+
+    if (!user.isActive) {
+      throw new UnauthorizedException('Account is deactivated');
+    }
+
+    if (user.role === UserRole.SUPER_ADMIN) {
+      throw new ForbiddenException(
+        'Super admin accounts cannot sign in through organization SSO',
+      );
+    }
+
+    if (user.ssoIssuer === claims.iss && user.ssoSubject !== claims.sub) {
+      throw new UnauthorizedException(
+        'This account is linked to a different SSO identity',
+      );
+    }
+
+    // The IdP is the source of truth for roles of SSO-managed accounts, as
+    // long as the account belongs to no other organization
+    const singleOrganization = user.organizationIds.length === 1;
+    if (user.ssoSubject && singleOrganization && user.role !== role) {
+      this.logger.log(`SSO role change for ${email}: ${user.role} -> ${role}`);
+      user.role = role;
+    }
+
+    if (user.role === UserRole.CANDIDATE && !user.candidateType) {
+      user.candidateType = 'EMPLOYEE';
+    }
+
+    user.ssoIssuer = claims.iss;
+    user.ssoSubject = claims.sub;
+    user.emailVerified = true;
+    user.lastLogin = new Date();
+    await user.save();
+
+    return user;
+  }
+
+  private isMember(user: User, organizationId: Types.ObjectId): boolean {
+    return (user.organizationIds || []).some(
+      (id) => id.toString() === organizationId.toString(),
+    );
+  }
+
+  private async resolveOrganization(organizationId?: string, email?: string) {
+    if (organizationId) {
+      return this.loadSsoOrganization(organizationId);
+    }
+
+    const domain = email?.split('@')[1]?.toLowerCase();
+    if (!domain) {
+      throw new BadRequestException('Provide an organization or work email');
+    }
+
+    const organization = await this.organizationModel
+      .findOne({ 'sso.enabled': true, 'features.allowedDomains': domain })
+      .select('_id')
+      .exec();
+
+    if (!organization) {
+      throw new NotFoundException(
+        'Single sign-on is not configured for this email domain',
+      );
+    }
+
+    return this.loadSsoOrganization(organization._id.toString());
+  }
+
+  private async loadSsoOrganization(organizationId: string) {
+    if (!Types.ObjectId.isValid(organizationId)) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const organization = await this.organizationModel
+      .findById(organizationId)
+      .select('name status features sso') // Selecting sso whole includes clientSecret
+      .exec();
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const sso = organization.sso;
+    if (!sso?.enabled || !sso.issuer || !sso.clientId || !sso.clientSecret) {
+      throw new BadRequestException(
+        'Single sign-on is not enabled for this organization',
+      );
+    }
+
+    return organization as Organization & { _id: Types.ObjectId };
+  }
+
+  private async consumeState(state: string): Promise<PendingAuthorization> {
+    // Read and delete together so a state can only be redeemed once
+    const [[, raw]] = (await this.redis
+      .multi()
+      .get(this.stateKey(state))
+      .del(this.stateKey(state))
+      .exec()) as [Error | null, string | null][];
+
+    if (!raw) {
+      throw new UnauthorizedException('Invalid or expired SSO state');
+    }
+
+    return JSON.parse(raw);
+  }
+
+  private async exchangeCode(
+    metadata: OidcProviderMetadata,
+    clientId: string,
+    clientSecret: string,
+    code: string,
+    codeVerifier: string,
+  ): Promise<{ id_token: string; access_token?: string }> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.getRedirectUri(),
+      client_id: clientId,
+      client_secret: clientSecret,
+      code_verifier: codeVerifier,
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(metadata.token_endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json',
+        },
+        body: body.toString(),
+      });
+    } catch (error) {
+      this.logger.error(`OIDC token request failed: ${error.message}`);
+      throw new UnauthorizedException('Identity provider is unreachable');
+    }
+
+    const payload = await response.json().catch(() => ({}));
+
+    if (!response.ok || !payload.id_token) {
+      this.logger.warn(
+        `OIDC code exchange rejected: ${payload.error || response.status}`,
+      );
+      throw new UnauthorizedException('SSO authorization code was rejected');
+    }
+
+    return payload;
+  }
+
+  private async verifyIdToken(
+    idToken: string,
+    metadata: OidcProviderMetadata,
+    clientId: string,
+  ): Promise<OidcClaims> {
+    const decoded = this.jwtService.decode(idToken, { complete: true }) as {
+      header: { kid?: string; alg?: string };
+    } | null;
+
+    if (!decoded?.header || decoded.header.alg !== 'RS256') {
+      throw new UnauthorizedException('Unsupported ID token');
+    }
+
+    const jwk = await this.findSigningKey(
+      metadata.jwks_uri,
+      decoded.header.kid,
+    );
+    const publicKey = createPublicKey({ key: jwk, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+
+    try {
+      return this.jwtService.verify<OidcClaims>(idToken, {
+        secret: publicKey, // Overrides the app's own JWT secret
+        algorithms: ['RS256'],
+        issuer: metadata.issuer,
+        audience: clientId,
+      });
+    } catch (error) {
+      throw new UnauthorizedException(`Invalid ID token: ${error.message}`);
+    }
+  }
+
+  private async findSigningKey(jwksUri: string, kid?: string) {
+    const pick = (keys: any[]) =>
+      keys.find(
+        (key) =>
+          key.kty === 'RSA' && (!kid || key.kid === kid) && key.use !== 'enc',
+      );
+
+    let key = pick(await this.getJwks(jwksUri));
+    if (!key) {
+      // The IdP may have rotated its keys since we cached them
+      key = pick(await this.getJwks(jwksUri, true));
+    }
+
+    if (!key) {
+      throw new UnauthorizedException('ID token signing key not found');
+    }
+
+    return key;
+  }
+
+  private async getProviderMetadata(
+    issuer: string,
+  ): Promise<OidcProviderMetadata> {
+    const cached = this.metadataCache.get(issuer);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.metadata;
+    }
+
+    const url = `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+    const metadata = await this.fetchJson<OidcProviderMetadata>(url);
+    await Promise.all(
+      [metadata.token_endpoint, metadata.jwks_uri]
+        .filter(Boolean)
+        .map((endpoint) => this.assertPublicUrl(endpoint)),
+    );
+
+    if (
+      !metadata.authorization_endpoint ||
+      !metadata.token_endpoint ||
+      !metadata.jwks_uri
+    ) {
+      throw new BadRequestException(
+        'Invalid OpenID Connect discovery document',
+      );
+    }
+
+    this.metadataCache.set(issuer, {
+      metadata,
+      expiresAt: Date.now() + METADATA_CACHE_MS,
+    });
+    return metadata;
+  }
+
+  private async getJwks(jwksUri: string, refresh = false): Promise<any[]> {
+    const cached = this.jwksCache.get(jwksUri);
+    if (!refresh && cached && cached.expiresAt > Date.now()) {
+      return cached.keys;
+    }
+
+    const { keys = [] } = await this.fetchJson<{ keys: any[] }>(jwksUri);
+    this.jwksCache.set(jwksUri, {
+      keys,
+      expiresAt: Date.now() + METADATA_CACHE_MS,
+    });
+    return keys;
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    await this.assertPublicUrl(url);
+
+    try {
+      const response = await fetch(url, {
+        headers: { Accept: 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return (await response.json()) as T;
+    } catch (error) {
+      this.logger.error(
+        `OIDC metadata request to ${url} failed: ${error.message}`,
+      );
+      throw new BadRequestException(
+        'Could not reach the identity provider for this organization',
+      );
+    }
+  }
+
+  /**
+   * Issuer URLs are tenant input: never let them reach internal services
+   */
+  private async assertPublicUrl(url: string): Promise<void> {
+    try {
+      await OutboundUrlUtil.assertPublicHttps(url);
+    } catch (error) {
+      this.logger.warn(`Refused OIDC request to ${url}: ${error.message}`);
+      throw new BadRequestException(
+        `Identity provider URL is not allowed: ${error.message}`,
+      );
+    }
+  }
+
+  private assertAllowedDomain(organization: Organization, email: string) {
+    const allowedDomains = (organization.features?.allowedDomains || []).map(
+      (domain) => domain.toLowerCase(),
+    );
+
+    // No restriction configured: the IdP alone decides who may sign in
+    if (allowedDomains.length === 0) {
+      return;
+    }
+
+    const domain = email.split('@')[1];
+    if (!allowedDomains.includes(domain)) {
+      throw new ForbiddenException(
+        `Email domain ${domain} is not allowed for this organization`,
+      );
+    }
+  }
+
+  private mapRole(organization: Organization, claims: OidcClaims): UserRole {
+    const sso = organization.sso;
+    const rawValue = claims[sso.roleClaim || 'groups'];
+    const values: string[] = Array.isArray(rawValue)
+      ? rawValue.map(String)
+      : rawValue !== undefined
+        ? [String(rawValue)]
+        : [];
+
+    const mapping = (sso.roleMappings || []).find(
+      (m) =>
+        values.includes(m.claimValue) && SSO_ASSIGNABLE_ROLES.includes(m.role),
+    );
+
+    if (mapping) {
+      return mapping.role as UserRole;
+    }
+
+    return SSO_ASSIGNABLE_ROLES.includes(sso.defaultRole)
+      ? (sso.defaultRole as UserRole)
+      : UserRole.CANDIDATE;
+  }
+
+  private buildName(claims: OidcClaims, email: string): string {
+    if (claims.name) {
+      return claims.name;
+    }
+    const parts = [claims.given_name, claims.family_name].filter(Boolean);
+    return parts.length > 0 ? parts.join(' ') : email.split('@')[0];
+  }
+
+  private getRedirectUri(): string {
+    return (
+      this.configService.get<string>('OIDC_REDIRECT_URI') ||
+      `${this.configService.get('FRONTEND_URL', 'http://localhost:3000')}/sso/callback`
+    );
+  }
+
+  private stateKey(state: string): string {
+    return `auth:oidc-state:${state}`;
+  }
+}
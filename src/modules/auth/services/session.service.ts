@@ -0,0 +1,178 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  UserSession,
+  SessionLoginMethod,
+  SessionRevokedReason,
+} from '../schemas/user-session.schema';
+
+/**
+ * Request details recorded against a session
+ */
+export interface ClientContext {
+  ipAddress?: string;
+  userAgent?: string;
+  loginMethod?: SessionLoginMethod;
+}
+
+/**
+ * Persistent record of signed-in devices, one per refresh token family.
+ * Token validity itself lives in Redis (TokenService); this collection is the
+ * user/admin facing view used to list and revoke sessions.
+ */
+@Injectable()
+export class SessionService {
+  private readonly logger = new Logger(SessionService.name);
+
+  constructor(
+    @InjectModel(UserSession.name)
+    private sessionModel: Model<UserSession>,
+  ) {}
+
+  /**
+   * Record a new login, or refresh last-seen details when the chain rotates
+   */
+  async recordActivity(
+    userId: string,
+    familyId: string,
+    expiresAt: Date,
+    context: ClientContext = {},
+  ): Promise<void> {
+    try {
+      await this.sessionModel.updateOne(
+        { familyId },
+        {
+          $set: {
+            lastSeenAt: new Date(),
+            expiresAt,
+            ...(context.ipAddress && { lastSeenIp: context.ipAddress }),
+          },
+          $setOnInsert: {
+            userId: new Types.ObjectId(userId),
+            loginMethod: context.loginMethod || SessionLoginMethod.PASSWORD,
+            userAgent: context.userAgent,
+            device: this.describeDevice(context.userAgent),
+            ipAddress: context.ipAddress,
+          },
+        },
+        { upsert: true },
+      );
+    } catch (error) {
+      // Session bookkeeping must never block a login
+      this.logger.error(
+        `Failed to record session ${familyId}: ${error.message}`,
+      );
+    }
+  }
+
+  async markRevoked(
+    familyId: string,
+    reason: SessionRevokedReason,
+    revokedBy?: string,
+  ): Promise<void> {
+    await this.sessionModel.updateOne(
+      { familyId, revokedAt: { $exists: false } },
+      {
+        $set: {
+          revokedAt: new Date(),
+          revokedReason: reason,
+          ...(revokedBy && { revokedBy: new Types.ObjectId(revokedBy) }),
+        },
+      },
+    );
+  }
+
+  async markAllRevoked(
+    userId: string,
+    reason: SessionRevokedReason,
+    revokedBy?: string,
+  ): Promise<void> {
+    await this.sessionModel.updateMany(
+      { userId: new Types.ObjectId(userId), revokedAt: { $exists: false } },
+      {
+        $set: {
+          revokedAt: new Date(),
+          revokedReason: reason,
+          ...(revokedBy && { revokedBy: new Types.ObjectId(revokedBy) }),
+        },
+      },
+    );
+  }
+
+  /**
+   * Sessions that can still be used (not revoked, not expired), newest first
+   */
+  async listActiveSessions(userId: string, currentFamilyId?: string) {
+    const sessions = await this.sessionModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      })
+      .sort({ lastSeenAt: -1 })
+      .lean()
+      .exec();
+
+    return sessions.map((session) => ({
+      id: session._id,
+      device: session.device,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      lastSeenIp: session.lastSeenIp,
+      loginMethod: session.loginMethod,
+      createdAt: (session as any).createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+      current: !!currentFamilyId && session.familyId === currentFamilyId,
+    }));
+  }
+
+  async findActiveSession(userId: string, sessionId: string) {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      return null;
+    }
+
+    return this.sessionModel
+      .findOne({
+        _id: sessionId,
+        userId: new Types.ObjectId(userId),
+        revokedAt: { $exists: false },
+      })
+      .exec();
+  }
+
+  /**
+   * Rough "Browser on OS" label; the raw user agent is kept alongside
+   */
+  private describeDevice(userAgent?: string): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    const browsers: Array<[RegExp, string]> = [
+      [/Edg\//, 'Edge'],
+      [/OPR\/|Opera/, 'Opera'],
+      [/Chrome\//, 'Chrome'],
+      [/Firefox\//, 'Firefox'],
+      [/Safari\//, 'Safari'],
+      [/PostmanRuntime/, 'Postman'],
+      [/curl\//, 'curl'],
+    ];
+    const systems: Array<[RegExp, string]> = [
+      [/Windows/, 'Windows'],
+      [/Android/, 'Android'],
+      [/iPhone|iPad|iOS/, 'iOS'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const os = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && os) {
+      return `${browser} on ${os}`;
+    }
+    return browser || os || 'Unknown device';
+  }
+}
@@ -0,0 +1,242 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtModule } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { TokenService } from './token.service';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+import { SessionService } from './session.service';
+import { SessionRevokedReason } from '../schemas/user-session.schema';
+
+/**
+ * Minimal in-memory stand-in for the ioredis commands TokenService uses
+ */
+class FakeRedis {
+  store = new Map<string, any>();
+
+  async get(key: string) {
+    return this.store.get(key) ?? null;
+  }
+
+  async set(key: string, value: string) {
+    this.store.set(key, value);
+    return 'OK';
+  }
+
+  async exists(key: string) {
+    return this.store.has(key) ? 1 : 0;
+  }
+
+  async smembers(key: string) {
+    return Array.from(this.store.get(key) || []);
+  }
+
+  multi() {
+    const ops: Array<() => void> = [];
+    const chain = {
+      set: (key: string, value: string) => {
+        ops.push(() => this.store.set(key, value));
+        return chain;
+      },
+      del: (key: string) => {
+        ops.push(() => this.store.delete(key));
+        return chain;
+      },
+      sadd: (key: string, member: string) => {
+        ops.push(() => {
+          const set = this.store.get(key) || new Set<string>();
+          set.add(member);
+          this.store.set(key, set);
+        });
+        return chain;
+      },
+      srem: (key: string, member: string) => {
+        ops.push(() => this.store.get(key)?.delete(member));
+        return chain;
+      },
+      expire: () => chain,
+      exec: async () => ops.forEach((op) => op()),
+    };
+    return chain;
+  }
+}
+
+describe('TokenService', () => {
+  let service: TokenService;
+  let redis: FakeRedis;
+  let sessionService: Record<string, jest.Mock>;
+
+  const user: any = {
+    _id: new Types.ObjectId(),
+    email: 'candidate@example.com',
+    role: 'CANDIDATE',
+    organizationIds: [],
+  };
+
+  beforeEach(async () => {
+    redis = new FakeRedis();
+    sessionService = {
+      recordActivity: jest.fn(),
+      markRevoked: jest.fn(),
+      markAllRevoked: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [
+        JwtModule.register({
+          secret: 'test-secret',
+          signOptions: { expiresIn: '15m' },
+        }),
+      ],
+      providers: [
+        TokenService,
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        { provide: REDIS_CLIENT, useValue: redis },
+        { provide: SessionService, useValue: sessionService },
+      ],
+    }).compile();
+
+    service = module.get<TokenService>(TokenService);
+  });
+
+  it('should rotate a refresh token within the same family', async () => {
+    const first = await service.issueTokenPair(user);
+    const payload = await service.consumeRefreshToken(first.refreshToken);
+
+    const second = await service.issueTokenPair(user, payload.familyId);
+    const rotated = await service.consumeRefreshToken(second.refreshToken);
+
+    expect(rotated.familyId).toBe(payload.familyId);
+    expect(rotated.jti).not.toBe(payload.jti);
+  });
+
+  it('should revoke the family when a superseded refresh token is replayed', async () => {
+    const first = await service.issueTokenPair(user);
+    const payload = await service.consumeRefreshToken(first.refreshToken);
+    const second = await service.issueTokenPair(user, payload.familyId);
+
+    await expect(
+      service.consumeRefreshToken(first.refreshToken),
+    ).rejects.toThrow('Refresh token reuse detected');
+
+    // The legitimate holder is signed out as well
+    await expect(
+      service.consumeRefreshToken(second.refreshToken),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should reject an access token presented as a refresh token', async () => {
+    const { accessToken } = await service.issueTokenPair(user);
+
+    await expect(service.consumeRefreshToken(accessToken)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should invalidate the refresh chain and access token on logout', async () => {
+    const { accessToken, refreshToken } = await service.issueTokenPair(user);
+
+    await service.revokeRefreshToken(refreshToken);
+    await service.revokeAccessToken(accessToken);
+
+    await expect(service.consumeRefreshToken(refreshToken)).rejects.toThrow(
+      'Refresh token has been revoked',
+    );
+    const accessPayload = JSON.parse(
+      Buffer.from(accessToken.split('.')[1], 'base64').toString(),
+    );
+    expect(await service.isAccessTokenRevoked(accessPayload)).toBe(true);
+  });
+
+  it('should revoke every family for a user', async () => {
+    const laptop = await service.issueTokenPair(user);
+    const phone = await service.issueTokenPair(user);
+
+    await service.revokeAllUserTokens(user._id.toString());
+
+    await expect(
+      service.consumeRefreshToken(laptop.refreshToken),
+    ).rejects.toThrow(UnauthorizedException);
+    await expect(
+      service.consumeRefreshToken(phone.refreshToken),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  describe('revoking all tokens within one second', () => {
+    const second = 1767261600000;
+    const decode = (token: string) =>
+      JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    const at = (ms: number) => jest.spyOn(Date, 'now').mockReturnValue(ms);
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should reject tokens issued earlier in the same second', async () => {
+      at(second + 100);
+      const { accessToken, refreshToken } = await service.issueTokenPair(user);
+
+      at(second + 600);
+      await service.revokeAllUserTokens(user._id.toString());
+
+      expect(await service.isAccessTokenRevoked(decode(accessToken))).toBe(
+        true,
+      );
+      await expect(service.consumeRefreshToken(refreshToken)).rejects.toThrow(
+        'Refresh token has been revoked',
+      );
+    });
+
+    it('should keep tokens issued later in the same second', async () => {
+      at(second + 100);
+      await service.revokeAllUserTokens(user._id.toString());
+
+      at(second + 600);
+      const { accessToken, refreshToken } = await service.issueTokenPair(user);
+
+      expect(await service.isAccessTokenRevoked(decode(accessToken))).toBe(
+        false,
+      );
+      await expect(
+        service.consumeRefreshToken(refreshToken),
+      ).resolves.toBeDefined();
+    });
+
+    it('should reject tokens without iatMs issued in that second', async () => {
+      at(second + 600);
+      await service.revokeAllUserTokens(user._id.toString());
+
+      expect(
+        await service.isAccessTokenRevoked({
+          sub: user._id.toString(),
+          iat: second / 1000,
+        }),
+      ).toBe(true);
+    });
+  });
+
+  it('should reject access tokens of a revoked session', async () => {
+    const { accessToken, refreshToken } = await service.issueTokenPair(user);
+    const { familyId } = await service.consumeRefreshToken(refreshToken);
+
+    await service.revokeSession(
+      user._id.toString(),
+      familyId,
+      SessionRevokedReason.USER_REVOKED,
+    );
+
+    const accessPayload = JSON.parse(
+      Buffer.from(accessToken.split('.')[1], 'base64').toString(),
+    );
+    expect(accessPayload.sid).toBe(familyId);
+    expect(await service.isAccessTokenRevoked(accessPayload)).toBe(true);
+    await expect(service.consumeRefreshToken(refreshToken)).rejects.toThrow(
+      'Refresh token has been revoked',
+    );
+    expect(sessionService.markRevoked).toHaveBeenCalledWith(
+      familyId,
+      SessionRevokedReason.USER_REVOKED,
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,397 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import Redis from 'ioredis';
+import { User } from '../../users/schemas/user.schema';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+import { SessionRevokedReason } from '../schemas/user-session.schema';
+import { ClientContext, SessionService } from './session.service';
+
+// Must outlive any access or refresh token we issue
+const REVOCATION_MARKER_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Must outlive any access token we issue (JWT_EXPIRE)
+const REVOKED_SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+export interface RefreshTokenPayload {
+  type: 'REFRESH';
+  sub: string;
+  jti: string;
+  familyId: string;
+  iatMs?: number;
+  iat?: number;
+  exp?: number;
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * Issues access/refresh token pairs and keeps the Redis allow/deny lists
+ * that make logout, password changes and deactivation effective immediately.
+ *
+ * Redis keys:
+ * - auth:refresh-family:<familyId>  -> jti of the only refresh token still valid in the family
+ * - auth:user-families:<userId>     -> set of live family ids for a user
+ * - auth:denied-access:<jti>        -> access token revoked before its expiry
+ * - auth:revoked-before:<userId>    -> unix time (ms); tokens issued up to then are rejected
+ * - auth:revoked-session:<familyId> -> access tokens of a revoked session are rejected
+ */
+@Injectable()
+export class TokenService {
+  private readonly logger = new Logger(TokenService.name);
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly sessionService: SessionService,
+  ) {}
+
+  /**
+   * Build the access token claims for a user
+   */
+  buildAccessPayload(user: User) {
+    // For multi-org support: use first organization as default, or null if none
+    const defaultOrgId =
+      user.organizationIds && user.organizationIds.length > 0
+        ? user.organizationIds[0]
+        : null;
+
+    return {
+      sub: user._id,
+      userId: user._id,
+      email: user.email,
+      role: user.role,
+      organizationId: defaultOrgId, // Default org for backward compatibility
+      organizationIds: user.organizationIds, // Full list of orgs
+      // JWT iat only has second precision, too coarse to order against a revocation
+      iatMs: Date.now(),
+    };
+  }
+
+  /**
+   * User details returned alongside tokens by login and refresh
+   */
+  buildUserInfo(user: User) {
+    return {
+      id: user._id,
+      fullName: user.name,
+      email: user.email,
+      role: user.role,
+      candidateId: user.candidateId,
+      organizationId: user.organizationIds?.[0]?.toString(), // Default org
+      organizationIds: user.organizationIds.map((id) => id.toString()), // All orgs
+    };
+  }
+
+  /**
+   * Issue a new access/refresh pair. Passing a familyId continues an existing
+   * refresh chain (rotation); omitting it starts a new chain (login).
+   * Each chain is recorded as a session (device) for the user.
+   */
+  async issueTokenPair(
+    user: User,
+    familyId?: string,
+    context?: ClientContext,
+  ): Promise<TokenPair> {
+    const userId = user._id.toString();
+    const family = familyId || uuidv4();
+    const refreshJti = uuidv4();
+
+    const accessToken = this.jwtService.sign(
+      { ...this.buildAccessPayload(user), sid: family },
+      { jwtid: uuidv4() },
+    );
+
+    const refreshPayload: RefreshTokenPayload = {
+      type: 'REFRESH',
+      sub: userId,
+      jti: refreshJti,
+      familyId: family,
+      iatMs: Date.now(),
+    };
+    const refreshToken = this.jwtService.sign(refreshPayload, {
+      secret: this.getRefreshSecret(),
+      expiresIn: this.configService.get<string>('JWT_REFRESH_EXPIRE') || '7d',
+    });
+
+    const ttl = this.secondsUntilExpiry(this.jwtService.decode(refreshToken));
+
+    await this.redis
+      .multi()
+      .set(this.familyKey(family), refreshJti, 'EX', ttl)
+      .sadd(this.userFamiliesKey(userId), family)
+      .expire(this.userFamiliesKey(userId), ttl)
+      .exec();
+
+    await this.sessionService.recordActivity(
+      userId,
+      family,
+      new Date(Date.now() + ttl * 1000),
+      context,
+    );
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Short-lived access token that lets a super admin act as another user.
+   * No refresh token is issued; the sid makes the token revocable on its own
+   * (see revokeSession) without touching the user's real sessions.
+   */
+  issueImpersonationToken(
+    user: User,
+    impersonatorId: string,
+    expiresInSeconds: number,
+  ) {
+    const impersonationId = uuidv4();
+
+    const accessToken = this.jwtService.sign(
+      {
+        ...this.buildAccessPayload(user),
+        sid: impersonationId,
+        impersonatedBy: impersonatorId,
+      },
+      { jwtid: uuidv4(), expiresIn: expiresInSeconds },
+    );
+
+    return {
+      accessToken,
+      impersonationId,
+      expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+    };
+  }
+
+  /**
+   * Verify a presented refresh token against the allow list.
+   * A valid signature with a superseded jti means the token was replayed,
+   * so the whole family is revoked.
+   */
+  async consumeRefreshToken(
+    refreshToken: string,
+  ): Promise<RefreshTokenPayload> {
+    let payload: RefreshTokenPayload;
+    try {
+      payload = this.jwtService.verify<RefreshTokenPayload>(refreshToken, {
+        secret: this.getRefreshSecret(),
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+
+    if (payload.type !== 'REFRESH' || !payload.familyId || !payload.jti) {
+      throw new UnauthorizedException('Invalid token type');
+    }
+
+    if (await this.isIssuedBeforeRevocation(payload.sub, payload)) {
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    const currentJti = await this.redis.get(this.familyKey(payload.familyId));
+
+    if (!currentJti) {
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    if (currentJti !== payload.jti) {
+      this.logger.warn(
+        `Refresh token reuse detected for user ${payload.sub} (family ${payload.familyId}). Revoking family.`,
+      );
+      await this.revokeFamily(
+        payload.sub,
+        payload.familyId,
+        SessionRevokedReason.TOKEN_REUSE,
+      );
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Revoke the refresh chain a token belongs to (logout).
+   * Invalid or expired tokens are ignored.
+   */
+  async revokeRefreshToken(refreshToken: string): Promise<void> {
+    try {
+      const payload = this.jwtService.verify<RefreshTokenPayload>(
+        refreshToken,
+        { secret: this.getRefreshSecret() },
+      );
+      if (payload.type === 'REFRESH' && payload.familyId) {
+        await this.revokeFamily(
+          payload.sub,
+          payload.familyId,
+          SessionRevokedReason.LOGOUT,
+        );
+      }
+    } catch {
+      // Nothing to revoke
+    }
+  }
+
+  /**
+   * Deny-list a single access token until it expires naturally.
+   * Invalid or expired tokens are ignored.
+   */
+  async revokeAccessToken(accessToken: string): Promise<void> {
+    try {
+      const payload = this.jwtService.verify(accessToken);
+      if (!payload.jti) {
+        return;
+      }
+      const ttl = this.secondsUntilExpiry(payload);
+      if (ttl > 0) {
+        await this.redis.set(this.deniedAccessKey(payload.jti), '1', 'EX', ttl);
+      }
+    } catch {
+      // Nothing to revoke
+    }
+  }
+
+  /**
+   * Sign a single session out: its refresh chain and access tokens stop
+   * working immediately.
+   */
+  async revokeSession(
+    userId: string,
+    familyId: string,
+    reason: SessionRevokedReason,
+    revokedBy?: string,
+  ): Promise<void> {
+    await this.revokeFamily(userId, familyId, reason, revokedBy);
+  }
+
+  /**
+   * Invalidate every outstanding token for a user
+   * (password change, deactivation, incident response).
+   */
+  async revokeAllUserTokens(userId: string, revokedBy?: string): Promise<void> {
+    const familiesKey = this.userFamiliesKey(userId);
+    const families = await this.redis.smembers(familiesKey);
+
+    const pipeline = this.redis.multi();
+    families.forEach((family) => pipeline.del(this.familyKey(family)));
+    pipeline.del(familiesKey);
+    pipeline.set(
+      this.revokedBeforeKey(userId),
+      Date.now().toString(),
+      'EX',
+      REVOCATION_MARKER_TTL_SECONDS,
+    );
+    await pipeline.exec();
+
+    await this.sessionService.markAllRevoked(
+      userId,
+      SessionRevokedReason.ALL_SESSIONS_REVOKED,
+      revokedBy,
+    );
+
+    this.logger.log(`Revoked all tokens for user ${userId}`);
+  }
+
+  /**
+   * Check an already-verified access token payload against the deny lists
+   */
+  async isAccessTokenRevoked(payload: any): Promise<boolean> {
+    if (payload.jti) {
+      const denied = await this.redis.exists(this.deniedAccessKey(payload.jti));
+      if (denied) {
+        return true;
+      }
+    }
+
+    if (payload.sid) {
+      const sessionRevoked = await this.redis.exists(
+        this.revokedSessionKey(payload.sid),
+      );
+      if (sessionRevoked) {
+        return true;
+      }
+    }
+
+    const userId = (payload.sub || payload.userId)?.toString();
+    return this.isIssuedBeforeRevocation(userId, payload);
+  }
+
+  private async revokeFamily(
+    userId: string,
+    familyId: string,
+    reason: SessionRevokedReason,
+    revokedBy?: string,
+  ): Promise<void> {
+    await this.redis
+      .multi()
+      .del(this.familyKey(familyId))
+      .srem(this.userFamiliesKey(userId), familyId)
+      .set(
+        this.revokedSessionKey(familyId),
+        '1',
+        'EX',
+        REVOKED_SESSION_TTL_SECONDS,
+      )
+      .exec();
+
+    await this.sessionService.markRevoked(familyId, reason, revokedBy);
+  }
+
+  /**
+   * A token issued in the same millisecond as a revocation counts as revoked.
+   * Tokens without iatMs fall back to their second-precision iat.
+   */
+  private async isIssuedBeforeRevocation(
+    userId: string,
+    payload: { iat?: number; iatMs?: number },
+  ): Promise<boolean> {
+    const issuedAtMs = payload.iatMs ?? (payload.iat ? payload.iat * 1000 : 0);
+    if (!userId || !issuedAtMs) {
+      return false;
+    }
+    const revokedBefore = await this.redis.get(this.revokedBeforeKey(userId));
+    return !!revokedBefore && issuedAtMs <= parseInt(revokedBefore, 10);
+  }
+
+  private getRefreshSecret(): string {
+    return (
+      this.configService.get<string>('JWT_REFRESH_SECRET') ||
+      this.configService.get<string>('JWT_SECRET') ||
+      'default-secret'
+    );
+  }
+
+  private secondsUntilExpiry(payload: any): number {
+    if (!payload?.exp) {
+      return 0;
+    }
+    return Math.max(1, payload.exp - Math.floor(Date.now() / 1000));
+  }
+
+  private familyKey(familyId: string): string {
+    return `auth:refresh-family:${familyId}`;
+  }
+
+  private userFamiliesKey(userId: string): string {
+    return `auth:user-families:${userId}`;
+  }
+
+  private deniedAccessKey(jti: string): string {
+    return `auth:denied-access:${jti}`;
+  }
+
+  private revokedBeforeKey(userId: string): string {
+    return `auth:revoked-before:${userId}`;
+  }
+
+  private revokedSessionKey(familyId: string): string {
+    return `auth:revoked-session:${familyId}`;
+  }
+}
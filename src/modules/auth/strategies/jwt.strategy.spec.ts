@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { JwtStrategy } from './jwt.strategy';
+import { TokenService } from '../services/token.service';
+import { User, UserRole } from '../../users/schemas/user.schema';
+import { OrgRole } from '../../org-admin/schemas/org-role.schema';
+import {
+  Permission,
+  RolePermissions,
+} from '../../../common/utils/role-permissions.util';
+
+describe('JwtStrategy', () => {
+  let strategy: JwtStrategy;
+
+  const organizationId = new Types.ObjectId();
+  const customRoleId = new Types.ObjectId();
+
+  const mockUserModel = { findById: jest.fn() };
+  const mockOrgRoleModel = { find: jest.fn() };
+  const mockTokenService = {
+    isAccessTokenRevoked: jest.fn().mockResolvedValue(false),
+  };
+
+  const query = (value: any) => {
+    const chain: any = { exec: jest.fn().mockResolvedValue(value) };
+    chain.select = jest.fn(() => chain);
+    chain.lean = jest.fn(() => chain);
+    return chain;
+  };
+
+  const buildUser = (overrides: Partial<User> = {}) =>
+    ({
+      _id: new Types.ObjectId(),
+      email: 'recruiter@acme.com',
+      role: UserRole.RECRUITER,
+      isActive: true,
+      organizationIds: [organizationId],
+      customRoles: [],
+      ...overrides,
+    }) as any;
+
+  const validate = async (user: any): Promise<any> => {
+    mockUserModel.findById.mockResolvedValue(user);
+    return strategy.validate({ sub: user._id.toString() });
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtStrategy,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: getModelToken(OrgRole.name), useValue: mockOrgRoleModel },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue('test-secret') },
+        },
+        { provide: TokenService, useValue: mockTokenService },
+      ],
+    }).compile();
+
+    strategy = module.get<JwtStrategy>(JwtStrategy);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolvePermissions', () => {
+    it('should grant the role preset to users without custom roles', async () => {
+      const principal = await validate(buildUser());
+
+      expect(principal.permissions).toEqual(
+        RolePermissions.getPresetPermissions(UserRole.RECRUITER),
+      );
+      expect(mockOrgRoleModel.find).not.toHaveBeenCalled();
+    });
+
+    it('should merge custom roles of the default organization', async () => {
+      mockOrgRoleModel.find.mockReturnValue(
+        query([
+          {
+            permissions: [
+              Permission.CANDIDATES_ENROLL,
+              Permission.RESULTS_VIEW,
+            ],
+          },
+        ]),
+      );
+
+      const principal = await validate(
+        buildUser({ customRoles: [customRoleId] }),
+      );
+
+      expect(mockOrgRoleModel.find).toHaveBeenCalledWith({
+        _id: { $in: [customRoleId] },
+        organizationId,
+      });
+      expect(principal.permissions).toContain(Permission.CANDIDATES_ENROLL);
+      expect(
+        principal.permissions.filter((p) => p === Permission.RESULTS_VIEW),
+      ).toHaveLength(1);
+    });
+
+    it('should not look up custom roles for users without an organization', async () => {
+      const principal = await validate(
+        buildUser({ organizationIds: [], customRoles: [customRoleId] }),
+      );
+
+      expect(mockOrgRoleModel.find).not.toHaveBeenCalled();
+      expect(principal.permissions).not.toContain(Permission.CANDIDATES_ENROLL);
+    });
+  });
+});
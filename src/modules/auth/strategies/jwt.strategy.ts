@@ -1,11 +1,17 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { Request } from 'express';
-import { User } from '../../users/schemas/user.schema';
+import { User, UserRole } from '../../users/schemas/user.schema';
+import { TokenService } from '../services/token.service';
+import { OrgRole } from '../../org-admin/schemas/org-role.schema';
+import {
+  Permission,
+  RolePermissions,
+} from '../../../common/utils/role-permissions.util';
 
 /**
  * Custom JWT extractor that checks both cookies and Authorization header
@@ -22,7 +28,9 @@ const cookieExtractor = (req: Request): string | null => {
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(OrgRole.name) private orgRoleModel: Model<OrgRole>,
     private configService: ConfigService,
+    private tokenService: TokenService,
   ) {
     super({
       // Support both cookie-based and header-based JWT extraction
@@ -48,17 +56,48 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       };
     }
 
+    // Refresh tokens are only accepted by /auth/refresh, MFA challenge tokens
+    // only by the /auth/login/mfa routes and login links by /auth/magic-link/verify
+    if (
+      payload.type === 'REFRESH' ||
+      payload.type === 'MFA_PENDING' ||
+      payload.type === 'MAGIC_LINK'
+    ) {
+      throw new UnauthorizedException('Invalid token type');
+    }
+
+    // Reject tokens revoked by logout, password change or deactivation
+    if (await this.tokenService.isAccessTokenRevoked(payload)) {
+      throw new UnauthorizedException('Token has been revoked');
+    }
+
     // Handle regular user JWT
     const user = await this.userModel.findById(payload.sub || payload.userId);
     if (!user || !user.isActive) {
       throw new UnauthorizedException();
     }
 
+    // Impersonation tokens die with the super admin who requested them
+    if (payload.impersonatedBy) {
+      const impersonator = await this.userModel.findById(
+        payload.impersonatedBy,
+      );
+      if (
+        !impersonator ||
+        !impersonator.isActive ||
+        impersonator.role !== UserRole.SUPER_ADMIN
+      ) {
+        throw new UnauthorizedException('Impersonation is no longer valid');
+      }
+    }
+
     // For multi-org support: use first organization as default
     const defaultOrgId = user.organizationIds && user.organizationIds.length > 0
       ? user.organizationIds[0]
       : null;
 
+    const permissions = await this.resolvePermissions(user, defaultOrgId);
+
     return {
       userId: user._id.toString(),
       id: user._id.toString(),
@@ -67,6 +106,35 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       candidateId: user.candidateId,
       organizationId: defaultOrgId?.toString() || null, // Default org for backward compatibility
       organizationIds: user.organizationIds.map(id => id.toString()), // All orgs
+      sessionId: payload.sid, // Refresh token family of this login
+      permissions, // Role preset plus custom roles in the default org
+      ...(payload.impersonatedBy && {
+        impersonatedBy: payload.impersonatedBy.toString(), // Super admin acting as this user
+        impersonationId: payload.sid,
+      }),
     };
   }
+
+  /**
+   * Built-in role preset merged with the user's custom roles for the org
+   */
+  private async resolvePermissions(
+    user: User,
+    organizationId: Types.ObjectId | null,
+  ): Promise<Permission[]> {
+    const permissions = RolePermissions.getPresetPermissions(user.role);
+
+    if (!organizationId || !user.customRoles?.length) {
+      return permissions;
+    }
+
+    const customRoles = await this.orgRoleModel
+      .find({ _id: { $in: user.customRoles }, organizationId })
+      .select('permissions')
+      .lean()
+      .exec();
+
+    customRoles.forEach((role) => permissions.push(...role.permissions));
+    return [...new Set(permissions)];
+  }
 }
@@ -10,6 +10,10 @@ import {
   ExamInvitationEmailData,
   InvitationReminderEmailData,
   RecruitmentResultEmailData,
+  PasswordResetEmailData,
+  EmailVerificationEmailData,
+  MagicLinkEmailData,
+  ExamAccessDecisionEmailData,
 } from '../services/email.service';
 
 @Processor('email')
@@ -164,4 +168,88 @@ export class EmailProcessor {
       throw error; // This will trigger retry logic
     }
   }
+
+  @Process('password-reset')
+  async handlePasswordResetEmail(job: Job<PasswordResetEmailData>) {
+    this.logger.log(
+      `Processing password reset email job ${job.id} for ${job.data.email}`,
+    );
+
+    try {
+      await this.emailService.sendPasswordResetEmail(job.data);
+      this.logger.log(
+        `Successfully sent password reset email to ${job.data.email} (Job ${job.id})`,
+      );
+      return { success: true, email: job.data.email };
+    } catch (error) {
+      this.logger.error(
+        `Failed to send password reset email to ${job.data.email} (Job ${job.id}):`,
+        error,
+      );
+      throw error; // This will trigger retry logic
+    }
+  }
+
+  @Process('email-verification')
+  async handleEmailVerificationEmail(job: Job<EmailVerificationEmailData>) {
+    this.logger.log(
+      `Processing email verification job ${job.id} for ${job.data.email}`,
+    );
+
+    try {
+      await this.emailService.sendEmailVerificationEmail(job.data);
+      this.logger.log(
+        `Successfully sent verification email to ${job.data.email} (Job ${job.id})`,
+      );
+      return { success: true, email: job.data.email };
+    } catch (error) {
+      this.logger.error(
+        `Failed to send verification email to ${job.data.email} (Job ${job.id}):`,
+        error,
+      );
+      throw error; // This will trigger retry logic
+    }
+  }
+
+  @Process('magic-link')
+  async handleMagicLinkEmail(job: Job<MagicLinkEmailData>) {
+    this.logger.log(
+      `Processing magic link email job ${job.id} for ${job.data.email}`,
+    );
+
+    try {
+      await this.emailService.sendMagicLinkEmail(job.data);
+      this.logger.log(
+        `Successfully sent magic link email to ${job.data.email} (Job ${job.id})`,
+      );
+      return { success: true, email: job.data.email };
+    } catch (error) {
+      this.logger.error(
+        `Failed to send magic link email to ${job.data.email} (Job ${job.id}):`,
+        error,
+      );
+      throw error; // This will trigger retry logic
+    }
+  }
+
+  @Process('exam-access-decision')
+  async handleExamAccessDecisionEmail(job: Job<ExamAccessDecisionEmailData>) {
+    this.logger.log(
+      `Processing exam access decision email job ${job.id} for ${job.data.candidateEmail}`,
+    );
+
+    try {
+      await this.emailService.sendExamAccessDecisionEmail(job.data);
+      this.logger.log(
+        `Successfully sent exam access decision to ${job.data.candidateEmail} (Job ${job.id})`,
+      );
+      return { success: true, email: job.data.candidateEmail };
+    } catch (error) {
+      this.logger.error(
+        `Failed to send exam access decision to ${job.data.candidateEmail} (Job ${job.id}):`,
+        error,
+      );
+      throw error; // This will trigger retry logic
+    }
+  }
 }
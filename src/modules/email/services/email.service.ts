@@ -92,6 +92,37 @@ export interface RecruitmentResultEmailData {
   organizationName?: string;
 }
 
+export interface PasswordResetEmailData {
+  name: string;
+  email: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+export interface EmailVerificationEmailData {
+  name: string;
+  email: string;
+  verificationUrl: string;
+  expiresInHours: number;
+}
+
+export interface ExamAccessDecisionEmailData {
+  candidateName: string;
+  candidateEmail: string;
+  examId: string;
+  examTitle: string;
+  approved: boolean;
+  reason?: string; // Shown when the request is rejected
+}
+
+export interface MagicLinkEmailData {
+  name: string;
+  email: string;
+  loginUrl: string;
+  expiresInMinutes: number;
+  ipAddress?: string;
+}
+
 @Injectable()
 export class EmailService {
   private readonly logger = new Logger(EmailService.name);
@@ -1887,6 +1918,593 @@ This is an automated confirmation email.
     }
   }
 
+  /**
+   * Queue password reset email
+   */
+  async queuePasswordResetEmail(data: PasswordResetEmailData) {
+    try {
+      await this.emailQueue.add('password-reset', data, {
+        priority: 1, // Time-sensitive - the link expires
+      });
+      this.logger.log(`Queued password reset email for ${data.email}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue password reset email for ${data.email}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Send password reset email (called by processor)
+   */
+  async sendPasswordResetEmail(data: PasswordResetEmailData) {
+    const { name, email, resetUrl, expiresInMinutes } = data;
+
+    const htmlContent = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+    }
+    .container {
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+      background-color: #f9f9f9;
+    }
+    .header {
+      background-color: #1976d2;
+      color: white;
+      padding: 20px;
+      text-align: center;
+      border-radius: 5px 5px 0 0;
+    }
+    .content {
+      background-color: white;
+      padding: 30px;
+      border-radius: 0 0 5px 5px;
+    }
+    .button {
+      display: inline-block;
+      padding: 12px 30px;
+      background-color: #1976d2;
+      color: white;
+      text-decoration: none;
+      border-radius: 5px;
+      margin: 20px 0;
+      font-weight: bold;
+    }
+    .warning {
+      background-color: #fef3c7;
+      border-left: 4px solid #f59e0b;
+      padding: 10px;
+      margin: 15px 0;
+    }
+    .footer {
+      text-align: center;
+      margin-top: 20px;
+      color: #666;
+      font-size: 12px;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Reset Your Password</h1>
+    </div>
+    <div class="content">
+      <h2>Hello ${name}!</h2>
+      <p>We received a request to reset the password for your SkillMetric account (${email}).</p>
+
+      <div style="text-align: center;">
+        <a href="${resetUrl}" class="button">
+          Reset Password
+        </a>
+      </div>
+
+      <div class="warning">
+        <strong>Note:</strong> This link can only be used once and expires in ${expiresInMinutes} minutes.
+      </div>
+
+      <p style="color: #999; font-size: 14px;">
+        If you did not request a password reset, you can safely ignore this email. Your password will not change.
+      </p>
+
+      <p>Best regards,<br>The SkillMetric Team</p>
+    </div>
+    <div class="footer">
+      <p>This is an automated email. Please do not reply to this message.</p>
+      <p>&copy; ${new Date().getFullYear()} SkillMetric. All rights reserved.</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textContent = `
+Reset Your Password
+
+Hello ${name},
+
+We received a request to reset the password for your SkillMetric account (${email}).
+
+Reset your password: ${resetUrl}
+
+Note: This link can only be used once and expires in ${expiresInMinutes} minutes.
+
+If you did not request a password reset, you can safely ignore this email. Your password will not change.
+
+Best regards,
+The SkillMetric Team
+
+---
+This is an automated email. Please do not reply to this message.
+    `;
+
+    const mailOptions = {
+      from: `"SkillMetric Platform" <${this.configService.get('SMTP_FROM', this.configService.get('SMTP_USER'))}>`,
+      to: email,
+      subject: 'Reset your SkillMetric password',
+      text: textContent,
+      html: htmlContent,
+    };
+
+    try {
+      const info = await this.transporter.sendMail(mailOptions);
+      this.logger.log(
+        `Password reset email sent successfully to ${email}: ${info.messageId}`,
+      );
+      return info;
+    } catch (error) {
+      this.logger.error(
+        `Failed to send password reset email to ${email}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Queue email address verification email
+   */
+  async queueEmailVerificationEmail(data: EmailVerificationEmailData) {
+    try {
+      await this.emailQueue.add('email-verification', data, {
+        priority: 1,
+      });
+      this.logger.log(`Queued email verification for ${data.email}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue email verification for ${data.email}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Send email address verification email (called by processor)
+   */
+  async sendEmailVerificationEmail(data: EmailVerificationEmailData) {
+    const { name, email, verificationUrl, expiresInHours } = data;
+
+    const htmlContent = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+    }
+    .container {
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+      background-color: #f9f9f9;
+    }
+    .header {
+      background-color: #1976d2;
+      color: white;
+      padding: 20px;
+      text-align: center;
+      border-radius: 5px 5px 0 0;
+    }
+    .content {
+      background-color: white;
+      padding: 30px;
+      border-radius: 0 0 5px 5px;
+    }
+    .button {
+      display: inline-block;
+      padding: 12px 30px;
+      background-color: #1976d2;
+      color: white;
+      text-decoration: none;
+      border-radius: 5px;
+      margin: 20px 0;
+      font-weight: bold;
+    }
+    .footer {
+      text-align: center;
+      margin-top: 20px;
+      color: #666;
+      font-size: 12px;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Verify Your Email Address</h1>
+    </div>
+    <div class="content">
+      <h2>Hello ${name}!</h2>
+      <p>Please confirm that <strong>${email}</strong> is your email address to finish setting up your SkillMetric account.</p>
+
+      <div style="text-align: center;">
+        <a href="${verificationUrl}" class="button">
+          Verify Email
+        </a>
+      </div>
+
+      <p style="color: #666; font-size: 14px;">
+        This link expires in ${expiresInHours} hours. Some assessments cannot be started until your email is verified.
+      </p>
+
+      <p style="color: #999; font-size: 14px;">
+        If you did not create an account, you can safely ignore this email.
+      </p>
+
+      <p>Best regards,<br>The SkillMetric Team</p>
+    </div>
+    <div class="footer">
+      <p>This is an automated email. Please do not reply to this message.</p>
+      <p>&copy; ${new Date().getFullYear()} SkillMetric. All rights reserved.</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textContent = `
+Verify Your Email Address
+
+Hello ${name},
+
+Please confirm that ${email} is your email address to finish setting up your SkillMetric account.
+
+Verify your email: ${verificationUrl}
+
+This link expires in ${expiresInHours} hours. Some assessments cannot be started until your email is verified.
+
+If you did not create an account, you can safely ignore this email.
+
+Best regards,
+The SkillMetric Team
+
+---
+This is an automated email. Please do not reply to this message.
+    `;
+
+    const mailOptions = {
+      from: `"SkillMetric Platform" <${this.configService.get('SMTP_FROM', this.configService.get('SMTP_USER'))}>`,
+      to: email,
+      subject: 'Verify your SkillMetric email address',
+      text: textContent,
+      html: htmlContent,
+    };
+
+    try {
+      const info = await this.transporter.sendMail(mailOptions);
+      this.logger.log(
+        `Verification email sent successfully to ${email}: ${info.messageId}`,
+      );
+      return info;
+    } catch (error) {
+      this.logger.error(
+        `Failed to send verification email to ${email}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Queue passwordless sign-in link email
+   */
+  async queueMagicLinkEmail(data: MagicLinkEmailData) {
+    try {
+      await this.emailQueue.add('magic-link', data, {
+        priority: 1,
+      });
+      this.logger.log(`Queued magic link email for ${data.email}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue magic link email for ${data.email}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Send passwordless sign-in link email (called by processor)
+   */
+  async sendMagicLinkEmail(data: MagicLinkEmailData) {
+    const { name, email, loginUrl, expiresInMinutes, ipAddress } = data;
+
+    const htmlContent = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+    }
+    .container {
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+      background-color: #f9f9f9;
+    }
+    .header {
+      background-color: #1976d2;
+      color: white;
+      padding: 20px;
+      text-align: center;
+      border-radius: 5px 5px 0 0;
+    }
+    .content {
+      background-color: white;
+      padding: 30px;
+      border-radius: 0 0 5px 5px;
+    }
+    .button {
+      display: inline-block;
+      padding: 12px 30px;
+      background-color: #1976d2;
+      color: white;
+      text-decoration: none;
+      border-radius: 5px;
+      margin: 20px 0;
+      font-weight: bold;
+    }
+    .footer {
+      text-align: center;
+      margin-top: 20px;
+      color: #666;
+      font-size: 12px;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>Sign In to SkillMetric</h1>
+    </div>
+    <div class="content">
+      <h2>Hello ${name}!</h2>
+      <p>Use the button below to sign in to your SkillMetric account. No password needed.</p>
+
+      <div style="text-align: center;">
+        <a href="${loginUrl}" class="button">
+          Sign In
+        </a>
+      </div>
+
+      <p style="color: #666; font-size: 14px;">
+        This link expires in ${expiresInMinutes} minutes, can be used once, and only works on the device and network it was requested from${ipAddress ? ` (${ipAddress})` : ''}.
+      </p>
+
+      <p style="color: #999; font-size: 14px;">
+        If you did not request this link, you can safely ignore this email.
+      </p>
+
+      <p>Best regards,<br>The SkillMetric Team</p>
+    </div>
+    <div class="footer">
+      <p>This is an automated email. Please do not reply to this message.</p>
+      <p>&copy; ${new Date().getFullYear()} SkillMetric. All rights reserved.</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textContent = `
+Sign In to SkillMetric
+
+Hello ${name},
+
+Use the link below to sign in to your SkillMetric account. No password needed.
+
+Sign in: ${loginUrl}
+
+This link expires in ${expiresInMinutes} minutes, can be used once, and only works on the device and network it was requested from${ipAddress ? ` (${ipAddress})` : ''}.
+
+If you did not request this link, you can safely ignore this email.
+
+Best regards,
+The SkillMetric Team
+
+---
+This is an automated email. Please do not reply to this message.
+    `;
+
+    const mailOptions = {
+      from: `"SkillMetric Platform" <${this.configService.get('SMTP_FROM', this.configService.get('SMTP_USER'))}>`,
+      to: email,
+      subject: 'Your SkillMetric sign-in link',
+      text: textContent,
+      html: htmlContent,
+    };
+
+    try {
+      const info = await this.transporter.sendMail(mailOptions);
+      this.logger.log(
+        `Magic link email sent successfully to ${email}: ${info.messageId}`,
+      );
+      return info;
+    } catch (error) {
+      this.logger.error(`Failed to send magic link email to ${email}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue the outcome of a request to join an approval-gated exam
+   */
+  async queueExamAccessDecisionEmail(data: ExamAccessDecisionEmailData) {
+    try {
+      await this.emailQueue.add('exam-access-decision', data);
+      this.logger.log(
+        `Queued exam access decision email for ${data.candidateEmail}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue exam access decision email for ${data.candidateEmail}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Send exam access decision email (called by processor)
+   */
+  async sendExamAccessDecisionEmail(data: ExamAccessDecisionEmailData) {
+    const {
+      candidateName,
+      candidateEmail,
+      examId,
+      examTitle,
+      approved,
+      reason,
+    } = data;
+    const examLink = `${this.configService.get('FRONTEND_URL', 'http://localhost:3000')}/candidate/exam/${examId}`;
+    const headline = approved ? 'Access Approved' : 'Access Request Declined';
+    const message = approved
+      ? `Your request to take <strong>${examTitle}</strong> has been approved. You are now enrolled and can start the exam during its scheduled window.`
+      : `Your request to take <strong>${examTitle}</strong> was not approved.`;
+
+    const htmlContent = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body {
+      font-family: Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+    }
+    .container {
+      max-width: 600px;
+      margin: 0 auto;
+      padding: 20px;
+      background-color: #f9f9f9;
+    }
+    .header {
+      background-color: ${approved ? '#1976d2' : '#6b7280'};
+      color: white;
+      padding: 20px;
+      text-align: center;
+      border-radius: 5px 5px 0 0;
+    }
+    .content {
+      background-color: white;
+      padding: 30px;
+      border-radius: 0 0 5px 5px;
+    }
+    .button {
+      display: inline-block;
+      padding: 12px 30px;
+      background-color: #1976d2;
+      color: white;
+      text-decoration: none;
+      border-radius: 5px;
+      margin: 20px 0;
+      font-weight: bold;
+    }
+    .footer {
+      text-align: center;
+      margin-top: 20px;
+      color: #666;
+      font-size: 12px;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${headline}</h1>
+    </div>
+    <div class="content">
+      <h2>Hello ${candidateName}!</h2>
+      <p>${message}</p>
+      ${reason ? `<p><strong>Reason:</strong> ${reason}</p>` : ''}
+      ${approved ? `<div style="text-align: center;"><a href="${examLink}" class="button">Go to Exam</a></div>` : ''}
+
+      <p>Best regards,<br>The SkillMetric Team</p>
+    </div>
+    <div class="footer">
+      <p>This is an automated email. Please do not reply to this message.</p>
+      <p>&copy; ${new Date().getFullYear()} SkillMetric. All rights reserved.</p>
+    </div>
+  </div>
+</body>
+</html>
+    `;
+
+    const textContent = `
+${headline}
+
+Hello ${candidateName},
+
+${message.replace(/<\/?strong>/g, '')}
+${reason ? `\nReason: ${reason}\n` : ''}${approved ? `\nAccess Exam URL: ${examLink}\n` : ''}
+Best regards,
+The SkillMetric Team
+
+---
+This is an automated email. Please do not reply to this message.
+    `;
+
+    const mailOptions = {
+      from: `"SkillMetric Platform" <${this.configService.get('SMTP_FROM', this.configService.get('SMTP_USER'))}>`,
+      to: candidateEmail,
+      subject: approved
+        ? `You're enrolled: ${examTitle}`
+        : `Update on your request for ${examTitle}`,
+      text: textContent,
+      html: htmlContent,
+    };
+
+    try {
+      const info = await this.transporter.sendMail(mailOptions);
+      this.logger.log(
+        `Exam access decision email sent successfully to ${candidateEmail}: ${info.messageId}`,
+      );
+      return info;
+    } catch (error) {
+      this.logger.error(
+        `Failed to send exam access decision email to ${candidateEmail}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Get queue statistics
    */
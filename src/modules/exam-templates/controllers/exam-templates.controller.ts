@@ -22,6 +22,7 @@ import {
   ExamTemplate,
   ExamTemplateDocument,
 } from '../schemas/exam-template.schema';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
 
 @Controller('exam-templates')
 @UseGuards(JwtAuthGuard)
@@ -132,6 +133,7 @@ export class ExamTemplatesController {
   }
 
   @Delete(':id')
+  @BlockImpersonation()
   async remove(@Param('id') id: string) {
     const template = await this.examTemplateModel.findByIdAndUpdate(
       id,
@@ -5,12 +5,14 @@ import { Model, Types } from 'mongoose';
 import { AddQuestionsToExamCommand } from '../impl/add-questions-to-exam.command';
 import { Exam } from '../../schemas/exam.schema';
 import { Question } from '../../../questions/schemas/question.schema';
+import { ExamVersionService } from '../../services/exam-version.service';
 
 @CommandHandler(AddQuestionsToExamCommand)
 export class AddQuestionsToExamHandler implements ICommandHandler<AddQuestionsToExamCommand> {
   constructor(
     @InjectModel(Exam.name) private examModel: Model<Exam>,
     @InjectModel(Question.name) private questionModel: Model<Question>,
+    private readonly examVersionService: ExamVersionService,
   ) {}
 
   async execute(command: AddQuestionsToExamCommand) {
@@ -52,6 +54,9 @@ export class AddQuestionsToExamHandler implements ICommandHandler<AddQuestionsTo
       };
     }
 
+    // Published exams keep the replaced version as an immutable snapshot
+    const versioned = await this.examVersionService.beginEdit(exam, userId);
+
     exam.questions.push(...newQuestionIds.map(id => new Types.ObjectId(id)));
 
     // Auto-calculate total marks from all questions
@@ -67,6 +72,14 @@ export class AddQuestionsToExamHandler implements ICommandHandler<AddQuestionsTo
 
     await exam.save();
 
+    if (versioned) {
+      await this.examVersionService.ensureSnapshot(
+        exam,
+        userId,
+        `Added ${newQuestionIds.length} question(s)`,
+      );
+    }
+
     // Populate questions for response
     await exam.populate('questions');
 
@@ -74,6 +87,7 @@ export class AddQuestionsToExamHandler implements ICommandHandler<AddQuestionsTo
       message: `${newQuestionIds.length} question(s) added successfully`,
       totalQuestions: exam.totalQuestions,
       totalMarks: exam.grading.totalMarks,
+      version: exam.version,
       exam,
     };
   }
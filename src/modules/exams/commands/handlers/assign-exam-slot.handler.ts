@@ -0,0 +1,82 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AssignExamSlotCommand } from '../impl/assign-exam-slot.command';
+import { Exam } from '../../schemas/exam.schema';
+import { ExamSlotService } from '../../services/exam-slot.service';
+
+@CommandHandler(AssignExamSlotCommand)
+export class AssignExamSlotHandler
+  implements ICommandHandler<AssignExamSlotCommand>
+{
+  constructor(
+    @InjectModel(Exam.name) private examModel: Model<Exam>,
+    private readonly examSlotService: ExamSlotService,
+  ) {}
+
+  async execute(command: AssignExamSlotCommand) {
+    const { examId, slotId, assignExamSlotDto, assignedBy, organizationId } =
+      command;
+
+    const exam = await this.examModel.findById(examId).exec();
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (exam.organizationId?.toString() !== organizationId) {
+      throw new ForbiddenException(
+        'You are not authorized to manage slots for this exam',
+      );
+    }
+
+    const slot = this.examSlotService.getSlot(exam, slotId);
+    if (!slot) {
+      throw new NotFoundException('Slot not found');
+    }
+
+    if (new Date() >= slot.endTime) {
+      throw new BadRequestException('This slot has already ended');
+    }
+
+    const enrolled = new Set(
+      exam.enrolledCandidates.map((id) => id.toString()),
+    );
+    const assigned: string[] = [];
+    const skipped: Array<{ candidateId: string; reason: string }> = [];
+
+    for (const candidateId of new Set(assignExamSlotDto.candidateIds)) {
+      if (!enrolled.has(candidateId)) {
+        skipped.push({ candidateId, reason: 'Not enrolled in this exam' });
+        continue;
+      }
+
+      try {
+        await this.examSlotService.reserveSeat(
+          exam,
+          slot,
+          candidateId,
+          assignedBy,
+        );
+        assigned.push(candidateId);
+      } catch (error) {
+        if (!(error instanceof ConflictException)) {
+          throw error;
+        }
+        skipped.push({ candidateId, reason: 'Slot is full' });
+      }
+    }
+
+    return {
+      message: `${assigned.length} candidate(s) assigned to ${slot.name || 'the slot'}`,
+      slotId: slot._id,
+      assigned,
+      skipped,
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { BookExamSlotCommand } from '../impl/book-exam-slot.command';
+import { Exam, ExamStatus } from '../../schemas/exam.schema';
+import { ExamSlotService } from '../../services/exam-slot.service';
+
+// Exams candidates can still book a seat in
+const BOOKABLE_STATUSES = [
+  ExamStatus.PUBLISHED,
+  ExamStatus.SCHEDULED,
+  ExamStatus.ACTIVE,
+];
+
+@CommandHandler(BookExamSlotCommand)
+export class BookExamSlotHandler
+  implements ICommandHandler<BookExamSlotCommand>
+{
+  constructor(
+    @InjectModel(Exam.name) private examModel: Model<Exam>,
+    private readonly examSlotService: ExamSlotService,
+  ) {}
+
+  async execute(command: BookExamSlotCommand) {
+    const { examId, slotId, candidateId } = command;
+
+    const exam = await this.examModel.findById(examId).exec();
+    if (!exam || !BOOKABLE_STATUSES.includes(exam.status)) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (!exam.enrolledCandidates.some((id) => id.toString() === candidateId)) {
+      throw new ForbiddenException('You are not enrolled in this exam');
+    }
+
+    const slot = this.examSlotService.getSlot(exam, slotId);
+    if (!slot) {
+      throw new NotFoundException('Slot not found');
+    }
+
+    const now = new Date();
+    if (now >= slot.startTime) {
+      throw new BadRequestException('This slot has already started');
+    }
+
+    // Once a candidate's slot is under way their seat is fixed
+    const current = await this.examSlotService.findBooking(examId, candidateId);
+    const currentSlot =
+      current && this.examSlotService.getSlot(exam, current.slotId.toString());
+    if (currentSlot && now >= currentSlot.startTime) {
+      throw new BadRequestException(
+        'Your booked slot has already started and can no longer be changed',
+      );
+    }
+
+    const booking = await this.examSlotService.reserveSeat(
+      exam,
+      slot,
+      candidateId,
+      candidateId,
+    );
+
+    return {
+      message: 'Slot booked',
+      bookingId: booking._id,
+      slot: {
+        id: slot._id,
+        name: slot.name,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+      },
+    };
+  }
+}
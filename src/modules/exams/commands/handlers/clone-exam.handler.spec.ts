@@ -0,0 +1,166 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { CloneExamHandler } from './clone-exam.handler';
+import { CloneExamCommand } from '../impl/clone-exam.command';
+import { Exam, ExamStatus } from '../../schemas/exam.schema';
+import { UserRole } from '../../../users/schemas/user.schema';
+
+describe('CloneExamHandler', () => {
+  let handler: CloneExamHandler;
+
+  const organizationId = new Types.ObjectId();
+  const authorId = new Types.ObjectId();
+  const recruiterId = new Types.ObjectId();
+
+  const content = {
+    title: 'Data Structures Final',
+    description: 'Trees and graphs',
+    duration: 90,
+    questions: [new Types.ObjectId(), new Types.ObjectId()],
+    totalQuestions: 2,
+    schedule: {
+      startDate: new Date('2026-01-10T10:00:00Z'),
+      endDate: new Date('2026-01-10T12:00:00Z'),
+      lateSubmissionAllowed: true,
+    },
+    grading: { totalMarks: 10, passingMarks: 4 },
+  };
+  const source = {
+    _id: new Types.ObjectId(),
+    ...content,
+    code: 'DS-2025',
+    organizationId,
+    createdBy: authorId,
+    status: ExamStatus.COMPLETED,
+    version: 3,
+    enrolledCandidates: [new Types.ObjectId()],
+    stats: { totalAttempts: 12 },
+    publishedAt: new Date('2025-12-01'),
+    toObject() {
+      return { ...this };
+    },
+  };
+
+  // Constructed exams keep the data they were created with
+  const mockExamModel: any = jest.fn().mockImplementation((data) => ({
+    _id: new Types.ObjectId(),
+    ...data,
+    save: jest.fn().mockResolvedValue(undefined),
+  }));
+  mockExamModel.findById = jest.fn();
+  mockExamModel.findOne = jest.fn();
+
+  const clone = (
+    dto: Record<string, any> = {},
+    userId = authorId,
+    role = UserRole.RECRUITER,
+    orgId = organizationId,
+  ) =>
+    handler.execute(
+      new CloneExamCommand(
+        source._id.toString(),
+        { code: 'DS-2026', ...dto },
+        userId.toString(),
+        role,
+        orgId.toString(),
+      ),
+    );
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CloneExamHandler,
+        { provide: getModelToken(Exam.name), useValue: mockExamModel },
+      ],
+    }).compile();
+
+    handler = module.get<CloneExamHandler>(CloneExamHandler);
+    mockExamModel.findById.mockReturnValue({
+      exec: jest.fn().mockResolvedValue(source),
+    });
+    mockExamModel.findOne.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should copy the content into a new draft', async () => {
+    const copy = await clone();
+
+    const [data] = mockExamModel.mock.calls[0];
+    expect(data).toMatchObject({
+      ...content,
+      code: 'DS-2026',
+      organizationId,
+      status: ExamStatus.DRAFT,
+      version: 1,
+      clonedFrom: source._id,
+      enrolledCandidates: [],
+    });
+    expect(data).not.toHaveProperty('stats');
+    expect(data).not.toHaveProperty('publishedAt');
+    expect(copy).toMatchObject({
+      code: 'DS-2026',
+      status: ExamStatus.DRAFT,
+      clonedFrom: source._id,
+      clonedFromVersion: 3,
+    });
+  });
+
+  it('should apply a new title and schedule', async () => {
+    const schedule = {
+      startDate: new Date('2026-06-10T10:00:00Z'),
+      endDate: new Date('2026-06-10T12:00:00Z'),
+    };
+
+    await clone({ title: 'Data Structures Resit', schedule });
+
+    const [data] = mockExamModel.mock.calls[0];
+    expect(data.title).toBe('Data Structures Resit');
+    expect(data.schedule).toEqual({
+      ...content.schedule,
+      ...schedule,
+    });
+  });
+
+  it('should reject a schedule ending before it starts', async () => {
+    await expect(
+      clone({
+        schedule: {
+          startDate: new Date('2026-06-10T12:00:00Z'),
+          endDate: new Date('2026-06-10T10:00:00Z'),
+        },
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should make the cloning user the author of the copy', async () => {
+    await clone({}, recruiterId, UserRole.ORG_ADMIN);
+
+    expect(mockExamModel.mock.calls[0][0].createdBy).toEqual(recruiterId);
+  });
+
+  it("should not let a recruiter clone a colleague's exam", async () => {
+    await expect(clone({}, recruiterId)).rejects.toThrow(ForbiddenException);
+  });
+
+  it("should not clone another organization's exam", async () => {
+    await expect(
+      clone({}, authorId, UserRole.ORG_ADMIN, new Types.ObjectId()),
+    ).rejects.toThrow(ForbiddenException);
+    expect(mockExamModel).not.toHaveBeenCalled();
+  });
+
+  it('should reject a code already in use', async () => {
+    mockExamModel.findOne.mockResolvedValue({ _id: new Types.ObjectId() });
+
+    await expect(clone()).rejects.toThrow(ConflictException);
+  });
+});
@@ -0,0 +1,108 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { CloneExamCommand } from '../impl/clone-exam.command';
+import { Exam, ExamStatus } from '../../schemas/exam.schema';
+import { UserRole } from '../../../users/schemas/user.schema';
+
+// Content and configuration carried over to the copy. Candidates, stats and
+// lifecycle dates stay with the source exam.
+const CLONED_FIELDS = [
+  'description',
+  'templateId',
+  'duration',
+  'type',
+  'category',
+  'accessMode',
+  'questions',
+  'questionPools',
+  'sections',
+  'deliveryMode',
+  'adaptiveSettings',
+  'totalQuestions',
+  'accessControl',
+  'schedule',
+  'grading',
+  'proctoringSettings',
+  'settings',
+  'resultsSettings',
+  'shortlistingCriteria',
+  'invitationSettings',
+  'recruitmentResultSettings',
+] as const;
+
+@CommandHandler(CloneExamCommand)
+export class CloneExamHandler implements ICommandHandler<CloneExamCommand> {
+  constructor(@InjectModel(Exam.name) private examModel: Model<Exam>) {}
+
+  async execute(command: CloneExamCommand) {
+    const { examId, cloneExamDto, userId, userRole, organizationId } = command;
+
+    const source = await this.examModel.findById(examId).exec();
+    if (!source) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (
+      source.organizationId?.toString() !== organizationId ||
+      (source.createdBy.toString() !== userId &&
+        userRole !== UserRole.ORG_ADMIN)
+    ) {
+      throw new ForbiddenException('You are not authorized to clone this exam');
+    }
+
+    const existingExam = await this.examModel.findOne({
+      code: cloneExamDto.code,
+    });
+    if (existingExam) {
+      throw new ConflictException('An exam with this code already exists');
+    }
+
+    const plain = source.toObject();
+    const copy: Record<string, any> = {};
+    for (const field of CLONED_FIELDS) {
+      if (plain[field] !== undefined) {
+        copy[field] = plain[field];
+      }
+    }
+
+    if (cloneExamDto.schedule) {
+      if (cloneExamDto.schedule.startDate >= cloneExamDto.schedule.endDate) {
+        throw new BadRequestException('End date must be after start date');
+      }
+      copy.schedule = { ...copy.schedule, ...cloneExamDto.schedule };
+    }
+
+    const exam = new this.examModel({
+      ...copy,
+      title: cloneExamDto.title || source.title,
+      code: cloneExamDto.code,
+      organizationId: source.organizationId,
+      createdBy: new Types.ObjectId(userId),
+      status: ExamStatus.DRAFT,
+      version: 1,
+      clonedFrom: source._id,
+      enrolledCandidates: [],
+    });
+
+    await exam.save();
+
+    return {
+      id: exam._id,
+      title: exam.title,
+      code: exam.code,
+      status: exam.status,
+      clonedFrom: exam.clonedFrom,
+      clonedFromVersion: source.version || 1,
+      totalQuestions: exam.totalQuestions,
+      schedule: exam.schedule,
+      grading: exam.grading,
+    };
+  }
+}
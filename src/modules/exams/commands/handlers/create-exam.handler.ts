@@ -3,7 +3,8 @@ import { ConflictException, BadRequestException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { CreateExamCommand } from '../impl/create-exam.command';
-import { Exam, ExamStatus } from '../../schemas/exam.schema';
+import { CreateExamDto } from '../../dto/create-exam.dto';
+import { Exam, ExamDeliveryMode, ExamStatus } from '../../schemas/exam.schema';
 
 @CommandHandler(CreateExamCommand)
 export class CreateExamHandler implements ICommandHandler<CreateExamCommand> {
@@ -28,12 +29,25 @@ export class CreateExamHandler implements ICommandHandler<CreateExamCommand> {
       throw new BadRequestException('Passing marks cannot be greater than total marks');
     }
 
+    const sections = createExamDto.sections || [];
+    this.validateSections(createExamDto);
+    this.validateAdaptiveSettings(createExamDto);
+
     // Create exam
     const exam = new this.examModel({
       ...createExamDto,
       createdBy: userId,
       status: createExamDto.status || ExamStatus.DRAFT,
       questions: createExamDto.questions || [],
+      sections,
+      shortlistingCriteria: {
+        sectionWiseCutoff: sections
+          .filter((section) => section.cutoffScore !== undefined)
+          .map((section) => ({
+            category: section.name,
+            minimumScore: section.cutoffScore,
+          })),
+      },
       enrolledCandidates: createExamDto.enrolledCandidates || [],
     });
 
@@ -52,7 +66,76 @@ export class CreateExamHandler implements ICommandHandler<CreateExamCommand> {
       settings: exam.settings,
       createdBy: exam.createdBy,
       questions: exam.questions,
+      sections: exam.sections,
       enrolledCandidates: exam.enrolledCandidates,
     };
   }
+
+  private validateAdaptiveSettings(createExamDto: CreateExamDto) {
+    if (createExamDto.deliveryMode !== ExamDeliveryMode.ADAPTIVE) {
+      return;
+    }
+
+    if (createExamDto.sections?.length) {
+      throw new BadRequestException(
+        'Adaptive exams cannot be split into sections',
+      );
+    }
+
+    const settings = createExamDto.adaptiveSettings;
+    if (settings && settings.minQuestions > settings.maxQuestions) {
+      throw new BadRequestException(
+        'adaptiveSettings.minQuestions cannot exceed maxQuestions',
+      );
+    }
+  }
+
+  private validateSections(createExamDto: CreateExamDto) {
+    const sections = createExamDto.sections || [];
+    if (sections.length === 0) {
+      return;
+    }
+
+    if (createExamDto.questions?.length) {
+      throw new BadRequestException(
+        'Sectioned exams take their questions from sections, not the questions list',
+      );
+    }
+
+    const names = new Set<string>();
+    for (const section of sections) {
+      if (names.has(section.name)) {
+        throw new BadRequestException(
+          `Section names must be unique: "${section.name}"`,
+        );
+      }
+      names.add(section.name);
+
+      if (!section.questions?.length && !section.questionPools?.length) {
+        throw new BadRequestException(
+          `Section "${section.name}" needs questions or a question pool`,
+        );
+      }
+
+      if (
+        section.cutoffScore !== undefined &&
+        section.totalMarks !== undefined &&
+        section.cutoffScore > section.totalMarks
+      ) {
+        throw new BadRequestException(
+          `Cutoff of section "${section.name}" cannot exceed its total marks`,
+        );
+      }
+    }
+
+    const timedMinutes = sections.reduce(
+      (sum, section) => sum + (section.duration || 0),
+      0,
+    );
+    if (timedMinutes > createExamDto.duration) {
+      throw new BadRequestException(
+        `Section time limits (${timedMinutes} min) exceed the exam duration (${createExamDto.duration} min)`,
+      );
+    }
+  }
 }
@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { EnrollCandidatesHandler } from './enroll-candidates.handler';
+import { EnrollCandidatesCommand } from '../impl/enroll-candidates.command';
+import { Exam } from '../../schemas/exam.schema';
+import { User, UserRole } from '../../../users/schemas/user.schema';
+import { EmailService } from '../../../email/services/email.service';
+import { EmailVerificationService } from '../../../auth/services/email-verification.service';
+
+describe('EnrollCandidatesHandler', () => {
+  let handler: EnrollCandidatesHandler;
+
+  const authorId = new Types.ObjectId();
+  const existing = {
+    _id: new Types.ObjectId(),
+    name: 'Grace',
+    email: 'grace@acme.com',
+    emailVerified: true,
+  };
+  let exam: any;
+
+  // Constructed users keep the data they were created with
+  const mockUserModel: any = jest.fn().mockImplementation((data) => ({
+    _id: new Types.ObjectId(),
+    ...data,
+    save: jest.fn().mockResolvedValue(undefined),
+  }));
+  mockUserModel.findOne = jest.fn(({ email }) =>
+    Promise.resolve(email === existing.email ? existing : null),
+  );
+  const mockExamModel = { findById: jest.fn() };
+  const mockEmailService = {
+    queueBulkCandidateWelcomeEmails: jest.fn(),
+    queueBulkExamReminders: jest.fn(),
+  };
+  const mockEmailVerificationService = { sendVerificationEmail: jest.fn() };
+
+  const enroll = (candidates: Array<{ name: string; email: string }>) =>
+    handler.execute(
+      new EnrollCandidatesCommand(
+        exam._id.toString(),
+        { candidates } as any,
+        authorId.toString(),
+      ),
+    );
+
+  beforeEach(async () => {
+    exam = {
+      _id: new Types.ObjectId(),
+      title: 'Algorithms',
+      accessMode: 'ENROLLMENT_BASED',
+      createdBy: authorId,
+      enrolledCandidates: [],
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EnrollCandidatesHandler,
+        { provide: getModelToken(Exam.name), useValue: mockExamModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: EmailService, useValue: mockEmailService },
+        {
+          provide: EmailVerificationService,
+          useValue: mockEmailVerificationService,
+        },
+      ],
+    }).compile();
+
+    handler = module.get<EnrollCandidatesHandler>(EnrollCandidatesHandler);
+    mockExamModel.findById.mockResolvedValue(exam);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create unverified candidates and send them a verification email', async () => {
+    const result = await enroll([{ name: 'Ada', email: 'Ada@acme.com' }]);
+
+    const created = mockUserModel.mock.results[0].value;
+    expect(created).toMatchObject({
+      email: 'ada@acme.com',
+      role: UserRole.CANDIDATE,
+      emailVerified: false,
+    });
+    expect(
+      mockEmailVerificationService.sendVerificationEmail,
+    ).toHaveBeenCalledWith(created);
+    expect(result.summary).toMatchObject({ enrolled: 1, created: 1 });
+  });
+
+  it('should not re-verify candidates who already have an account', async () => {
+    const result = await enroll([
+      { name: existing.name, email: existing.email },
+    ]);
+
+    expect(mockUserModel).not.toHaveBeenCalled();
+    expect(
+      mockEmailVerificationService.sendVerificationEmail,
+    ).not.toHaveBeenCalled();
+    expect(result.summary).toMatchObject({ enrolled: 1, created: 0 });
+  });
+});
@@ -6,12 +6,15 @@ import {
   Logger,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import * as bcrypt from 'bcrypt';
 import { EnrollCandidatesCommand } from '../impl/enroll-candidates.command';
 import { Exam } from '../../schemas/exam.schema';
+import { AccommodationsDto } from '../../dto/accommodations.dto';
+import { AccommodationUtil } from '../../../../common/utils';
 import { User, UserRole } from '../../../users/schemas/user.schema';
 import { EmailService } from '../../../email/services/email.service';
+import { EmailVerificationService } from '../../../auth/services/email-verification.service';
 
 @CommandHandler(EnrollCandidatesCommand)
 export class EnrollCandidatesHandler
@@ -23,6 +26,7 @@ export class EnrollCandidatesHandler
     @InjectModel(Exam.name) private examModel: Model<Exam>,
     @InjectModel(User.name) private userModel: Model<User>,
     private readonly emailService: EmailService,
+    private readonly emailVerificationService: EmailVerificationService,
   ) {}
 
   async execute(command: EnrollCandidatesCommand) {
@@ -85,9 +89,11 @@ export class EnrollCandidatesHandler
             password: hashedPassword,
             role: UserRole.CANDIDATE,
             isActive: true,
+            emailVerified: false,
           });
 
           await user.save();
+          await this.emailVerificationService.sendVerificationEmail(user);
           results.created.push({
             name: candidateData.name,
             email: candidateData.email,
@@ -96,6 +102,15 @@ export class EnrollCandidatesHandler
           });
         }
 
+        // Accommodations also apply to candidates enrolled earlier
+        if (candidateData.accommodations) {
+          this.setAccommodations(
+            exam,
+            user._id.toString(),
+            candidateData.accommodations,
+          );
+        }
+
         // Check if already enrolled
         if (exam.enrolledCandidates.includes(user._id as any)) {
           results.alreadyEnrolled.push({
@@ -238,6 +253,24 @@ export class EnrollCandidatesHandler
     };
   }
 
+  /**
+   * Add or replace a candidate's accommodations on the exam
+   */
+  private setAccommodations(
+    exam: Exam,
+    candidateId: string,
+    accommodations: AccommodationsDto,
+  ) {
+    const entries = (exam.candidateAccommodations || []).filter(
+      (entry) => entry.candidateId.toString() !== candidateId,
+    );
+    entries.push({
+      candidateId: new Types.ObjectId(candidateId),
+      accommodations: AccommodationUtil.normalize(accommodations),
+    });
+    exam.candidateAccommodations = entries;
+  }
+
   private generateTempPassword(): string {
     // Generate a random 8-character password
     const chars =
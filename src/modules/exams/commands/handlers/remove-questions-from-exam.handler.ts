@@ -5,12 +5,14 @@ import { Model } from 'mongoose';
 import { RemoveQuestionsFromExamCommand } from '../impl/remove-questions-from-exam.command';
 import { Exam } from '../../schemas/exam.schema';
 import { Question } from '../../../questions/schemas/question.schema';
+import { ExamVersionService } from '../../services/exam-version.service';
 
 @CommandHandler(RemoveQuestionsFromExamCommand)
 export class RemoveQuestionsFromExamHandler implements ICommandHandler<RemoveQuestionsFromExamCommand> {
   constructor(
     @InjectModel(Exam.name) private examModel: Model<Exam>,
     @InjectModel(Question.name) private questionModel: Model<Question>,
+    private readonly examVersionService: ExamVersionService,
   ) {}
 
   async execute(command: RemoveQuestionsFromExamCommand) {
@@ -31,6 +33,9 @@ export class RemoveQuestionsFromExamHandler implements ICommandHandler<RemoveQue
       throw new ForbiddenException('Only the exam creator can remove questions');
     }
 
+    // Published exams keep the replaced version as an immutable snapshot
+    const versioned = await this.examVersionService.beginEdit(exam, userId);
+
     // Remove questions from exam
     exam.questions = exam.questions.filter(
       q => !questionIds.includes(q.toString())
@@ -49,6 +54,14 @@ export class RemoveQuestionsFromExamHandler implements ICommandHandler<RemoveQue
 
     await exam.save();
 
+    if (versioned) {
+      await this.examVersionService.ensureSnapshot(
+        exam,
+        userId,
+        `Removed ${questionIds.length} question(s)`,
+      );
+    }
+
     // Populate questions for response
     await exam.populate('questions');
 
@@ -56,6 +69,7 @@ export class RemoveQuestionsFromExamHandler implements ICommandHandler<RemoveQue
       message: 'Questions removed successfully',
       totalQuestions: exam.totalQuestions,
       totalMarks: exam.grading.totalMarks,
+      version: exam.version,
       exam,
     };
   }
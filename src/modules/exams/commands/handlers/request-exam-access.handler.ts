@@ -0,0 +1,96 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { RequestExamAccessCommand } from '../impl/request-exam-access.command';
+import { Exam, ExamStatus } from '../../schemas/exam.schema';
+import {
+  AccessRequestStatus,
+  ExamAccessRequest,
+} from '../../schemas/exam-access-request.schema';
+import { ExamAccessService } from '../../services/exam-access.service';
+
+// Exams candidates can still ask to join
+const REQUESTABLE_STATUSES = [
+  ExamStatus.PUBLISHED,
+  ExamStatus.SCHEDULED,
+  ExamStatus.ACTIVE,
+];
+
+@CommandHandler(RequestExamAccessCommand)
+export class RequestExamAccessHandler
+  implements ICommandHandler<RequestExamAccessCommand>
+{
+  constructor(
+    @InjectModel(Exam.name) private examModel: Model<Exam>,
+    @InjectModel(ExamAccessRequest.name)
+    private accessRequestModel: Model<ExamAccessRequest>,
+    private readonly examAccessService: ExamAccessService,
+  ) {}
+
+  async execute(command: RequestExamAccessCommand) {
+    const { examId, requestExamAccessDto, candidateId } = command;
+
+    const exam = await this.examModel.findById(examId).exec();
+    if (!exam || !REQUESTABLE_STATUSES.includes(exam.status)) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (!exam.accessControl?.requiresApproval) {
+      throw new BadRequestException(
+        'This exam does not accept requests to join',
+      );
+    }
+
+    if (exam.enrolledCandidates.some((id) => id.toString() === candidateId)) {
+      throw new ConflictException('You are already enrolled in this exam');
+    }
+
+    const codeCheck = await this.examAccessService.verifyAccessCode(
+      exam,
+      candidateId,
+      requestExamAccessDto.accessCode,
+    );
+    if (!codeCheck.valid) {
+      throw new ForbiddenException(
+        requestExamAccessDto.accessCode
+          ? 'Invalid access code'
+          : 'An access code is required for this exam',
+      );
+    }
+
+    let request = await this.examAccessService.findRequest(examId, candidateId);
+    if (request?.status === AccessRequestStatus.PENDING) {
+      throw new ConflictException('Your request is already awaiting review');
+    }
+
+    // Rejected (or later unenrolled) candidates reopen their request
+    if (request) {
+      request.status = AccessRequestStatus.PENDING;
+      request.message = requestExamAccessDto.message;
+      request.reviewedBy = undefined;
+      request.reviewedAt = undefined;
+      request.rejectionReason = undefined;
+    } else {
+      request = new this.accessRequestModel({
+        examId: exam._id,
+        organizationId: exam.organizationId,
+        candidateId: new Types.ObjectId(candidateId),
+        message: requestExamAccessDto.message,
+      });
+    }
+
+    await request.save();
+
+    return {
+      message: 'Request submitted. You will be emailed once it is reviewed.',
+      requestId: request._id,
+      status: request.status,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { CommandHandler, ICommandHandler } from '@nestjs/cqrs';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ReviewAccessRequestCommand } from '../impl/review-access-request.command';
+import { Exam } from '../../schemas/exam.schema';
+import {
+  AccessRequestStatus,
+  ExamAccessRequest,
+} from '../../schemas/exam-access-request.schema';
+import { User } from '../../../users/schemas/user.schema';
+import { EmailService } from '../../../email/services/email.service';
+
+@CommandHandler(ReviewAccessRequestCommand)
+export class ReviewAccessRequestHandler
+  implements ICommandHandler<ReviewAccessRequestCommand>
+{
+  private readonly logger = new Logger(ReviewAccessRequestHandler.name);
+
+  constructor(
+    @InjectModel(Exam.name) private examModel: Model<Exam>,
+    @InjectModel(ExamAccessRequest.name)
+    private accessRequestModel: Model<ExamAccessRequest>,
+    @InjectModel(User.name) private userModel: Model<User>,
+    private readonly emailService: EmailService,
+  ) {}
+
+  async execute(command: ReviewAccessRequestCommand) {
+    const { examId, requestId, decision, reviewerId, organizationId, reason } =
+      command;
+
+    const exam = await this.examModel.findById(examId).exec();
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (exam.organizationId?.toString() !== organizationId) {
+      throw new ForbiddenException(
+        'You are not authorized to review requests for this exam',
+      );
+    }
+
+    const request = await this.accessRequestModel
+      .findOne({ _id: requestId, examId: exam._id })
+      .exec();
+    if (!request) {
+      throw new NotFoundException('Access request not found');
+    }
+
+    if (request.status !== AccessRequestStatus.PENDING) {
+      throw new BadRequestException(
+        `This request has already been ${request.status.toLowerCase()}`,
+      );
+    }
+
+    request.status = decision;
+    request.reviewedBy = new Types.ObjectId(reviewerId);
+    request.reviewedAt = new Date();
+    if (decision === AccessRequestStatus.REJECTED) {
+      request.rejectionReason = reason;
+    }
+    await request.save();
+
+    if (decision === AccessRequestStatus.APPROVED) {
+      await this.examModel
+        .updateOne(
+          { _id: exam._id },
+          { $addToSet: { enrolledCandidates: request.candidateId } },
+        )
+        .exec();
+    }
+
+    const candidate = await this.userModel
+      .findById(request.candidateId)
+      .select('name email')
+      .exec();
+    if (candidate) {
+      try {
+        await this.emailService.queueExamAccessDecisionEmail({
+          candidateName: candidate.name,
+          candidateEmail: candidate.email,
+          examId: exam._id.toString(),
+          examTitle: exam.title,
+          approved: decision === AccessRequestStatus.APPROVED,
+          reason:
+            decision === AccessRequestStatus.REJECTED ? reason : undefined,
+        });
+      } catch (error) {
+        this.logger.error('Failed to queue access decision email:', error);
+        // Don't fail the review if email queueing fails
+      }
+    }
+
+    return {
+      message:
+        decision === AccessRequestStatus.APPROVED
+          ? 'Request approved and candidate enrolled'
+          : 'Request rejected',
+      requestId: request._id,
+      candidateId: request.candidateId,
+      status: request.status,
+      reviewedAt: request.reviewedAt,
+    };
+  }
+}
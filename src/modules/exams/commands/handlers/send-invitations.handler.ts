@@ -13,6 +13,7 @@ import { Exam, ExamAccessMode } from '../../schemas/exam.schema';
 import { ExamInvitation, InvitationStatus } from '../../schemas/exam-invitation.schema';
 import { InvitationTokenService } from '../../services/invitation-token.service';
 import { EmailService } from '../../../email/services/email.service';
+import { AccommodationUtil } from '../../../../common/utils';
 
 interface InvitationResult {
   email: string;
@@ -128,6 +129,7 @@ export class SendInvitationsHandler
           accessCount: 0,
           invitedBy: userId,
           invitationNote,
+          accommodations: AccommodationUtil.normalize(candidate.accommodations),
         });
 
         await invitation.save();
@@ -0,0 +1,11 @@
+import { AssignExamSlotDto } from '../../dto/exam-slots.dto';
+
+export class AssignExamSlotCommand {
+  constructor(
+    public readonly examId: string,
+    public readonly slotId: string,
+    public readonly assignExamSlotDto: AssignExamSlotDto,
+    public readonly assignedBy: string,
+    public readonly organizationId: string,
+  ) {}
+}
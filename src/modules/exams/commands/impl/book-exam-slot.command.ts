@@ -0,0 +1,7 @@
+export class BookExamSlotCommand {
+  constructor(
+    public readonly examId: string,
+    public readonly slotId: string,
+    public readonly candidateId: string,
+  ) {}
+}
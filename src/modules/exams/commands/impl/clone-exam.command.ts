@@ -0,0 +1,11 @@
+import { CloneExamDto } from '../../dto/clone-exam.dto';
+
+export class CloneExamCommand {
+  constructor(
+    public readonly examId: string,
+    public readonly cloneExamDto: CloneExamDto,
+    public readonly userId: string,
+    public readonly userRole: string,
+    public readonly organizationId: string,
+  ) {}
+}
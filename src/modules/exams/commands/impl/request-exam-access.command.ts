@@ -0,0 +1,9 @@
+import { RequestExamAccessDto } from '../../dto/exam-access.dto';
+
+export class RequestExamAccessCommand {
+  constructor(
+    public readonly examId: string,
+    public readonly requestExamAccessDto: RequestExamAccessDto,
+    public readonly candidateId: string,
+  ) {}
+}
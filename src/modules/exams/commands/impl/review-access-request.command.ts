@@ -0,0 +1,14 @@
+import { AccessRequestStatus } from '../../schemas/exam-access-request.schema';
+
+export class ReviewAccessRequestCommand {
+  constructor(
+    public readonly examId: string,
+    public readonly requestId: string,
+    public readonly decision:
+      | AccessRequestStatus.APPROVED
+      | AccessRequestStatus.REJECTED,
+    public readonly reviewerId: string,
+    public readonly organizationId: string,
+    public readonly reason?: string,
+  ) {}
+}
@@ -1,33 +1,63 @@
-import { Controller, Post, Get, Put, Delete, Body, Param, UseGuards, Request, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Controller, Post, Get, Put, Delete, Body, Param, Query, UseGuards, Request, NotFoundException, ForbiddenException, BadRequestException, ParseIntPipe, StreamableFile } from '@nestjs/common';
 import { CommandBus } from '@nestjs/cqrs';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiParam, ApiResponse } from '@nestjs/swagger';
-import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { JwtOrApiKeyAuthGuard } from '../../../common/guards/jwt-or-api-key-auth.guard';
 import { RolesGuard } from '../../../common/guards/roles.guard';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/permissions.decorator';
+import { Permission } from '../../../common/utils/role-permissions.util';
 import { OrganizationGuard } from '../../../common/guards/organization.guard';
 import { Roles } from '../../../common/decorators/roles.decorator';
+import { ApiKeyScopes } from '../../../common/decorators/api-key-scopes.decorator';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
+import { ApiKeyScope } from '../../api-keys/schemas/api-key.schema';
 import { UserRole } from '../../users/schemas/user.schema';
 import { CreateExamCommand } from '../commands/impl/create-exam.command';
 import { AddQuestionsToExamCommand } from '../commands/impl/add-questions-to-exam.command';
 import { RemoveQuestionsFromExamCommand } from '../commands/impl/remove-questions-from-exam.command';
 import { EnrollCandidatesCommand } from '../commands/impl/enroll-candidates.command';
 import { SendInvitationsCommand } from '../commands/impl/send-invitations.command';
+import { CloneExamCommand } from '../commands/impl/clone-exam.command';
+import { ReviewAccessRequestCommand } from '../commands/impl/review-access-request.command';
+import { AssignExamSlotCommand } from '../commands/impl/assign-exam-slot.command';
 import { CreateExamDto } from '../dto/create-exam.dto';
 import { AddQuestionsDto } from '../dto/add-questions.dto';
 import { RemoveQuestionsDto } from '../dto/remove-questions.dto';
 import { EnrollCandidatesDto } from '../dto/enroll-candidates.dto';
 import { SendInvitationsDto } from '../dto/send-invitations.dto';
+import { UpdateExamStatusDto } from '../dto/update-exam-status.dto';
+import { CloneExamDto } from '../dto/clone-exam.dto';
+import {
+  AccessRequestsQueryDto,
+  ReviewAccessRequestDto,
+} from '../dto/exam-access.dto';
+import { SubmitPreviewDto } from '../dto/submit-preview.dto';
+import { AssignExamSlotDto, UpdateExamSlotsDto } from '../dto/exam-slots.dto';
 import { Exam } from '../schemas/exam.schema';
 import { Result } from '../../results/schemas/result.schema';
 import { ExamSession } from '../../proctoring/schemas/exam-session.schema';
 import { Violation } from '../../proctoring/schemas/violation.schema';
 import { User } from '../../users/schemas/user.schema';
 import { Question } from '../../questions/schemas/question.schema';
+import { GradingService } from '../../results/services/grading.service';
+import { ExamLifecycleService } from '../services/exam-lifecycle.service';
+import { ExamVersionService } from '../services/exam-version.service';
+import { ExamAccessService } from '../services/exam-access.service';
+import { ExamPreviewService } from '../services/exam-preview.service';
+import { ExamSlotService } from '../services/exam-slot.service';
+import { AccessRequestStatus } from '../schemas/exam-access-request.schema';
+import { QtiUtil } from '../../../common/utils/qti.util';
 
 @ApiTags('exams')
 @Controller('exams')
-@UseGuards(JwtAuthGuard, RolesGuard, OrganizationGuard)
+@UseGuards(
+  JwtOrApiKeyAuthGuard,
+  RolesGuard,
+  PermissionsGuard,
+  OrganizationGuard,
+)
 export class ExamsController {
   constructor(
     private readonly commandBus: CommandBus,
@@ -37,10 +67,17 @@ export class ExamsController {
     @InjectModel(ExamSession.name) private sessionModel: Model<ExamSession>,
     @InjectModel(Violation.name) private violationModel: Model<Violation>,
     @InjectModel(User.name) private userModel: Model<User>,
+    private readonly gradingService: GradingService,
+    private readonly examLifecycleService: ExamLifecycleService,
+    private readonly examVersionService: ExamVersionService,
+    private readonly examAccessService: ExamAccessService,
+    private readonly examPreviewService: ExamPreviewService,
+    private readonly examSlotService: ExamSlotService,
   ) {}
 
   @Post()
   @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.EXAMS_CREATE)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Create a new exam' })
   @ApiResponse({ status: 201, description: 'Exam created successfully' })
@@ -59,6 +96,7 @@ export class ExamsController {
 
   @Get()
   @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @ApiKeyScopes(ApiKeyScope.RESULTS_READ, ApiKeyScope.INVITATIONS_MANAGE)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get all exams within your organization' })
   @ApiResponse({ status: 200, description: 'Exams retrieved successfully' })
@@ -86,7 +124,7 @@ export class ExamsController {
   }
 
   @Get(':id')
-  @UseGuards(JwtAuthGuard)
+  @ApiKeyScopes(ApiKeyScope.RESULTS_READ, ApiKeyScope.INVITATIONS_MANAGE)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get exam by ID' })
   @ApiParam({ name: 'id', description: 'Exam ID' })
@@ -134,6 +172,8 @@ export class ExamsController {
 
   @Post(':id/questions')
   @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.EXAMS_UPDATE)
+  @ApiKeyScopes(ApiKeyScope.QUESTIONS_MANAGE)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Add questions to an exam' })
   @ApiParam({ name: 'id', description: 'Exam ID' })
@@ -156,6 +196,9 @@ export class ExamsController {
 
   @Delete(':id/questions')
   @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.EXAMS_UPDATE)
+  @BlockImpersonation()
+  @ApiKeyScopes(ApiKeyScope.QUESTIONS_MANAGE)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Remove questions from an exam' })
   @ApiParam({ name: 'id', description: 'Exam ID' })
@@ -176,8 +219,242 @@ export class ExamsController {
     );
   }
 
+  @Post(':id/status')
+  @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.EXAMS_UPDATE)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Change exam status',
+    description:
+      'Moves the exam along its lifecycle (e.g. DRAFT -> PUBLISHED, ACTIVE -> COMPLETED). ' +
+      'Exams with a schedule are also activated and completed automatically. ' +
+      'Completing an exam auto-submits sessions still in progress.',
+  })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiResponse({ status: 201, description: 'Exam status updated' })
+  @ApiResponse({ status: 400, description: 'Transition not allowed' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not the creator' })
+  async updateExamStatus(
+    @Param('id') examId: string,
+    @Body() updateExamStatusDto: UpdateExamStatusDto,
+    @Request() req,
+  ) {
+    if (!Types.ObjectId.isValid(examId)) {
+      throw new BadRequestException('Invalid exam ID format');
+    }
+
+    const exam = await this.examModel.findById(examId).exec();
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (
+      exam.organizationId?.toString() !== req.user.organizationId ||
+      (req.user.role !== UserRole.ORG_ADMIN &&
+        exam.createdBy.toString() !== req.user.id)
+    ) {
+      throw new ForbiddenException(
+        'You are not authorized to change the status of this exam',
+      );
+    }
+
+    const updated = await this.examLifecycleService.transition(
+      examId,
+      updateExamStatusDto.status,
+      req.user.id,
+      updateExamStatusDto.reason,
+    );
+
+    return {
+      message: `Exam moved from ${exam.status} to ${updated.status}`,
+      examId,
+      status: updated.status,
+      publishedAt: updated.publishedAt,
+      completedAt: updated.completedAt,
+    };
+  }
+
+  @Post(':id/clone')
+  @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.EXAMS_CREATE)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Clone an exam',
+    description:
+      'Copies questions, pools, sections, grading, proctoring and settings ' +
+      'into a new DRAFT exam with the given code. Candidates, invitations ' +
+      'and stats are not copied.',
+  })
+  @ApiParam({ name: 'id', description: 'Exam ID to clone' })
+  @ApiResponse({ status: 201, description: 'Exam cloned successfully' })
+  @ApiResponse({ status: 404, description: 'Exam not found' })
+  @ApiResponse({ status: 409, description: 'Exam code already exists' })
+  async cloneExam(
+    @Param('id') examId: string,
+    @Body() cloneExamDto: CloneExamDto,
+    @Request() req,
+  ) {
+    if (!Types.ObjectId.isValid(examId)) {
+      throw new BadRequestException('Invalid exam ID format');
+    }
+
+    return this.commandBus.execute(
+      new CloneExamCommand(
+        examId,
+        cloneExamDto,
+        req.user.id,
+        req.user.role,
+        req.user.organizationId,
+      ),
+    );
+  }
+
+  @Get(':id/versions')
+  @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List exam versions',
+    description:
+      'A version is recorded when the exam is published and on every edit ' +
+      'after that. Results record the version the candidate sat.',
+  })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiResponse({ status: 200, description: 'Versions retrieved successfully' })
+  async getExamVersions(@Param('id') examId: string, @Request() req) {
+    const exam = await this.findExamForVersions(examId, req);
+    const versions = await this.examVersionService.listVersions(examId);
+
+    return {
+      examId,
+      currentVersion: exam.version || 1,
+      data: versions,
+      total: versions.length,
+    };
+  }
+
+  @Get(':id/versions/:version')
+  @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the snapshot of an exam version' })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiParam({ name: 'version', description: 'Version number' })
+  @ApiResponse({ status: 200, description: 'Version retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Version not found' })
+  async getExamVersion(
+    @Param('id') examId: string,
+    @Param('version', ParseIntPipe) version: number,
+    @Request() req,
+  ) {
+    await this.findExamForVersions(examId, req);
+    return this.examVersionService.getVersion(examId, version);
+  }
+
+  @Get(':id/export/qti')
+  @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Export exam questions as a QTI 2.1 package',
+    description:
+      'Returns a zip with imsmanifest.xml, an assessmentTest with one ' +
+      'section per exam section and an assessmentItem per question. ' +
+      'Questions drawn from question pools are not part of the package.',
+  })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiResponse({ status: 200, description: 'QTI package (application/zip)' })
+  @ApiResponse({ status: 400, description: 'Exam has no fixed questions' })
+  async exportExamQti(@Param('id') examId: string, @Request() req) {
+    const exam = await this.findExamForExport(examId, req);
+
+    const sections = exam.sections?.length
+      ? exam.sections.map((section) => ({
+          title: section.name,
+          ids: section.questions,
+        }))
+      : [{ title: exam.title, ids: exam.questions }];
+    const questions = await this.questionModel
+      .find({ _id: { $in: sections.flatMap((section) => section.ids) } })
+      .exec();
+    if (!questions.length) {
+      throw new BadRequestException('This exam has no questions to export');
+    }
+
+    const byId = new Map(questions.map((q) => [q._id.toString(), q]));
+    const archive = QtiUtil.buildPackage({
+      identifier: `TEST_${exam._id}`,
+      title: exam.title,
+      sections: sections.map(({ title, ids }) => ({
+        title,
+        questions: ids
+          .map((id) => byId.get(id.toString()))
+          .filter((question) => question),
+      })),
+    });
+
+    return new StreamableFile(archive, {
+      type: 'application/zip',
+      disposition: `attachment; filename="${exam.code || 'exam'}-qti.zip"`,
+    });
+  }
+
+  @Post(':id/preview/start')
+  @Roles(UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.EXAMS_UPDATE)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Start a preview of an exam',
+    description:
+      'Starts a dry-run session served exactly as a candidate would see it. ' +
+      'Answer it through the candidate endpoints; it never creates a result ' +
+      'or appears in analytics, and is deleted after 24 hours.',
+  })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiResponse({ status: 201, description: 'Preview session started' })
+  @ApiResponse({ status: 404, description: 'Exam not found' })
+  async startPreview(@Param('id') examId: string, @Request() req) {
+    return this.examPreviewService.start(
+      examId,
+      req.user.id,
+      req.user.organizationId,
+    );
+  }
+
+  @Post(':id/preview/:sessionId/submit')
+  @Roles(UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.RESULTS_GRADE)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Submit a preview session',
+    description:
+      'Grades the preview with the same pipeline as a real attempt and ' +
+      'returns the score breakdown without storing a result.',
+  })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiParam({ name: 'sessionId', description: 'Preview session ID' })
+  @ApiResponse({ status: 201, description: 'Preview graded' })
+  @ApiResponse({ status: 404, description: 'Preview session not found' })
+  async submitPreview(
+    @Param('id') examId: string,
+    @Param('sessionId') sessionId: string,
+    @Body() submitPreviewDto: SubmitPreviewDto,
+    @Request() req,
+  ) {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      throw new BadRequestException('Invalid session ID format');
+    }
+
+    return this.examPreviewService.submit(
+      examId,
+      sessionId,
+      req.user.id,
+      req.user.organizationId,
+      submitPreviewDto.answers,
+    );
+  }
+
   @Delete(':id')
   @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.EXAMS_DELETE)
+  @BlockImpersonation()
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Delete an exam' })
   @ApiParam({ name: 'id', description: 'Exam ID' })
@@ -211,6 +488,7 @@ export class ExamsController {
 
   @Post(':id/enroll-candidates')
   @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.CANDIDATES_ENROLL)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Bulk enroll candidates to an exam' })
   @ApiParam({ name: 'id', description: 'Exam ID' })
@@ -254,6 +532,7 @@ export class ExamsController {
 
   @Post(':id/unenroll-candidates')
   @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.CANDIDATES_ENROLL)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Unenroll candidates from an exam' })
   @ApiParam({ name: 'id', description: 'Exam ID' })
@@ -305,6 +584,7 @@ export class ExamsController {
     const unenrolledCount = originalCount - exam.enrolledCandidates.length;
 
     await exam.save();
+    await this.examSlotService.releaseSeats(examId, validCandidateIds);
 
     return {
       message: 'Candidates unenrolled successfully',
@@ -312,8 +592,209 @@ export class ExamsController {
     };
   }
 
+  @Get(':id/access-requests')
+  @Roles(UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.CANDIDATES_ENROLL)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List requests to join an approval-gated exam',
+    description: 'Returns pending requests unless another status is given',
+  })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiResponse({ status: 200, description: 'Requests retrieved successfully' })
+  async getAccessRequests(
+    @Param('id') examId: string,
+    @Query() query: AccessRequestsQueryDto,
+    @Request() req,
+  ) {
+    if (!Types.ObjectId.isValid(examId)) {
+      throw new BadRequestException('Invalid exam ID format');
+    }
+
+    const exam = await this.examModel
+      .findById(examId)
+      .select('organizationId')
+      .exec();
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (exam.organizationId?.toString() !== req.user.organizationId) {
+      throw new ForbiddenException(
+        'You are not authorized to view requests for this exam',
+      );
+    }
+
+    const requests = await this.examAccessService.listRequests(
+      examId,
+      query.status || AccessRequestStatus.PENDING,
+    );
+
+    return {
+      data: requests.map((request) => ({
+        id: request._id,
+        candidate: request.candidateId,
+        status: request.status,
+        message: request.message,
+        reviewedBy: request.reviewedBy,
+        reviewedAt: request.reviewedAt,
+        rejectionReason: request.rejectionReason,
+        requestedAt: (request as any).createdAt,
+      })),
+      total: requests.length,
+    };
+  }
+
+  @Post(':id/access-requests/:requestId/approve')
+  @Roles(UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.CANDIDATES_ENROLL)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Approve a request to join and enroll the candidate',
+  })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiParam({ name: 'requestId', description: 'Access request ID' })
+  @ApiResponse({ status: 200, description: 'Request approved' })
+  @ApiResponse({ status: 404, description: 'Request not found' })
+  async approveAccessRequest(
+    @Param('id') examId: string,
+    @Param('requestId') requestId: string,
+    @Request() req,
+  ) {
+    if (!Types.ObjectId.isValid(examId) || !Types.ObjectId.isValid(requestId)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+
+    return this.commandBus.execute(
+      new ReviewAccessRequestCommand(
+        examId,
+        requestId,
+        AccessRequestStatus.APPROVED,
+        req.user.id,
+        req.user.organizationId,
+      ),
+    );
+  }
+
+  @Post(':id/access-requests/:requestId/reject')
+  @Roles(UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.CANDIDATES_ENROLL)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Reject a request to join' })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiParam({ name: 'requestId', description: 'Access request ID' })
+  @ApiResponse({ status: 200, description: 'Request rejected' })
+  @ApiResponse({ status: 404, description: 'Request not found' })
+  async rejectAccessRequest(
+    @Param('id') examId: string,
+    @Param('requestId') requestId: string,
+    @Body() reviewAccessRequestDto: ReviewAccessRequestDto,
+    @Request() req,
+  ) {
+    if (!Types.ObjectId.isValid(examId) || !Types.ObjectId.isValid(requestId)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+
+    return this.commandBus.execute(
+      new ReviewAccessRequestCommand(
+        examId,
+        requestId,
+        AccessRequestStatus.REJECTED,
+        req.user.id,
+        req.user.organizationId,
+        reviewAccessRequestDto.reason,
+      ),
+    );
+  }
+
+  @Get(':id/slots')
+  @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List exam slots with their bookings' })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiResponse({ status: 200, description: 'Slots retrieved successfully' })
+  async getExamSlots(@Param('id') examId: string, @Request() req) {
+    const exam = await this.findExamForSlots(examId, req);
+    const slots = await this.examSlotService.listSlots(exam);
+
+    return {
+      examId,
+      data: slots,
+      total: slots.length,
+    };
+  }
+
+  @Put(':id/slots')
+  @Roles(UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.EXAMS_UPDATE)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Set the slots of an exam',
+    description:
+      'Replaces the list of slots. Each slot has its own window and seat ' +
+      'capacity, which may not exceed the concurrent candidates allowed by ' +
+      'the organization plan. Booked slots cannot be removed.',
+  })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiResponse({ status: 200, description: 'Slots updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid slot' })
+  async updateExamSlots(
+    @Param('id') examId: string,
+    @Body() updateExamSlotsDto: UpdateExamSlotsDto,
+    @Request() req,
+  ) {
+    const exam = await this.findExamForSlots(examId, req);
+    const slots = await this.examSlotService.updateSlots(
+      exam,
+      updateExamSlotsDto.slots,
+    );
+
+    return {
+      message: 'Slots updated successfully',
+      data: slots,
+      total: slots.length,
+    };
+  }
+
+  @Post(':id/slots/:slotId/assign')
+  @Roles(UserRole.ORG_ADMIN)
+  @RequirePermissions(Permission.CANDIDATES_ENROLL)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Assign candidates to a slot',
+    description:
+      'Seats enrolled candidates in the slot, moving any earlier booking. ' +
+      'Candidates who are not enrolled, or who do not fit, are skipped.',
+  })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiParam({ name: 'slotId', description: 'Slot ID' })
+  @ApiResponse({ status: 201, description: 'Candidates assigned' })
+  @ApiResponse({ status: 404, description: 'Slot not found' })
+  async assignExamSlot(
+    @Param('id') examId: string,
+    @Param('slotId') slotId: string,
+    @Body() assignExamSlotDto: AssignExamSlotDto,
+    @Request() req,
+  ) {
+    if (!Types.ObjectId.isValid(examId) || !Types.ObjectId.isValid(slotId)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+
+    return this.commandBus.execute(
+      new AssignExamSlotCommand(
+        examId,
+        slotId,
+        assignExamSlotDto,
+        req.user.id,
+        req.user.organizationId,
+      ),
+    );
+  }
+
   @Post(':id/invitations')
   @Roles(UserRole.ORG_ADMIN, UserRole.RECRUITER)
+  @RequirePermissions(Permission.INVITATIONS_SEND)
+  @ApiKeyScopes(ApiKeyScope.INVITATIONS_MANAGE)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Send exam invitations',
@@ -364,8 +845,55 @@ export class ExamsController {
     );
   }
 
+  @Post(':id/results/publish')
+  @Roles(UserRole.ORG_ADMIN, UserRole.RECRUITER)
+  @RequirePermissions(Permission.RESULTS_PUBLISH)
+  @BlockImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Publish graded results',
+    description:
+      'Marks all graded results as published and emails candidates their results',
+  })
+  @ApiParam({ name: 'id', description: 'Exam ID' })
+  @ApiResponse({ status: 201, description: 'Results published successfully' })
+  @ApiResponse({ status: 404, description: 'Exam not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async publishResults(@Param('id') examId: string, @Request() req) {
+    if (!Types.ObjectId.isValid(examId)) {
+      throw new BadRequestException('Invalid exam ID format');
+    }
+
+    const exam = await this.examModel.findById(examId).exec();
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (
+      req.user.role !== UserRole.ORG_ADMIN &&
+      exam.createdBy.toString() !== req.user.id
+    ) {
+      throw new ForbiddenException(
+        'You are not authorized to publish these results',
+      );
+    }
+
+    const summary = await this.gradingService.publishResults(examId);
+
+    return {
+      message: 'Results published successfully',
+      examId,
+      ...summary,
+    };
+  }
+
   @Get(':id/results')
   @Roles(UserRole.ORG_ADMIN, UserRole.RECRUITER)
+  @RequirePermissions(Permission.RESULTS_VIEW)
+  @ApiKeyScopes(ApiKeyScope.RESULTS_READ)
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Get exam results with analytics',
@@ -400,7 +928,7 @@ export class ExamsController {
 
     // Fetch all sessions for duration calculation
     const sessions = await this.sessionModel
-      .find({ examId: examId })
+      .find({ examId: examId, isPreview: { $ne: true } })
       .exec();
 
     // Create session map for quick lookup
@@ -469,6 +997,9 @@ export class ExamsController {
           detectedAt: v.detectedAt,
         })),
         isPassed: result.scoring?.passed || false,
+        attemptNumber: result.attemptNumber || 1,
+        isCountedAttempt: result.isCountedAttempt !== false,
+        examVersion: result.examVersion,
       };
     });
 
@@ -540,6 +1071,8 @@ export class ExamsController {
 
   @Get(':examId/results/:resultId')
   @Roles(UserRole.ORG_ADMIN, UserRole.RECRUITER)
+  @RequirePermissions(Permission.RESULTS_VIEW)
+  @ApiKeyScopes(ApiKeyScope.RESULTS_READ)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Get detailed result for a specific candidate' })
   @ApiParam({ name: 'examId', description: 'Exam ID' })
@@ -617,6 +1150,7 @@ export class ExamsController {
         passingMarks: (exam as any).grading?.passingMarks,
         settings: (exam as any).settings,
         schedule: (exam as any).schedule,
+        version: result.examVersion,
       },
       candidate: {
         name: candidateName,
@@ -660,4 +1194,65 @@ export class ExamsController {
       createdAt: (result as any).createdAt,
     };
   }
+
+  private async findExamForSlots(examId: string, req) {
+    if (!Types.ObjectId.isValid(examId)) {
+      throw new BadRequestException('Invalid exam ID format');
+    }
+
+    const exam = await this.examModel.findById(examId).exec();
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (exam.organizationId?.toString() !== req.user.organizationId) {
+      throw new ForbiddenException(
+        'You are not authorized to manage slots for this exam',
+      );
+    }
+
+    return exam;
+  }
+
+  private async findExamForExport(examId: string, req) {
+    if (!Types.ObjectId.isValid(examId)) {
+      throw new BadRequestException('Invalid exam ID format');
+    }
+
+    const exam = await this.examModel.findById(examId).exec();
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (exam.organizationId?.toString() !== req.user.organizationId) {
+      throw new ForbiddenException(
+        'You are not authorized to export this exam',
+      );
+    }
+
+    return exam;
+  }
+
+  private async findExamForVersions(examId: string, req) {
+    if (!Types.ObjectId.isValid(examId)) {
+      throw new BadRequestException('Invalid exam ID format');
+    }
+
+    const exam = await this.examModel.findById(examId).exec();
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (
+      exam.organizationId?.toString() !== req.user.organizationId ||
+      (req.user.role !== UserRole.ORG_ADMIN &&
+        exam.createdBy.toString() !== req.user.id)
+    ) {
+      throw new ForbiddenException(
+        'You are not authorized to view versions of this exam',
+      );
+    }
+
+    return exam;
+  }
 }
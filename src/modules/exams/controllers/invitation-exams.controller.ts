@@ -20,6 +20,14 @@ import { Exam } from '../schemas/exam.schema';
 import { Question } from '../../questions/schemas/question.schema';
 import { ExamSession, SessionStatus } from '../../proctoring/schemas/exam-session.schema';
 import { InvitationJWTPayload } from '../../auth/strategies/invitation-jwt.strategy';
+import { QuestionSetService } from '../../question-pools/services/question-set.service';
+import { AdaptiveTestingService } from '../../question-pools/services/adaptive-testing.service';
+import { SessionTimerService } from '../../proctoring/services/session-timer.service';
+import { SectionNavigationUtil } from '../../../common/utils/section-navigation.util';
+import { AccommodationUtil } from '../../../common/utils/accommodation.util';
+import { CandidateQuestionUtil } from '../../../common/utils/candidate-question.util';
+import { ExamSlotService } from '../services/exam-slot.service';
+import { STARTABLE_EXAM_STATUSES } from '../services/exam-lifecycle.service';
 
 @ApiTags('invitation-exams')
 @Controller('exams/invitation')
@@ -31,6 +39,10 @@ export class InvitationExamsController {
     @InjectModel(Question.name) private readonly questionModel: Model<Question>,
     @InjectModel(ExamSession.name)
     private readonly examSessionModel: Model<ExamSession>,
+    private readonly questionSetService: QuestionSetService,
+    private readonly adaptiveTestingService: AdaptiveTestingService,
+    private readonly sessionTimerService: SessionTimerService,
+    private readonly examSlotService: ExamSlotService,
   ) {}
 
   /**
@@ -79,7 +91,10 @@ export class InvitationExamsController {
     let reason = '';
 
     // Check schedule
-    if (startDate && now < startDate) {
+    if (!STARTABLE_EXAM_STATUSES.includes(exam.status)) {
+      canStart = false;
+      reason = 'This exam is not open for attempts';
+    } else if (startDate && now < startDate) {
       canStart = false;
       reason = `Exam has not started yet. Starts on ${startDate.toLocaleString()}`;
     } else if (endDate && now > endDate && !exam.schedule?.lateSubmissionAllowed) {
@@ -88,7 +103,7 @@ export class InvitationExamsController {
     }
 
     // Check if exam has questions
-    if (!exam.questions || exam.questions.length === 0) {
+    if (this.questionSetService.getQuestionCount(exam) === 0) {
       canStart = false;
       reason = 'This exam has no questions. Please contact the administrator.';
     }
@@ -101,7 +116,7 @@ export class InvitationExamsController {
         description: exam.description,
         duration: exam.duration,
         category: exam.category,
-        totalQuestions: exam.questions?.length || 0,
+        totalQuestions: this.questionSetService.getQuestionCount(exam),
         totalMarks: exam.grading?.totalMarks,
         passingMarks: exam.grading?.passingMarks,
         instructions: this.getExamInstructions(exam),
@@ -156,6 +171,17 @@ export class InvitationExamsController {
         invitation.sessionId
       );
 
+      if (
+        existingSession &&
+        existingSession.status === SessionStatus.IN_PROGRESS &&
+        this.sessionTimerService.isExpired(existingSession)
+      ) {
+        await this.sessionTimerService.timeOut(existingSession);
+        throw new BadRequestException(
+          'Exam time is over. Your saved answers were submitted automatically.',
+        );
+      }
+
       if (
         existingSession &&
         existingSession.status === SessionStatus.IN_PROGRESS
@@ -163,6 +189,16 @@ export class InvitationExamsController {
         // Allow continuing the exam - load questions for resume
         const exam = await this.examModel.findById(invitation.examId);
 
+        // A section may have run out while the candidate was away
+        const now = new Date();
+        if (
+          SectionNavigationUtil.isSectioned(existingSession) &&
+          SectionNavigationUtil.syncExpired(existingSession, now)
+        ) {
+          existingSession.markModified('sections');
+          await existingSession.save();
+        }
+
         // Load questions based on the original question order from session
         const questions = await this.questionModel
           .find({
@@ -175,12 +211,15 @@ export class InvitationExamsController {
           questions.find((q) => q._id.toString() === qId.toString())
         ).filter(Boolean);
 
-        // Remove correct answers from questions
-        const shuffledQuestions = orderedQuestions.map((question: any) => {
-          const questionObj = question.toObject();
-          const { correctAnswer, ...questionWithoutAnswer } = questionObj;
-          return questionWithoutAnswer;
-        });
+        // Only the candidate view of each question leaves the server, and
+        // only for sections the candidate has reached
+        const shuffledQuestions = CandidateQuestionUtil.serializeMany(
+          SectionNavigationUtil.servedQuestions(
+            existingSession,
+            orderedQuestions,
+            now,
+          ),
+        );
 
         // Generate temporary JWT
         const temporaryToken = await this.generateTemporaryJWT(
@@ -195,12 +234,19 @@ export class InvitationExamsController {
           exam: {
             _id: exam._id,
             title: exam.title,
-            duration: exam.duration,
-            totalMarks: exam.grading.totalMarks,
+            duration: AccommodationUtil.durationMinutes(
+              exam.duration,
+              existingSession.accommodations,
+            ),
+            totalMarks: this.questionSetService.getTotalMarks(exam, questions),
           },
+          accommodations: existingSession.accommodations,
           questions: shuffledQuestions,
+          sections: SectionNavigationUtil.describe(existingSession),
+          answers: existingSession.answers,
           startTime: existingSession.startTime,
           endTime: existingSession.endTime,
+          timer: this.sessionTimerService.getTimer(existingSession, now),
           proctoringSettings: exam.proctoringSettings,
         };
       }
@@ -214,6 +260,10 @@ export class InvitationExamsController {
     }
 
     // Validate exam can be started
+    if (!STARTABLE_EXAM_STATUSES.includes(exam.status)) {
+      throw new BadRequestException('This exam is not open for attempts');
+    }
+
     const now = new Date();
     const startDate = exam.schedule?.startDate
       ? new Date(exam.schedule.startDate)
@@ -234,8 +284,86 @@ export class InvitationExamsController {
       throw new BadRequestException('Exam has ended');
     }
 
-    // Check if exam has questions
-    if (!exam.questions || exam.questions.length === 0) {
+    // The organization's plan caps how many candidates sit exams at once
+    const concurrency = await this.examSlotService.checkConcurrency(
+      exam.organizationId,
+      now,
+    );
+    if (!concurrency.allowed) {
+      throw new BadRequestException(
+        'The maximum number of candidates are taking exams right now, please try again shortly',
+      );
+    }
+
+    // Extra time and breaks the candidate is entitled to
+    const accommodations = AccommodationUtil.normalize(
+      invitation.accommodations,
+    );
+    const duration = AccommodationUtil.durationMinutes(
+      exam.duration,
+      accommodations,
+    );
+
+    // Adaptive exams serve questions one at a time through next-question
+    if (this.questionSetService.isAdaptive(exam)) {
+      const startTime = new Date();
+      const session = await this.examSessionModel.create({
+        examId: exam._id,
+        candidateId: null,
+        accessSource: 'INVITATION',
+        invitationId: invitation._id,
+        guestCandidateInfo: {
+          email: invitation.candidateEmail,
+          name: invitation.candidateName,
+          phone: invitation.candidatePhone,
+        },
+        examVersion: exam.version || 1,
+        status: SessionStatus.IN_PROGRESS,
+        startTime,
+        endTime: new Date(startTime.getTime() + duration * 60 * 1000),
+        accommodations,
+        breaks: [],
+        answers: [],
+        violations: [],
+        warningCount: 0,
+        questionOrder: [],
+        adaptive: this.adaptiveTestingService.initialState(),
+      });
+
+      await this.invitationTokenService.markAsStarted(
+        invitation._id.toString(),
+        session._id.toString(),
+      );
+
+      return {
+        message: 'Exam started successfully',
+        temporaryToken: await this.generateTemporaryJWT(invitation, exam),
+        sessionId: session._id,
+        exam: {
+          _id: exam._id,
+          title: exam.title,
+          duration,
+          totalMarks: this.questionSetService.getTotalMarks(exam, []),
+        },
+        accommodations,
+        adaptive: {
+          maxQuestions: this.questionSetService.getQuestionCount(exam),
+        },
+        questions: [],
+        startTime: session.startTime,
+        endTime: session.endTime,
+        proctoringSettings: exam.proctoringSettings,
+      };
+    }
+
+    // Static question list, or a per-candidate draw for pool-based exams
+    const { questionIds, sections: drawnSections } =
+      await this.questionSetService.drawQuestionSet(
+        exam._id.toString(),
+        invitation._id.toString(),
+      );
+
+    if (questionIds.length === 0) {
       throw new BadRequestException(
         'This exam has no questions. Please contact the administrator.'
       );
@@ -244,7 +372,7 @@ export class InvitationExamsController {
     // Load questions
     const questions = await this.questionModel
       .find({
-        _id: { $in: exam.questions },
+        _id: { $in: questionIds },
       })
       .exec();
 
@@ -252,29 +380,39 @@ export class InvitationExamsController {
       throw new BadRequestException('No questions found for this exam');
     }
 
-    // Shuffle questions if required
+    // Shuffle questions if required (within each section for sectioned exams)
     let processedQuestions = questions.map((q) => q.toObject());
-
-    if (exam.settings?.shuffleQuestions) {
+    const startTime = new Date();
+    let sections = [];
+
+    if (drawnSections.length > 0) {
+      const arranged = SectionNavigationUtil.arrange(
+        drawnSections.map((section) => ({
+          ...section,
+          duration: AccommodationUtil.sectionMinutes(
+            section.duration,
+            accommodations,
+          ),
+        })),
+        processedQuestions,
+        startTime,
+        (sectionQuestions) =>
+          exam.settings?.shuffleQuestions
+            ? this.shuffleArray(sectionQuestions)
+            : sectionQuestions,
+      );
+      processedQuestions = arranged.questions;
+      sections = arranged.sections;
+    } else if (exam.settings?.shuffleQuestions) {
       processedQuestions = this.shuffleArray(processedQuestions);
     }
 
-    // Shuffle options and remove correct answers
-    const shuffledQuestions = processedQuestions.map((question: any) => {
-      let options = question.options || [];
-
-      if (exam.settings?.shuffleOptions && options.length > 0) {
-        options = this.shuffleArray([...options]);
-      }
-
-      // Remove correctAnswer from response
-      const { correctAnswer, ...questionWithoutAnswer } = question;
-
-      return {
-        ...questionWithoutAnswer,
-        options,
-      };
-    });
+    // Only the candidate view leaves the server; shuffle options if required
+    const shuffledQuestions = CandidateQuestionUtil.serializeMany(
+      processedQuestions,
+      (options) =>
+        exam.settings?.shuffleOptions ? this.shuffleArray(options) : options,
+    );
 
     // Create exam session
     const session = new this.examSessionModel({
@@ -287,13 +425,18 @@ export class InvitationExamsController {
         name: invitation.candidateName,
         phone: invitation.candidatePhone,
       },
+      examVersion: exam.version || 1,
       status: SessionStatus.IN_PROGRESS,
-      startTime: new Date(),
-      endTime: new Date(Date.now() + exam.duration * 60 * 1000),
+      startTime,
+      endTime: new Date(startTime.getTime() + duration * 60 * 1000),
+      accommodations,
+      breaks: [],
       answers: [],
       violations: [],
       warningCount: 0,
       questionOrder: shuffledQuestions.map((q) => q._id),
+      sections,
+      currentSectionIndex: 0,
     });
 
     await session.save();
@@ -314,10 +457,17 @@ export class InvitationExamsController {
       exam: {
         _id: exam._id,
         title: exam.title,
-        duration: exam.duration,
-        totalMarks: exam.grading.totalMarks,
+        duration,
+        totalMarks: this.questionSetService.getTotalMarks(exam, questions),
       },
-      questions: shuffledQuestions,
+      accommodations,
+      // Later sections are served as the candidate reaches them
+      questions: SectionNavigationUtil.servedQuestions(
+        session,
+        shuffledQuestions,
+        startTime,
+      ),
+      sections: SectionNavigationUtil.describe(session),
       startTime: session.startTime,
       endTime: session.endTime,
       proctoringSettings: exam.proctoringSettings,
@@ -326,11 +476,19 @@ export class InvitationExamsController {
 
   /**
    * Generate temporary JWT for guest exam access
-   * Valid only for the duration of the exam + 15 minute buffer
+   * Valid only for the duration of the exam + 15 minute buffer. Accommodated
+   * candidates also get their extra time and break minutes.
    */
   private async generateTemporaryJWT(invitation: any, exam: any): Promise<string> {
     // Calculate JWT expiry (exam end time + 15 minute buffer)
-    const examDurationMs = exam.duration * 60 * 1000;
+    const accommodations = AccommodationUtil.normalize(
+      invitation.accommodations,
+    );
+    const examDurationMs =
+      (AccommodationUtil.durationMinutes(exam.duration, accommodations) +
+        (accommodations?.breakMinutes || 0)) *
+      60 *
+      1000;
     const bufferMs = 15 * 60 * 1000; // 15 minutes
     const expiresAt = Date.now() + examDurationMs + bufferMs;
 
@@ -362,7 +520,9 @@ export class InvitationExamsController {
     const instructions: string[] = [];
 
     instructions.push(`Duration: ${exam.duration} minutes`);
-    instructions.push(`Total Questions: ${exam.questions?.length || 0}`);
+    instructions.push(
+      `Total Questions: ${this.questionSetService.getQuestionCount(exam)}`,
+    );
     instructions.push(`Total Marks: ${exam.grading?.totalMarks}`);
     instructions.push(`Passing Marks: ${exam.grading?.passingMarks}`);
 
@@ -14,9 +14,14 @@ import {
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { ApiTags, ApiOperation, ApiParam, ApiQuery, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
-import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { JwtOrApiKeyAuthGuard } from '../../../common/guards/jwt-or-api-key-auth.guard';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/permissions.decorator';
+import { Permission } from '../../../common/utils/role-permissions.util';
 import { RolesGuard } from '../../auth/guards/roles.guard';
 import { Roles } from '../../auth/decorators/roles.decorator';
+import { ApiKeyScopes } from '../../../common/decorators/api-key-scopes.decorator';
+import { ApiKeyScope } from '../../api-keys/schemas/api-key.schema';
 import { UserRole } from '../../users/schemas/user.schema';
 import { Exam } from '../schemas/exam.schema';
 import { ExamInvitation, InvitationStatus } from '../schemas/exam-invitation.schema';
@@ -31,7 +36,7 @@ interface ShortlistDto {
 
 @ApiTags('recruitment-results')
 @Controller('exams/:examId/recruitment-results')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtOrApiKeyAuthGuard, RolesGuard, PermissionsGuard)
 @ApiBearerAuth()
 export class RecruitmentResultsController {
   constructor(
@@ -48,6 +53,8 @@ export class RecruitmentResultsController {
    */
   @Get()
   @Roles(UserRole.ORG_ADMIN, UserRole.RECRUITER)
+  @RequirePermissions(Permission.RESULTS_VIEW)
+  @ApiKeyScopes(ApiKeyScope.RESULTS_READ)
   @ApiOperation({
     summary: 'Get recruitment exam results',
     description: 'Get all invitation-based results for a recruitment exam',
@@ -186,6 +193,7 @@ export class RecruitmentResultsController {
    */
   @Post('shortlist')
   @Roles(UserRole.ORG_ADMIN, UserRole.RECRUITER)
+  @RequirePermissions(Permission.CANDIDATES_SHORTLIST)
   @ApiOperation({
     summary: 'Shortlist or reject recruitment candidates',
     description: 'Update shortlisting decision for multiple candidates',
@@ -255,6 +263,8 @@ export class RecruitmentResultsController {
    */
   @Get('export')
   @Roles(UserRole.ORG_ADMIN, UserRole.RECRUITER)
+  @RequirePermissions(Permission.RESULTS_EXPORT)
+  @ApiKeyScopes(ApiKeyScope.RESULTS_READ)
   @ApiOperation({
     summary: 'Export recruitment results',
     description: 'Download recruitment exam results as CSV',
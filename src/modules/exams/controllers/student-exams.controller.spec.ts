@@ -0,0 +1,343 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { CommandBus } from '@nestjs/cqrs';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { StudentExamsController } from './student-exams.controller';
+import { Exam, ExamStatus } from '../schemas/exam.schema';
+import { Question } from '../../questions/schemas/question.schema';
+import {
+  ExamSession,
+  ExamSessionSchema,
+  SessionStatus,
+} from '../../proctoring/schemas/exam-session.schema';
+import { Violation } from '../../proctoring/schemas/violation.schema';
+import { Result } from '../../results/schemas/result.schema';
+import { User } from '../../users/schemas/user.schema';
+import { Organization } from '../../organizations/schemas/organization.schema';
+import { QuestionSetService } from '../../question-pools/services/question-set.service';
+import { GradingService } from '../../results/services/grading.service';
+import { AdaptiveTestingService } from '../../question-pools/services/adaptive-testing.service';
+import { SessionTimerService } from '../../proctoring/services/session-timer.service';
+import { ExamAccessService } from '../services/exam-access.service';
+import { ExamSlotService } from '../services/exam-slot.service';
+
+describe('StudentExamsController', () => {
+  let controller: StudentExamsController;
+
+  const examId = new Types.ObjectId();
+  const candidateId = new Types.ObjectId();
+
+  const mockExamModel = { findById: jest.fn(), find: jest.fn() };
+  const mockSessionModel: any = Object.assign(jest.fn(), {
+    findById: jest.fn(),
+    find: jest.fn(),
+    countDocuments: jest.fn(),
+  });
+  const mockResultModel = { findOne: jest.fn(), create: jest.fn() };
+  const mockGradingService = { gradeExamSession: jest.fn() };
+  const mockQuestionSetService = {
+    getPassingMarks: jest.fn(),
+    isAdaptive: jest.fn(),
+    getTotalMarks: jest.fn(),
+    getQuestionCount: jest.fn(),
+  };
+  const mockAdaptiveTestingService = { initialState: jest.fn(() => ({})) };
+  const mockSessionTimerService = {
+    isExpired: jest.fn().mockReturnValue(false),
+    timeOut: jest.fn(),
+  };
+
+  const exec = (value: any) => ({ exec: jest.fn().mockResolvedValue(value) });
+  const query = (value: any) => {
+    const chain: any = exec(value);
+    chain.select = jest.fn(() => chain);
+    chain.sort = jest.fn(() => chain);
+    return chain;
+  };
+
+  const buildSession = (status: SessionStatus) =>
+    ({
+      _id: new Types.ObjectId(),
+      examId,
+      candidateId,
+      status,
+      answers: [],
+      save: jest.fn(),
+    }) as any;
+
+  const submit = (session: any) =>
+    controller.submitExam(
+      examId.toString(),
+      { sessionId: session._id.toString(), answers: [] },
+      { user: { id: candidateId.toString() } },
+    );
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [StudentExamsController],
+      providers: [
+        { provide: CommandBus, useValue: {} },
+        { provide: getModelToken(Exam.name), useValue: mockExamModel },
+        { provide: getModelToken(Question.name), useValue: {} },
+        {
+          provide: getModelToken(ExamSession.name),
+          useValue: mockSessionModel,
+        },
+        { provide: getModelToken(Violation.name), useValue: {} },
+        { provide: getModelToken(Result.name), useValue: mockResultModel },
+        { provide: getModelToken(User.name), useValue: {} },
+        { provide: getModelToken(Organization.name), useValue: {} },
+        { provide: QuestionSetService, useValue: mockQuestionSetService },
+        { provide: GradingService, useValue: mockGradingService },
+        {
+          provide: AdaptiveTestingService,
+          useValue: mockAdaptiveTestingService,
+        },
+        { provide: SessionTimerService, useValue: mockSessionTimerService },
+        { provide: ExamAccessService, useValue: {} },
+        { provide: ExamSlotService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<StudentExamsController>(StudentExamsController);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  describe('submitExam', () => {
+    it.each([
+      SessionStatus.COMPLETED,
+      SessionStatus.AUTO_SUBMITTED,
+      SessionStatus.ABANDONED,
+    ])('should reject a %s session', async (status) => {
+      const session = buildSession(status);
+      mockSessionModel.findById.mockReturnValue(exec(session));
+
+      await expect(submit(session)).rejects.toThrow(
+        new BadRequestException('Exam session is not in progress'),
+      );
+      expect(mockExamModel.findById).not.toHaveBeenCalled();
+      expect(session.save).not.toHaveBeenCalled();
+      expect(mockResultModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should grade the attempt with the grading service', async () => {
+      const session = buildSession(SessionStatus.IN_PROGRESS);
+      mockSessionModel.findById.mockReturnValue(exec(session));
+      mockExamModel.findById.mockReturnValue(
+        exec({ _id: examId, settings: { showResultsImmediately: true } }),
+      );
+      mockQuestionSetService.getPassingMarks.mockReturnValue(4);
+      mockGradingService.gradeExamSession.mockResolvedValue({
+        scoring: { totalScore: 3, totalMarks: 8, passed: false },
+        questionResults: [
+          {
+            questionId: new Types.ObjectId(),
+            answer: true,
+            isCorrect: false,
+            marksObtained: -1,
+          },
+        ],
+      });
+
+      const response = await submit(session);
+
+      expect(session.status).toBe(SessionStatus.COMPLETED);
+      expect(mockGradingService.gradeExamSession).toHaveBeenCalledWith(
+        session._id.toString(),
+      );
+      expect(mockResultModel.create).not.toHaveBeenCalled();
+      expect(response).toMatchObject({
+        score: 3,
+        totalMarks: 8,
+        passingMarks: 4,
+        passed: false,
+        gradedAnswers: [{ isCorrect: false, marks: -1, selectedAnswer: true }],
+      });
+    });
+
+    it('should reject a session whose time ran out', async () => {
+      const session = buildSession(SessionStatus.IN_PROGRESS);
+      mockSessionModel.findById.mockReturnValue(exec(session));
+      mockSessionTimerService.isExpired.mockReturnValueOnce(true);
+      mockSessionTimerService.timeOut.mockImplementation(async (s) => {
+        s.status = SessionStatus.TIMED_OUT;
+      });
+
+      await expect(submit(session)).rejects.toThrow(
+        'Exam time is over. Your saved answers were submitted automatically.',
+      );
+      expect(mockSessionTimerService.timeOut).toHaveBeenCalledWith(session);
+      expect(mockExamModel.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getExamAccess', () => {
+    const accessExam = (status: ExamStatus) => {
+      const exam = {
+        _id: examId,
+        status,
+        enrolledCandidates: [candidateId],
+      };
+      mockExamModel.findById.mockReturnValue(
+        exec({ ...exam, toObject: () => ({ ...exam }) }),
+      );
+    };
+    const req = { user: { id: candidateId.toString() } };
+
+    it.each([
+      ExamStatus.DRAFT,
+      ExamStatus.SCHEDULED,
+      ExamStatus.COMPLETED,
+      ExamStatus.ARCHIVED,
+    ])('should not let candidates start a %s exam', async (status) => {
+      accessExam(status);
+
+      const access = await controller.getExamAccess(examId.toString(), req);
+
+      expect(access).toMatchObject({
+        canStart: false,
+        reason: 'This exam is not open for attempts',
+      });
+    });
+
+    it('should refuse to start a session for an exam that is not open', async () => {
+      accessExam(ExamStatus.DRAFT);
+
+      await expect(
+        controller.startExam(examId.toString(), {}, req),
+      ).rejects.toThrow(
+        new BadRequestException('This exam is not open for attempts'),
+      );
+      expect(mockSessionModel.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startExam', () => {
+    const req = { user: { id: candidateId.toString() } };
+
+    beforeEach(() => {
+      jest.spyOn(controller, 'getExamAccess').mockResolvedValue({
+        canStart: true,
+        exam: { _id: examId, duration: 60, settings: {} },
+      } as any);
+      mockSessionModel.countDocuments.mockResolvedValue(1);
+      mockExamModel.findById.mockReturnValue(query({ version: 1 }));
+      mockQuestionSetService.isAdaptive.mockReturnValue(true);
+    });
+
+    it('should start the next attempt', async () => {
+      mockSessionModel.mockImplementation((data) => ({
+        _id: new Types.ObjectId(),
+        ...data,
+        save: jest.fn().mockResolvedValue(undefined),
+      }));
+
+      const started = await controller.startExam(examId.toString(), {}, req);
+
+      expect(started.attemptNumber).toBe(2);
+      expect(mockSessionModel).toHaveBeenCalledWith(
+        expect.objectContaining({ candidateId, attemptNumber: 2 }),
+      );
+    });
+
+    it('should report a concurrent start of the same attempt', async () => {
+      const duplicate = Object.assign(new Error('E11000 duplicate key'), {
+        code: 11000,
+      });
+      mockSessionModel.mockImplementation((data) => ({
+        ...data,
+        save: jest.fn().mockRejectedValue(duplicate),
+      }));
+
+      await expect(
+        controller.startExam(examId.toString(), {}, req),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should keep one session per candidate attempt', () => {
+      const attemptIndex = ExamSessionSchema.indexes().find(
+        ([fields]) => 'attemptNumber' in fields,
+      );
+
+      expect(attemptIndex).toEqual([
+        { examId: 1, candidateId: 1, attemptNumber: 1 },
+        expect.objectContaining({
+          unique: true,
+          partialFilterExpression: {
+            isPreview: false,
+            candidateId: { $type: 'objectId' },
+          },
+        }),
+      ]);
+    });
+  });
+
+  describe('getStudentExams', () => {
+    const minutesAgo = (minutes: number) =>
+      new Date(Date.now() - minutes * 60 * 1000);
+
+    const listExam = (settings: Record<string, any>, sessions: any[]) => {
+      const exam = {
+        _id: examId,
+        schedule: { startDate: minutesAgo(600), endDate: minutesAgo(-600) },
+        settings,
+      };
+      mockExamModel.find.mockReturnValue(
+        query([{ ...exam, toObject: () => exam }]),
+      );
+      mockSessionModel.find.mockReturnValue(query(sessions));
+      return controller.getStudentExams({
+        user: { id: candidateId.toString() },
+      });
+    };
+
+    const submitted = (minutes: number) => ({
+      status: SessionStatus.COMPLETED,
+      submittedAt: minutesAgo(minutes),
+    });
+
+    it('should count attempts against the attempts allowed', async () => {
+      const { data } = await listExam({ attemptsAllowed: 3 }, [
+        submitted(60),
+        submitted(120),
+      ]);
+
+      expect(data[0]).toMatchObject({
+        attempts: 2,
+        maxAttempts: 3,
+        canAttempt: true,
+      });
+      expect(mockSessionModel.find).toHaveBeenCalledWith(
+        expect.objectContaining({ isPreview: { $ne: true } }),
+      );
+    });
+
+    it('should not allow another attempt once all are used', async () => {
+      const { data } = await listExam({ attemptsAllowed: 2 }, [
+        submitted(60),
+        submitted(120),
+      ]);
+
+      expect(data[0]).toMatchObject({ attempts: 2, canAttempt: false });
+    });
+
+    it('should not allow another attempt during the cool-down', async () => {
+      const last = submitted(10);
+      const { data } = await listExam(
+        { attemptsAllowed: 3, attemptCooldownMinutes: 30 },
+        [last],
+      );
+
+      expect(data[0].canAttempt).toBe(false);
+      expect(data[0].nextAttemptAt).toEqual(
+        new Date(last.submittedAt.getTime() + 30 * 60 * 1000),
+      );
+    });
+  });
+});
@@ -1,15 +1,34 @@
-import { Controller, Get, Post, Body, Param, UseGuards, Request, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Controller, Get, Post, Body, Param, Query, UseGuards, Request, BadRequestException, NotFoundException, ForbiddenException, ConflictException } from '@nestjs/common';
+import { CommandBus } from '@nestjs/cqrs';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiParam, ApiResponse } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
 import { FlexibleAuthGuard } from '../../../common/guards/flexible-auth.guard';
-import { Exam, ExamStatus } from '../schemas/exam.schema';
+import { Exam, ExamSlot, ExamStatus } from '../schemas/exam.schema';
 import { Question } from '../../questions/schemas/question.schema';
 import { ExamSession, SessionStatus } from '../../proctoring/schemas/exam-session.schema';
 import { Violation } from '../../proctoring/schemas/violation.schema';
 import { Result, ResultStatus } from '../../results/schemas/result.schema';
 import { User } from '../../users/schemas/user.schema';
+import { Organization } from '../../organizations/schemas/organization.schema';
+import { QuestionSetService } from '../../question-pools/services/question-set.service';
+import { GradingService } from '../../results/services/grading.service';
+import { AdaptiveTestingService } from '../../question-pools/services/adaptive-testing.service';
+import { SessionTimerService } from '../../proctoring/services/session-timer.service';
+import { AttemptPolicyUtil } from '../../../common/utils/attempt-policy.util';
+import { SectionNavigationUtil } from '../../../common/utils/section-navigation.util';
+import { AccommodationUtil } from '../../../common/utils/accommodation.util';
+import { CandidateQuestionUtil } from '../../../common/utils/candidate-question.util';
+import { ExamAccessService } from '../services/exam-access.service';
+import { ExamSlotService } from '../services/exam-slot.service';
+import { STARTABLE_EXAM_STATUSES } from '../services/exam-lifecycle.service';
+import { RequestExamAccessCommand } from '../commands/impl/request-exam-access.command';
+import { BookExamSlotCommand } from '../commands/impl/book-exam-slot.command';
+import {
+  ExamAccessCodeDto,
+  RequestExamAccessDto,
+} from '../dto/exam-access.dto';
 
 interface ShuffledQuestion {
   _id: string;
@@ -24,12 +43,20 @@ interface ShuffledQuestion {
 @Controller('candidate/exams')
 export class StudentExamsController {
   constructor(
+    private readonly commandBus: CommandBus,
     @InjectModel(Exam.name) private examModel: Model<Exam>,
     @InjectModel(Question.name) private questionModel: Model<Question>,
     @InjectModel(ExamSession.name) private examSessionModel: Model<ExamSession>,
     @InjectModel(Violation.name) private violationModel: Model<Violation>,
     @InjectModel(Result.name) private resultModel: Model<Result>,
     @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(Organization.name) private organizationModel: Model<Organization>,
+    private readonly questionSetService: QuestionSetService,
+    private readonly gradingService: GradingService,
+    private readonly adaptiveTestingService: AdaptiveTestingService,
+    private readonly sessionTimerService: SessionTimerService,
+    private readonly examAccessService: ExamAccessService,
+    private readonly examSlotService: ExamSlotService,
   ) {}
 
   @Get('debug/enrollment')
@@ -78,16 +105,19 @@ export class StudentExamsController {
       .sort({ 'schedule.startDate': -1 })
       .exec();
 
-    // For each exam, check if candidate has already taken it
+    // For each exam, count the candidate's attempts so far
     const examsWithStatus = await Promise.all(
       exams.map(async (exam) => {
-        const session = await this.examSessionModel
-          .findOne({
+        const sessions = await this.examSessionModel
+          .find({
             examId: exam._id,
             candidateId: new Types.ObjectId(studentId),
+            isPreview: { $ne: true },
           })
-          .sort({ createdAt: -1 })
+          .select('status submittedAt endTime')
+          .sort({ startTime: -1 })
           .exec();
+        const session = sessions[0];
 
         const now = new Date();
         const startDate = new Date(exam.schedule.startDate);
@@ -100,11 +130,24 @@ export class StudentExamsController {
           examStatus = 'expired';
         }
 
+        const maxAttempts = exam.settings?.attemptsAllowed || 1;
+        const inProgress = sessions.some(
+          (s) => s.status === SessionStatus.IN_PROGRESS,
+        );
+        const nextAttemptAt = this.getNextAttemptAt(exam, sessions);
+        const coolingDown = !!nextAttemptAt && now < nextAttemptAt;
+
         return {
           ...exam.toObject(),
           attemptStatus: session?.status || 'not_started',
-          attempts: session ? 1 : 0,
-          canAttempt: !session && examStatus === 'active',
+          attempts: sessions.length,
+          maxAttempts,
+          canAttempt:
+            examStatus === 'active' &&
+            !inProgress &&
+            sessions.length < maxAttempts &&
+            !coolingDown,
+          nextAttemptAt: coolingDown ? nextAttemptAt : null,
           examStatus,
         };
       })
@@ -124,7 +167,12 @@ export class StudentExamsController {
   @ApiResponse({ status: 200, description: 'Exam access details retrieved' })
   @ApiResponse({ status: 403, description: 'Student not enrolled or exam not accessible' })
   @ApiResponse({ status: 404, description: 'Exam not found' })
-  async getExamAccess(@Param('examId') examId: string, @Request() req) {
+  @ApiResponse({ status: 429, description: 'Too many wrong access codes' })
+  async getExamAccess(
+    @Param('examId') examId: string,
+    @Request() req,
+    @Query() accessCodeDto: ExamAccessCodeDto = {},
+  ) {
     const studentId = req.user.id;
 
     // Find exam
@@ -141,10 +189,66 @@ export class StudentExamsController {
       (id) => id.toString() === studentId
     );
 
+    // Approval-gated exams let candidates ask to join instead
+    if (!isEnrolled && exam.accessControl?.requiresApproval) {
+      const request = await this.examAccessService.findRequest(
+        examId,
+        studentId,
+      );
+      return {
+        canStart: false,
+        reason: request
+          ? `Your request to join is ${request.status.toLowerCase()}`
+          : 'This exam requires approval, request to join first',
+        approvalRequired: true,
+        accessRequest: request
+          ? {
+              status: request.status,
+              rejectionReason: request.rejectionReason,
+            }
+          : null,
+        accessCodeRequired: this.examAccessService.requiresAccessCode(exam),
+      };
+    }
+
     if (!isEnrolled) {
       throw new BadRequestException('You are not enrolled in this exam');
     }
 
+    if (!STARTABLE_EXAM_STATUSES.includes(exam.status)) {
+      return {
+        canStart: false,
+        reason: 'This exam is not open for attempts',
+        exam: this.examForCandidate(exam),
+      };
+    }
+
+    const codeCheck = await this.examAccessService.verifyAccessCode(
+      exam,
+      studentId,
+      accessCodeDto?.accessCode,
+    );
+    if (!codeCheck.valid) {
+      return {
+        canStart: false,
+        reason: accessCodeDto?.accessCode
+          ? 'Invalid access code'
+          : 'An access code is required for this exam',
+        accessCodeRequired: true,
+        attemptsRemaining: codeCheck.attemptsRemaining,
+      };
+    }
+
+    // Check email verification if the organization requires it
+    if (await this.isEmailVerificationRequired(exam, studentId)) {
+      return {
+        canStart: false,
+        reason: 'Please verify your email address before accessing this exam',
+        emailVerificationRequired: true,
+        exam: this.examForCandidate(exam),
+      };
+    }
+
     // Check exam schedule
     const now = new Date();
     const startDate = new Date(exam.schedule.startDate);
@@ -155,7 +259,7 @@ export class StudentExamsController {
         canStart: false,
         reason: 'Exam has not started yet',
         startDate: exam.schedule.startDate,
-        exam: exam.toObject(),
+        exam: this.examForCandidate(exam),
       };
     }
 
@@ -167,7 +271,7 @@ export class StudentExamsController {
           canStart: false,
           reason: 'Exam has ended',
           endDate: exam.schedule.endDate,
-          exam: exam.toObject(),
+          exam: this.examForCandidate(exam),
         };
       }
 
@@ -180,35 +284,104 @@ export class StudentExamsController {
             reason: 'Late submission period has ended',
             endDate: exam.schedule.endDate,
             lateDeadline: exam.schedule.lateSubmissionDeadline,
-            exam: exam.toObject(),
+            exam: this.examForCandidate(exam),
           };
         }
       }
     }
 
     // Check previous attempts
-    const previousSession = await this.examSessionModel
-      .findOne({
+    const previousSessions = await this.examSessionModel
+      .find({
         examId: exam._id,
         candidateId: new Types.ObjectId(studentId),
+        isPreview: { $ne: true },
       })
+      .select('status submittedAt endTime')
+      .sort({ startTime: -1 })
       .exec();
 
-    if (previousSession) {
-      const attemptsUsed = 1; // Currently supporting single attempt
-      if (attemptsUsed >= exam.settings.attemptsAllowed) {
-        return {
-          canStart: false,
-          reason: 'Maximum attempts reached',
-          attemptsUsed,
-          maxAttempts: exam.settings.attemptsAllowed,
-          exam: exam.toObject(),
-        };
-      }
+    const attemptsUsed = previousSessions.length;
+    const maxAttempts = exam.settings?.attemptsAllowed || 1;
+
+    // An unfinished attempt is resumed rather than replaced; one whose time
+    // ran out while the candidate was away is closed here
+    const inProgress = previousSessions.find(
+      (s) => s.status === SessionStatus.IN_PROGRESS,
+    );
+    if (inProgress && !this.sessionTimerService.isExpired(inProgress)) {
+      return {
+        canStart: false,
+        canResume: true,
+        reason: 'You have an attempt in progress, resume it to continue',
+        sessionId: inProgress._id,
+        timer: this.sessionTimerService.getTimer(inProgress),
+        attemptsUsed,
+        maxAttempts,
+        exam: this.examForCandidate(exam),
+      };
+    }
+    if (inProgress) {
+      await this.sessionTimerService.timeOut(inProgress);
+    }
+
+    if (attemptsUsed >= maxAttempts) {
+      return {
+        canStart: false,
+        reason: 'Maximum attempts reached',
+        attemptsUsed,
+        maxAttempts,
+        exam: this.examForCandidate(exam),
+      };
+    }
+
+    // Cool-down between attempts
+    const nextAttemptAt = this.getNextAttemptAt(exam, previousSessions);
+    if (nextAttemptAt && now < nextAttemptAt) {
+      return {
+        canStart: false,
+        reason: `Next attempt available at ${nextAttemptAt.toISOString()}`,
+        nextAttemptAt,
+        attemptsUsed,
+        maxAttempts,
+        exam: this.examForCandidate(exam),
+      };
+    }
+
+    // Slotted exams start only during the candidate's booked slot
+    const slotCheck = await this.examSlotService.checkStartWindow(
+      exam,
+      studentId,
+      now,
+    );
+    if (!slotCheck.allowed) {
+      return {
+        canStart: false,
+        reason: slotCheck.reason,
+        slotRequired: true,
+        slot: this.slotForCandidate(slotCheck.slot),
+        exam: this.examForCandidate(exam),
+      };
+    }
+
+    // The organization's plan caps how many candidates sit exams at once
+    const concurrency = await this.examSlotService.checkConcurrency(
+      exam.organizationId,
+      now,
+    );
+    if (!concurrency.allowed) {
+      return {
+        canStart: false,
+        reason:
+          'The maximum number of candidates are taking exams right now, please try again shortly',
+        atCapacity: true,
+        exam: this.examForCandidate(exam),
+      };
     }
 
     return {
       canStart: true,
+      slot: this.slotForCandidate(slotCheck.slot),
       exam: {
         _id: exam._id,
         title: exam.title,
@@ -222,9 +395,14 @@ export class StudentExamsController {
         settings: exam.settings,
         questions: exam.questions,
       },
+      attempt: {
+        number: attemptsUsed + 1,
+        allowed: maxAttempts,
+        scoringPolicy: exam.settings?.attemptScoringPolicy,
+      },
       instructions: {
         duration: exam.duration,
-        totalQuestions: exam.questions?.length || 0,
+        totalQuestions: this.questionSetService.getQuestionCount(exam),
         proctoringEnabled: exam.proctoringSettings?.enabled || false,
         requirements: this.getExamRequirements(exam),
       },
@@ -238,45 +416,108 @@ export class StudentExamsController {
   @ApiParam({ name: 'examId', description: 'Exam ID' })
   @ApiResponse({ status: 200, description: 'Exam started successfully' })
   @ApiResponse({ status: 403, description: 'Cannot start exam' })
-  async startExam(@Param('examId') examId: string, @Request() req) {
+  async startExam(
+    @Param('examId') examId: string,
+    @Body() accessCodeDto: ExamAccessCodeDto,
+    @Request() req,
+  ) {
     const studentId = req.user.id;
 
     // Verify access first
-    const accessCheck = await this.getExamAccess(examId, req);
+    const accessCheck = await this.getExamAccess(examId, req, accessCodeDto);
     if (!accessCheck.canStart) {
       throw new BadRequestException(accessCheck.reason);
     }
 
     const exam = accessCheck.exam;
 
-    // Check if exam has questions
-    if (!exam.questions || exam.questions.length === 0) {
-      throw new BadRequestException('This exam has no questions assigned. Please contact your administrator.');
-    }
+    const attemptNumber =
+      (await this.examSessionModel.countDocuments({
+        examId: exam._id,
+        candidateId: new Types.ObjectId(studentId),
+        isPreview: { $ne: true },
+      })) + 1;
+
+    const markingConfig = await this.examModel
+      .findById(examId)
+      .select(
+        'questionPools sections grading deliveryMode adaptiveSettings version candidateAccommodations',
+      )
+      .exec();
+
+    // Extra time and breaks the candidate is entitled to
+    const accommodations = AccommodationUtil.forCandidate(
+      markingConfig,
+      studentId,
+    );
+    const duration = AccommodationUtil.durationMinutes(
+      exam.duration,
+      accommodations,
+    );
+
+    // Adaptive exams serve questions one at a time through next-question
+    if (this.questionSetService.isAdaptive(markingConfig)) {
+      const startTime = new Date();
+      const session = new this.examSessionModel({
+        examId: exam._id,
+        candidateId: new Types.ObjectId(studentId),
+        attemptNumber,
+        examVersion: markingConfig.version || 1,
+        slotId: accessCheck.slot?.id,
+        status: SessionStatus.IN_PROGRESS,
+        startTime,
+        endTime: new Date(startTime.getTime() + duration * 60 * 1000),
+        accommodations,
+        breaks: [],
+        answers: [],
+        violations: [],
+        warningCount: 0,
+        questionOrder: [],
+        adaptive: this.adaptiveTestingService.initialState(),
+      });
 
-    // Filter valid ObjectIds and log invalid ones
-    const validQuestionIds = exam.questions.filter((id: any) => {
       try {
-        if (typeof id === 'string' && id.match(/^[0-9a-fA-F]{24}$/)) {
-          return true;
-        }
-        if (id && id._id && typeof id._id === 'object') {
-          return true;
-        }
-        return false;
-      } catch (err) {
-        return false;
+        await session.save();
+      } catch (error) {
+        throw this.translateDuplicateAttempt(error);
       }
-    });
 
-    if (validQuestionIds.length === 0) {
-      throw new BadRequestException('This exam has invalid question references. Please contact your administrator to add valid questions.');
+      return {
+        sessionId: session._id,
+        exam: {
+          _id: exam._id,
+          title: exam.title,
+          duration,
+          totalMarks: this.questionSetService.getTotalMarks(markingConfig, []),
+        },
+        attemptNumber,
+        accommodations,
+        adaptive: {
+          maxQuestions: this.questionSetService.getQuestionCount(markingConfig),
+        },
+        questions: [],
+        startTime: session.startTime,
+        endTime: session.endTime,
+        proctoringSettings: exam.proctoringSettings,
+      };
+    }
+
+    // Static question list, or a per-candidate draw for pool-based exams
+    const { questionIds, sections: drawnSections } =
+      await this.questionSetService.drawQuestionSet(
+        examId,
+        studentId,
+        attemptNumber,
+      );
+
+    if (questionIds.length === 0) {
+      throw new BadRequestException('This exam has no questions assigned. Please contact your administrator.');
     }
 
     // Load questions with full details
     const questions = await this.questionModel
       .find({
-        _id: { $in: validQuestionIds },
+        _id: { $in: questionIds },
       })
       .exec();
 
@@ -284,62 +525,333 @@ export class StudentExamsController {
       throw new BadRequestException('No questions found for this exam. Please contact your administrator.');
     }
 
-    // Shuffle questions if required
+    // Shuffle questions if required (within each section for sectioned exams)
     let processedQuestions = questions.map((q) => q.toObject());
-
-    if (exam.settings.shuffleQuestions) {
+    const startTime = new Date();
+    let sections = [];
+
+    if (drawnSections.length > 0) {
+      const arranged = SectionNavigationUtil.arrange(
+        drawnSections.map((section) => ({
+          ...section,
+          duration: AccommodationUtil.sectionMinutes(
+            section.duration,
+            accommodations,
+          ),
+        })),
+        processedQuestions,
+        startTime,
+        (sectionQuestions) =>
+          exam.settings.shuffleQuestions
+            ? this.shuffleArray(sectionQuestions)
+            : sectionQuestions,
+      );
+      processedQuestions = arranged.questions;
+      sections = arranged.sections;
+    } else if (exam.settings.shuffleQuestions) {
       processedQuestions = this.shuffleArray(processedQuestions);
     }
 
-    // Shuffle options if required and remove correct answers
-    const shuffledQuestions = processedQuestions.map((question: any) => {
-      let options = question.options || [];
-
-      if (exam.settings.shuffleOptions && options.length > 0) {
-        options = this.shuffleArray([...options]);
-      }
-
-      // Remove correctAnswer from response for security
-      const { correctAnswer, ...questionWithoutAnswer } = question;
-
-      return {
-        ...questionWithoutAnswer,
-        options,
-      };
-    });
-
-    processedQuestions = shuffledQuestions;
+    // Only the candidate view leaves the server; shuffle options if required
+    const candidateQuestions = CandidateQuestionUtil.serializeMany(
+      processedQuestions,
+      (options) =>
+        exam.settings.shuffleOptions ? this.shuffleArray(options) : options,
+    );
 
     // Create exam session
     const session = new this.examSessionModel({
       examId: exam._id,
       candidateId: new Types.ObjectId(studentId),
+      attemptNumber,
+      examVersion: markingConfig.version || 1,
+      slotId: accessCheck.slot?.id,
       status: SessionStatus.IN_PROGRESS,
-      startTime: new Date(),
-      endTime: new Date(Date.now() + exam.duration * 60 * 1000),
+      startTime,
+      endTime: new Date(startTime.getTime() + duration * 60 * 1000),
+      accommodations,
+      breaks: [],
       answers: [],
       violations: [],
       warningCount: 0,
-      questionOrder: processedQuestions.map((q) => q._id),
+      questionOrder: candidateQuestions.map((q) => q._id),
+      sections,
+      currentSectionIndex: 0,
     });
 
-    await session.save();
+    try {
+      await session.save();
+    } catch (error) {
+      throw this.translateDuplicateAttempt(error);
+    }
 
     return {
       sessionId: session._id,
       exam: {
         _id: exam._id,
         title: exam.title,
-        duration: exam.duration,
-        totalMarks: exam.grading.totalMarks,
+        duration,
+        totalMarks: this.questionSetService.getTotalMarks(
+          markingConfig,
+          questions,
+        ),
+      },
+      attemptNumber,
+      accommodations,
+      // Later sections are served as the candidate reaches them
+      questions: SectionNavigationUtil.servedQuestions(
+        session,
+        candidateQuestions,
+        startTime,
+      ),
+      sections: SectionNavigationUtil.describe(session),
+      startTime: session.startTime,
+      endTime: session.endTime,
+      proctoringSettings: exam.proctoringSettings,
+    };
+  }
+
+  @Get(':examId/slots')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List the slots of an exam',
+    description: 'Returns each slot with the seats left and your booking',
+  })
+  @ApiParam({ name: 'examId', description: 'Exam ID' })
+  @ApiResponse({ status: 200, description: 'Slots retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'Not enrolled in this exam' })
+  async getExamSlots(@Param('examId') examId: string, @Request() req) {
+    if (!Types.ObjectId.isValid(examId)) {
+      throw new BadRequestException('Invalid exam ID format');
+    }
+
+    const exam = await this.examModel
+      .findById(examId)
+      .select('slots enrolledCandidates')
+      .exec();
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (!exam.enrolledCandidates.some((id) => id.toString() === req.user.id)) {
+      throw new ForbiddenException('You are not enrolled in this exam');
+    }
+
+    const [slots, booking] = await Promise.all([
+      this.examSlotService.listSlots(exam),
+      this.examSlotService.findBooking(examId, req.user.id),
+    ]);
+
+    return {
+      data: slots.map(({ id, name, startTime, endTime, seatsLeft }) => ({
+        id,
+        name,
+        startTime,
+        endTime,
+        seatsLeft,
+        booked: booking?.slotId.equals(id) || false,
+      })),
+      bookedSlotId: booking?.slotId || null,
+    };
+  }
+
+  @Post(':examId/slots/:slotId/book')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Book a slot',
+    description:
+      'Takes a seat in the slot, moving any earlier booking that has not started yet',
+  })
+  @ApiParam({ name: 'examId', description: 'Exam ID' })
+  @ApiParam({ name: 'slotId', description: 'Slot ID' })
+  @ApiResponse({ status: 201, description: 'Slot booked' })
+  @ApiResponse({ status: 409, description: 'Slot is full' })
+  async bookExamSlot(
+    @Param('examId') examId: string,
+    @Param('slotId') slotId: string,
+    @Request() req,
+  ) {
+    if (!Types.ObjectId.isValid(examId) || !Types.ObjectId.isValid(slotId)) {
+      throw new BadRequestException('Invalid ID format');
+    }
+
+    return this.commandBus.execute(
+      new BookExamSlotCommand(examId, slotId, req.user.id),
+    );
+  }
+
+  @Post(':examId/request-access')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Ask to join an exam that requires approval',
+    description:
+      'Creates a pending request for org admins to review. The candidate is emailed when it is approved or rejected.',
+  })
+  @ApiParam({ name: 'examId', description: 'Exam ID' })
+  @ApiResponse({ status: 201, description: 'Request submitted' })
+  @ApiResponse({ status: 409, description: 'Already enrolled or pending' })
+  async requestAccess(
+    @Param('examId') examId: string,
+    @Body() requestExamAccessDto: RequestExamAccessDto,
+    @Request() req,
+  ) {
+    if (!Types.ObjectId.isValid(examId)) {
+      throw new BadRequestException('Invalid exam ID format');
+    }
+
+    return this.commandBus.execute(
+      new RequestExamAccessCommand(examId, requestExamAccessDto, req.user.id),
+    );
+  }
+
+  @Post(':examId/resume')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Resume an exam attempt after a disconnect',
+    description:
+      'Returns the in-progress session with its question order, saved answers and the remaining time computed by the server.',
+  })
+  @ApiParam({ name: 'examId', description: 'Exam ID' })
+  @ApiResponse({ status: 200, description: 'Session resumed' })
+  @ApiResponse({ status: 404, description: 'No attempt in progress' })
+  async resumeExam(@Param('examId') examId: string, @Request() req) {
+    if (!Types.ObjectId.isValid(examId)) {
+      throw new BadRequestException('Invalid exam ID format');
+    }
+
+    const session = await this.examSessionModel
+      .findOne({
+        examId: new Types.ObjectId(examId),
+        candidateId: new Types.ObjectId(req.user.id),
+        status: SessionStatus.IN_PROGRESS,
+        isPreview: { $ne: true },
+      })
+      .sort({ startTime: -1 })
+      .exec();
+
+    if (!session) {
+      throw new NotFoundException('No exam attempt in progress to resume');
+    }
+
+    if (this.sessionTimerService.isExpired(session)) {
+      await this.sessionTimerService.timeOut(session);
+      throw new BadRequestException(
+        'Exam time is over. Your saved answers were submitted automatically.',
+      );
+    }
+
+    const now = new Date();
+    if (
+      SectionNavigationUtil.isSectioned(session) &&
+      SectionNavigationUtil.syncExpired(session, now)
+    ) {
+      session.markModified('sections');
+      await session.save();
+    }
+
+    const exam = await this.examModel.findById(session.examId).exec();
+
+    // Adaptive sessions only get back the question waiting for an answer
+    const questionIds = session.adaptive
+      ? [session.adaptive.pendingQuestionId].filter(Boolean)
+      : session.questionOrder;
+    const questions = await this.questionModel
+      .find({ _id: { $in: questionIds } })
+      .exec();
+    const byId = new Map(questions.map((q) => [q._id.toString(), q]));
+    const orderedQuestions = SectionNavigationUtil.servedQuestions(
+      session,
+      questionIds.map((id) => byId.get(id.toString())).filter(Boolean),
+      now,
+    ).map((question) => CandidateQuestionUtil.serialize(question));
+
+    return {
+      message: 'Resuming exam session',
+      sessionId: session._id,
+      exam: {
+        _id: exam._id,
+        title: exam.title,
+        duration: AccommodationUtil.durationMinutes(
+          exam.duration,
+          session.accommodations,
+        ),
+        totalMarks: this.questionSetService.getTotalMarks(exam, questions),
       },
-      questions: processedQuestions,
+      attemptNumber: session.attemptNumber || 1,
+      accommodations: session.accommodations,
+      questions: orderedQuestions,
+      answers: session.answers,
+      sections: SectionNavigationUtil.describe(session),
+      adaptive: session.adaptive
+        ? {
+            maxQuestions: this.questionSetService.getQuestionCount(exam),
+            questionsAnswered: session.adaptive.responses.length,
+            finished: session.adaptive.finished,
+          }
+        : undefined,
       startTime: session.startTime,
       endTime: session.endTime,
+      timer: this.sessionTimerService.getTimer(session, now),
       proctoringSettings: exam.proctoringSettings,
     };
   }
 
+  @Get(':sessionId/timer')
+  @UseGuards(FlexibleAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get the remaining time of a session from the server clock',
+  })
+  @ApiResponse({ status: 200, description: 'Remaining time' })
+  async getSessionTimer(@Param('sessionId') sessionId: string, @Request() req) {
+    const session = await this.findActiveSession(sessionId, req, {
+      duringBreak: true,
+    });
+
+    return {
+      sessionId: session._id,
+      ...this.sessionTimerService.getTimer(session),
+    };
+  }
+
+  @Post(':sessionId/break/start')
+  @UseGuards(FlexibleAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Pause the exam clock for an accommodation break',
+    description:
+      'Only available to candidates with break minutes. Answers cannot be saved during a break.',
+  })
+  @ApiResponse({ status: 200, description: 'Break started' })
+  async startBreak(@Param('sessionId') sessionId: string, @Request() req) {
+    const session = await this.findActiveSession(sessionId, req);
+
+    return {
+      sessionId: session._id,
+      ...(await this.sessionTimerService.startBreak(session)),
+    };
+  }
+
+  @Post(':sessionId/break/end')
+  @UseGuards(FlexibleAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'End a break and resume the exam clock' })
+  @ApiResponse({ status: 200, description: 'Break ended' })
+  async endBreak(@Param('sessionId') sessionId: string, @Request() req) {
+    const session = await this.findActiveSession(sessionId, req, {
+      duringBreak: true,
+    });
+
+    return {
+      sessionId: session._id,
+      ...(await this.sessionTimerService.endBreak(session)),
+    };
+  }
+
   @Post(':examId/submit')
   @UseGuards(FlexibleAuthGuard)
   @ApiBearerAuth()
@@ -351,7 +863,8 @@ export class StudentExamsController {
     @Body() submitData: { sessionId: string; answers: any[] },
     @Request() req,
   ) {
-    const { sessionId, answers } = submitData;
+    const { sessionId } = submitData;
+    let { answers } = submitData;
 
     console.log('\n============ SUBMIT EXAM CALLED ============');
     console.log('Exam ID:', examId);
@@ -420,203 +933,78 @@ export class StudentExamsController {
       throw new BadRequestException('Invalid session');
     }
 
-    // Update session
-    session.answers = answers;
-    session.status = SessionStatus.COMPLETED;
-    session.submittedAt = new Date();
-    await session.save();
-
-    // Calculate score
-    const exam = await this.examModel.findById(examId).exec();
-    const questions = await this.questionModel
-      .find({
-        _id: { $in: exam.questions },
-      })
-      .exec();
+    // Previews never produce a Result
+    if (session.isPreview) {
+      throw new BadRequestException(
+        'Preview sessions are submitted through the exam preview endpoint',
+      );
+    }
 
-    let totalScore = 0;
-    const gradedAnswers = answers.map((answer) => {
-      const question = questions.find((q) => q._id.toString() === answer.questionId);
-      if (!question) return { ...answer, isCorrect: false, marks: 0 };
-
-      let isCorrect = false;
-      let marks = 0;
-
-      if (question.type === 'TRUE_FALSE') {
-        console.log('TRUE_FALSE - Selected:', answer.selectedOption, 'Correct:', question.correctAnswer);
-        isCorrect = answer.selectedOption === question.correctAnswer;
-        marks = isCorrect ? question.marks : (exam.grading.negativeMarking ? -(exam.grading.negativeMarkValue || 0) : 0);
-      } else if (question.type === 'MULTIPLE_CHOICE' || question.type === 'MULTIPLE_RESPONSE') {
-        // Get selected answers - handle both singular and plural
-        let selectedAnswers = answer.selectedOptions || [];
-        if (!selectedAnswers.length && answer.selectedOption !== undefined) {
-          selectedAnswers = [answer.selectedOption];
-        }
+    // The server clock decides: late submissions are rejected and the
+    // session is closed with the answers saved before the deadline
+    if (
+      session.status === SessionStatus.IN_PROGRESS &&
+      this.sessionTimerService.isExpired(session)
+    ) {
+      await this.sessionTimerService.timeOut(session);
+    }
+    if (session.status === SessionStatus.TIMED_OUT) {
+      throw new BadRequestException(
+        'Exam time is over. Your saved answers were submitted automatically.',
+      );
+    }
+    // A session is graded once: completed or auto-submitted ones are closed
+    if (session.status !== SessionStatus.IN_PROGRESS) {
+      throw new BadRequestException('Exam session is not in progress');
+    }
 
-        // Find correct answers from options marked as isCorrect
-        const correctOptions = question.options?.filter(opt => opt.isCorrect) || [];
-        const correctAnswers = correctOptions.map(opt => opt.id);
+    const exam = await this.examModel.findById(examId).exec();
 
-        // Fallback: if no options marked correct, use correctAnswer field
-        if (correctAnswers.length === 0) {
-          const fallbackAnswers = Array.isArray(question.correctAnswer)
-            ? question.correctAnswer
-            : [question.correctAnswer];
-          correctAnswers.push(...fallbackAnswers);
-        }
+    // Sectioned exams only take submitted answers for sections still open
+    const submittedAt = new Date();
+    if (SectionNavigationUtil.isSectioned(session)) {
+      SectionNavigationUtil.syncExpired(session, submittedAt);
+      answers = SectionNavigationUtil.mergeSubmittedAnswers(
+        session,
+        session.answers as any[],
+        answers,
+        submittedAt,
+      );
+      SectionNavigationUtil.closeAll(session, submittedAt);
+      session.markModified('sections');
+    }
 
-        console.log(`${question.type} - Question:`, question.text.substring(0, 50));
-        console.log('Selected answers:', selectedAnswers);
-        console.log('Correct option IDs:', correctAnswers);
-        console.log('Match:', correctAnswers.length === selectedAnswers.length && correctAnswers.every((ans) => selectedAnswers.includes(ans)));
-
-        isCorrect =
-          correctAnswers.length === selectedAnswers.length &&
-          correctAnswers.every((ans) => selectedAnswers.includes(ans));
-        marks = isCorrect ? question.marks : (exam.grading.negativeMarking ? -(exam.grading.negativeMarkValue || 0) : 0);
-      } else if (question.type === 'SHORT_ANSWER' || question.type === 'FILL_BLANK') {
-        // For text-based answers, compare trimmed lowercase strings
-        const correctAnswer = (question.correctAnswer || '').toString().trim().toLowerCase();
-        const studentAnswer = (answer.answer || '').toString().trim().toLowerCase();
-        isCorrect = correctAnswer === studentAnswer;
-        marks = isCorrect ? question.marks : 0;
-      } else if (question.type === 'ESSAY' || question.type === 'SUBJECTIVE' || question.type === 'CODING') {
-        // These require manual grading
-        marks = 0;
-        isCorrect = false;
-      }
+    // Adaptive exams only keep answers to the questions they served
+    const adaptiveScoring = session.adaptive
+      ? await this.adaptiveTestingService.finish(session, answers)
+      : null;
+    if (adaptiveScoring) {
+      answers = session.answers as any[];
+    }
 
-      totalScore += marks;
+    // Update session
+    session.answers = answers;
+    session.status = SessionStatus.COMPLETED;
+    session.submittedAt = submittedAt;
+    await session.save();
 
-      return {
-        questionId: answer.questionId,
-        isCorrect,
-        marks,
-        selectedAnswer: answer.selectedOption || answer.selectedOptions || answer.answer,
-      };
-    });
+    // Same grading as timed-out and auto-submitted sessions: late penalty,
+    // sections, adaptive scoring and, for guests, the invitation
+    const result = await this.gradingService.gradeExamSession(
+      session._id.toString(),
+    );
+    const { totalScore, totalMarks, passed } = result.scoring;
+    const passingMarks = this.questionSetService.getPassingMarks(
+      exam,
+      totalMarks,
+    );
 
-    // Update session with score
     session.score = totalScore;
     await session.save();
 
-    console.log('==================== GRADING INFO ====================');
-    console.log('Exam ID:', exam._id);
-    console.log('Session ID:', session._id);
-    console.log('Candidate ID:', sessionCandidateId);
-    console.log('Invitation ID:', session.invitationId?.toString());
-    console.log('Access Source:', session.accessSource);
-    console.log('Total Score:', totalScore, '/', exam.grading.totalMarks);
-    console.log('Correct answers:', gradedAnswers.filter(a => a.isCorrect).length, '/', answers.length);
-
-    // Determine if this is an invitation-based exam
-    const isInvitationBased = session.accessSource === 'INVITATION' && session.invitationId;
-
-    // Check for existing results BEFORE creating
-    let existingResults;
-    if (isInvitationBased) {
-      existingResults = await this.resultModel.find({
-        exam: exam._id,
-        invitationId: session.invitationId
-      }).exec();
-    } else {
-      existingResults = await this.resultModel.find({
-        exam: exam._id,
-        candidate: sessionCandidateId
-      }).exec();
-    }
-
-    console.log('Existing results count BEFORE creation:', existingResults.length);
-
-    let createdResult = null;
-
-    if (existingResults.length > 0) {
-      console.log('⚠️ WARNING: Results already exist! IDs:', existingResults.map(r => r._id));
-      console.log('⚠️ SKIPPING result creation to prevent duplicates');
-      createdResult = existingResults[0]; // Use existing result
-    } else {
-      // Create result for both enrollment-based and invitation-based exams
-      try {
-        const passed = totalScore >= exam.grading.passingMarks;
-        const percentage = (totalScore / exam.grading.totalMarks) * 100;
-        const attemptNumber = 1;
-
-        const resultData: any = {
-          exam: exam._id,
-          session: session._id,
-          attemptNumber,
-          status: ResultStatus.GRADED,
-          scoring: {
-            totalScore: totalScore,
-            totalMarks: exam.grading.totalMarks,
-            percentage,
-            passed,
-            correctAnswers: gradedAnswers.filter(a => a.isCorrect).length,
-            incorrectAnswers: gradedAnswers.filter(a => !a.isCorrect).length,
-            unanswered: questions.length - answers.length,
-            negativeMarks: 0,
-          },
-          analysis: {
-            timeSpent: Math.floor((new Date().getTime() - new Date(session.startTime).getTime()) / 1000),
-            attempted: answers.length,
-            correct: gradedAnswers.filter(a => a.isCorrect).length,
-            incorrect: gradedAnswers.filter(a => !a.isCorrect).length,
-            unanswered: questions.length - answers.length,
-            accuracy: answers.length > 0 ? (gradedAnswers.filter(a => a.isCorrect).length / answers.length) * 100 : 0,
-          },
-          submittedAt: new Date(),
-          visibleToCandidate: true,
-        };
-
-        // Add fields specific to invitation-based exams
-        if (isInvitationBased) {
-          resultData.invitationId = session.invitationId;
-          resultData.guestCandidateInfo = session.guestCandidateInfo;
-          resultData.isRecruitmentExam = true;
-          resultData.candidate = null; // No candidate ID for invitation-based
-          console.log('📧 Creating result for invitation-based exam:', {
-            email: session.guestCandidateInfo?.email,
-            name: session.guestCandidateInfo?.name,
-          });
-        } else {
-          // Enrollment-based exam
-          resultData.candidate = sessionCandidateId;
-          resultData.isRecruitmentExam = false;
-          console.log('👤 Creating result for enrollment-based exam, candidate:', sessionCandidateId);
-        }
-
-        createdResult = await this.resultModel.create(resultData);
-        console.log('✅ Result created with ID:', createdResult._id);
-      } catch (error) {
-        console.error('❌ Failed to create result:', error.message);
-        console.error(error.stack);
-      }
-    }
-    console.log('======================================================');
-
-    // Handle invitation-based access
     if (session.accessSource === 'INVITATION' && session.invitationId) {
-      // Update invitation status to COMPLETED and link the result
-      const InvitationModel = this.examSessionModel.db.model('ExamInvitation');
-      const invitation = await InvitationModel.findById(session.invitationId);
-
-      if (invitation) {
-        const autoExpire = exam.invitationSettings?.autoExpireOnSubmit || false;
-        invitation.status = autoExpire ? 'EXPIRED' : 'COMPLETED';
-        invitation.examCompletedAt = new Date();
-
-        // Store the resultId reference in the invitation
-        if (createdResult) {
-          invitation.resultId = createdResult._id;
-          console.log('✅ Linked result to invitation:', createdResult._id);
-        }
-
-        await invitation.save();
-      }
-
       // Determine result visibility for recruitment exams
       const showScore = exam.recruitmentResultSettings?.showScoreToCandidate !== false;
-      const showRank = exam.recruitmentResultSettings?.showRankToCandidate !== false;
       const showOnlyConfirmation = exam.recruitmentResultSettings?.showOnlyConfirmation || false;
 
       if (showOnlyConfirmation) {
@@ -632,9 +1020,9 @@ export class StudentExamsController {
         submitted: true,
         sessionId: session._id,
         score: showScore ? totalScore : undefined,
-        totalMarks: showScore ? exam.grading.totalMarks : undefined,
-        passingMarks: showScore ? exam.grading.passingMarks : undefined,
-        passed: showScore ? totalScore >= exam.grading.passingMarks : undefined,
+        totalMarks: showScore ? totalMarks : undefined,
+        passingMarks: showScore ? passingMarks : undefined,
+        passed: showScore ? passed : undefined,
         message: exam.recruitmentResultSettings?.candidateResultMessage,
       };
     }
@@ -644,11 +1032,18 @@ export class StudentExamsController {
       submitted: true,
       sessionId: session._id,
       score: totalScore,
-      totalMarks: exam.grading.totalMarks,
-      passingMarks: exam.grading.passingMarks,
-      passed: totalScore >= exam.grading.passingMarks,
+      totalMarks: totalMarks,
+      passingMarks: passingMarks,
+      passed,
       showResults: exam.settings.showResultsImmediately,
-      gradedAnswers: exam.settings.showResultsImmediately ? gradedAnswers : undefined,
+      gradedAnswers: exam.settings.showResultsImmediately
+        ? (result.questionResults || []).map((qr) => ({
+            questionId: qr.questionId.toString(),
+            isCorrect: qr.isCorrect,
+            marks: qr.marksObtained,
+            selectedAnswer: qr.answer,
+          }))
+        : undefined,
     };
   }
 
@@ -690,6 +1085,42 @@ export class StudentExamsController {
       throw new BadRequestException('Invalid session');
     }
 
+    if (
+      session.status !== SessionStatus.IN_PROGRESS ||
+      this.sessionTimerService.isExpired(session)
+    ) {
+      throw new ForbiddenException(
+        'Exam time is over, answers can no longer be saved',
+      );
+    }
+
+    if (AccommodationUtil.activeBreak(session.breaks)) {
+      throw new ForbiddenException('End your break before answering');
+    }
+
+    // Adaptive answers are scored as soon as the next question is requested
+    if (session.adaptive && session.adaptive.pendingQuestionId !== questionId) {
+      throw new ForbiddenException('Only the current question can be answered');
+    }
+
+    // Section timing and navigation rules
+    const now = new Date();
+    if (SectionNavigationUtil.isSectioned(session)) {
+      if (SectionNavigationUtil.syncExpired(session, now)) {
+        session.markModified('sections');
+        await session.save();
+      }
+
+      const permission = SectionNavigationUtil.canAnswer(
+        session,
+        questionId,
+        now,
+      );
+      if (!permission.allowed) {
+        throw new ForbiddenException(permission.reason);
+      }
+    }
+
     // Update or add answer
     const existingAnswerIndex = session.answers.findIndex(
       (a: any) => a.questionId === questionId
@@ -699,13 +1130,13 @@ export class StudentExamsController {
       session.answers[existingAnswerIndex] = {
         questionId,
         ...answer,
-        savedAt: new Date(),
+        savedAt: now,
       };
     } else {
       session.answers.push({
         questionId,
         ...answer,
-        savedAt: new Date(),
+        savedAt: now,
       });
     }
 
@@ -717,6 +1148,113 @@ export class StudentExamsController {
     };
   }
 
+  @Post(':sessionId/next-section')
+  @UseGuards(FlexibleAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Move to the next section of a sectioned exam',
+    description:
+      'Closes the current section. Forward-only sections cannot be answered again afterwards.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Next section opened, with its questions',
+  })
+  @ApiResponse({ status: 400, description: 'Already in the last section' })
+  async nextSection(@Param('sessionId') sessionId: string, @Request() req) {
+    const session = await this.findActiveSession(sessionId, req);
+
+    if (!SectionNavigationUtil.isSectioned(session)) {
+      throw new BadRequestException('This exam has no sections');
+    }
+
+    const now = new Date();
+    // An expired section already moved the candidate on
+    const expired = SectionNavigationUtil.syncExpired(session, now);
+    if (!expired && !SectionNavigationUtil.advance(session, now)) {
+      throw new BadRequestException(
+        'Already in the last section, submit the exam to finish',
+      );
+    }
+
+    session.markModified('sections');
+    await session.save();
+
+    // Questions of the section just opened, in session order
+    const current = SectionNavigationUtil.getCurrentSection(session);
+    const questions = await this.questionModel
+      .find({ _id: { $in: current.questionIds } })
+      .exec();
+    const byId = new Map(questions.map((q) => [q._id.toString(), q]));
+
+    return {
+      currentSectionIndex: session.currentSectionIndex,
+      sections: SectionNavigationUtil.describe(session),
+      questions: current.questionIds
+        .map((id) => byId.get(id))
+        .filter(Boolean)
+        .map((question) => CandidateQuestionUtil.serialize(question)),
+    };
+  }
+
+  @Post(':sessionId/next-question')
+  @UseGuards(FlexibleAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Answer the current question of an adaptive exam and get the next',
+    description:
+      'Scores the answer to the current question, updates the ability estimate and picks the next question. Returns finished once the exam has enough information; then submit.',
+  })
+  @ApiResponse({ status: 200, description: 'Next question, or finished' })
+  async nextQuestion(
+    @Param('sessionId') sessionId: string,
+    @Body()
+    body: {
+      answer?: {
+        answer?: any;
+        selectedOption?: string;
+        selectedOptions?: string[];
+      };
+    },
+    @Request() req,
+  ) {
+    const session = await this.findActiveSession(sessionId, req);
+
+    if (!session.adaptive) {
+      throw new BadRequestException('This exam does not use adaptive delivery');
+    }
+
+    const exam = await this.examModel.findById(session.examId).exec();
+    const step = await this.adaptiveTestingService.nextQuestion(
+      session,
+      exam,
+      body?.answer,
+    );
+    await session.save();
+
+    if (step.finished) {
+      return {
+        finished: true,
+        questionsAnswered: step.itemsServed,
+        message: 'No more questions, submit the exam to finish',
+      };
+    }
+
+    // Never send the answer key
+    const question = CandidateQuestionUtil.serialize(
+      step.question,
+      (options) =>
+        exam.settings?.shuffleOptions ? this.shuffleArray(options) : options,
+    );
+
+    return {
+      finished: false,
+      questionNumber: step.itemsServed,
+      maxQuestions: this.questionSetService.getQuestionCount(exam),
+      question,
+    };
+  }
+
   @Get('results')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -809,26 +1347,25 @@ export class StudentExamsController {
   async getExamResult(@Param('examId') examId: string, @Request() req) {
     const studentId = req.user.id;
 
-    const result = await this.resultModel
-      .findOne({
+    // Latest attempt first
+    const attempts = await this.resultModel
+      .find({
         exam: new Types.ObjectId(examId),
         candidate: new Types.ObjectId(studentId)
       })
+      .sort({ attemptNumber: -1 })
       .populate('exam', 'title code description duration grading settings schedule')
       .exec();
 
+    const result = attempts[0];
     if (!result) {
       throw new NotFoundException('Result not found for this exam');
     }
+    const countedAttempt =
+      attempts.find((a) => a.isCountedAttempt !== false) || result;
 
     // Get the exam session for additional details
-    const session = await this.examSessionModel
-      .findOne({
-        examId: new Types.ObjectId(examId),
-        candidateId: new Types.ObjectId(studentId)
-      })
-      .sort({ createdAt: -1 })
-      .exec();
+    const session = await this.examSessionModel.findById(result.session).exec();
 
     // Fetch violations for proctoring report
     let proctoringReport = result.proctoringReport;
@@ -853,14 +1390,19 @@ export class StudentExamsController {
       };
     }
 
-    // Get all results for this exam to calculate ranking
+    // Get the counted attempt of every candidate to calculate ranking
     const allResults = await this.resultModel
       .find({
         exam: new Types.ObjectId(examId),
-        status: { $in: [ResultStatus.GRADED, ResultStatus.PUBLISHED] }
+        status: { $in: [ResultStatus.GRADED, ResultStatus.PUBLISHED] },
+        isCountedAttempt: { $ne: false },
       })
-      .sort({ 'scoring.totalScore': -1 })
       .exec();
+    allResults.sort(
+      (a, b) =>
+        AttemptPolicyUtil.scoreOf(b).totalScore -
+        AttemptPolicyUtil.scoreOf(a).totalScore,
+    );
 
     const totalStudents = allResults.length;
     const studentRank = allResults.findIndex(r => r.candidate && r.candidate.toString() === studentId) + 1;
@@ -890,6 +1432,20 @@ export class StudentExamsController {
         percentage: result.scoring?.percentage || 0,
         passed: result.scoring?.passed || false,
       },
+      attempt: {
+        number: result.attemptNumber || 1,
+        countedAttemptNumber: countedAttempt.attemptNumber || 1,
+        scoringPolicy: (result.exam as any).settings?.attemptScoringPolicy,
+        countedScore: AttemptPolicyUtil.scoreOf(countedAttempt),
+        history: attempts.map((a) => ({
+          attemptNumber: a.attemptNumber || 1,
+          score: a.scoring?.totalScore || 0,
+          percentage: a.scoring?.percentage || 0,
+          passed: a.scoring?.passed || false,
+          isCountedAttempt: a.isCountedAttempt !== false,
+          submittedAt: a.submittedAt,
+        })),
+      },
       analysis: result.analysis,
       questionResults: result.questionResults,
       proctoringReport: proctoringReport,
@@ -913,6 +1469,122 @@ export class StudentExamsController {
     };
   }
 
+  /**
+   * In-progress session owned by the caller, either a candidate or a guest
+   * using an invitation
+   * @param options.duringBreak Also accept a session on an accommodation break
+   */
+  private async findActiveSession(
+    sessionId: string,
+    req,
+    options: { duringBreak?: boolean } = {},
+  ): Promise<ExamSession> {
+    const session = await this.examSessionModel.findById(sessionId).exec();
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    const isGuestUser = req.user?.type === 'guest';
+    const studentId = isGuestUser ? null : req.user?.id;
+    const invitationId = req.user?.invitationId;
+    const isOwner =
+      (session.candidateId &&
+        studentId &&
+        session.candidateId.toString() === studentId) ||
+      (session.invitationId &&
+        invitationId &&
+        session.invitationId.toString() === invitationId);
+
+    if (!isOwner) {
+      throw new BadRequestException('Invalid session');
+    }
+
+    if (session.status !== SessionStatus.IN_PROGRESS) {
+      throw new BadRequestException('Exam session is not in progress');
+    }
+
+    if (this.sessionTimerService.isExpired(session)) {
+      throw new BadRequestException('Exam time is over, submit the exam');
+    }
+
+    if (!options.duringBreak && AccommodationUtil.activeBreak(session.breaks)) {
+      throw new BadRequestException('End your break before continuing');
+    }
+
+    return session;
+  }
+
+  private slotForCandidate(slot?: ExamSlot) {
+    return slot
+      ? {
+          id: slot._id,
+          name: slot.name,
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+        }
+      : undefined;
+  }
+
+  /**
+   * Exam document for candidate responses, without the access code or other
+   * candidates' accommodations
+   */
+  /**
+   * The attempt number was taken by a concurrent start (unique session index)
+   */
+  private translateDuplicateAttempt(error: any) {
+    if (error?.code === 11000) {
+      return new ConflictException(
+        'This attempt has already been started, reload the exam to resume it',
+      );
+    }
+    return error;
+  }
+
+  private examForCandidate(exam: Exam) {
+    const examObj = exam.toObject();
+    if (examObj.accessControl) {
+      delete examObj.accessControl.accessCode;
+    }
+    delete examObj.candidateAccommodations;
+    return examObj;
+  }
+
+  /**
+   * End of the cool-down after the latest submitted attempt, if the exam
+   * has one. Sessions are expected newest first.
+   */
+  private getNextAttemptAt(
+    exam: Exam,
+    previousSessions: Pick<ExamSession, 'submittedAt'>[],
+  ): Date | null {
+    const lastSubmittedAt = previousSessions.find(
+      (s) => s.submittedAt,
+    )?.submittedAt;
+    const cooldownMinutes = exam.settings?.attemptCooldownMinutes || 0;
+    if (!lastSubmittedAt || cooldownMinutes <= 0) {
+      return null;
+    }
+
+    return new Date(
+      new Date(lastSubmittedAt).getTime() + cooldownMinutes * 60 * 1000,
+    );
+  }
+
+  private async isEmailVerificationRequired(exam: Exam, studentId: string): Promise<boolean> {
+    const organization = await this.organizationModel
+      .findById(exam.organizationId)
+      .select('security')
+      .exec();
+
+    if (!organization?.security?.requireEmailVerification) {
+      return false;
+    }
+
+    const user = await this.userModel.findById(studentId).select('emailVerified').exec();
+    return !user?.emailVerified;
+  }
+
   private shuffleArray<T>(array: T[]): T[] {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
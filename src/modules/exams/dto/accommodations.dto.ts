@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ProctoringProfile } from '../schemas/exam.schema';
+
+export class AccommodationsDto {
+  @ApiProperty({
+    example: 1.5,
+    description: 'Multiplier applied to the exam and section durations',
+    required: false,
+  })
+  @IsNumber()
+  @Min(1)
+  @Max(4)
+  @IsOptional()
+  timeMultiplier?: number;
+
+  @ApiProperty({
+    example: 15,
+    description: 'Minutes added to the exam duration after the multiplier',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(600)
+  @IsOptional()
+  extraMinutes?: number;
+
+  @ApiProperty({
+    example: 20,
+    description: 'Total paused break minutes that do not count toward duration',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(600)
+  @IsOptional()
+  breakMinutes?: number;
+
+  @ApiProperty({
+    enum: ProctoringProfile,
+    example: ProctoringProfile.RELAXED,
+    required: false,
+  })
+  @IsEnum(ProctoringProfile)
+  @IsOptional()
+  proctoringProfile?: ProctoringProfile;
+
+  @ApiProperty({ example: 'Uses a screen reader', required: false })
+  @IsString()
+  @IsOptional()
+  notes?: string;
+}
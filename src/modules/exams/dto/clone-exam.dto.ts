@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDate,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+class CloneScheduleDto {
+  @ApiProperty({ example: '2025-01-15T10:00:00Z' })
+  @IsDate()
+  @Type(() => Date)
+  startDate: Date;
+
+  @ApiProperty({ example: '2025-01-15T12:00:00Z' })
+  @IsDate()
+  @Type(() => Date)
+  endDate: Date;
+}
+
+export class CloneExamDto {
+  @ApiProperty({
+    description: 'Code for the new exam, must be unique',
+    example: 'DS-FINAL-2025',
+  })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @ApiPropertyOptional({
+    description: 'Title for the new exam, defaults to the source title',
+    example: 'Data Structures Final Exam 2025',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  title?: string;
+
+  @ApiPropertyOptional({
+    type: CloneScheduleDto,
+    description: 'New schedule window, defaults to the source schedule',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CloneScheduleDto)
+  schedule?: CloneScheduleDto;
+}
@@ -1,7 +1,13 @@
 import { IsString, IsNotEmpty, IsNumber, IsOptional, IsEnum, IsBoolean, IsDate, IsArray, ValidateNested, Min, IsObject } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { ExamStatus, ExamCategory, ExamAccessMode } from '../schemas/exam.schema';
+import {
+  ExamStatus,
+  ExamCategory,
+  ExamAccessMode,
+  AttemptScoringPolicy,
+  ExamDeliveryMode,
+} from '../schemas/exam.schema';
 
 class ProctoringSettingsDto {
   @ApiProperty({ example: true })
@@ -111,6 +117,129 @@ class SettingsDto {
   @IsNumber()
   @Min(1)
   attemptsAllowed: number;
+
+  @ApiPropertyOptional({
+    example: 60,
+    description:
+      'Minutes a candidate must wait after submitting before the next attempt',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  attemptCooldownMinutes?: number;
+
+  @ApiPropertyOptional({
+    enum: AttemptScoringPolicy,
+    example: AttemptScoringPolicy.BEST,
+    description:
+      'Which attempt counts toward ranking, shortlisting and certificates',
+  })
+  @IsOptional()
+  @IsEnum(AttemptScoringPolicy)
+  attemptScoringPolicy?: AttemptScoringPolicy;
+}
+
+class AdaptiveSettingsDto {
+  @ApiProperty({
+    example: 5,
+    description: 'Questions served before stopping early',
+  })
+  @IsNumber()
+  @Min(1)
+  minQuestions: number;
+
+  @ApiProperty({ example: 20 })
+  @IsNumber()
+  @Min(1)
+  maxQuestions: number;
+
+  @ApiPropertyOptional({
+    example: 0.3,
+    description: 'Stop once the ability estimate has this standard error',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  targetStandardError?: number;
+}
+
+class SectionPoolDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  @IsString()
+  @IsNotEmpty()
+  poolId: string;
+
+  @ApiProperty({ example: 10 })
+  @IsNumber()
+  @Min(1)
+  questionsToSelect: number;
+
+  @ApiPropertyOptional({ example: 'Quantitative' })
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @ApiPropertyOptional({ example: 'MEDIUM' })
+  @IsOptional()
+  @IsString()
+  difficulty?: string;
+}
+
+export class ExamSectionDto {
+  @ApiProperty({ example: 'Section A: Aptitude' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ example: '20 aptitude questions' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ type: [String], example: [] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  questions?: string[];
+
+  @ApiPropertyOptional({ type: [SectionPoolDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SectionPoolDto)
+  questionPools?: SectionPoolDto[];
+
+  @ApiPropertyOptional({
+    example: 20,
+    description: 'Time limit in minutes, omitted for untimed sections',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  duration?: number;
+
+  @ApiPropertyOptional({ example: 40 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  totalMarks?: number;
+
+  @ApiPropertyOptional({
+    example: 16,
+    description: 'Minimum section score required to be shortlisted',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  cutoffScore?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Lock the section once the candidate moves past it',
+  })
+  @IsOptional()
+  @IsBoolean()
+  forwardOnly?: boolean;
 }
 
 export class CreateExamDto {
@@ -145,6 +274,32 @@ export class CreateExamDto {
   @IsString({ each: true })
   questions?: string[];
 
+  @ApiPropertyOptional({
+    type: [ExamSectionDto],
+    description: 'Sections served in order; replaces the flat questions list',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExamSectionDto)
+  sections?: ExamSectionDto[];
+
+  @ApiPropertyOptional({
+    enum: ExamDeliveryMode,
+    example: ExamDeliveryMode.LINEAR,
+    description:
+      'ADAPTIVE serves one question at a time, chosen from the ability estimate',
+  })
+  @IsOptional()
+  @IsEnum(ExamDeliveryMode)
+  deliveryMode?: ExamDeliveryMode;
+
+  @ApiPropertyOptional({ type: AdaptiveSettingsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AdaptiveSettingsDto)
+  adaptiveSettings?: AdaptiveSettingsDto;
+
   @ApiPropertyOptional({ type: [String], example: [] })
   @IsOptional()
   @IsArray()
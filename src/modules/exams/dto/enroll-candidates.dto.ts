@@ -3,12 +3,14 @@ import {
   IsArray,
   IsEmail,
   IsNotEmpty,
+  IsOptional,
   IsString,
   MinLength,
   ValidateNested,
   ArrayMinSize,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { AccommodationsDto } from './accommodations.dto';
 
 export class CandidateDataDto {
   @ApiProperty({ example: 'John Doe', description: 'Candidate name' })
@@ -24,6 +26,16 @@ export class CandidateDataDto {
   @IsEmail({}, { message: 'Invalid email format' })
   @IsNotEmpty({ message: 'Email is required' })
   email: string;
+
+  @ApiProperty({
+    type: AccommodationsDto,
+    description: 'Extra time, breaks or relaxed proctoring for this candidate',
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => AccommodationsDto)
+  @IsOptional()
+  accommodations?: AccommodationsDto;
 }
 
 export class EnrollCandidatesDto {
@@ -0,0 +1,46 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { AccessRequestStatus } from '../schemas/exam-access-request.schema';
+
+export class ExamAccessCodeDto {
+  @ApiPropertyOptional({
+    description: 'Access code, required when the exam has one',
+    example: 'DS2025',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  accessCode?: string;
+}
+
+export class RequestExamAccessDto extends ExamAccessCodeDto {
+  @ApiPropertyOptional({
+    description: 'Note to the reviewer',
+    example: 'I am in section B of the course',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  message?: string;
+}
+
+export class ReviewAccessRequestDto {
+  @ApiPropertyOptional({
+    description: 'Reason shown to the candidate when rejecting',
+    example: 'This exam is limited to enrolled students',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
+
+export class AccessRequestsQueryDto {
+  @ApiPropertyOptional({
+    enum: AccessRequestStatus,
+    description: 'Filter by status, defaults to PENDING',
+  })
+  @IsOptional()
+  @IsEnum(AccessRequestStatus)
+  status?: AccessRequestStatus;
+}
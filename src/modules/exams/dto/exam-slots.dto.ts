@@ -0,0 +1,71 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDate,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ExamSlotDto {
+  @ApiPropertyOptional({
+    description: 'ID of an existing slot to keep; omit for a new slot',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsOptional()
+  @IsMongoId()
+  id?: string;
+
+  @ApiPropertyOptional({ example: 'Batch 1 - Lab A' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ example: '2025-01-15T09:00:00Z' })
+  @IsDate()
+  @Type(() => Date)
+  startTime: Date;
+
+  @ApiProperty({ example: '2025-01-15T11:00:00Z' })
+  @IsDate()
+  @Type(() => Date)
+  endTime: Date;
+
+  @ApiProperty({ description: 'Seats in the slot', example: 300 })
+  @IsInt()
+  @Min(1)
+  capacity: number;
+}
+
+export class UpdateExamSlotsDto {
+  @ApiProperty({
+    type: [ExamSlotDto],
+    description:
+      'The full list of slots. Slots left out are removed, which is only allowed while they have no bookings. An empty list turns slots off.',
+  })
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => ExamSlotDto)
+  slots: ExamSlotDto[];
+}
+
+export class AssignExamSlotDto {
+  @ApiProperty({
+    description: 'Enrolled candidates to seat in the slot',
+    example: ['507f1f77bcf86cd799439011'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(1000)
+  @IsMongoId({ each: true })
+  candidateIds: string[];
+}
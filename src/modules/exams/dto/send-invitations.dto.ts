@@ -10,6 +10,7 @@ import {
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import { AccommodationsDto } from './accommodations.dto';
 
 export class CandidateInvitationDto {
   @ApiProperty({ example: 'john.doe@example.com' })
@@ -26,6 +27,16 @@ export class CandidateInvitationDto {
   @IsString()
   @IsOptional()
   phone?: string;
+
+  @ApiProperty({
+    type: AccommodationsDto,
+    description: 'Extra time, breaks or relaxed proctoring for this candidate',
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => AccommodationsDto)
+  @IsOptional()
+  accommodations?: AccommodationsDto;
 }
 
 export class SendInvitationsDto {
@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsArray, IsOptional } from 'class-validator';
+
+export class SubmitPreviewDto {
+  @ApiPropertyOptional({
+    description:
+      'Final answers, in the same shape as a candidate submission. Defaults to the answers saved during the preview.',
+    example: [{ questionId: '507f1f77bcf86cd799439011', selectedOption: 'b' }],
+  })
+  @IsOptional()
+  @IsArray()
+  answers?: any[];
+}
@@ -0,0 +1,22 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ExamStatus } from '../schemas/exam.schema';
+
+export class UpdateExamStatusDto {
+  @ApiProperty({
+    description: 'Target status',
+    enum: ExamStatus,
+    example: ExamStatus.PUBLISHED,
+  })
+  @IsEnum(ExamStatus)
+  status: ExamStatus;
+
+  @ApiPropertyOptional({
+    description: 'Why the status is being changed',
+    example: 'Closing early, all candidates have submitted',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,52 @@
+import { Logger } from '@nestjs/common';
+import { EventsHandler, IEventHandler } from '@nestjs/cqrs';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ExamStatusChangedEvent } from '../impl/exam-status-changed.event';
+import { Exam, ExamStatus } from '../../schemas/exam.schema';
+import { ExamVersionService } from '../../services/exam-version.service';
+
+@EventsHandler(ExamStatusChangedEvent)
+export class ExamStatusChangedHandler
+  implements IEventHandler<ExamStatusChangedEvent>
+{
+  private readonly logger = new Logger(ExamStatusChangedHandler.name);
+
+  constructor(
+    @InjectModel(Exam.name) private examModel: Model<Exam>,
+    private readonly examVersionService: ExamVersionService,
+  ) {}
+
+  async handle(event: ExamStatusChangedEvent) {
+    this.logger.log(
+      `Exam ${event.examId} moved ${event.from} -> ${event.to}` +
+        ` by ${event.changedBy || 'schedule'}` +
+        (event.reason ? ` (${event.reason})` : '') +
+        (event.closedSessions
+          ? `, ${event.closedSessions} session(s) closed`
+          : ''),
+    );
+
+    if (event.from === ExamStatus.DRAFT && event.to !== ExamStatus.ARCHIVED) {
+      await this.snapshotPublishedVersion(event);
+    }
+  }
+
+  // The content candidates first see is the baseline version
+  private async snapshotPublishedVersion(event: ExamStatusChangedEvent) {
+    try {
+      const exam = await this.examModel.findById(event.examId).exec();
+      if (exam) {
+        await this.examVersionService.ensureSnapshot(
+          exam,
+          event.changedBy,
+          `Published as ${event.to}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to snapshot version of exam ${event.examId}: ${error.message}`,
+      );
+    }
+  }
+}
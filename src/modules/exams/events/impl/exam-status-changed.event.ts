@@ -0,0 +1,13 @@
+import { ExamStatus } from '../../schemas/exam.schema';
+
+export class ExamStatusChangedEvent {
+  constructor(
+    public readonly examId: string,
+    public readonly organizationId: string,
+    public readonly from: ExamStatus,
+    public readonly to: ExamStatus,
+    public readonly changedBy: string | null, // null when triggered by the schedule
+    public readonly reason?: string,
+    public readonly closedSessions: number = 0,
+  ) {}
+}
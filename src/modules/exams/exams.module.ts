@@ -6,11 +6,21 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
 import { Exam, ExamSchema } from './schemas/exam.schema';
 import { ExamInvitation, ExamInvitationSchema } from './schemas/exam-invitation.schema';
+import { ExamVersion, ExamVersionSchema } from './schemas/exam-version.schema';
+import {
+  ExamAccessRequest,
+  ExamAccessRequestSchema,
+} from './schemas/exam-access-request.schema';
+import {
+  ExamSlotBooking,
+  ExamSlotBookingSchema,
+} from './schemas/exam-slot-booking.schema';
 import { Question, QuestionSchema } from '../questions/schemas/question.schema';
 import { User, UserSchema } from '../users/schemas/user.schema';
 import { ExamSession, ExamSessionSchema } from '../proctoring/schemas/exam-session.schema';
 import { Result, ResultSchema } from '../results/schemas/result.schema';
 import { Violation, ViolationSchema } from '../proctoring/schemas/violation.schema';
+import { Organization, OrganizationSchema } from '../organizations/schemas/organization.schema';
 import { ExamsController } from './controllers/exams.controller';
 import { StudentExamsController } from './controllers/student-exams.controller';
 import { InvitationExamsController } from './controllers/invitation-exams.controller';
@@ -20,10 +30,29 @@ import { AddQuestionsToExamHandler } from './commands/handlers/add-questions-to-
 import { RemoveQuestionsFromExamHandler } from './commands/handlers/remove-questions-from-exam.handler';
 import { EnrollCandidatesHandler } from './commands/handlers/enroll-candidates.handler';
 import { SendInvitationsHandler } from './commands/handlers/send-invitations.handler';
+import { CloneExamHandler } from './commands/handlers/clone-exam.handler';
+import { RequestExamAccessHandler } from './commands/handlers/request-exam-access.handler';
+import { ReviewAccessRequestHandler } from './commands/handlers/review-access-request.handler';
+import { BookExamSlotHandler } from './commands/handlers/book-exam-slot.handler';
+import { AssignExamSlotHandler } from './commands/handlers/assign-exam-slot.handler';
 import { InvitationTokenService } from './services/invitation-token.service';
 import { ExpireInvitationsJob } from './jobs/expire-invitations.job';
 import { InvitationReminderJob } from './jobs/invitation-reminder.job';
+import { ExamLifecycleJob } from './jobs/exam-lifecycle.job';
+import { SessionTimeoutJob } from './jobs/session-timeout.job';
+import { PreviewSessionCleanupJob } from './jobs/preview-session-cleanup.job';
+import { ExamLifecycleService } from './services/exam-lifecycle.service';
+import { ExamVersionService } from './services/exam-version.service';
+import { ExamAccessService } from './services/exam-access.service';
+import { ExamPreviewService } from './services/exam-preview.service';
+import { ExamSlotService } from './services/exam-slot.service';
+import { ExamStatusChangedHandler } from './events/handlers/exam-status-changed.handler';
 import { EmailModule } from '../email/email.module';
+import { AuthModule } from '../auth/auth.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { ResultsModule } from '../results/results.module';
+import { QuestionPoolsModule } from '../question-pools/question-pools.module';
+import { ProctoringModule } from '../proctoring/proctoring.module';
 
 const CommandHandlers = [
   CreateExamHandler,
@@ -31,21 +60,41 @@ const CommandHandlers = [
   RemoveQuestionsFromExamHandler,
   EnrollCandidatesHandler,
   SendInvitationsHandler,
+  CloneExamHandler,
+  RequestExamAccessHandler,
+  ReviewAccessRequestHandler,
+  BookExamSlotHandler,
+  AssignExamSlotHandler,
 ];
 
+const EventHandlers = [ExamStatusChangedHandler];
+
 const Services = [
   InvitationTokenService,
+  ExamLifecycleService,
+  ExamVersionService,
+  ExamAccessService,
+  ExamPreviewService,
+  ExamSlotService,
 ];
 
 const Jobs = [
   ExpireInvitationsJob,
   InvitationReminderJob,
+  ExamLifecycleJob,
+  SessionTimeoutJob,
+  PreviewSessionCleanupJob,
 ];
 
 @Module({
   imports: [
     CqrsModule,
     EmailModule,
+    AuthModule,
+    ApiKeysModule,
+    ResultsModule,
+    QuestionPoolsModule,
+    ProctoringModule,
     ScheduleModule.forRoot(), // Enable cron jobs
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -58,11 +107,15 @@ const Jobs = [
     MongooseModule.forFeature([
       { name: Exam.name, schema: ExamSchema },
       { name: ExamInvitation.name, schema: ExamInvitationSchema },
+      { name: ExamVersion.name, schema: ExamVersionSchema },
+      { name: ExamAccessRequest.name, schema: ExamAccessRequestSchema },
+      { name: ExamSlotBooking.name, schema: ExamSlotBookingSchema },
       { name: Question.name, schema: QuestionSchema },
       { name: User.name, schema: UserSchema },
       { name: ExamSession.name, schema: ExamSessionSchema },
       { name: Result.name, schema: ResultSchema },
       { name: Violation.name, schema: ViolationSchema },
+      { name: Organization.name, schema: OrganizationSchema },
     ]),
   ],
   controllers: [
@@ -73,12 +126,15 @@ const Jobs = [
   ],
   providers: [
     ...CommandHandlers,
+    ...EventHandlers,
     ...Services,
     ...Jobs,
   ],
   exports: [
     MongooseModule,
     InvitationTokenService, // Export for use in guards
+    ExamLifecycleService,
+    ExamVersionService,
   ],
 })
 export class ExamsModule {}
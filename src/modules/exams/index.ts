@@ -2,12 +2,38 @@
 export { ExamsModule } from './exams.module';
 
 // Schemas
-export { Exam, ExamSchema, ExamCategory, ExamAccessMode } from './schemas/exam.schema';
+export {
+  Exam,
+  ExamSchema,
+  ExamCategory,
+  ExamAccessMode,
+  ExamStatus,
+  ExamSection,
+  AttemptScoringPolicy,
+  ExamDeliveryMode,
+  Accommodations,
+  ProctoringProfile,
+  ExamSlot,
+} from './schemas/exam.schema';
 export {
   ExamInvitation,
   ExamInvitationSchema,
   InvitationStatus,
 } from './schemas/exam-invitation.schema';
+export {
+  ExamVersion,
+  ExamVersionSchema,
+  ExamVersionSnapshot,
+} from './schemas/exam-version.schema';
+export {
+  ExamAccessRequest,
+  ExamAccessRequestSchema,
+  AccessRequestStatus,
+} from './schemas/exam-access-request.schema';
+export {
+  ExamSlotBooking,
+  ExamSlotBookingSchema,
+} from './schemas/exam-slot-booking.schema';
 
 // Controllers
 export { ExamsController } from './controllers/exams.controller';
@@ -17,6 +43,17 @@ export { RecruitmentResultsController } from './controllers/recruitment-results.
 
 // Services
 export { InvitationTokenService } from './services/invitation-token.service';
+export {
+  ExamLifecycleService,
+  EXAM_STATUS_TRANSITIONS,
+} from './services/exam-lifecycle.service';
+export { ExamVersionService } from './services/exam-version.service';
+export { ExamAccessService } from './services/exam-access.service';
+export {
+  ExamPreviewService,
+  PREVIEW_RETENTION_HOURS,
+} from './services/exam-preview.service';
+export { ExamSlotService } from './services/exam-slot.service';
 
 // Commands
 export { CreateExamCommand } from './commands/impl/create-exam.command';
@@ -24,6 +61,11 @@ export { AddQuestionsToExamCommand } from './commands/impl/add-questions-to-exam
 export { RemoveQuestionsFromExamCommand } from './commands/impl/remove-questions-from-exam.command';
 export { EnrollCandidatesCommand } from './commands/impl/enroll-candidates.command';
 export { SendInvitationsCommand } from './commands/impl/send-invitations.command';
+export { CloneExamCommand } from './commands/impl/clone-exam.command';
+export { RequestExamAccessCommand } from './commands/impl/request-exam-access.command';
+export { ReviewAccessRequestCommand } from './commands/impl/review-access-request.command';
+export { BookExamSlotCommand } from './commands/impl/book-exam-slot.command';
+export { AssignExamSlotCommand } from './commands/impl/assign-exam-slot.command';
 
 // Command Handlers
 export { CreateExamHandler } from './commands/handlers/create-exam.handler';
@@ -31,14 +73,41 @@ export { AddQuestionsToExamHandler } from './commands/handlers/add-questions-to-
 export { RemoveQuestionsFromExamHandler } from './commands/handlers/remove-questions-from-exam.handler';
 export { EnrollCandidatesHandler } from './commands/handlers/enroll-candidates.handler';
 export { SendInvitationsHandler } from './commands/handlers/send-invitations.handler';
+export { CloneExamHandler } from './commands/handlers/clone-exam.handler';
+export { RequestExamAccessHandler } from './commands/handlers/request-exam-access.handler';
+export { ReviewAccessRequestHandler } from './commands/handlers/review-access-request.handler';
+export { BookExamSlotHandler } from './commands/handlers/book-exam-slot.handler';
+export { AssignExamSlotHandler } from './commands/handlers/assign-exam-slot.handler';
+
+// Events
+export { ExamStatusChangedEvent } from './events/impl/exam-status-changed.event';
+export { ExamStatusChangedHandler } from './events/handlers/exam-status-changed.handler';
 
 // DTOs
-export { CreateExamDto } from './dto/create-exam.dto';
+export { CreateExamDto, ExamSectionDto } from './dto/create-exam.dto';
 export { AddQuestionsDto } from './dto/add-questions.dto';
 export { RemoveQuestionsDto } from './dto/remove-questions.dto';
 export { EnrollCandidatesDto } from './dto/enroll-candidates.dto';
 export { SendInvitationsDto } from './dto/send-invitations.dto';
+export { UpdateExamStatusDto } from './dto/update-exam-status.dto';
+export { CloneExamDto } from './dto/clone-exam.dto';
+export { AccommodationsDto } from './dto/accommodations.dto';
+export {
+  ExamAccessCodeDto,
+  RequestExamAccessDto,
+  ReviewAccessRequestDto,
+  AccessRequestsQueryDto,
+} from './dto/exam-access.dto';
+export { SubmitPreviewDto } from './dto/submit-preview.dto';
+export {
+  ExamSlotDto,
+  UpdateExamSlotsDto,
+  AssignExamSlotDto,
+} from './dto/exam-slots.dto';
 
 // Jobs
 export { ExpireInvitationsJob } from './jobs/expire-invitations.job';
 export { InvitationReminderJob } from './jobs/invitation-reminder.job';
+export { ExamLifecycleJob } from './jobs/exam-lifecycle.job';
+export { SessionTimeoutJob } from './jobs/session-timeout.job';
+export { PreviewSessionCleanupJob } from './jobs/preview-session-cleanup.job';
@@ -0,0 +1,58 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  ExamLifecycleService,
+  ScheduledTransitionSummary,
+} from '../services/exam-lifecycle.service';
+
+/**
+ * Background job that moves exams through their lifecycle based on
+ * schedule.startDate / schedule.endDate
+ *
+ * Runs every minute so exams open and close close to their scheduled time
+ */
+@Injectable()
+export class ExamLifecycleJob {
+  private readonly logger = new Logger(ExamLifecycleJob.name);
+  private running = false;
+
+  constructor(private readonly examLifecycleService: ExamLifecycleService) {}
+
+  @Cron(CronExpression.EVERY_MINUTE, {
+    name: 'exam-lifecycle',
+    timeZone: 'UTC',
+  })
+  async handleScheduledTransitions() {
+    // Skip the tick if the previous run is still closing out sessions
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const summary = await this.examLifecycleService.runScheduledTransitions();
+
+      if (summary.scheduled || summary.activated || summary.completed) {
+        this.logger.log(
+          `Exam lifecycle: ${summary.scheduled} scheduled, ${summary.activated} activated, ${summary.completed} completed`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Error running exam lifecycle transitions:', {
+        error: error.message,
+        stack: error.stack,
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Manual trigger for the scheduled transitions
+   * Can be called by admin endpoint or during deployment
+   */
+  async manualTrigger(): Promise<ScheduledTransitionSummary> {
+    this.logger.log('Manual trigger: Running exam lifecycle transitions...');
+    return this.examLifecycleService.runScheduledTransitions();
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ExamPreviewService } from '../services/exam-preview.service';
+
+/**
+ * Background job that deletes admin preview sessions once they are past
+ * their retention period
+ *
+ * Runs every hour; previews are never graded into results, so nothing else
+ * references them
+ */
+@Injectable()
+export class PreviewSessionCleanupJob {
+  private readonly logger = new Logger(PreviewSessionCleanupJob.name);
+  private running = false;
+
+  constructor(private readonly examPreviewService: ExamPreviewService) {}
+
+  @Cron(CronExpression.EVERY_HOUR, {
+    name: 'preview-session-cleanup',
+    timeZone: 'UTC',
+  })
+  async handleCleanup() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const removed = await this.examPreviewService.cleanupExpired();
+
+      if (removed > 0) {
+        this.logger.log(`Removed ${removed} expired preview session(s)`);
+      }
+    } catch (error) {
+      this.logger.error('Error cleaning up preview sessions:', {
+        error: error.message,
+        stack: error.stack,
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Manual trigger for the cleanup
+   * Can be called by admin endpoint or during deployment
+   */
+  async manualTrigger(): Promise<number> {
+    this.logger.log('Manual trigger: Removing expired preview sessions...');
+    return this.examPreviewService.cleanupExpired();
+  }
+}
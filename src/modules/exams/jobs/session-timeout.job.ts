@@ -0,0 +1,53 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SessionTimerService } from '../../proctoring/services/session-timer.service';
+
+/**
+ * Background job that closes sessions whose time ran out as TIMED_OUT and
+ * grades their saved answers, for candidates who never submitted
+ *
+ * Runs every minute so results appear shortly after the deadline
+ */
+@Injectable()
+export class SessionTimeoutJob {
+  private readonly logger = new Logger(SessionTimeoutJob.name);
+  private running = false;
+
+  constructor(private readonly sessionTimerService: SessionTimerService) {}
+
+  @Cron(CronExpression.EVERY_MINUTE, {
+    name: 'session-timeout',
+    timeZone: 'UTC',
+  })
+  async handleExpiredSessions() {
+    // Skip the tick if the previous run is still grading
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const timedOut = await this.sessionTimerService.sweepExpired();
+
+      if (timedOut > 0) {
+        this.logger.log(`Timed out ${timedOut} session(s)`);
+      }
+    } catch (error) {
+      this.logger.error('Error timing out sessions:', {
+        error: error.message,
+        stack: error.stack,
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Manual trigger for the sweep
+   * Can be called by admin endpoint or during deployment
+   */
+  async manualTrigger(): Promise<number> {
+    this.logger.log('Manual trigger: Timing out expired sessions...');
+    return this.sessionTimerService.sweepExpired();
+  }
+}
@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum AccessRequestStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
+
+/**
+ * A candidate's request to join an exam with accessControl.requiresApproval.
+ * One request per candidate and exam; a rejected candidate may ask again,
+ * which reopens the same request.
+ */
+@Schema({ timestamps: true })
+export class ExamAccessRequest extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'Exam', required: true })
+  examId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization' })
+  organizationId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  candidateId: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: AccessRequestStatus,
+    default: AccessRequestStatus.PENDING,
+  })
+  status: AccessRequestStatus;
+
+  @Prop()
+  message?: string; // Note from the candidate to the reviewer
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  reviewedBy?: Types.ObjectId;
+
+  @Prop({ type: Date })
+  reviewedAt?: Date;
+
+  @Prop()
+  rejectionReason?: string;
+}
+
+export const ExamAccessRequestSchema =
+  SchemaFactory.createForClass(ExamAccessRequest);
+
+// Indexes
+ExamAccessRequestSchema.index({ examId: 1, candidateId: 1 }, { unique: true });
+ExamAccessRequestSchema.index({ examId: 1, status: 1, createdAt: -1 });
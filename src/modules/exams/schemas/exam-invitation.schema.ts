@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { Accommodations } from './exam.schema';
 
 export enum InvitationStatus {
   PENDING = 'PENDING',
@@ -65,6 +66,9 @@ export class ExamInvitation extends Document {
   @Prop()
   invitationNote?: string; // Custom message to candidate
 
+  @Prop({ type: Accommodations })
+  accommodations?: Accommodations;
+
   @Prop()
   revokedAt?: Date;
 
@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+/**
+ * A candidate's seat in one of an exam's slots. One booking per candidate
+ * and exam; booking another slot moves the seat.
+ */
+@Schema({ timestamps: true })
+export class ExamSlotBooking extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'Exam', required: true })
+  examId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, required: true })
+  slotId: Types.ObjectId; // Exam.slots[]._id
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  candidateId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  bookedBy: Types.ObjectId; // The candidate, or the admin who assigned them
+}
+
+export const ExamSlotBookingSchema =
+  SchemaFactory.createForClass(ExamSlotBooking);
+
+// Indexes
+ExamSlotBookingSchema.index({ examId: 1, candidateId: 1 }, { unique: true });
+ExamSlotBookingSchema.index({ examId: 1, slotId: 1 });
@@ -0,0 +1,75 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+/**
+ * Exam content as candidates sat it: questions, pools, sections, grading,
+ * proctoring and delivery settings
+ */
+export interface ExamVersionSnapshot {
+  title: string;
+  description?: string;
+  duration: number;
+  questions: string[];
+  questionPools: any[];
+  sections: any[];
+  deliveryMode?: string;
+  adaptiveSettings?: any;
+  totalQuestions: number;
+  grading: any;
+  proctoringSettings: any;
+  settings: any;
+  shortlistingCriteria?: any;
+}
+
+/**
+ * Immutable snapshot of a published exam. A new version is written every
+ * time the exam is edited after leaving DRAFT; existing versions are never
+ * updated or deleted.
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class ExamVersion extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'Exam', required: true })
+  examId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization' })
+  organizationId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  version: number;
+
+  @Prop({ type: Object, required: true })
+  snapshot: ExamVersionSnapshot;
+
+  @Prop()
+  reason?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+}
+
+export const ExamVersionSchema = SchemaFactory.createForClass(ExamVersion);
+
+ExamVersionSchema.index({ examId: 1, version: 1 }, { unique: true });
+
+// Versions are write-once
+ExamVersionSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Exam versions are immutable'));
+  }
+  next();
+});
+
+for (const operation of [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete',
+] as const) {
+  ExamVersionSchema.pre(operation, function (next) {
+    next(new Error('Exam versions are immutable'));
+  });
+}
@@ -29,6 +29,26 @@ export enum ExamAccessMode {
   HYBRID = 'HYBRID',                        // Both enrollment and invitation allowed
 }
 
+// How questions are delivered to the candidate
+export enum ExamDeliveryMode {
+  LINEAR = 'LINEAR', // Whole question set served at start
+  ADAPTIVE = 'ADAPTIVE', // Server picks each next question from the ability estimate
+}
+
+// Which attempt counts when candidates may retake an exam
+export enum AttemptScoringPolicy {
+  BEST = 'BEST',
+  LATEST = 'LATEST',
+  AVERAGE = 'AVERAGE',
+  FIRST = 'FIRST',
+}
+
+// Proctoring strictness applied to a candidate's session
+export enum ProctoringProfile {
+  STANDARD = 'STANDARD', // Exam proctoring settings as configured
+  RELAXED = 'RELAXED', // Assistive-tech triggers are logged only, no auto-submit
+}
+
 export enum GradingScheme {
   PERCENTAGE = 'PERCENTAGE',
   LETTER_GRADE = 'LETTER_GRADE',
@@ -51,6 +71,88 @@ class QuestionPoolConfig {
   difficulty?: string;
 }
 
+@Schema()
+export class ExamSection {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Question' }], default: [] })
+  questions: Types.ObjectId[];
+
+  @Prop({ type: [QuestionPoolConfig], default: [] })
+  questionPools: QuestionPoolConfig[];
+
+  @Prop()
+  duration?: number; // Minutes; untimed sections only share the exam duration
+
+  @Prop()
+  totalMarks?: number;
+
+  @Prop()
+  cutoffScore?: number; // Synced into shortlistingCriteria.sectionWiseCutoff
+
+  @Prop({ type: Boolean, default: false })
+  forwardOnly: boolean; // Answers are locked once the candidate moves past it
+}
+
+/**
+ * Accessibility accommodations a candidate is entitled to
+ */
+@Schema()
+export class Accommodations {
+  @Prop({ type: Number, default: 1 })
+  timeMultiplier: number; // Applied to the exam and section durations
+
+  @Prop({ type: Number, default: 0 })
+  extraMinutes: number; // Added to the exam duration after the multiplier
+
+  @Prop({ type: Number, default: 0 })
+  breakMinutes: number; // Paused time that does not count toward the duration
+
+  @Prop({
+    type: String,
+    enum: Object.values(ProctoringProfile),
+    default: ProctoringProfile.STANDARD,
+  })
+  proctoringProfile: ProctoringProfile;
+
+  @Prop()
+  notes?: string;
+}
+
+@Schema()
+class CandidateAccommodation {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  candidateId: Types.ObjectId;
+
+  @Prop({ type: Accommodations, required: true })
+  accommodations: Accommodations;
+}
+
+/**
+ * A sitting of the exam with its own window and seats. Candidates booked
+ * into a slot may only start during it.
+ */
+@Schema()
+export class ExamSlot {
+  _id: Types.ObjectId;
+
+  @Prop()
+  name?: string;
+
+  @Prop({ type: Date, required: true })
+  startTime: Date;
+
+  @Prop({ type: Date, required: true })
+  endTime: Date;
+
+  @Prop({ type: Number, required: true, min: 1 })
+  capacity: number;
+}
+
 @Schema()
 class AccessControl {
   @Prop()
@@ -154,6 +256,28 @@ class Settings {
 
   @Prop({ type: Number, default: 1 })
   attemptsAllowed: number;
+
+  @Prop({ type: Number, default: 0 })
+  attemptCooldownMinutes: number; // Wait after submitting before the next attempt
+
+  @Prop({
+    type: String,
+    enum: AttemptScoringPolicy,
+    default: AttemptScoringPolicy.BEST,
+  })
+  attemptScoringPolicy: AttemptScoringPolicy;
+}
+
+@Schema()
+class AdaptiveSettings {
+  @Prop({ type: Number, default: 5 })
+  minQuestions: number;
+
+  @Prop({ type: Number, default: 20 })
+  maxQuestions: number;
+
+  @Prop({ type: Number, default: 0.3 })
+  targetStandardError?: number; // Stop early once the estimate is this precise
 }
 
 @Schema()
@@ -266,6 +390,14 @@ export class Exam extends Document {
   @Prop({ type: Types.ObjectId, ref: 'ExamTemplate' })
   templateId?: Types.ObjectId;
 
+  @Prop({ type: Types.ObjectId, ref: 'Exam' })
+  clonedFrom?: Types.ObjectId;
+
+  // Current content version; bumped on every edit after leaving DRAFT,
+  // with a snapshot of each version kept in ExamVersion
+  @Prop({ type: Number, default: 1 })
+  version: number;
+
   @Prop({ required: true })
   duration: number;
 
@@ -285,12 +417,34 @@ export class Exam extends Document {
   @Prop({ type: [QuestionPoolConfig], default: [] })
   questionPools: QuestionPoolConfig[];
 
+  // Sectioned exams serve sections in order instead of questions/questionPools
+  @Prop({ type: [ExamSection], default: [] })
+  sections: ExamSection[];
+
+  @Prop({
+    type: String,
+    enum: ExamDeliveryMode,
+    default: ExamDeliveryMode.LINEAR,
+  })
+  deliveryMode: ExamDeliveryMode;
+
+  // Adaptive exams draw from questions and every question in questionPools
+  @Prop({ type: AdaptiveSettings, default: () => ({}) })
+  adaptiveSettings: AdaptiveSettings;
+
   @Prop({ type: Number, default: 0 })
   totalQuestions: number;
 
   @Prop({ type: [{ type: Types.ObjectId, ref: 'User' }], default: [] })
   enrolledCandidates: Types.ObjectId[];
 
+  @Prop({ type: [CandidateAccommodation], default: [] })
+  candidateAccommodations: CandidateAccommodation[];
+
+  // When set, candidates must book a slot and start within it
+  @Prop({ type: [ExamSlot], default: [] })
+  slots: ExamSlot[];
+
   @Prop({ type: AccessControl, default: () => ({}) })
   accessControl: AccessControl;
 
@@ -0,0 +1,94 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ExamAccessService } from './exam-access.service';
+import { ExamAccessRequest } from '../schemas/exam-access-request.schema';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+import { RateLimiterService } from '../../redis/rate-limiter.service';
+
+describe('ExamAccessService', () => {
+  let service: ExamAccessService;
+
+  const candidateId = new Types.ObjectId().toString();
+  const exam = {
+    _id: new Types.ObjectId(),
+    accessControl: { accessCode: 'DS2025' },
+  } as any;
+
+  // In-memory stand-in for the Redis counters
+  let counters: Record<string, number>;
+  const mockRedis = {
+    get: jest.fn(async (key: string) =>
+      counters[key] ? String(counters[key]) : null,
+    ),
+    ttl: jest.fn().mockResolvedValue(600),
+  };
+  const mockRateLimiter = {
+    hit: jest.fn(
+      async (key: string) => (counters[key] = (counters[key] || 0) + 1),
+    ),
+    reset: jest.fn(async (key: string) => {
+      delete counters[key];
+    }),
+  };
+
+  beforeEach(async () => {
+    counters = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExamAccessService,
+        { provide: getModelToken(ExamAccessRequest.name), useValue: {} },
+        { provide: REDIS_CLIENT, useValue: mockRedis },
+        { provide: RateLimiterService, useValue: mockRateLimiter },
+      ],
+    }).compile();
+
+    service = module.get<ExamAccessService>(ExamAccessService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('verifyAccessCode', () => {
+    it('should not require a code when the exam has none', async () => {
+      const check = await service.verifyAccessCode(
+        { _id: exam._id, accessControl: {} } as any,
+        candidateId,
+      );
+
+      expect(check).toEqual({ required: false, valid: true });
+    });
+
+    it('should accept the right code and clear earlier failures', async () => {
+      await service.verifyAccessCode(exam, candidateId, 'wrong');
+
+      const check = await service.verifyAccessCode(exam, candidateId, 'DS2025');
+
+      expect(check.valid).toBe(true);
+      expect(mockRateLimiter.reset).toHaveBeenCalled();
+    });
+
+    it('should not count a missing code as a failure', async () => {
+      const check = await service.verifyAccessCode(exam, candidateId);
+
+      expect(check).toEqual({ required: true, valid: false });
+      expect(mockRateLimiter.hit).not.toHaveBeenCalled();
+    });
+
+    it('should lock the candidate out after repeated wrong codes', async () => {
+      for (let i = 0; i < 4; i++) {
+        const check = await service.verifyAccessCode(exam, candidateId, 'nope');
+        expect(check.attemptsRemaining).toBe(4 - i);
+      }
+
+      const lockout = service.verifyAccessCode(exam, candidateId, 'nope');
+      await expect(lockout).rejects.toThrow(HttpException);
+      await expect(
+        service.verifyAccessCode(exam, candidateId, 'DS2025'),
+      ).rejects.toMatchObject({ status: HttpStatus.TOO_MANY_REQUESTS });
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import Redis from 'ioredis';
+import { timingSafeEqual } from 'crypto';
+import { REDIS_CLIENT } from '../../redis/redis.constants';
+import { RateLimiterService } from '../../redis/rate-limiter.service';
+import { Exam } from '../schemas/exam.schema';
+import {
+  AccessRequestStatus,
+  ExamAccessRequest,
+} from '../schemas/exam-access-request.schema';
+import { SecureTokenUtil } from '../../../common/utils/secure-token.util';
+
+// Wrong access codes a candidate may enter per exam before being locked out
+const MAX_CODE_FAILURES = 5;
+const CODE_FAILURE_WINDOW_SECONDS = 15 * 60;
+
+export interface AccessCodeCheck {
+  required: boolean;
+  valid: boolean;
+  attemptsRemaining?: number;
+}
+
+/**
+ * Access control for enrollment-based exams: the optional access code and
+ * requests to join exams that require approval.
+ *
+ * Redis keys:
+ * - exams:access-code-failures:<examId>:<candidateId> -> wrong codes in window
+ */
+@Injectable()
+export class ExamAccessService {
+  private readonly logger = new Logger(ExamAccessService.name);
+
+  constructor(
+    @InjectModel(ExamAccessRequest.name)
+    private accessRequestModel: Model<ExamAccessRequest>,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly rateLimiter: RateLimiterService,
+  ) {}
+
+  requiresAccessCode(exam: Exam): boolean {
+    return !!exam.accessControl?.accessCode;
+  }
+
+  /**
+   * Check the code a candidate entered. A missing code is not counted as a
+   * failure; wrong codes are, and too many lock the candidate out for a while.
+   */
+  async verifyAccessCode(
+    exam: Exam,
+    candidateId: string,
+    code?: string,
+  ): Promise<AccessCodeCheck> {
+    if (!this.requiresAccessCode(exam)) {
+      return { required: false, valid: true };
+    }
+
+    const key = this.failuresKey(exam._id.toString(), candidateId);
+    const failures = parseInt((await this.redis.get(key)) || '0', 10);
+    if (failures >= MAX_CODE_FAILURES) {
+      throw await this.tooManyAttempts(key);
+    }
+
+    if (!code) {
+      return { required: true, valid: false };
+    }
+
+    if (this.codesMatch(exam.accessControl.accessCode, code)) {
+      await this.rateLimiter.reset(key);
+      return { required: true, valid: true };
+    }
+
+    const count = await this.rateLimiter.hit(key, CODE_FAILURE_WINDOW_SECONDS);
+    if (count >= MAX_CODE_FAILURES) {
+      this.logger.warn(
+        `Access code lockout for candidate ${candidateId} on exam ${exam._id}`,
+      );
+      throw await this.tooManyAttempts(key);
+    }
+
+    return {
+      required: true,
+      valid: false,
+      attemptsRemaining: MAX_CODE_FAILURES - count,
+    };
+  }
+
+  async findRequest(
+    examId: string,
+    candidateId: string,
+  ): Promise<ExamAccessRequest | null> {
+    return this.accessRequestModel
+      .findOne({
+        examId: new Types.ObjectId(examId),
+        candidateId: new Types.ObjectId(candidateId),
+      })
+      .exec();
+  }
+
+  async listRequests(examId: string, status?: AccessRequestStatus) {
+    const filter: any = { examId: new Types.ObjectId(examId) };
+    if (status) {
+      filter.status = status;
+    }
+
+    return this.accessRequestModel
+      .find(filter)
+      .populate('candidateId', 'name email')
+      .populate('reviewedBy', 'name email')
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  private codesMatch(expected: string, given: string): boolean {
+    // Compare fixed-length hashes so the check takes the same time either way
+    return timingSafeEqual(
+      Buffer.from(SecureTokenUtil.hash(expected.trim())),
+      Buffer.from(SecureTokenUtil.hash(given.trim())),
+    );
+  }
+
+  private async tooManyAttempts(key: string): Promise<HttpException> {
+    const retryAfter = Math.max(1, await this.redis.ttl(key));
+    return new HttpException(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: `Too many wrong access codes. Try again in ${Math.ceil(retryAfter / 60)} minute(s).`,
+        retryAfter,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  private failuresKey(examId: string, candidateId: string): string {
+    return `exams:access-code-failures:${examId}:${candidateId}`;
+  }
+}
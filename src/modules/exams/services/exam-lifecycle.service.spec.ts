@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { EventBus } from '@nestjs/cqrs';
+import { Types } from 'mongoose';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ExamLifecycleService } from './exam-lifecycle.service';
+import { Exam, ExamStatus } from '../schemas/exam.schema';
+import {
+  ExamSession,
+  SessionStatus,
+} from '../../proctoring/schemas/exam-session.schema';
+import { GradingService } from '../../results/services/grading.service';
+import { ExamStatusChangedEvent } from '../events/impl/exam-status-changed.event';
+
+describe('ExamLifecycleService', () => {
+  let service: ExamLifecycleService;
+
+  const examId = new Types.ObjectId();
+  const organizationId = new Types.ObjectId();
+
+  const mockExamModel = {
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    find: jest.fn(),
+  };
+  const mockSessionModel = {
+    find: jest.fn(),
+  };
+  const mockEventBus = { publish: jest.fn() };
+  const mockGradingService = { gradeExamSession: jest.fn() };
+
+  const exec = (value: any) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+  const buildExam = (overrides: Partial<Exam> = {}) =>
+    ({
+      _id: examId,
+      organizationId,
+      status: ExamStatus.DRAFT,
+      questions: [new Types.ObjectId()],
+      questionPools: [],
+      ...overrides,
+    }) as any;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExamLifecycleService,
+        { provide: getModelToken(Exam.name), useValue: mockExamModel },
+        {
+          provide: getModelToken(ExamSession.name),
+          useValue: mockSessionModel,
+        },
+        { provide: EventBus, useValue: mockEventBus },
+        { provide: GradingService, useValue: mockGradingService },
+      ],
+    }).compile();
+
+    service = module.get<ExamLifecycleService>(ExamLifecycleService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('canTransition', () => {
+    it('should allow publishing a draft', () => {
+      expect(
+        service.canTransition(ExamStatus.DRAFT, ExamStatus.PUBLISHED),
+      ).toBe(true);
+    });
+
+    it('should not allow reopening a completed exam', () => {
+      expect(
+        service.canTransition(ExamStatus.COMPLETED, ExamStatus.ACTIVE),
+      ).toBe(false);
+    });
+
+    it('should treat ARCHIVED as terminal', () => {
+      Object.values(ExamStatus).forEach((status) => {
+        expect(service.canTransition(ExamStatus.ARCHIVED, status)).toBe(false);
+      });
+    });
+  });
+
+  describe('transition', () => {
+    it('should publish a draft, set publishedAt and emit an event', async () => {
+      const exam = buildExam();
+      mockExamModel.findById.mockReturnValue(exec(exam));
+      mockExamModel.findOneAndUpdate.mockReturnValue(
+        exec({ ...exam, status: ExamStatus.PUBLISHED }),
+      );
+
+      await service.transition(
+        examId.toString(),
+        ExamStatus.PUBLISHED,
+        'user-1',
+      );
+
+      const [filter, update] = mockExamModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: examId, status: ExamStatus.DRAFT });
+      expect(update.$set.status).toBe(ExamStatus.PUBLISHED);
+      expect(update.$set.publishedAt).toBeInstanceOf(Date);
+
+      const event = mockEventBus.publish.mock.calls[0][0];
+      expect(event).toBeInstanceOf(ExamStatusChangedEvent);
+      expect(event.from).toBe(ExamStatus.DRAFT);
+      expect(event.to).toBe(ExamStatus.PUBLISHED);
+      expect(event.changedBy).toBe('user-1');
+    });
+
+    it('should reject a transition that is not allowed', async () => {
+      mockExamModel.findById.mockReturnValue(
+        exec(buildExam({ status: ExamStatus.COMPLETED })),
+      );
+
+      await expect(
+        service.transition(examId.toString(), ExamStatus.ACTIVE, 'user-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockExamModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to publish an exam without questions', async () => {
+      mockExamModel.findById.mockReturnValue(
+        exec(buildExam({ questions: [] })),
+      );
+
+      await expect(
+        service.transition(examId.toString(), ExamStatus.PUBLISHED, 'user-1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should report a concurrent status change', async () => {
+      mockExamModel.findById.mockReturnValue(exec(buildExam()));
+      mockExamModel.findOneAndUpdate.mockReturnValue(exec(null));
+
+      await expect(
+        service.transition(examId.toString(), ExamStatus.PUBLISHED, 'user-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
+    });
+
+    it('should auto-submit open sessions when completing', async () => {
+      const exam = buildExam({ status: ExamStatus.ACTIVE });
+      const session = {
+        _id: new Types.ObjectId(),
+        status: SessionStatus.IN_PROGRESS,
+        save: jest.fn().mockResolvedValue(undefined),
+      } as any;
+      mockExamModel.findById.mockReturnValue(exec(exam));
+      mockExamModel.findOneAndUpdate.mockReturnValue(
+        exec({ ...exam, status: ExamStatus.COMPLETED }),
+      );
+      mockSessionModel.find.mockReturnValue(exec([session]));
+
+      await service.transition(examId.toString(), ExamStatus.COMPLETED, null);
+
+      const update = mockExamModel.findOneAndUpdate.mock.calls[0][1];
+      expect(update.$set.completedAt).toBeInstanceOf(Date);
+      expect(session.status).toBe(SessionStatus.AUTO_SUBMITTED);
+      expect(session.submittedAt).toBeInstanceOf(Date);
+      expect(mockGradingService.gradeExamSession).toHaveBeenCalledWith(
+        session._id.toString(),
+      );
+      expect(mockEventBus.publish.mock.calls[0][0].closedSessions).toBe(1);
+    });
+  });
+
+  describe('getClosingTime', () => {
+    const endDate = new Date('2026-01-01T10:00:00Z');
+    const lateSubmissionDeadline = new Date('2026-01-01T12:00:00Z');
+
+    it('should use the end date when late submissions are off', () => {
+      expect(
+        service.getClosingTime({
+          schedule: { endDate, lateSubmissionDeadline } as any,
+        }),
+      ).toEqual(endDate);
+    });
+
+    it('should use the late submission deadline when allowed', () => {
+      expect(
+        service.getClosingTime({
+          schedule: {
+            endDate,
+            lateSubmissionAllowed: true,
+            lateSubmissionDeadline,
+          } as any,
+        }),
+      ).toEqual(lateSubmissionDeadline);
+    });
+
+    it('should return null without an end date', () => {
+      expect(service.getClosingTime({ schedule: undefined })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { EventBus } from '@nestjs/cqrs';
+import { Model, Types } from 'mongoose';
+import { Exam, ExamStatus } from '../schemas/exam.schema';
+import {
+  ExamSession,
+  SessionStatus,
+} from '../../proctoring/schemas/exam-session.schema';
+import { GradingService } from '../../results/services/grading.service';
+import { ExamStatusChangedEvent } from '../events/impl/exam-status-changed.event';
+
+/**
+ * Allowed status transitions. ARCHIVED is terminal.
+ */
+export const EXAM_STATUS_TRANSITIONS: Record<ExamStatus, ExamStatus[]> = {
+  [ExamStatus.DRAFT]: [
+    ExamStatus.PUBLISHED,
+    ExamStatus.SCHEDULED,
+    ExamStatus.ARCHIVED,
+  ],
+  [ExamStatus.PUBLISHED]: [
+    ExamStatus.DRAFT,
+    ExamStatus.SCHEDULED,
+    ExamStatus.ACTIVE,
+    ExamStatus.COMPLETED,
+    ExamStatus.ARCHIVED,
+  ],
+  [ExamStatus.SCHEDULED]: [
+    ExamStatus.DRAFT,
+    ExamStatus.PUBLISHED,
+    ExamStatus.ACTIVE,
+    ExamStatus.COMPLETED,
+    ExamStatus.ARCHIVED,
+  ],
+  [ExamStatus.ACTIVE]: [ExamStatus.COMPLETED],
+  [ExamStatus.COMPLETED]: [ExamStatus.ARCHIVED],
+  [ExamStatus.ARCHIVED]: [],
+};
+
+// Sessions still open when an exam closes
+// Candidates may only start exams in these statuses
+export const STARTABLE_EXAM_STATUSES = [
+  ExamStatus.PUBLISHED,
+  ExamStatus.ACTIVE,
+];
+
+const OPEN_SESSION_STATUSES = [SessionStatus.IN_PROGRESS, SessionStatus.ACTIVE];
+
+export interface ScheduledTransitionSummary {
+  scheduled: number;
+  activated: number;
+  completed: number;
+}
+
+/**
+ * Moves exams through their lifecycle, either on request or driven by
+ * schedule.startDate / schedule.endDate (see ExamLifecycleJob).
+ *
+ * Every transition is validated against EXAM_STATUS_TRANSITIONS, applied
+ * with a compare-and-set on the current status, and published as an
+ * ExamStatusChangedEvent.
+ */
+@Injectable()
+export class ExamLifecycleService {
+  private readonly logger = new Logger(ExamLifecycleService.name);
+
+  constructor(
+    @InjectModel(Exam.name) private examModel: Model<Exam>,
+    @InjectModel(ExamSession.name) private sessionModel: Model<ExamSession>,
+    private readonly eventBus: EventBus,
+    private readonly gradingService: GradingService,
+  ) {}
+
+  canTransition(from: ExamStatus, to: ExamStatus): boolean {
+    return (EXAM_STATUS_TRANSITIONS[from] || []).includes(to);
+  }
+
+  /**
+   * Move an exam to a new status.
+   * @param changedBy User making the change, or null for the scheduler
+   */
+  async transition(
+    examId: string,
+    to: ExamStatus,
+    changedBy: string | null,
+    reason?: string,
+  ): Promise<Exam> {
+    const exam = Types.ObjectId.isValid(examId)
+      ? await this.examModel.findById(examId).exec()
+      : null;
+
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    const from = exam.status;
+    if (!this.canTransition(from, to)) {
+      throw new BadRequestException(
+        `Cannot move exam from ${from} to ${to}. Allowed: ${EXAM_STATUS_TRANSITIONS[from].join(', ') || 'none'}`,
+      );
+    }
+
+    this.assertReady(exam, to);
+
+    const now = new Date();
+    const update: Record<string, any> = { status: to };
+    if (
+      [ExamStatus.PUBLISHED, ExamStatus.SCHEDULED, ExamStatus.ACTIVE].includes(
+        to,
+      ) &&
+      !exam.publishedAt
+    ) {
+      update.publishedAt = now;
+    }
+    if (to === ExamStatus.COMPLETED) {
+      update.completedAt = now;
+    }
+
+    // Compare-and-set so the scheduler and a user cannot both apply a change
+    const updated = await this.examModel
+      .findOneAndUpdate(
+        { _id: exam._id, status: from },
+        { $set: update },
+        { new: true },
+      )
+      .exec();
+
+    if (!updated) {
+      throw new ConflictException(
+        'Exam status changed concurrently, reload and try again',
+      );
+    }
+
+    const closedSessions =
+      to === ExamStatus.COMPLETED
+        ? await this.closeOutSessions(updated._id.toString())
+        : 0;
+
+    this.eventBus.publish(
+      new ExamStatusChangedEvent(
+        updated._id.toString(),
+        updated.organizationId?.toString(),
+        from,
+        to,
+        changedBy,
+        reason,
+        closedSessions,
+      ),
+    );
+
+    return updated;
+  }
+
+  /**
+   * Apply every transition that is due according to exam schedules
+   */
+  async runScheduledTransitions(
+    now: Date = new Date(),
+  ): Promise<ScheduledTransitionSummary> {
+    const summary: ScheduledTransitionSummary = {
+      scheduled: 0,
+      activated: 0,
+      completed: 0,
+    };
+
+    // Published with a future start: waiting for the window to open
+    const upcoming = await this.examModel
+      .find({
+        status: ExamStatus.PUBLISHED,
+        'schedule.startDate': { $gt: now },
+      })
+      .select('_id')
+      .exec();
+    summary.scheduled = await this.applyAll(
+      upcoming,
+      ExamStatus.SCHEDULED,
+      'Start date is in the future',
+    );
+
+    // Window open
+    const due = await this.examModel
+      .find({
+        status: { $in: [ExamStatus.PUBLISHED, ExamStatus.SCHEDULED] },
+        'schedule.startDate': { $lte: now },
+        $or: [
+          { 'schedule.endDate': { $exists: false } },
+          { 'schedule.endDate': null },
+          { 'schedule.endDate': { $gt: now } },
+        ],
+      })
+      .select('_id')
+      .exec();
+    summary.activated = await this.applyAll(
+      due,
+      ExamStatus.ACTIVE,
+      'Start date reached',
+    );
+
+    // Window closed, including exams whose whole window was missed
+    const ended = await this.examModel
+      .find({
+        status: {
+          $in: [ExamStatus.PUBLISHED, ExamStatus.SCHEDULED, ExamStatus.ACTIVE],
+        },
+        'schedule.endDate': { $lte: now },
+      })
+      .select('_id schedule')
+      .exec();
+    summary.completed = await this.applyAll(
+      ended.filter((exam) => this.getClosingTime(exam) <= now),
+      ExamStatus.COMPLETED,
+      'End date reached',
+    );
+
+    return summary;
+  }
+
+  /**
+   * When the exam stops accepting answers: the late submission deadline if
+   * late submissions are allowed, otherwise the end date
+   */
+  getClosingTime(exam: Pick<Exam, 'schedule'>): Date | null {
+    const schedule = exam.schedule;
+    if (!schedule?.endDate) {
+      return null;
+    }
+
+    if (
+      schedule.lateSubmissionAllowed &&
+      schedule.lateSubmissionDeadline &&
+      schedule.lateSubmissionDeadline > schedule.endDate
+    ) {
+      return schedule.lateSubmissionDeadline;
+    }
+
+    return schedule.endDate;
+  }
+
+  private async applyAll(
+    exams: Exam[],
+    to: ExamStatus,
+    reason: string,
+  ): Promise<number> {
+    let applied = 0;
+
+    for (const exam of exams) {
+      try {
+        await this.transition(exam._id.toString(), to, null, reason);
+        applied++;
+      } catch (error) {
+        this.logger.error(
+          `Scheduled transition of exam ${exam._id} to ${to} failed: ${error.message}`,
+        );
+      }
+    }
+
+    return applied;
+  }
+
+  /**
+   * Auto-submit and grade sessions still running when the exam closes
+   */
+  private async closeOutSessions(examId: string): Promise<number> {
+    const sessions = await this.sessionModel
+      .find({
+        examId: new Types.ObjectId(examId),
+        status: { $in: OPEN_SESSION_STATUSES },
+        isPreview: { $ne: true },
+      })
+      .exec();
+
+    for (const session of sessions) {
+      session.status = SessionStatus.AUTO_SUBMITTED;
+      session.autoSubmitReason = 'Exam window closed';
+      session.submittedAt = new Date();
+      await session.save();
+
+      try {
+        await this.gradingService.gradeExamSession(session._id.toString());
+      } catch (error) {
+        this.logger.error(
+          `Failed to grade session ${session._id} closed with exam ${examId}: ${error.message}`,
+        );
+      }
+    }
+
+    return sessions.length;
+  }
+
+  private assertReady(exam: Exam, to: ExamStatus) {
+    const leavingDraft = exam.status === ExamStatus.DRAFT;
+
+    const sectionsHaveQuestions = (exam.sections || []).some(
+      (section) => section.questions?.length || section.questionPools?.length,
+    );
+    if (
+      leavingDraft &&
+      to !== ExamStatus.ARCHIVED &&
+      !exam.questions?.length &&
+      !exam.questionPools?.length &&
+      !sectionsHaveQuestions
+    ) {
+      throw new BadRequestException(
+        'Add questions to the exam before publishing it',
+      );
+    }
+
+    if (to === ExamStatus.SCHEDULED) {
+      const startDate = exam.schedule?.startDate;
+      if (!startDate || startDate <= new Date()) {
+        throw new BadRequestException(
+          'Scheduling an exam requires a future schedule.startDate',
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  ExamPreviewService,
+  PREVIEW_RETENTION_HOURS,
+} from './exam-preview.service';
+import { Exam } from '../schemas/exam.schema';
+import { Question } from '../../questions/schemas/question.schema';
+import {
+  ExamSession,
+  SessionStatus,
+} from '../../proctoring/schemas/exam-session.schema';
+import { Violation } from '../../proctoring/schemas/violation.schema';
+import { ResultStatus } from '../../results/schemas/result.schema';
+import { QuestionSetService } from '../../question-pools/services/question-set.service';
+import { AdaptiveTestingService } from '../../question-pools/services/adaptive-testing.service';
+import { GradingService } from '../../results/services/grading.service';
+import { SessionTimerService } from '../../proctoring/services/session-timer.service';
+
+describe('ExamPreviewService', () => {
+  let service: ExamPreviewService;
+
+  const organizationId = new Types.ObjectId();
+  const authorId = new Types.ObjectId();
+  const exam = { _id: new Types.ObjectId(), organizationId, duration: 60 };
+
+  const mockExamModel = { findById: jest.fn() };
+  const mockSessionModel = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    deleteMany: jest.fn(),
+  };
+  const mockViolationModel = { deleteMany: jest.fn() };
+  const mockGradingService = { previewExamSession: jest.fn() };
+  const mockSessionTimerService = {
+    isExpired: jest.fn().mockReturnValue(false),
+    timeOut: jest.fn(),
+  };
+
+  const exec = (value: any) => ({ exec: jest.fn().mockResolvedValue(value) });
+  const query = (value: any) => {
+    const chain: any = exec(value);
+    chain.select = jest.fn(() => chain);
+    return chain;
+  };
+
+  const evaluation = {
+    status: ResultStatus.GRADED,
+    scoring: { totalScore: 3, totalMarks: 8, passed: true },
+  };
+
+  const buildPreview = () =>
+    ({
+      _id: new Types.ObjectId(),
+      examId: exam._id,
+      candidateId: authorId,
+      isPreview: true,
+      status: SessionStatus.IN_PROGRESS,
+      answers: [{ questionId: 'q1', selectedOption: true }],
+      sections: [],
+      save: jest.fn().mockResolvedValue(undefined),
+    }) as any;
+
+  const submit = (session: any, answers?: any[], orgId = organizationId) =>
+    service.submit(
+      exam._id.toString(),
+      session._id.toString(),
+      authorId.toString(),
+      orgId.toString(),
+      answers,
+    );
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExamPreviewService,
+        { provide: getModelToken(Exam.name), useValue: mockExamModel },
+        { provide: getModelToken(Question.name), useValue: {} },
+        {
+          provide: getModelToken(ExamSession.name),
+          useValue: mockSessionModel,
+        },
+        {
+          provide: getModelToken(Violation.name),
+          useValue: mockViolationModel,
+        },
+        { provide: QuestionSetService, useValue: {} },
+        { provide: AdaptiveTestingService, useValue: {} },
+        { provide: GradingService, useValue: mockGradingService },
+        { provide: SessionTimerService, useValue: mockSessionTimerService },
+      ],
+    }).compile();
+
+    service = module.get<ExamPreviewService>(ExamPreviewService);
+    mockExamModel.findById.mockReturnValue(exec(exam));
+    mockGradingService.previewExamSession.mockResolvedValue(evaluation);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('submit', () => {
+    it('should close the preview and return the grading breakdown', async () => {
+      const session = buildPreview();
+      mockSessionModel.findOne.mockReturnValue(exec(session));
+      const answers = [{ questionId: 'q1', selectedOption: false }];
+
+      const preview = await submit(session, answers);
+
+      expect(session.status).toBe(SessionStatus.COMPLETED);
+      expect(session.answers).toEqual(answers);
+      expect(session.save).toHaveBeenCalled();
+      expect(mockGradingService.previewExamSession).toHaveBeenCalledWith(
+        session._id.toString(),
+      );
+      expect(preview).toMatchObject({ preview: true, ...evaluation });
+    });
+
+    it('should grade a closed preview again without changing it', async () => {
+      const session = buildPreview();
+      session.status = SessionStatus.COMPLETED;
+      mockSessionModel.findOne.mockReturnValue(exec(session));
+
+      const preview = await submit(session, []);
+
+      expect(session.save).not.toHaveBeenCalled();
+      expect(preview.scoring).toEqual(evaluation.scoring);
+    });
+
+    it("should only find the author's own preview sessions", async () => {
+      const session = buildPreview();
+      mockSessionModel.findOne.mockReturnValue(exec(null));
+
+      await expect(submit(session)).rejects.toThrow(NotFoundException);
+      expect(mockSessionModel.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ candidateId: authorId, isPreview: true }),
+      );
+    });
+
+    it("should reject previews of another organization's exam", async () => {
+      await expect(
+        submit(buildPreview(), [], new Types.ObjectId()),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockSessionModel.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cleanupExpired', () => {
+    const now = new Date('2026-01-02T12:00:00Z');
+
+    it('should delete expired previews and their violations', async () => {
+      const expired = [
+        { _id: new Types.ObjectId() },
+        { _id: new Types.ObjectId() },
+      ];
+      mockSessionModel.find.mockReturnValue(query(expired));
+      mockViolationModel.deleteMany.mockReturnValue(exec({ deletedCount: 5 }));
+      mockSessionModel.deleteMany.mockReturnValue(exec({ deletedCount: 2 }));
+
+      await expect(service.cleanupExpired(now)).resolves.toBe(2);
+
+      expect(mockSessionModel.find).toHaveBeenCalledWith({
+        isPreview: true,
+        startTime: {
+          $lt: new Date(
+            now.getTime() - PREVIEW_RETENTION_HOURS * 60 * 60 * 1000,
+          ),
+        },
+      });
+      const ids = expired.map((session) => session._id);
+      expect(mockViolationModel.deleteMany).toHaveBeenCalledWith({
+        session: { $in: ids },
+      });
+      expect(mockSessionModel.deleteMany).toHaveBeenCalledWith({
+        _id: { $in: ids },
+      });
+    });
+
+    it('should do nothing when no preview has expired', async () => {
+      mockSessionModel.find.mockReturnValue(query([]));
+
+      await expect(service.cleanupExpired(now)).resolves.toBe(0);
+      expect(mockSessionModel.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
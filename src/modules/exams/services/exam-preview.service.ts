@@ -0,0 +1,283 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Exam } from '../schemas/exam.schema';
+import { Question } from '../../questions/schemas/question.schema';
+import {
+  ExamSession,
+  SessionStatus,
+} from '../../proctoring/schemas/exam-session.schema';
+import { Violation } from '../../proctoring/schemas/violation.schema';
+import { QuestionSetService } from '../../question-pools/services/question-set.service';
+import { AdaptiveTestingService } from '../../question-pools/services/adaptive-testing.service';
+import { GradingService } from '../../results/services/grading.service';
+import { SessionTimerService } from '../../proctoring/services/session-timer.service';
+import { SectionNavigationUtil } from '../../../common/utils/section-navigation.util';
+import { CandidateQuestionUtil } from '../../../common/utils/candidate-question.util';
+
+// Preview sessions older than this are removed by the cleanup job
+export const PREVIEW_RETENTION_HOURS = 24;
+
+/**
+ * Dry runs of an exam for its authors. A preview session is an ordinary
+ * ExamSession flagged isPreview, so the candidate answer, navigation and
+ * timer endpoints work unchanged; it is scored by the real grading pipeline
+ * but never stored as a Result or counted in analytics.
+ */
+@Injectable()
+export class ExamPreviewService {
+  constructor(
+    @InjectModel(Exam.name) private examModel: Model<Exam>,
+    @InjectModel(Question.name) private questionModel: Model<Question>,
+    @InjectModel(ExamSession.name) private sessionModel: Model<ExamSession>,
+    @InjectModel(Violation.name) private violationModel: Model<Violation>,
+    private readonly questionSetService: QuestionSetService,
+    private readonly adaptiveTestingService: AdaptiveTestingService,
+    private readonly gradingService: GradingService,
+    private readonly sessionTimerService: SessionTimerService,
+  ) {}
+
+  async start(examId: string, userId: string, organizationId: string) {
+    const exam = await this.findExam(examId, organizationId);
+
+    const sessionId = new Types.ObjectId();
+    const startTime = new Date();
+    const baseSession = {
+      _id: sessionId,
+      examId: exam._id,
+      candidateId: new Types.ObjectId(userId),
+      isPreview: true,
+      attemptNumber: 1,
+      examVersion: exam.version || 1,
+      status: SessionStatus.IN_PROGRESS,
+      startTime,
+      endTime: new Date(startTime.getTime() + exam.duration * 60 * 1000),
+      breaks: [],
+      answers: [],
+      violations: [],
+      warningCount: 0,
+    };
+    const examSummary = {
+      _id: exam._id,
+      title: exam.title,
+      duration: exam.duration,
+    };
+
+    if (this.questionSetService.isAdaptive(exam)) {
+      const session = await this.sessionModel.create({
+        ...baseSession,
+        questionOrder: [],
+        adaptive: this.adaptiveTestingService.initialState(),
+      });
+
+      return {
+        preview: true,
+        sessionId: session._id,
+        exam: {
+          ...examSummary,
+          totalMarks: this.questionSetService.getTotalMarks(exam, []),
+        },
+        adaptive: {
+          maxQuestions: this.questionSetService.getQuestionCount(exam),
+        },
+        questions: [],
+        startTime: session.startTime,
+        endTime: session.endTime,
+        proctoringSettings: exam.proctoringSettings,
+      };
+    }
+
+    // Each preview draws afresh, so authors can check pool variety
+    const { questionIds, sections: drawnSections } =
+      await this.questionSetService.drawQuestionSet(
+        examId,
+        sessionId.toString(),
+      );
+
+    const questions = questionIds.length
+      ? await this.questionModel.find({ _id: { $in: questionIds } }).exec()
+      : [];
+    if (questions.length === 0) {
+      throw new BadRequestException('This exam has no questions to preview');
+    }
+
+    let processedQuestions = questions.map((q) => q.toObject());
+    let sections = [];
+
+    if (drawnSections.length > 0) {
+      const arranged = SectionNavigationUtil.arrange(
+        drawnSections,
+        processedQuestions,
+        startTime,
+        (sectionQuestions) =>
+          exam.settings?.shuffleQuestions
+            ? this.shuffleArray(sectionQuestions)
+            : sectionQuestions,
+      );
+      processedQuestions = arranged.questions;
+      sections = arranged.sections;
+    } else if (exam.settings?.shuffleQuestions) {
+      processedQuestions = this.shuffleArray(processedQuestions);
+    }
+
+    // Serve questions exactly as a candidate would see them
+    const candidateQuestions = CandidateQuestionUtil.serializeMany(
+      processedQuestions,
+      (options) =>
+        exam.settings?.shuffleOptions ? this.shuffleArray(options) : options,
+    );
+
+    const session = await this.sessionModel.create({
+      ...baseSession,
+      questionOrder: candidateQuestions.map((q) => q._id),
+      sections,
+      currentSectionIndex: 0,
+    });
+
+    return {
+      preview: true,
+      sessionId: session._id,
+      exam: {
+        ...examSummary,
+        totalMarks: this.questionSetService.getTotalMarks(exam, questions),
+      },
+      questions: candidateQuestions,
+      sections: SectionNavigationUtil.describe(session),
+      startTime: session.startTime,
+      endTime: session.endTime,
+      proctoringSettings: exam.proctoringSettings,
+    };
+  }
+
+  /**
+   * Close a preview session (if still open) with the final answers and
+   * return its score breakdown
+   */
+  async submit(
+    examId: string,
+    sessionId: string,
+    userId: string,
+    organizationId: string,
+    answers?: any[],
+  ) {
+    await this.findExam(examId, organizationId);
+
+    const session = await this.sessionModel
+      .findOne({
+        _id: sessionId,
+        examId: new Types.ObjectId(examId),
+        candidateId: new Types.ObjectId(userId),
+        isPreview: true,
+      })
+      .exec();
+    if (!session) {
+      throw new NotFoundException('Preview session not found');
+    }
+
+    if (
+      session.status === SessionStatus.IN_PROGRESS &&
+      this.sessionTimerService.isExpired(session)
+    ) {
+      await this.sessionTimerService.timeOut(session);
+    }
+
+    if (session.status === SessionStatus.IN_PROGRESS) {
+      const submittedAt = new Date();
+      let finalAnswers = answers ?? (session.answers as any[]);
+
+      if (SectionNavigationUtil.isSectioned(session)) {
+        SectionNavigationUtil.syncExpired(session, submittedAt);
+        finalAnswers = SectionNavigationUtil.mergeSubmittedAnswers(
+          session,
+          session.answers as any[],
+          finalAnswers,
+          submittedAt,
+        );
+        SectionNavigationUtil.closeAll(session, submittedAt);
+        session.markModified('sections');
+      }
+
+      if (session.adaptive) {
+        await this.adaptiveTestingService.finish(session, finalAnswers);
+        finalAnswers = session.answers as any[];
+      }
+
+      session.answers = finalAnswers;
+      session.status = SessionStatus.COMPLETED;
+      session.submittedAt = submittedAt;
+      await session.save();
+    }
+
+    const evaluation = await this.gradingService.previewExamSession(
+      session._id.toString(),
+    );
+
+    return {
+      preview: true,
+      sessionId: session._id,
+      status: session.status,
+      submittedAt: session.submittedAt,
+      ...evaluation,
+    };
+  }
+
+  /**
+   * Delete preview sessions past their retention, along with the violations
+   * recorded during them
+   * @returns Number of sessions removed
+   */
+  async cleanupExpired(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(
+      now.getTime() - PREVIEW_RETENTION_HOURS * 60 * 60 * 1000,
+    );
+
+    const expired = await this.sessionModel
+      .find({ isPreview: true, startTime: { $lt: cutoff } })
+      .select('_id')
+      .exec();
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    const ids = expired.map((session) => session._id);
+    await this.violationModel.deleteMany({ session: { $in: ids } }).exec();
+    const { deletedCount } = await this.sessionModel
+      .deleteMany({ _id: { $in: ids } })
+      .exec();
+
+    return deletedCount;
+  }
+
+  private async findExam(examId: string, organizationId: string) {
+    if (!Types.ObjectId.isValid(examId)) {
+      throw new BadRequestException('Invalid exam ID format');
+    }
+
+    const exam = await this.examModel.findById(examId).exec();
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    if (exam.organizationId?.toString() !== organizationId) {
+      throw new ForbiddenException(
+        'You are not authorized to preview this exam',
+      );
+    }
+
+    return exam;
+  }
+
+  private shuffleArray<T>(array: T[]): T[] {
+    const shuffled = [...array];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
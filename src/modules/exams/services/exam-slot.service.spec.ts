@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ExamSlotService } from './exam-slot.service';
+import { Exam } from '../schemas/exam.schema';
+import { ExamSlotBooking } from '../schemas/exam-slot-booking.schema';
+import { ExamSession } from '../../proctoring/schemas/exam-session.schema';
+import { Organization } from '../../organizations/schemas/organization.schema';
+
+describe('ExamSlotService', () => {
+  let service: ExamSlotService;
+
+  const slot = {
+    _id: new Types.ObjectId(),
+    name: 'Batch 1',
+    startTime: new Date('2026-03-01T09:00:00Z'),
+    endTime: new Date('2026-03-01T11:00:00Z'),
+    capacity: 2,
+  };
+  const exam = {
+    _id: new Types.ObjectId(),
+    organizationId: new Types.ObjectId(),
+    slots: [slot],
+  } as any;
+
+  // In-memory stand-in for the booking collection
+  let bookings: Array<{
+    _id: Types.ObjectId;
+    candidateId: string;
+    slotId: any;
+  }>;
+  const exec = (value: any) => ({ exec: jest.fn().mockResolvedValue(value) });
+  const mockBookingModel = {
+    findOne: jest.fn((filter) =>
+      exec(
+        bookings.find((b) => b.candidateId === filter.candidateId.toString()) ||
+          null,
+      ),
+    ),
+    countDocuments: jest.fn((filter) =>
+      exec(bookings.filter((b) => b.slotId.equals(filter.slotId)).length),
+    ),
+    findOneAndUpdate: jest.fn((filter, update) => {
+      const booking = {
+        _id: new Types.ObjectId(),
+        candidateId: filter.candidateId.toString(),
+        slotId: update.$set.slotId,
+      };
+      bookings.push(booking);
+      return exec(booking);
+    }),
+    deleteOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    bookings = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExamSlotService,
+        { provide: getModelToken(Exam.name), useValue: {} },
+        {
+          provide: getModelToken(ExamSlotBooking.name),
+          useValue: mockBookingModel,
+        },
+        { provide: getModelToken(ExamSession.name), useValue: {} },
+        { provide: getModelToken(Organization.name), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ExamSlotService>(ExamSlotService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('reserveSeat', () => {
+    it('should reject bookings once the slot is full', async () => {
+      const admin = new Types.ObjectId().toString();
+      await service.reserveSeat(
+        exam,
+        slot,
+        new Types.ObjectId().toString(),
+        admin,
+      );
+      await service.reserveSeat(
+        exam,
+        slot,
+        new Types.ObjectId().toString(),
+        admin,
+      );
+
+      await expect(
+        service.reserveSeat(exam, slot, new Types.ObjectId().toString(), admin),
+      ).rejects.toThrow(ConflictException);
+      expect(bookings).toHaveLength(2);
+    });
+  });
+
+  describe('checkStartWindow', () => {
+    const candidateId = new Types.ObjectId().toString();
+
+    it('should require a booking for slotted exams', async () => {
+      const check = await service.checkStartWindow(exam, candidateId);
+
+      expect(check.allowed).toBe(false);
+      expect(check.reason).toBe('Book a slot to take this exam');
+    });
+
+    it('should only allow starting inside the booked slot', async () => {
+      bookings.push({
+        _id: new Types.ObjectId(),
+        candidateId,
+        slotId: slot._id,
+      });
+
+      const early = await service.checkStartWindow(
+        exam,
+        candidateId,
+        new Date('2026-03-01T08:59:00Z'),
+      );
+      const during = await service.checkStartWindow(
+        exam,
+        candidateId,
+        new Date('2026-03-01T10:00:00Z'),
+      );
+      const late = await service.checkStartWindow(
+        exam,
+        candidateId,
+        new Date('2026-03-01T11:01:00Z'),
+      );
+
+      expect(early.allowed).toBe(false);
+      expect(during).toEqual({ allowed: true, slot });
+      expect(late.allowed).toBe(false);
+    });
+
+    it('should not restrict exams without slots', async () => {
+      const check = await service.checkStartWindow(
+        { ...exam, slots: [] },
+        candidateId,
+      );
+
+      expect(check).toEqual({ allowed: true });
+    });
+  });
+});
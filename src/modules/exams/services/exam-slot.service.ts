@@ -0,0 +1,323 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Exam, ExamSlot } from '../schemas/exam.schema';
+import { ExamSlotBooking } from '../schemas/exam-slot-booking.schema';
+import {
+  ExamSession,
+  SessionStatus,
+} from '../../proctoring/schemas/exam-session.schema';
+import { Organization } from '../../organizations/schemas/organization.schema';
+import { ExamSlotDto } from '../dto/exam-slots.dto';
+
+export interface SlotAvailability {
+  id: Types.ObjectId;
+  name?: string;
+  startTime: Date;
+  endTime: Date;
+  capacity: number;
+  booked: number;
+  seatsLeft: number;
+}
+
+export interface SlotWindowCheck {
+  allowed: boolean;
+  reason?: string;
+  slot?: ExamSlot;
+}
+
+export interface ConcurrencyCheck {
+  allowed: boolean;
+  limit: number; // 0 when the plan sets no limit
+  active: number;
+}
+
+/**
+ * Seat capacity: exam slots with their bookings, and the organization-wide
+ * limit on candidates sitting exams at once (Subscription.maxConcurrentUsers).
+ */
+@Injectable()
+export class ExamSlotService {
+  constructor(
+    @InjectModel(Exam.name) private examModel: Model<Exam>,
+    @InjectModel(ExamSlotBooking.name)
+    private bookingModel: Model<ExamSlotBooking>,
+    @InjectModel(ExamSession.name) private sessionModel: Model<ExamSession>,
+    @InjectModel(Organization.name)
+    private organizationModel: Model<Organization>,
+  ) {}
+
+  usesSlots(exam: Pick<Exam, 'slots'>): boolean {
+    return (exam.slots?.length || 0) > 0;
+  }
+
+  getSlot(exam: Pick<Exam, 'slots'>, slotId: string): ExamSlot | undefined {
+    return exam.slots?.find((slot) => slot._id.toString() === slotId);
+  }
+
+  async listSlots(exam: Exam): Promise<SlotAvailability[]> {
+    const counts = await this.countBookings(exam._id as Types.ObjectId);
+
+    return (exam.slots || []).map((slot) => {
+      const booked = counts.get(slot._id.toString()) || 0;
+      return {
+        id: slot._id,
+        name: slot.name,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        capacity: slot.capacity,
+        booked,
+        seatsLeft: Math.max(0, slot.capacity - booked),
+      };
+    });
+  }
+
+  /**
+   * Replace the exam's slots. Slots keep their id (and bookings) when listed
+   * with it; a booked slot can neither be dropped nor shrunk below its
+   * bookings.
+   */
+  async updateSlots(
+    exam: Exam,
+    slotDtos: ExamSlotDto[],
+  ): Promise<SlotAvailability[]> {
+    const limit = await this.concurrencyLimit(exam.organizationId);
+    const counts = await this.countBookings(exam._id as Types.ObjectId);
+    const scheduleStart = exam.schedule?.startDate;
+    const scheduleEnd = exam.schedule?.endDate;
+
+    const slots = slotDtos.map((dto, index) => {
+      const label = dto.name || `Slot ${index + 1}`;
+
+      if (dto.startTime >= dto.endTime) {
+        throw new BadRequestException(`${label} must end after it starts`);
+      }
+
+      if (
+        (scheduleStart && dto.startTime < new Date(scheduleStart)) ||
+        (scheduleEnd && dto.endTime > new Date(scheduleEnd))
+      ) {
+        throw new BadRequestException(
+          `${label} must fall within the exam schedule`,
+        );
+      }
+
+      if (limit > 0 && dto.capacity > limit) {
+        throw new BadRequestException(
+          `${label} has ${dto.capacity} seats but your plan allows ${limit} concurrent candidates`,
+        );
+      }
+
+      if (dto.id && !this.getSlot(exam, dto.id)) {
+        throw new BadRequestException(`${label} does not exist on this exam`);
+      }
+
+      const booked = dto.id ? counts.get(dto.id) || 0 : 0;
+      if (dto.capacity < booked) {
+        throw new BadRequestException(
+          `${label} already has ${booked} bookings, more than ${dto.capacity} seats`,
+        );
+      }
+
+      return {
+        _id: dto.id ? new Types.ObjectId(dto.id) : new Types.ObjectId(),
+        name: dto.name,
+        startTime: dto.startTime,
+        endTime: dto.endTime,
+        capacity: dto.capacity,
+      };
+    });
+
+    const kept = new Set(slots.map((slot) => slot._id.toString()));
+    const dropped = (exam.slots || []).find(
+      (slot) =>
+        !kept.has(slot._id.toString()) && counts.get(slot._id.toString()),
+    );
+    if (dropped) {
+      throw new BadRequestException(
+        `${dropped.name || 'A slot'} has bookings and cannot be removed`,
+      );
+    }
+
+    await this.examModel
+      .updateOne({ _id: exam._id }, { $set: { slots } })
+      .exec();
+    exam.slots = slots as ExamSlot[];
+
+    return this.listSlots(exam);
+  }
+
+  async findBooking(
+    examId: string,
+    candidateId: string,
+  ): Promise<ExamSlotBooking | null> {
+    return this.bookingModel
+      .findOne({
+        examId: new Types.ObjectId(examId),
+        candidateId: new Types.ObjectId(candidateId),
+      })
+      .exec();
+  }
+
+  /**
+   * Seat a candidate in a slot, moving any earlier booking. The seat is
+   * taken first and given back if that overfilled the slot, so concurrent
+   * bookings can never exceed capacity.
+   * @throws ConflictException when the slot is full
+   */
+  async reserveSeat(
+    exam: Exam,
+    slot: ExamSlot,
+    candidateId: string,
+    bookedBy: string,
+  ): Promise<ExamSlotBooking> {
+    const previous = await this.findBooking(exam._id.toString(), candidateId);
+    if (previous?.slotId.equals(slot._id)) {
+      return previous;
+    }
+
+    const full = () => new ConflictException('This slot is full');
+    const filter = { examId: exam._id, slotId: slot._id };
+    const booked = await this.bookingModel.countDocuments(filter).exec();
+    if (booked >= slot.capacity) {
+      throw full();
+    }
+
+    const booking = await this.bookingModel
+      .findOneAndUpdate(
+        {
+          examId: exam._id,
+          candidateId: new Types.ObjectId(candidateId),
+        },
+        {
+          $set: { slotId: slot._id, bookedBy: new Types.ObjectId(bookedBy) },
+        },
+        { new: true, upsert: true },
+      )
+      .exec();
+
+    const after = await this.bookingModel.countDocuments(filter).exec();
+    if (after > slot.capacity) {
+      if (previous) {
+        await this.bookingModel
+          .updateOne(
+            { _id: booking._id },
+            { $set: { slotId: previous.slotId, bookedBy: previous.bookedBy } },
+          )
+          .exec();
+      } else {
+        await this.bookingModel.deleteOne({ _id: booking._id }).exec();
+      }
+      throw full();
+    }
+
+    return booking;
+  }
+
+  async releaseSeats(examId: string, candidateIds: string[]): Promise<number> {
+    const { deletedCount } = await this.bookingModel
+      .deleteMany({
+        examId: new Types.ObjectId(examId),
+        candidateId: {
+          $in: candidateIds.map((id) => new Types.ObjectId(id)),
+        },
+      })
+      .exec();
+
+    return deletedCount;
+  }
+
+  /**
+   * Whether the candidate may start now: slotted exams can only be started
+   * during the slot the candidate booked
+   */
+  async checkStartWindow(
+    exam: Exam,
+    candidateId: string,
+    now: Date = new Date(),
+  ): Promise<SlotWindowCheck> {
+    if (!this.usesSlots(exam)) {
+      return { allowed: true };
+    }
+
+    const booking = await this.findBooking(exam._id.toString(), candidateId);
+    const slot = booking && this.getSlot(exam, booking.slotId.toString());
+    if (!slot) {
+      return { allowed: false, reason: 'Book a slot to take this exam' };
+    }
+
+    if (now < slot.startTime) {
+      return {
+        allowed: false,
+        reason: `Your slot opens at ${slot.startTime.toISOString()}`,
+        slot,
+      };
+    }
+
+    if (now > slot.endTime) {
+      return { allowed: false, reason: 'Your booked slot has ended', slot };
+    }
+
+    return { allowed: true, slot };
+  }
+
+  /**
+   * Count the organization's candidates mid-exam against its plan
+   */
+  async checkConcurrency(
+    organizationId: Types.ObjectId | string,
+    now: Date = new Date(),
+  ): Promise<ConcurrencyCheck> {
+    const limit = await this.concurrencyLimit(organizationId);
+    if (limit <= 0) {
+      return { allowed: true, limit: 0, active: 0 };
+    }
+
+    const examIds = await this.examModel
+      .find({ organizationId: new Types.ObjectId(organizationId.toString()) })
+      .distinct('_id')
+      .exec();
+    const active = await this.sessionModel
+      .countDocuments({
+        examId: { $in: examIds },
+        status: SessionStatus.IN_PROGRESS,
+        isPreview: { $ne: true },
+        endTime: { $gt: now },
+      })
+      .exec();
+
+    return { allowed: active < limit, limit, active };
+  }
+
+  private async concurrencyLimit(
+    organizationId: Types.ObjectId | string,
+  ): Promise<number> {
+    if (!organizationId) {
+      return 0;
+    }
+
+    const organization = await this.organizationModel
+      .findById(organizationId)
+      .select('subscription.maxConcurrentUsers')
+      .exec();
+
+    return organization?.subscription?.maxConcurrentUsers || 0;
+  }
+
+  private async countBookings(
+    examId: Types.ObjectId,
+  ): Promise<Map<string, number>> {
+    const rows = await this.bookingModel
+      .aggregate([
+        { $match: { examId } },
+        { $group: { _id: '$slotId', count: { $sum: 1 } } },
+      ])
+      .exec();
+
+    return new Map(rows.map((row) => [row._id.toString(), row.count]));
+  }
+}
@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ExamVersionService } from './exam-version.service';
+import { ExamVersion } from '../schemas/exam-version.schema';
+import { ExamStatus } from '../schemas/exam.schema';
+
+describe('ExamVersionService', () => {
+  let service: ExamVersionService;
+
+  // In-memory stand-in for the version collection
+  let versions: any[];
+
+  const userId = new Types.ObjectId().toString();
+
+  const exec = (value: any) => ({ exec: jest.fn().mockResolvedValue(value) });
+  const find = (filter: any) =>
+    versions.find(
+      (v) =>
+        v.examId.toString() === filter.examId.toString() &&
+        v.version === filter.version,
+    ) || null;
+
+  const mockVersionModel = {
+    findOne: jest.fn((filter) => exec(find(filter))),
+    create: jest.fn(async (data) => {
+      versions.push(data);
+      return data;
+    }),
+  };
+
+  const buildExam = (overrides: Record<string, any> = {}) => {
+    const exam: any = {
+      _id: new Types.ObjectId(),
+      organizationId: new Types.ObjectId(),
+      title: 'Algorithms',
+      duration: 60,
+      questions: [new Types.ObjectId()],
+      grading: { totalMarks: 5 },
+      status: ExamStatus.ACTIVE,
+      version: 1,
+      ...overrides,
+    };
+    exam.toObject = () => ({ ...exam });
+    return exam;
+  };
+
+  beforeEach(async () => {
+    versions = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExamVersionService,
+        {
+          provide: getModelToken(ExamVersion.name),
+          useValue: mockVersionModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ExamVersionService>(ExamVersionService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('beginEdit', () => {
+    it('should leave drafts unversioned', async () => {
+      const exam = buildExam({ status: ExamStatus.DRAFT });
+
+      await expect(service.beginEdit(exam, userId)).resolves.toBe(false);
+      expect(exam.version).toBe(1);
+      expect(versions).toHaveLength(0);
+    });
+
+    it('should snapshot the version being replaced and bump the version', async () => {
+      const exam = buildExam();
+      const [question] = exam.questions;
+
+      await expect(service.beginEdit(exam, userId)).resolves.toBe(true);
+
+      expect(exam.version).toBe(2);
+      expect(versions).toHaveLength(1);
+      expect(versions[0]).toMatchObject({
+        examId: exam._id,
+        version: 1,
+        snapshot: { title: 'Algorithms', questions: [question.toString()] },
+      });
+    });
+
+    it('should keep an earlier snapshot unchanged', async () => {
+      const exam = buildExam();
+      await service.ensureSnapshot(exam, userId, 'Published as ACTIVE');
+      exam.title = 'Algorithms II';
+
+      await service.beginEdit(exam, userId);
+
+      expect(versions).toHaveLength(1);
+      expect(versions[0].snapshot.title).toBe('Algorithms');
+    });
+  });
+
+  describe('ensureSnapshot', () => {
+    it('should record the current version once', async () => {
+      const exam = buildExam({ version: 2 });
+
+      const first = await service.ensureSnapshot(exam, userId, 'Edited');
+      const second = await service.ensureSnapshot(exam, userId);
+
+      expect(second).toBe(first);
+      expect(mockVersionModel.create).toHaveBeenCalledTimes(1);
+      expect(first).toMatchObject({ version: 2, reason: 'Edited' });
+    });
+
+    it('should return the snapshot written by a concurrent request', async () => {
+      const exam = buildExam();
+      const concurrent = { examId: exam._id, version: 1 };
+      mockVersionModel.create.mockImplementationOnce(async () => {
+        versions.push(concurrent);
+        throw Object.assign(new Error('E11000 duplicate key'), {
+          code: 11000,
+        });
+      });
+
+      await expect(service.ensureSnapshot(exam, userId)).resolves.toBe(
+        concurrent,
+      );
+    });
+  });
+
+  it('should report a missing version', async () => {
+    await expect(
+      service.getVersion(new Types.ObjectId().toString(), 4),
+    ).rejects.toThrow(NotFoundException);
+  });
+});
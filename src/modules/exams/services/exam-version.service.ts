@@ -0,0 +1,116 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Exam, ExamStatus } from '../schemas/exam.schema';
+import {
+  ExamVersion,
+  ExamVersionSnapshot,
+} from '../schemas/exam-version.schema';
+
+/**
+ * Keeps the immutable version history of published exams.
+ *
+ * Drafts are edited freely. Once an exam has left DRAFT its current content
+ * is snapshotted, and every later edit bumps exam.version and snapshots the
+ * result, so sessions and results can point at the exact version sat.
+ */
+@Injectable()
+export class ExamVersionService {
+  constructor(
+    @InjectModel(ExamVersion.name)
+    private examVersionModel: Model<ExamVersion>,
+  ) {}
+
+  isVersioned(exam: Pick<Exam, 'status'>): boolean {
+    return exam.status !== ExamStatus.DRAFT;
+  }
+
+  /**
+   * Snapshot the exam's current version unless it already has one
+   */
+  async ensureSnapshot(
+    exam: Exam,
+    userId: string | null,
+    reason?: string,
+  ): Promise<ExamVersion> {
+    const version = exam.version || 1;
+    const existing = await this.examVersionModel
+      .findOne({ examId: exam._id, version })
+      .exec();
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      return await this.examVersionModel.create({
+        examId: exam._id,
+        organizationId: exam.organizationId,
+        version,
+        snapshot: this.buildSnapshot(exam),
+        reason,
+        createdBy: userId ? new Types.ObjectId(userId) : undefined,
+      });
+    } catch (error) {
+      // Written concurrently by another request
+      if (error.code === 11000) {
+        return this.examVersionModel
+          .findOne({ examId: exam._id, version })
+          .exec();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record an edit to a published exam: snapshot the version being replaced
+   * if it was never captured, then bump exam.version. The caller saves the
+   * exam and then calls ensureSnapshot for the new version.
+   */
+  async beginEdit(exam: Exam, userId: string): Promise<boolean> {
+    if (!this.isVersioned(exam)) {
+      return false;
+    }
+
+    await this.ensureSnapshot(exam, userId);
+    exam.version = (exam.version || 1) + 1;
+    return true;
+  }
+
+  async listVersions(examId: string) {
+    return this.examVersionModel
+      .find({ examId: new Types.ObjectId(examId) })
+      .select('version reason createdBy createdAt')
+      .sort({ version: -1 })
+      .exec();
+  }
+
+  async getVersion(examId: string, version: number): Promise<ExamVersion> {
+    const examVersion = await this.examVersionModel
+      .findOne({ examId: new Types.ObjectId(examId), version })
+      .exec();
+    if (!examVersion) {
+      throw new NotFoundException(`Version ${version} of this exam not found`);
+    }
+    return examVersion;
+  }
+
+  private buildSnapshot(exam: Exam): ExamVersionSnapshot {
+    const plain = exam.toObject();
+
+    return {
+      title: plain.title,
+      description: plain.description,
+      duration: plain.duration,
+      questions: (plain.questions || []).map((id) => id.toString()),
+      questionPools: plain.questionPools || [],
+      sections: plain.sections || [],
+      deliveryMode: plain.deliveryMode,
+      adaptiveSettings: plain.adaptiveSettings,
+      totalQuestions: plain.totalQuestions,
+      grading: plain.grading,
+      proctoringSettings: plain.proctoringSettings,
+      settings: plain.settings,
+      shortlistingCriteria: plain.shortlistingCriteria,
+    };
+  }
+}
@@ -3,9 +3,12 @@ import { ExamMonitoringService } from '../services/exam-monitoring.service';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../../auth/guards/roles.guard';
 import { Roles } from '../../auth/decorators/roles.decorator';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/permissions.decorator';
+import { Permission } from '../../../common/utils/role-permissions.util';
 
 @Controller('monitoring')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, RolesGuard, PermissionsGuard)
 export class ExamMonitoringController {
   constructor(private readonly monitoringService: ExamMonitoringService) {}
 
@@ -14,7 +17,7 @@ export class ExamMonitoringController {
    * Get real-time statistics for an active exam
    */
   @Get('exams/:examId/live')
-  @Roles('SUPER_ADMIN', 'ORG_ADMIN', 'RECRUITER')
+  @RequirePermissions(Permission.PROCTORING_MONITOR)
   async getLiveExamStats(@Param('examId') examId: string) {
     try {
       return await this.monitoringService.getLiveExamStats(examId);
@@ -31,7 +34,7 @@ export class ExamMonitoringController {
    * Get all currently active exams
    */
   @Get('exams/active')
-  @Roles('SUPER_ADMIN', 'ORG_ADMIN', 'RECRUITER')
+  @RequirePermissions(Permission.PROCTORING_MONITOR)
   async getActiveExams() {
     try {
       return await this.monitoringService.getActiveExams();
@@ -49,7 +52,7 @@ export class ExamMonitoringController {
    * Get violation alerts across all exams or specific exam
    */
   @Get('violations')
-  @Roles('SUPER_ADMIN', 'ORG_ADMIN', 'RECRUITER')
+  @RequirePermissions(Permission.PROCTORING_MONITOR)
   async getViolationAlerts(@Param('examId') examId?: string) {
     try {
       return await this.monitoringService.getViolationAlerts(examId);
@@ -83,7 +86,7 @@ export class ExamMonitoringController {
    * Get detailed information about a specific exam session
    */
   @Get('sessions/:sessionId')
-  @Roles('SUPER_ADMIN', 'ORG_ADMIN', 'RECRUITER')
+  @RequirePermissions(Permission.PROCTORING_MONITOR)
   async getCandidateSession(@Param('sessionId') sessionId: string) {
     try {
       return await this.monitoringService.getCandidateSession(sessionId);
@@ -75,7 +75,7 @@ export class ExamMonitoringService {
 
     // Get all sessions for this exam
     const sessions = await this.sessionModel
-      .find({ examId: examId })
+      .find({ examId: examId, isPreview: { $ne: true } })
       .populate('candidateId', 'name email')
       .sort({ updatedAt: -1 });
 
@@ -131,7 +131,10 @@ export class ExamMonitoringService {
 
     const examStats = await Promise.all(
       activeExams.map(async (exam) => {
-        const sessions = await this.sessionModel.find({ examId: exam._id });
+        const sessions = await this.sessionModel.find({
+          examId: exam._id,
+          isPreview: { $ne: true },
+        });
         const inProgress = sessions.filter((s) => s.status === 'IN_PROGRESS').length;
 
         return {
@@ -159,6 +162,7 @@ export class ExamMonitoringService {
     const query: any = {
       violations: { $exists: true, $ne: [] },
       status: 'IN_PROGRESS',
+      isPreview: { $ne: true },
     };
 
     if (examId) {
@@ -213,6 +217,7 @@ export class ExamMonitoringService {
     // Active sessions
     const activeSessions = await this.sessionModel.countDocuments({
       status: 'IN_PROGRESS',
+      isPreview: { $ne: true },
     });
 
     // Total violations in last hour
@@ -220,6 +225,7 @@ export class ExamMonitoringService {
     const recentSessions = await this.sessionModel.find({
       updatedAt: { $gte: oneHourAgo },
       violations: { $exists: true, $ne: [] },
+      isPreview: { $ne: true },
     });
 
     const recentViolations = recentSessions.reduce(
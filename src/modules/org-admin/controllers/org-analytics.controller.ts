@@ -9,14 +9,18 @@ import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse, ApiQuery } from '@ne
 import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../../common/guards/roles.guard';
 import { Roles } from '../../../common/decorators/roles.decorator';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/permissions.decorator';
+import { Permission } from '../../../common/utils/role-permissions.util';
 import { UserRole } from '../../users/schemas/user.schema';
 import { OrgAnalyticsService } from '../services/org-analytics.service';
 
 @ApiTags('Organization Admin - Analytics')
 @ApiBearerAuth()
 @Controller('org-admin/analytics')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, RolesGuard, PermissionsGuard)
 @Roles(UserRole.ORG_ADMIN)
+@RequirePermissions(Permission.ANALYTICS_VIEW)
 export class OrgAnalyticsController {
   constructor(private readonly orgAnalyticsService: OrgAnalyticsService) {}
 
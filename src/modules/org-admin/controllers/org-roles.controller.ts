@@ -0,0 +1,119 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guards/roles.guard';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/permissions.decorator';
+import { Permission } from '../../../common/utils/role-permissions.util';
+import { OrgRoleService } from '../services/org-role.service';
+import {
+  CreateOrgRoleDto,
+  UpdateOrgRoleDto,
+  AssignOrgRolesDto,
+} from '../dto/org-role.dto';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
+
+@ApiTags('Organization Admin - Roles & Permissions')
+@ApiBearerAuth()
+@Controller('org-admin/roles')
+@UseGuards(JwtAuthGuard, RolesGuard, PermissionsGuard)
+@RequirePermissions(Permission.ROLES_MANAGE)
+export class OrgRolesController {
+  constructor(private readonly orgRoleService: OrgRoleService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List built-in role presets and custom roles',
+  })
+  @ApiResponse({ status: 200, description: 'Roles retrieved successfully' })
+  async getRoles(@Request() req) {
+    return this.orgRoleService.getRoles(req.user.organizationId);
+  }
+
+  @Get('permissions')
+  @ApiOperation({ summary: 'List all assignable permissions' })
+  async getPermissions() {
+    return this.orgRoleService.getPermissions();
+  }
+
+  @Post()
+  @BlockImpersonation()
+  @ApiOperation({ summary: 'Create a custom role' })
+  @ApiResponse({ status: 201, description: 'Role created successfully' })
+  @ApiResponse({ status: 409, description: 'Role name already in use' })
+  async createRole(@Body() dto: CreateOrgRoleDto, @Request() req) {
+    return this.orgRoleService.createRole(
+      dto,
+      req.user.organizationId,
+      req.user,
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a custom role and the users holding it' })
+  @ApiResponse({ status: 404, description: 'Role not found' })
+  async getRoleById(@Param('id') id: string, @Request() req) {
+    return this.orgRoleService.getRoleById(id, req.user.organizationId);
+  }
+
+  @Put(':id')
+  @BlockImpersonation()
+  @ApiOperation({ summary: 'Update a custom role' })
+  @ApiResponse({ status: 200, description: 'Role updated successfully' })
+  async updateRole(
+    @Param('id') id: string,
+    @Body() dto: UpdateOrgRoleDto,
+    @Request() req,
+  ) {
+    return this.orgRoleService.updateRole(
+      id,
+      dto,
+      req.user.organizationId,
+      req.user,
+    );
+  }
+
+  @Delete(':id')
+  @BlockImpersonation()
+  @ApiOperation({ summary: 'Delete a custom role and unassign it' })
+  @ApiResponse({ status: 200, description: 'Role deleted successfully' })
+  async deleteRole(@Param('id') id: string, @Request() req) {
+    return this.orgRoleService.deleteRole(id, req.user.organizationId);
+  }
+
+  @Put('users/:userId')
+  @BlockImpersonation()
+  @ApiOperation({
+    summary: "Set a user's custom roles",
+    description:
+      'Replaces the custom roles the user holds in this organization. Their built-in role is unchanged.',
+  })
+  @ApiResponse({ status: 200, description: 'Roles assigned successfully' })
+  async setUserRoles(
+    @Param('userId') userId: string,
+    @Body() dto: AssignOrgRolesDto,
+    @Request() req,
+  ) {
+    return this.orgRoleService.setUserRoles(
+      userId,
+      dto,
+      req.user.organizationId,
+      req.user,
+    );
+  }
+}
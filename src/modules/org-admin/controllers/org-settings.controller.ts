@@ -12,7 +12,10 @@ import { RolesGuard } from '../../../common/guards/roles.guard';
 import { Roles } from '../../../common/decorators/roles.decorator';
 import { UserRole } from '../../users/schemas/user.schema';
 import { OrgSettingsService } from '../services/org-settings.service';
-import { UpdateOrgSettingsDto } from '../dto/org-settings.dto';
+import {
+  UpdateOrgSettingsDto,
+  UpdateSsoSettingsDto,
+} from '../dto/org-settings.dto';
 
 @ApiTags('Organization Admin - Settings')
 @ApiBearerAuth()
@@ -43,6 +46,40 @@ export class OrgSettingsController {
     return this.orgSettingsService.updateOrganizationSettings(organizationId, dto);
   }
 
+  @Get('sso')
+  @ApiOperation({
+    summary: 'Get single sign-on (OpenID Connect) configuration',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'SSO configuration retrieved; the client secret is never returned',
+  })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async getSsoSettings(@Request() req) {
+    const organizationId = req.user.organizationId;
+    return this.orgSettingsService.getSsoSettings(organizationId);
+  }
+
+  @Put('sso')
+  @ApiOperation({
+    summary: 'Update single sign-on (OpenID Connect) configuration',
+    description:
+      'Sign-in is restricted to features.allowedDomains when that list is not empty.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'SSO configuration updated successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Incomplete configuration for enabling SSO',
+  })
+  async updateSsoSettings(@Body() dto: UpdateSsoSettingsDto, @Request() req) {
+    const organizationId = req.user.organizationId;
+    return this.orgSettingsService.updateSsoSettings(organizationId, dto);
+  }
+
   @Get('usage')
   @ApiOperation({ summary: 'Get organization usage statistics' })
   @ApiResponse({ status: 200, description: 'Usage statistics retrieved successfully' })
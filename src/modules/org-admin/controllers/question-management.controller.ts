@@ -12,10 +12,13 @@ import {
   Request,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
-import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { JwtOrApiKeyAuthGuard } from '../../../common/guards/jwt-or-api-key-auth.guard';
 import { RolesGuard } from '../../../common/guards/roles.guard';
-import { Roles } from '../../../common/decorators/roles.decorator';
-import { UserRole } from '../../users/schemas/user.schema';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/permissions.decorator';
+import { Permission } from '../../../common/utils/role-permissions.util';
+import { ApiKeyScopes } from '../../../common/decorators/api-key-scopes.decorator';
+import { ApiKeyScope } from '../../api-keys/schemas/api-key.schema';
 import { QuestionManagementService } from '../services/question-management.service';
 import {
   CreateQuestionDto,
@@ -23,12 +26,14 @@ import {
   UpdateQuestionDto,
   QuestionFiltersDto,
 } from '../dto/create-question.dto';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
 
 @ApiTags('Organization Admin - Question Management')
 @ApiBearerAuth()
 @Controller('org-admin/questions')
-@UseGuards(JwtAuthGuard, RolesGuard)
-@Roles(UserRole.ORG_ADMIN)
+@UseGuards(JwtOrApiKeyAuthGuard, RolesGuard, PermissionsGuard)
+@RequirePermissions(Permission.QUESTIONS_MANAGE)
+@ApiKeyScopes(ApiKeyScope.QUESTIONS_MANAGE)
 export class QuestionManagementController {
   constructor(private readonly questionManagementService: QuestionManagementService) {}
 
@@ -98,6 +103,7 @@ export class QuestionManagementController {
   }
 
   @Delete(':id')
+  @BlockImpersonation()
   @ApiOperation({ summary: 'Delete question' })
   @ApiResponse({ status: 200, description: 'Question deleted successfully' })
   @ApiResponse({ status: 404, description: 'Question not found' })
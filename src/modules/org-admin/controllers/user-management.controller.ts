@@ -11,24 +11,39 @@ import {
   UseGuards,
   Request,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+} from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../../common/guards/roles.guard';
 import { Roles } from '../../../common/decorators/roles.decorator';
+import { PermissionsGuard } from '../../../common/guards/permissions.guard';
+import { RequirePermissions } from '../../../common/decorators/permissions.decorator';
+import { Permission } from '../../../common/utils/role-permissions.util';
 import { UserRole } from '../../users/schemas/user.schema';
 import { UserManagementService } from '../services/user-management.service';
-import { CreateUserDto, BulkCreateUsersDto, UpdateUserDto } from '../dto/create-user.dto';
+import {
+  CreateUserDto,
+  BulkCreateUsersDto,
+  UpdateUserDto,
+} from '../dto/create-user.dto';
 import { UserFiltersDto } from '../dto/user-filters.dto';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
 
 @ApiTags('Organization Admin - User Management')
 @ApiBearerAuth()
 @Controller('org-admin/users')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, RolesGuard, PermissionsGuard)
 @Roles(UserRole.ORG_ADMIN)
+@RequirePermissions(Permission.USERS_MANAGE)
 export class UserManagementController {
   constructor(private readonly userManagementService: UserManagementService) {}
 
   @Post()
+  @BlockImpersonation()
   @ApiOperation({ summary: 'Create a new user' })
   @ApiResponse({ status: 201, description: 'User created successfully' })
   @ApiResponse({ status: 409, description: 'User already exists' })
@@ -38,11 +53,15 @@ export class UserManagementController {
   }
 
   @Post('bulk')
+  @BlockImpersonation()
   @ApiOperation({ summary: 'Bulk create users from CSV' })
   @ApiResponse({ status: 201, description: 'Bulk creation completed' })
   async bulkCreateUsers(@Body() dto: BulkCreateUsersDto, @Request() req) {
     const organizationId = req.user.organizationId;
-    return this.userManagementService.bulkCreateUsers(dto.users, organizationId);
+    return this.userManagementService.bulkCreateUsers(
+      dto.users,
+      organizationId,
+    );
   }
 
   @Get()
@@ -63,6 +82,7 @@ export class UserManagementController {
   }
 
   @Put(':id')
+  @BlockImpersonation()
   @ApiOperation({ summary: 'Update user' })
   @ApiResponse({ status: 200, description: 'User updated successfully' })
   @ApiResponse({ status: 404, description: 'User not found' })
@@ -76,6 +96,7 @@ export class UserManagementController {
   }
 
   @Patch(':id/toggle-status')
+  @BlockImpersonation()
   @ApiOperation({ summary: 'Toggle user active status' })
   @ApiResponse({ status: 200, description: 'User status toggled successfully' })
   @ApiResponse({ status: 404, description: 'User not found' })
@@ -84,7 +105,67 @@ export class UserManagementController {
     return this.userManagementService.toggleUserStatus(id, organizationId);
   }
 
+  @Patch(':id/unlock')
+  @BlockImpersonation()
+  @ApiOperation({
+    summary: 'Unlock a user locked out by failed login attempts',
+  })
+  @ApiResponse({ status: 200, description: 'User unlocked successfully' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async unlockUser(@Param('id') id: string, @Request() req) {
+    const organizationId = req.user.organizationId;
+    return this.userManagementService.unlockUser(id, organizationId);
+  }
+
+  @Get(':id/sessions')
+  @ApiOperation({ summary: "List a user's active sessions (devices)" })
+  @ApiResponse({ status: 200, description: 'Sessions retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async getUserSessions(@Param('id') id: string, @Request() req) {
+    const organizationId = req.user.organizationId;
+    return this.userManagementService.getUserSessions(id, organizationId);
+  }
+
+  @Delete(':id/sessions/:sessionId')
+  @BlockImpersonation()
+  @ApiOperation({ summary: "Revoke one of a user's sessions" })
+  @ApiResponse({ status: 200, description: 'Session revoked successfully' })
+  @ApiResponse({ status: 404, description: 'User or session not found' })
+  async revokeUserSession(
+    @Param('id') id: string,
+    @Param('sessionId') sessionId: string,
+    @Request() req,
+  ) {
+    const organizationId = req.user.organizationId;
+    return this.userManagementService.revokeUserSession(
+      id,
+      sessionId,
+      organizationId,
+      req.user.id,
+    );
+  }
+
+  @Delete(':id/sessions')
+  @BlockImpersonation()
+  @ApiOperation({
+    summary: "Revoke all of a user's sessions (e.g. lost device)",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'All sessions revoked successfully',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async revokeAllUserSessions(@Param('id') id: string, @Request() req) {
+    const organizationId = req.user.organizationId;
+    return this.userManagementService.revokeAllUserSessions(
+      id,
+      organizationId,
+      req.user.id,
+    );
+  }
+
   @Delete(':id')
+  @BlockImpersonation()
   @ApiOperation({ summary: 'Delete user' })
   @ApiResponse({ status: 200, description: 'User deleted successfully' })
   @ApiResponse({ status: 404, description: 'User not found' })
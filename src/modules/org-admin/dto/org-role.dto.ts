@@ -0,0 +1,69 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Permission } from '../../../common/utils/role-permissions.util';
+
+export class CreateOrgRoleDto {
+  @ApiProperty({ example: 'Question Author' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Writes and maintains the question bank' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  description?: string;
+
+  @ApiProperty({
+    enum: Permission,
+    isArray: true,
+    example: [Permission.QUESTIONS_MANAGE],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(Permission, { each: true })
+  permissions: Permission[];
+}
+
+export class UpdateOrgRoleDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(60)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  description?: string;
+
+  @ApiPropertyOptional({ enum: Permission, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(Permission, { each: true })
+  permissions?: Permission[];
+}
+
+export class AssignOrgRolesDto {
+  @ApiProperty({
+    type: [String],
+    description:
+      "Custom roles the user should hold in this organization (replaces the user's current ones; empty clears them)",
+  })
+  @IsArray()
+  @IsMongoId({ each: true })
+  roleIds: string[];
+}
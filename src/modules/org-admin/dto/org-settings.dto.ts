@@ -8,9 +8,11 @@ import {
   ValidateNested,
   IsHexColor,
   IsArray,
+  IsIn,
+  IsNotEmpty,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 class AddressDto {
   @ApiPropertyOptional()
@@ -122,6 +124,40 @@ class BrandingDto {
   customDomain?: string;
 }
 
+class SecuritySettingsDto {
+  @ApiPropertyOptional({
+    description:
+      'Block exam access until the candidate has verified their email',
+  })
+  @IsOptional()
+  @IsBoolean()
+  requireEmailVerification?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Require two-factor authentication for org admins and recruiters',
+  })
+  @IsOptional()
+  @IsBoolean()
+  mfaRequiredForAdmins?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Allow candidates to sign in with a one-time email link',
+  })
+  @IsOptional()
+  @IsBoolean()
+  magicLinkLogin?: boolean;
+
+  @ApiPropertyOptional({
+    enum: ['PASSWORD', 'MAGIC_LINK'],
+    description:
+      'Default candidate sign-in method (MAGIC_LINK requires magicLinkLogin)',
+  })
+  @IsOptional()
+  @IsIn(['PASSWORD', 'MAGIC_LINK'])
+  defaultCandidateLogin?: 'PASSWORD' | 'MAGIC_LINK';
+}
+
 export class UpdateOrgSettingsDto {
   @ApiPropertyOptional()
   @IsOptional()
@@ -145,4 +181,85 @@ export class UpdateOrgSettingsDto {
   @ValidateNested()
   @Type(() => BrandingDto)
   branding?: BrandingDto;
+
+  @ApiPropertyOptional({ type: SecuritySettingsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SecuritySettingsDto)
+  security?: SecuritySettingsDto;
+}
+
+class SsoRoleMappingDto {
+  @ApiProperty({
+    example: 'skillmetric-admins',
+    description: 'Value of the role claim issued by the identity provider',
+  })
+  @IsString()
+  @IsNotEmpty()
+  claimValue: string;
+
+  @ApiProperty({ enum: ['ORG_ADMIN', 'RECRUITER', 'CANDIDATE'] })
+  @IsIn(['ORG_ADMIN', 'RECRUITER', 'CANDIDATE'])
+  role: string;
+}
+
+export class UpdateSsoSettingsDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    example: 'https://login.acme.com',
+    description:
+      'OpenID Connect issuer URL (https, must serve a discovery document)',
+  })
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  issuer?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  clientId?: string;
+
+  @ApiPropertyOptional({ description: 'Write-only; never returned' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  clientSecret?: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: ['openid', 'email', 'profile'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  scopes?: string[];
+
+  @ApiPropertyOptional({
+    example: 'groups',
+    description: 'ID token claim holding the user roles or groups',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  roleClaim?: string;
+
+  @ApiPropertyOptional({
+    type: [SsoRoleMappingDto],
+    description: 'Evaluated in order; the first matching claim value wins',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SsoRoleMappingDto)
+  roleMappings?: SsoRoleMappingDto[];
+
+  @ApiPropertyOptional({ enum: ['ORG_ADMIN', 'RECRUITER', 'CANDIDATE'] })
+  @IsOptional()
+  @IsIn(['ORG_ADMIN', 'RECRUITER', 'CANDIDATE'])
+  defaultRole?: string;
 }
@@ -5,48 +5,63 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { User, UserSchema } from '../users/schemas/user.schema';
 import { Question, QuestionSchema } from '../questions/schemas/question.schema';
 import { Organization, OrganizationSchema } from '../organizations/schemas/organization.schema';
+import { OrgRole, OrgRoleSchema } from './schemas/org-role.schema';
 
 // Controllers
 import { UserManagementController } from './controllers/user-management.controller';
 import { QuestionManagementController } from './controllers/question-management.controller';
 import { OrgAnalyticsController } from './controllers/org-analytics.controller';
 import { OrgSettingsController } from './controllers/org-settings.controller';
+import { OrgRolesController } from './controllers/org-roles.controller';
 
 // Services
 import { UserManagementService } from './services/user-management.service';
 import { QuestionManagementService } from './services/question-management.service';
 import { OrgAnalyticsService } from './services/org-analytics.service';
 import { OrgSettingsService } from './services/org-settings.service';
+import { OrgRoleService } from './services/org-role.service';
 
 // Import Email Module for sending welcome emails
 import { EmailModule } from '../email/email.module';
 
+// Auth Module for token revocation and email verification
+import { AuthModule } from '../auth/auth.module';
+
+// API Keys Module for API-key authenticated question management
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
       { name: Question.name, schema: QuestionSchema },
       { name: Organization.name, schema: OrganizationSchema },
+      { name: OrgRole.name, schema: OrgRoleSchema },
     ]),
     EmailModule,
+    AuthModule,
+    ApiKeysModule,
   ],
   controllers: [
     UserManagementController,
     QuestionManagementController,
     OrgAnalyticsController,
     OrgSettingsController,
+    OrgRolesController,
   ],
   providers: [
     UserManagementService,
     QuestionManagementService,
     OrgAnalyticsService,
     OrgSettingsService,
+    OrgRoleService,
   ],
   exports: [
     UserManagementService,
     QuestionManagementService,
     OrgAnalyticsService,
     OrgSettingsService,
+    OrgRoleService,
   ],
 })
 export class OrgAdminModule {}
@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { Permission } from '../../../common/utils/role-permissions.util';
+
+/**
+ * Organization-defined permission set (e.g. "Question Author", "Grader").
+ * Granted on top of the user's built-in role preset.
+ */
+@Schema({ timestamps: true })
+export class OrgRole extends Document {
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organizationId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop({
+    type: [String],
+    enum: Object.values(Permission),
+    default: [],
+  })
+  permissions: Permission[];
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+}
+
+export const OrgRoleSchema = SchemaFactory.createForClass(OrgRole);
+
+OrgRoleSchema.index({ organizationId: 1, name: 1 }, { unique: true });
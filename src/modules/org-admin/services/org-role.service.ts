@@ -0,0 +1,303 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { OrgRole } from '../schemas/org-role.schema';
+import { User, UserRole } from '../../users/schemas/user.schema';
+import {
+  CreateOrgRoleDto,
+  UpdateOrgRoleDto,
+  AssignOrgRolesDto,
+} from '../dto/org-role.dto';
+import {
+  Permission,
+  RolePermissions,
+} from '../../../common/utils/role-permissions.util';
+
+// Built-in roles an organization works with (SUPER_ADMIN is platform-level)
+const ORGANIZATION_ROLES = [
+  UserRole.ORG_ADMIN,
+  UserRole.RECRUITER,
+  UserRole.CANDIDATE,
+];
+
+/**
+ * The authenticated user managing roles (request.user)
+ */
+export interface RoleActor {
+  id: string;
+  role: UserRole;
+  permissions?: Permission[];
+}
+
+/**
+ * Organization-defined roles: named permission sets assigned to users on top
+ * of their built-in role preset.
+ *
+ * Callers can only grant permissions they hold themselves, so delegating
+ * role management cannot be used to escalate privileges.
+ */
+@Injectable()
+export class OrgRoleService {
+  constructor(
+    @InjectModel(OrgRole.name) private orgRoleModel: Model<OrgRole>,
+    @InjectModel(User.name) private userModel: Model<User>,
+  ) {}
+
+  getPermissions() {
+    return Object.values(Permission);
+  }
+
+  async getRoles(organizationId: string) {
+    const orgId = new Types.ObjectId(organizationId);
+    const customRoles = await this.orgRoleModel
+      .find({ organizationId: orgId })
+      .sort({ name: 1 })
+      .exec();
+
+    const assignedCounts = await this.userModel.aggregate([
+      { $match: { customRoles: { $in: customRoles.map((role) => role._id) } } },
+      { $unwind: '$customRoles' },
+      { $group: { _id: '$customRoles', count: { $sum: 1 } } },
+    ]);
+    const countByRole = new Map(
+      assignedCounts.map((entry) => [entry._id.toString(), entry.count]),
+    );
+
+    return {
+      builtIn: ORGANIZATION_ROLES.map((role) => ({
+        role,
+        name: RolePermissions.getRoleDisplayName(role),
+        permissions: RolePermissions.getPresetPermissions(role),
+        builtIn: true,
+      })),
+      custom: customRoles.map((role) => ({
+        ...this.toResponse(role),
+        assignedUsers: countByRole.get(role._id.toString()) || 0,
+      })),
+    };
+  }
+
+  async getRoleById(id: string, organizationId: string) {
+    const role = await this.findOrgRole(id, organizationId);
+
+    const users = await this.userModel
+      .find({ customRoles: role._id })
+      .select('name email role isActive')
+      .exec();
+
+    return { ...this.toResponse(role), users };
+  }
+
+  async createRole(
+    dto: CreateOrgRoleDto,
+    organizationId: string,
+    actor: RoleActor,
+  ) {
+    this.assertCanGrant(actor, dto.permissions);
+    this.assertNotBuiltInName(dto.name);
+
+    try {
+      const role = await this.orgRoleModel.create({
+        organizationId: new Types.ObjectId(organizationId),
+        name: dto.name.trim(),
+        description: dto.description,
+        permissions: [...new Set(dto.permissions)],
+        createdBy: new Types.ObjectId(actor.id),
+      });
+
+      return this.toResponse(role);
+    } catch (error) {
+      throw this.translateDuplicate(error);
+    }
+  }
+
+  async updateRole(
+    id: string,
+    dto: UpdateOrgRoleDto,
+    organizationId: string,
+    actor: RoleActor,
+  ) {
+    const role = await this.findOrgRole(id, organizationId);
+
+    if (dto.name !== undefined) {
+      this.assertNotBuiltInName(dto.name);
+      role.name = dto.name.trim();
+    }
+
+    if (dto.description !== undefined) {
+      role.description = dto.description;
+    }
+
+    if (dto.permissions) {
+      this.assertCanGrant(actor, dto.permissions);
+      role.permissions = [...new Set(dto.permissions)];
+    }
+
+    try {
+      await role.save();
+    } catch (error) {
+      throw this.translateDuplicate(error);
+    }
+
+    return this.toResponse(role);
+  }
+
+  /**
+   * Delete a role and remove it from every user holding it
+   */
+  async deleteRole(id: string, organizationId: string) {
+    const role = await this.findOrgRole(id, organizationId);
+
+    const { modifiedCount } = await this.userModel.updateMany(
+      { customRoles: role._id },
+      { $pull: { customRoles: role._id } },
+    );
+    await role.deleteOne();
+
+    return {
+      message: 'Role deleted successfully',
+      unassignedUsers: modifiedCount,
+    };
+  }
+
+  /**
+   * Replace the custom roles a user holds in this organization.
+   * Roles from other organizations are left untouched.
+   */
+  async setUserRoles(
+    userId: string,
+    dto: AssignOrgRolesDto,
+    organizationId: string,
+    actor: RoleActor,
+  ) {
+    const orgId = new Types.ObjectId(organizationId);
+
+    const user = Types.ObjectId.isValid(userId)
+      ? await this.userModel.findOne({ _id: userId, organizationIds: orgId })
+      : null;
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.role === UserRole.SUPER_ADMIN) {
+      throw new BadRequestException('Cannot assign roles to a SUPER_ADMIN');
+    }
+
+    const roleIds = [...new Set(dto.roleIds)];
+    const roles = await this.orgRoleModel
+      .find({ _id: { $in: roleIds }, organizationId: orgId })
+      .exec();
+    if (roles.length !== roleIds.length) {
+      throw new BadRequestException(
+        'One or more roles do not exist in this organization',
+      );
+    }
+
+    this.assertCanGrant(
+      actor,
+      roles.flatMap((role) => role.permissions),
+    );
+
+    const orgRoleIds = new Set(
+      (
+        await this.orgRoleModel
+          .find({ organizationId: orgId })
+          .select('_id')
+          .lean()
+          .exec()
+      ).map((role) => role._id.toString()),
+    );
+    const otherOrgRoles = (user.customRoles || []).filter(
+      (id) => !orgRoleIds.has(id.toString()),
+    );
+
+    user.customRoles = [
+      ...otherOrgRoles,
+      ...roles.map((role) => role._id as Types.ObjectId),
+    ];
+    await user.save();
+
+    return {
+      userId: user._id,
+      role: user.role,
+      customRoles: roles.map((role) => this.toResponse(role)),
+      permissions: [
+        ...new Set([
+          ...RolePermissions.getPresetPermissions(user.role),
+          ...roles.flatMap((role) => role.permissions),
+        ]),
+      ],
+    };
+  }
+
+  private assertCanGrant(actor: RoleActor, permissions: Permission[]) {
+    const held =
+      actor.permissions || RolePermissions.getPresetPermissions(actor.role);
+    const missing = permissions.filter(
+      (permission) => !held.includes(permission),
+    );
+
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `You cannot grant permissions you do not hold: ${[...new Set(missing)].join(', ')}`,
+      );
+    }
+  }
+
+  private assertNotBuiltInName(name: string) {
+    const normalized = name.trim().toLowerCase();
+    const reserved = Object.values(UserRole).flatMap((role) => [
+      role.toLowerCase(),
+      RolePermissions.getRoleDisplayName(role).toLowerCase(),
+    ]);
+
+    if (reserved.includes(normalized)) {
+      throw new ConflictException(`"${name}" is a built-in role name`);
+    }
+  }
+
+  private translateDuplicate(error: any) {
+    if (error?.code === 11000) {
+      return new ConflictException(
+        'A role with this name already exists in the organization',
+      );
+    }
+    return error;
+  }
+
+  private async findOrgRole(id: string, organizationId: string) {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new NotFoundException('Role not found');
+    }
+
+    const role = await this.orgRoleModel.findOne({
+      _id: id,
+      organizationId: new Types.ObjectId(organizationId),
+    });
+
+    if (!role) {
+      throw new NotFoundException('Role not found');
+    }
+
+    return role;
+  }
+
+  private toResponse(role: OrgRole) {
+    return {
+      _id: role._id,
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions,
+      builtIn: false,
+      createdBy: role.createdBy,
+      createdAt: (role as any).createdAt,
+      updatedAt: (role as any).updatedAt,
+    };
+  }
+}
@@ -1,8 +1,16 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Organization } from '../../organizations/schemas/organization.schema';
-import { UpdateOrgSettingsDto } from '../dto/org-settings.dto';
+import {
+  UpdateOrgSettingsDto,
+  UpdateSsoSettingsDto,
+} from '../dto/org-settings.dto';
+import { OutboundUrlUtil } from '../../../common/utils/outbound-url.util';
 
 @Injectable()
 export class OrgSettingsService {
@@ -13,7 +21,9 @@ export class OrgSettingsService {
   async getOrganizationSettings(organizationId: string) {
     const organization = await this.organizationModel
       .findById(organizationId)
-      .select('name type status contactInfo subscription features branding stats')
+      .select(
+        'name type status contactInfo subscription features branding security stats',
+      )
       .exec();
 
     if (!organization) {
@@ -60,13 +70,23 @@ export class OrgSettingsService {
       });
     }
 
+    if (dto.security) {
+      await this.assertValidCandidateLogin(organizationId, dto.security);
+
+      Object.keys(dto.security).forEach((key) => {
+        updateData[`security.${key}`] = dto.security[key];
+      });
+    }
+
     const organization = await this.organizationModel
       .findByIdAndUpdate(
         organizationId,
         { $set: updateData },
         { new: true },
       )
-      .select('name type status contactInfo subscription features branding stats')
+      .select(
+        'name type status contactInfo subscription features branding security stats',
+      )
       .exec();
 
     if (!organization) {
@@ -76,6 +96,116 @@ export class OrgSettingsService {
     return organization;
   }
 
+  async getSsoSettings(organizationId: string) {
+    const organization = await this.organizationModel
+      .findById(organizationId)
+      .select('sso features.allowedDomains')
+      .exec();
+
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    return this.toSsoResponse(organization);
+  }
+
+  async updateSsoSettings(organizationId: string, dto: UpdateSsoSettingsDto) {
+    const existing = await this.organizationModel
+      .findById(organizationId)
+      .select('sso')
+      .exec();
+
+    if (!existing) {
+      throw new NotFoundException('Organization not found');
+    }
+
+    const current = existing.sso;
+    const enabled = dto.enabled ?? current?.enabled;
+    const isComplete =
+      (dto.issuer ?? current?.issuer) &&
+      (dto.clientId ?? current?.clientId) &&
+      (dto.clientSecret ?? current?.clientSecret);
+
+    if (enabled && !isComplete) {
+      throw new BadRequestException(
+        'Issuer, client ID and client secret are required to enable SSO',
+      );
+    }
+
+    // The server fetches the issuer's discovery document
+    if (dto.issuer) {
+      try {
+        await OutboundUrlUtil.assertPublicHttps(dto.issuer);
+      } catch (error) {
+        throw new BadRequestException(`Invalid issuer: ${error.message}`);
+      }
+    }
+
+    const updateData: any = {};
+    Object.keys(dto).forEach((key) => {
+      updateData[`sso.${key}`] = dto[key];
+    });
+
+    const organization = await this.organizationModel
+      .findByIdAndUpdate(organizationId, { $set: updateData }, { new: true })
+      .select('sso features.allowedDomains')
+      .exec();
+
+    return this.toSsoResponse(organization);
+  }
+
+  /**
+   * The client secret is write-only
+   */
+  /**
+   * Magic links can only be the default candidate login while they are enabled
+   */
+  private async assertValidCandidateLogin(
+    organizationId: string,
+    security: UpdateOrgSettingsDto['security'],
+  ) {
+    if (
+      security.defaultCandidateLogin === undefined &&
+      security.magicLinkLogin !== false
+    ) {
+      return;
+    }
+
+    const current = await this.organizationModel
+      .findById(organizationId)
+      .select('security')
+      .exec();
+
+    const magicLinkLogin =
+      security.magicLinkLogin ?? current?.security?.magicLinkLogin ?? false;
+    const defaultCandidateLogin =
+      security.defaultCandidateLogin ??
+      current?.security?.defaultCandidateLogin ??
+      'PASSWORD';
+
+    if (defaultCandidateLogin === 'MAGIC_LINK' && !magicLinkLogin) {
+      throw new BadRequestException(
+        'Enable magic link login before making it the default candidate login',
+      );
+    }
+  }
+
+  private toSsoResponse(organization: Organization) {
+    const sso: any = organization.sso ?? {};
+
+    return {
+      enabled: !!sso.enabled,
+      issuer: sso.issuer,
+      clientId: sso.clientId,
+      clientSecretSet: !!sso.clientSecret,
+      scopes: sso.scopes,
+      roleClaim: sso.roleClaim,
+      roleMappings: sso.roleMappings,
+      defaultRole: sso.defaultRole,
+      allowedDomains: organization.features?.allowedDomains ?? [],
+    };
+  }
+
   async getOrganizationUsage(organizationId: string) {
     const organization = await this.organizationModel
       .findById(organizationId)
@@ -1,4 +1,9 @@
-import { Injectable, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import * as bcrypt from 'bcrypt';
@@ -6,12 +11,21 @@ import { User, UserRole } from '../../users/schemas/user.schema';
 import { CreateUserDto, UpdateUserDto } from '../dto/create-user.dto';
 import { UserFiltersDto } from '../dto/user-filters.dto';
 import { EmailService } from '../../email/services/email.service';
+import { TokenService } from '../../auth/services/token.service';
+import { EmailVerificationService } from '../../auth/services/email-verification.service';
+import { LoginAttemptService } from '../../auth/services/login-attempt.service';
+import { SessionService } from '../../auth/services/session.service';
+import { SessionRevokedReason } from '../../auth/schemas/user-session.schema';
 
 @Injectable()
 export class UserManagementService {
   constructor(
     @InjectModel(User.name) private userModel: Model<User>,
     private emailService: EmailService,
+    private tokenService: TokenService,
+    private emailVerificationService: EmailVerificationService,
+    private loginAttemptService: LoginAttemptService,
+    private sessionService: SessionService,
   ) {}
 
   async createUser(dto: CreateUserDto, organizationId: string) {
@@ -23,12 +37,12 @@ export class UserManagementService {
     if (existingUser) {
       // User exists - check if they already belong to this organization
       const hasOrganization = existingUser.organizationIds.some(
-        (id) => id.toString() === orgId?.toString()
+        (id) => id.toString() === orgId?.toString(),
       );
 
       if (hasOrganization) {
         throw new ConflictException(
-          'User with this email already belongs to this organization'
+          'User with this email already belongs to this organization',
         );
       }
 
@@ -65,7 +79,7 @@ export class UserManagementService {
       role: dto.role,
       organizationIds: orgId ? [orgId] : [],
       isActive: true,
-      emailVerified: true,
+      emailVerified: false,
       metadata: {
         phone: dto.phone,
         department: dto.department,
@@ -88,6 +102,8 @@ export class UserManagementService {
       console.error('Failed to send welcome email:', emailError);
     }
 
+    await this.emailVerificationService.sendVerificationEmail(user);
+
     return {
       user: {
         _id: user._id,
@@ -135,11 +151,13 @@ export class UserManagementService {
     console.log('  - filters:', filters);
 
     // Convert organizationId string to ObjectId for MongoDB query
-    const orgIdObject = organizationId ? new Types.ObjectId(organizationId) : null;
+    const orgIdObject = organizationId
+      ? new Types.ObjectId(organizationId)
+      : null;
     console.log('  - organizationId (ObjectId):', orgIdObject);
 
     const query: any = {
-      organizationIds: { $in: [orgIdObject] }
+      organizationIds: { $in: [orgIdObject] },
     };
 
     if (role) query.role = role;
@@ -189,7 +207,7 @@ export class UserManagementService {
     const user = await this.userModel
       .findOne({
         _id: id,
-        organizationIds: { $in: [orgId] }
+        organizationIds: { $in: [orgId] },
       })
       .select('-password')
       .exec();
@@ -207,7 +225,7 @@ export class UserManagementService {
       .findOneAndUpdate(
         {
           _id: id,
-          organizationIds: { $in: [orgId] }
+          organizationIds: { $in: [orgId] },
         },
         {
           ...(dto.name && { name: dto.name }),
@@ -238,7 +256,7 @@ export class UserManagementService {
     const orgId = organizationId ? new Types.ObjectId(organizationId) : null;
     const user = await this.userModel.findOne({
       _id: id,
-      organizationIds: { $in: [orgId] }
+      organizationIds: { $in: [orgId] },
     });
 
     if (!user) {
@@ -248,18 +266,125 @@ export class UserManagementService {
     user.isActive = !user.isActive;
     await user.save();
 
+    // Deactivation must end any session the user still holds
+    if (!user.isActive) {
+      await this.tokenService.revokeAllUserTokens(user._id.toString());
+    }
+
     return {
       message: `User ${user.isActive ? 'activated' : 'deactivated'} successfully`,
       isActive: user.isActive,
     };
   }
 
+  async unlockUser(id: string, organizationId: string) {
+    const orgId = organizationId ? new Types.ObjectId(organizationId) : null;
+    const user = await this.userModel.findOne({
+      _id: id,
+      organizationIds: { $in: [orgId] },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const status = await this.loginAttemptService.getAccountLockStatus(
+      user.email,
+    );
+    await this.loginAttemptService.unlockAccount(user.email);
+
+    return {
+      message: status.locked
+        ? 'User account unlocked successfully'
+        : 'User account was not locked; failed login attempts have been reset',
+      wasLocked: status.locked,
+    };
+  }
+
+  async getUserSessions(id: string, organizationId: string) {
+    const orgId = organizationId ? new Types.ObjectId(organizationId) : null;
+    const user = await this.userModel.findOne({
+      _id: id,
+      organizationIds: { $in: [orgId] },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const sessions = await this.sessionService.listActiveSessions(
+      user._id.toString(),
+    );
+
+    return {
+      user: { id: user._id, name: user.name, email: user.email },
+      data: sessions,
+      total: sessions.length,
+    };
+  }
+
+  async revokeUserSession(
+    id: string,
+    sessionId: string,
+    organizationId: string,
+    adminId: string,
+  ) {
+    const orgId = organizationId ? new Types.ObjectId(organizationId) : null;
+    const user = await this.userModel.findOne({
+      _id: id,
+      organizationIds: { $in: [orgId] },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const session = await this.sessionService.findActiveSession(
+      user._id.toString(),
+      sessionId,
+    );
+
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.tokenService.revokeSession(
+      user._id.toString(),
+      session.familyId,
+      SessionRevokedReason.ADMIN_REVOKED,
+      adminId,
+    );
+
+    return { message: 'Session revoked successfully' };
+  }
+
+  async revokeAllUserSessions(
+    id: string,
+    organizationId: string,
+    adminId: string,
+  ) {
+    const orgId = organizationId ? new Types.ObjectId(organizationId) : null;
+    const user = await this.userModel.findOne({
+      _id: id,
+      organizationIds: { $in: [orgId] },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    // Also invalidates access tokens already handed out
+    await this.tokenService.revokeAllUserTokens(user._id.toString(), adminId);
+
+    return { message: 'All sessions revoked successfully' };
+  }
+
   async deleteUser(id: string, organizationId: string) {
     const orgId = organizationId ? new Types.ObjectId(organizationId) : null;
     // For multi-org users, remove org from array instead of deleting user
     const user = await this.userModel.findOne({
       _id: id,
-      organizationIds: { $in: [orgId] }
+      organizationIds: { $in: [orgId] },
     });
 
     if (!user) {
@@ -269,7 +394,7 @@ export class UserManagementService {
     // If user belongs to multiple orgs, just remove this org
     if (user.organizationIds.length > 1) {
       user.organizationIds = user.organizationIds.filter(
-        (oid) => oid.toString() !== orgId?.toString()
+        (oid) => oid.toString() !== orgId?.toString(),
       );
       await user.save();
       return { message: 'User removed from organization successfully' };
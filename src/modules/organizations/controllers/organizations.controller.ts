@@ -22,6 +22,7 @@ import {
   Organization,
   OrganizationDocument,
 } from '../schemas/organization.schema';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
 
 @Controller('organizations')
 @UseGuards(JwtAuthGuard)
@@ -116,6 +117,7 @@ export class OrganizationsController {
   }
 
   @Delete(':id')
+  @BlockImpersonation()
   async remove(@Param('id') id: string) {
     const organization = await this.organizationModel.findByIdAndDelete(id);
 
@@ -172,6 +174,7 @@ export class OrganizationsController {
   }
 
   @Delete(':id/admins/:userId')
+  @BlockImpersonation()
   async removeAdmin(@Param('id') id: string, @Param('userId') userId: string) {
     const organization = await this.organizationModel.findByIdAndUpdate(
       id,
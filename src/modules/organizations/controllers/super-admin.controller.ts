@@ -37,6 +37,7 @@ import { UpdateOrganizationCommand } from '../commands/impl/update-organization.
 import { AssignAdminCommand } from '../commands/impl/assign-admin.command';
 import { SuspendOrganizationCommand } from '../commands/impl/suspend-organization.command';
 import { ActivateOrganizationCommand } from '../commands/impl/activate-organization.command';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
 
 @ApiTags('Super Admin - Organizations')
 @ApiBearerAuth()
@@ -129,6 +130,7 @@ export class SuperAdminController {
   }
 
   @Delete(':id')
+  @BlockImpersonation()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete organization' })
   @ApiParam({ name: 'id', description: 'Organization ID' })
@@ -94,6 +94,66 @@ class Features {
   analyticsExport: boolean;
 }
 
+@Schema()
+class SecuritySettings {
+  // Candidates must verify their email before they can access exams
+  @Prop({ type: Boolean, default: false })
+  requireEmailVerification: boolean;
+
+  // Org admins and recruiters must enroll in TOTP two-factor authentication
+  @Prop({ type: Boolean, default: false })
+  mfaRequiredForAdmins: boolean;
+
+  // Candidates may sign in with a single-use link sent to their email
+  @Prop({ type: Boolean, default: false })
+  magicLinkLogin: boolean;
+
+  // Sign-in method candidate login pages offer first
+  @Prop({ type: String, enum: ['PASSWORD', 'MAGIC_LINK'], default: 'PASSWORD' })
+  defaultCandidateLogin: 'PASSWORD' | 'MAGIC_LINK';
+}
+
+@Schema({ _id: false })
+class SsoRoleMapping {
+  // Value of the IdP role claim (e.g. a group name)
+  @Prop({ required: true })
+  claimValue: string;
+
+  @Prop({ type: String, required: true })
+  role: string;
+}
+
+@Schema()
+class SsoSettings {
+  @Prop({ type: Boolean, default: false })
+  enabled: boolean;
+
+  // OpenID Connect issuer URL; endpoints are read from its discovery document
+  @Prop()
+  issuer: string;
+
+  @Prop()
+  clientId: string;
+
+  @Prop({ select: false })
+  clientSecret: string;
+
+  @Prop({ type: [String], default: ['openid', 'email', 'profile'] })
+  scopes: string[];
+
+  // ID token claim holding the user's groups/roles
+  @Prop({ default: 'groups' })
+  roleClaim: string;
+
+  // Evaluated in order; the first matching claim value wins
+  @Prop({ type: [SsoRoleMapping], default: [] })
+  roleMappings: SsoRoleMapping[];
+
+  // Role for provisioned users matching no mapping
+  @Prop({ default: 'CANDIDATE' })
+  defaultRole: string;
+}
+
 @Schema()
 class Branding {
   @Prop()
@@ -155,6 +215,12 @@ export class Organization {
   @Prop({ type: Branding })
   branding: Branding;
 
+  @Prop({ type: SecuritySettings, default: () => ({}) })
+  security: SecuritySettings;
+
+  @Prop({ type: SsoSettings, default: () => ({}) })
+  sso: SsoSettings;
+
   @Prop({ type: [{ type: Types.ObjectId, ref: 'User' }], default: [] })
   admins: Types.ObjectId[];
 
@@ -169,3 +235,4 @@ OrganizationSchema.index({ status: 1 });
 OrganizationSchema.index({ type: 1 });
 OrganizationSchema.index({ 'subscription.plan': 1 });
 OrganizationSchema.index({ 'subscription.endDate': 1 });
+OrganizationSchema.index({ 'sso.enabled': 1, 'features.allowedDomains': 1 });
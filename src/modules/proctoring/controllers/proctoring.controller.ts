@@ -1,14 +1,38 @@
-import { Controller, Get, Param, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiParam,
+  ApiResponse,
+} from '@nestjs/swagger';
 import { ProctoringService } from '../services/proctoring.service';
+import { SessionTimerService } from '../services/session-timer.service';
+import { ProctoringGateway } from '../gateways/proctoring.gateway';
+import { ExtendSessionTimeDto } from '../dto/extend-session-time.dto';
 import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../../common/guards/roles.guard';
+import { Roles } from '../../../common/decorators/roles.decorator';
+import { UserRole } from '../../users/schemas/user.schema';
 
 @ApiTags('proctoring')
 @Controller('proctoring')
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class ProctoringController {
-  constructor(private readonly proctoringService: ProctoringService) {}
+  constructor(
+    private readonly proctoringService: ProctoringService,
+    private readonly sessionTimerService: SessionTimerService,
+    private readonly proctoringGateway: ProctoringGateway,
+  ) {}
 
   @Get('session/:id/violations')
   @ApiOperation({ summary: 'Get violations for a session' })
@@ -27,4 +51,45 @@ export class ProctoringController {
   async getSessionDetails(@Param('id') sessionId: string) {
     return this.proctoringService.getSessionDetails(sessionId);
   }
+
+  @Post('session/:id/extend-time')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.RECRUITER, UserRole.ORG_ADMIN)
+  @ApiOperation({
+    summary: 'Grant a candidate extra time',
+    description:
+      "Moves the session's server-side end time (and the current timed " +
+      'section) by the given minutes. The candidate is notified over the ' +
+      'proctoring socket.',
+  })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({ status: 201, description: 'Time extended' })
+  @ApiResponse({ status: 400, description: 'Session is no longer open' })
+  async extendSessionTime(
+    @Param('id') sessionId: string,
+    @Body() extendSessionTimeDto: ExtendSessionTimeDto,
+    @Request() req,
+  ) {
+    const session = await this.sessionTimerService.extend(
+      sessionId,
+      extendSessionTimeDto.minutes,
+      req.user.id,
+      req.user.organizationIds || [],
+      extendSessionTimeDto.reason,
+    );
+    const timer = this.sessionTimerService.getTimer(session);
+
+    this.proctoringGateway.notifyTimeExtended(
+      sessionId,
+      extendSessionTimeDto.minutes,
+      timer,
+    );
+
+    return {
+      message: `Session extended by ${extendSessionTimeDto.minutes} minute(s)`,
+      sessionId,
+      ...timer,
+      timeExtensions: session.timeExtensions,
+    };
+  }
 }
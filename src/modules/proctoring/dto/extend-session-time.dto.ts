@@ -0,0 +1,26 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class ExtendSessionTimeDto {
+  @ApiProperty({ description: 'Extra minutes to grant', example: 10 })
+  @IsInt()
+  @Min(1)
+  @Max(240)
+  minutes: number;
+
+  @ApiPropertyOptional({
+    description: 'Why the extension was granted',
+    example: 'Lost connection for 8 minutes',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ProctoringGateway } from './proctoring.gateway';
+import { ExamSession, SessionStatus } from '../schemas/exam-session.schema';
+import { Violation, ViolationType } from '../schemas/violation.schema';
+import { Exam } from '../../exams/schemas/exam.schema';
+import { GradingService } from '../../results/services/grading.service';
+
+describe('ProctoringGateway', () => {
+  let gateway: ProctoringGateway;
+
+  const mockSessionModel = { findById: jest.fn() };
+  const mockExamModel = { findById: jest.fn() };
+  const mockViolationModel = jest.fn().mockImplementation((data) => ({
+    ...data,
+    save: jest.fn().mockResolvedValue(undefined),
+  }));
+  const mockGradingService = { gradeExamSession: jest.fn() };
+
+  const emit = jest.fn();
+  const client = { emit: jest.fn() } as any;
+
+  const exam = {
+    _id: new Types.ObjectId(),
+    proctoringSettings: {
+      enabled: true,
+      violationWarningLimit: 2,
+      autoSubmitOnViolation: true,
+    },
+  };
+
+  const buildSession = (overrides: Partial<ExamSession> = {}) =>
+    ({
+      _id: new Types.ObjectId(),
+      examId: exam._id,
+      candidateId: new Types.ObjectId(),
+      status: SessionStatus.IN_PROGRESS,
+      violations: [],
+      warningCount: 0,
+      breaks: [],
+      save: jest.fn().mockResolvedValue(undefined),
+      ...overrides,
+    }) as any;
+
+  const reportViolation = (session: any) =>
+    gateway.handleViolation(client, {
+      sessionId: session._id.toString(),
+      type: ViolationType.TAB_SWITCH,
+      details: {},
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProctoringGateway,
+        {
+          provide: getModelToken(ExamSession.name),
+          useValue: mockSessionModel,
+        },
+        {
+          provide: getModelToken(Violation.name),
+          useValue: mockViolationModel,
+        },
+        { provide: getModelToken(Exam.name), useValue: mockExamModel },
+        { provide: GradingService, useValue: mockGradingService },
+      ],
+    }).compile();
+
+    gateway = module.get<ProctoringGateway>(ProctoringGateway);
+    gateway.server = { to: jest.fn().mockReturnValue({ emit }) } as any;
+    mockExamModel.findById.mockResolvedValue(exam);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('handleViolation', () => {
+    it('should grade the session when the violation limit auto-submits it', async () => {
+      const session = buildSession({ warningCount: 1 });
+      mockSessionModel.findById.mockResolvedValue(session);
+
+      await reportViolation(session);
+
+      expect(session.status).toBe(SessionStatus.AUTO_SUBMITTED);
+      expect(mockGradingService.gradeExamSession).toHaveBeenCalledWith(
+        session._id.toString(),
+      );
+      expect(client.emit).toHaveBeenCalledWith(
+        'force-submit',
+        expect.anything(),
+      );
+    });
+
+    it('should still force-submit when grading fails', async () => {
+      const session = buildSession({ warningCount: 1 });
+      mockSessionModel.findById.mockResolvedValue(session);
+      mockGradingService.gradeExamSession.mockRejectedValueOnce(
+        new Error('No questions'),
+      );
+
+      await reportViolation(session);
+
+      expect(client.emit).toHaveBeenCalledWith(
+        'force-submit',
+        expect.anything(),
+      );
+    });
+
+    it('should only warn below the limit', async () => {
+      const session = buildSession();
+      mockSessionModel.findById.mockResolvedValue(session);
+
+      await reportViolation(session);
+
+      expect(session.warningCount).toBe(1);
+      expect(session.status).toBe(SessionStatus.IN_PROGRESS);
+      expect(mockGradingService.gradeExamSession).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      SessionStatus.COMPLETED,
+      SessionStatus.AUTO_SUBMITTED,
+      SessionStatus.TIMED_OUT,
+      SessionStatus.ABANDONED,
+    ])('should ignore violations on a %s session', async (status) => {
+      const session = buildSession({ status, warningCount: 1 });
+      mockSessionModel.findById.mockResolvedValue(session);
+
+      await reportViolation(session);
+
+      expect(session.warningCount).toBe(1);
+      expect(session.save).not.toHaveBeenCalled();
+      expect(mockViolationModel).not.toHaveBeenCalled();
+      expect(mockGradingService.gradeExamSession).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -15,6 +15,11 @@ import { ExamSession, SessionStatus } from '../schemas/exam-session.schema';
 import { Violation, ViolationType, ViolationSeverity } from '../schemas/violation.schema';
 import { Exam } from '../../exams/schemas/exam.schema';
 import { GradingService } from '../../results/services/grading.service';
+import {
+  OPEN_SESSION_STATUSES,
+  SessionTimer,
+} from '../services/session-timer.service';
+import { AccommodationUtil } from '../../../common/utils';
 
 @Injectable()
 @WebSocketGateway({
@@ -147,9 +152,9 @@ export class ProctoringGateway
         return;
       }
 
-      // Check if session is already submitted/completed
-      if (session.status === SessionStatus.COMPLETED || session.status === SessionStatus.AUTO_SUBMITTED) {
-        this.logger.warn(`Ignoring violation for already submitted session ${sessionId}`);
+      // Check if session is already submitted, timed out or abandoned
+      if (!OPEN_SESSION_STATUSES.includes(session.status as SessionStatus)) {
+        this.logger.warn(`Ignoring violation for closed session ${sessionId}`);
         return;
       }
 
@@ -158,6 +163,14 @@ export class ProctoringGateway
         return;
       }
 
+      // Accommodations may relax the limit or exempt this violation type
+      const rules = AccommodationUtil.proctoringRules(
+        exam.proctoringSettings,
+        type,
+        session.accommodations,
+        !!AccommodationUtil.activeBreak(session.breaks),
+      );
+
       // Create violation record
       const violationData: any = {
         session: sessionId,
@@ -172,7 +185,7 @@ export class ProctoringGateway
         review: {
           status: 'PENDING',
         },
-        warningIssued: true,
+        warningIssued: rules.countsTowardLimit,
       };
 
       // Set candidate OR invitation based on access source
@@ -186,17 +199,25 @@ export class ProctoringGateway
       await violation.save();
 
       // SERVER-SIDE INCREMENT - CANNOT BE MANIPULATED BY CLIENT
-      session.warningCount += 1;
       session.violations.push({
         type,
         details,
         timestamp: new Date(),
       });
 
+      if (!rules.countsTowardLimit) {
+        await session.save();
+        this.logger.log(
+          `Violation ${type} recorded for session ${sessionId} without a warning (accommodation)`,
+        );
+        return;
+      }
+
+      session.warningCount += 1;
       await session.save();
 
       // Check against violation limit
-      const violationLimit = exam.proctoringSettings.violationWarningLimit || 3;
+      const violationLimit = rules.violationLimit;
       const shouldAutoSubmit = session.warningCount >= violationLimit;
 
       // Send warning to client
@@ -217,7 +238,7 @@ export class ProctoringGateway
       });
 
       // AUTO-SUBMIT if limit reached
-      if (shouldAutoSubmit && exam.proctoringSettings.autoSubmitOnViolation) {
+      if (shouldAutoSubmit && rules.autoSubmit) {
         violation.autoSubmitTriggered = true;
         await violation.save();
 
@@ -226,6 +247,14 @@ export class ProctoringGateway
         session.submittedAt = new Date();
         await session.save();
 
+        try {
+          await this.gradingService.gradeExamSession(session._id.toString());
+        } catch (error) {
+          this.logger.error(
+            `Failed to grade auto-submitted session ${session._id}: ${error.message}`,
+          );
+        }
+
         // Force submit on client
         const forceSubmitData = {
           reason: session.autoSubmitReason,
@@ -318,6 +347,15 @@ export class ProctoringGateway
     }
   }
 
+  /**
+   * Tell the candidate and anyone monitoring about a time extension
+   */
+  notifyTimeExtended(sessionId: string, minutes: number, timer: SessionTimer) {
+    const payload = { sessionId, minutes, ...timer };
+    this.server.to(`session-${sessionId}`).emit('time-extended', payload);
+    this.server.to(`monitoring-${sessionId}`).emit('time-extended', payload);
+  }
+
   private generateSessionCode(): string {
     return `SES-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
   }
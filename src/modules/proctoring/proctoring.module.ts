@@ -6,6 +6,7 @@ import { Violation, ViolationSchema } from './schemas/violation.schema';
 import { Exam, ExamSchema } from '../exams/schemas/exam.schema';
 import { ProctoringController } from './controllers/proctoring.controller';
 import { ProctoringService } from './services/proctoring.service';
+import { SessionTimerService } from './services/session-timer.service';
 import { ResultsModule } from '../results/results.module';
 
 @Module({
@@ -18,7 +19,7 @@ import { ResultsModule } from '../results/results.module';
     ResultsModule,
   ],
   controllers: [ProctoringController],
-  providers: [ProctoringGateway, ProctoringService],
-  exports: [ProctoringService],
+  providers: [ProctoringGateway, ProctoringService, SessionTimerService],
+  exports: [ProctoringService, SessionTimerService],
 })
 export class ProctoringModule {}
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { Accommodations } from '../../exams/schemas/exam.schema';
 
 export enum SessionStatus {
   ACTIVE = 'ACTIVE',
@@ -10,6 +11,60 @@ export enum SessionStatus {
   TIMED_OUT = 'TIMED_OUT',
 }
 
+/**
+ * Per-session snapshot of an exam section: the questions drawn for it and
+ * the candidate's progress through it
+ */
+export interface SessionSection {
+  name: string;
+  questionIds: string[];
+  duration?: number;
+  forwardOnly: boolean;
+  startedAt?: Date;
+  deadline?: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Progress of an adaptive session: responses so far and the running ability
+ * estimate. Only questions actually served appear here and in questionOrder.
+ */
+export interface AdaptiveSessionState {
+  ability: number;
+  standardError: number;
+  responses: Array<{
+    questionId: string;
+    difficulty: number;
+    correct: boolean;
+    answeredAt: Date;
+  }>;
+  pendingQuestionId?: string;
+  pendingDifficulty?: number;
+  finished: boolean;
+}
+
+/**
+ * Extra time granted to one candidate by a proctor
+ */
+export interface SessionTimeExtension {
+  minutes: number;
+  reason?: string;
+  grantedBy: string;
+  grantedAt: Date;
+}
+
+/**
+ * A paused break taken under an accommodation. The remaining break budget is
+ * reserved on endTime when the break starts and the unused part is returned
+ * when it ends.
+ */
+export interface SessionBreak {
+  startedAt: Date;
+  reservedMinutes: number;
+  endedAt?: Date;
+  minutes?: number; // Actually used, set when the break ends
+}
+
 @Schema({ timestamps: true })
 export class ExamSession extends Document {
   @Prop({ sparse: true })
@@ -49,11 +104,32 @@ export class ExamSession extends Document {
     severity?: string;
   }>;
 
+  @Prop({ type: Number, default: 1 })
+  attemptNumber: number;
+
+  @Prop({ type: Boolean, default: false })
+  isPreview: boolean; // Author dry run: never graded into a Result or counted
+
+  @Prop({ type: Number })
+  examVersion?: number; // Exam version at start, see ExamVersion
+
+  @Prop({ type: Types.ObjectId })
+  slotId?: Types.ObjectId; // Exam slot the attempt was started in
+
   @Prop({ required: true })
   startTime: Date;
 
   @Prop({ required: true })
-  endTime: Date;
+  endTime: Date; // Server-side deadline, moved only by time extensions
+
+  @Prop({ type: [Object], default: [] })
+  timeExtensions: SessionTimeExtension[];
+
+  @Prop({ type: Object })
+  accommodations?: Accommodations; // Snapshot taken at start
+
+  @Prop({ type: [Object], default: [] })
+  breaks: SessionBreak[];
 
   @Prop()
   submittedAt?: Date;
@@ -61,6 +137,15 @@ export class ExamSession extends Document {
   @Prop({ type: [String], default: [] })
   questionOrder: string[];
 
+  @Prop({ type: [Object], default: [] })
+  sections: SessionSection[];
+
+  @Prop({ type: Number, default: 0 })
+  currentSectionIndex: number;
+
+  @Prop({ type: Object })
+  adaptive?: AdaptiveSessionState;
+
   @Prop({ type: [Object], default: [] })
   answers: Array<{
     questionId: string;
@@ -87,9 +172,22 @@ export const ExamSessionSchema = SchemaFactory.createForClass(ExamSession);
 
 // Indexes
 ExamSessionSchema.index({ sessionCode: 1 });
-ExamSessionSchema.index({ examId: 1, candidateId: 1 });
+// One session per attempt, so concurrent starts cannot share an attempt
+// number. Guests have no candidateId and previews are not attempts.
+ExamSessionSchema.index(
+  { examId: 1, candidateId: 1, attemptNumber: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      isPreview: false,
+      candidateId: { $type: 'objectId' },
+    },
+  },
+);
 ExamSessionSchema.index({ status: 1, startTime: -1 });
+ExamSessionSchema.index({ status: 1, endTime: 1 });
 ExamSessionSchema.index({ warningCount: 1 });
 ExamSessionSchema.index({ invitationId: 1 });
+ExamSessionSchema.index({ isPreview: 1, startTime: 1 });
 ExamSessionSchema.index({ accessSource: 1 });
 ExamSessionSchema.index({ 'guestCandidateInfo.email': 1 });
@@ -20,7 +20,7 @@ export class ProctoringService {
 
   async getExamSessions(examId: string) {
     return this.sessionModel
-      .find({ examId: examId })
+      .find({ examId: examId, isPreview: { $ne: true } })
       .populate('candidateId', 'name email')
       .sort({ startTime: -1 })
       .exec();
@@ -0,0 +1,205 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import {
+  SessionTimerService,
+  SUBMISSION_GRACE_SECONDS,
+} from './session-timer.service';
+import { ExamSession, SessionStatus } from '../schemas/exam-session.schema';
+import { Exam, ProctoringProfile } from '../../exams/schemas/exam.schema';
+import { GradingService } from '../../results/services/grading.service';
+
+describe('SessionTimerService', () => {
+  let service: SessionTimerService;
+
+  const organizationId = new Types.ObjectId();
+  const start = new Date('2026-01-01T10:00:00Z');
+  const minutes = (n: number) => new Date(start.getTime() + n * 60 * 1000);
+
+  const mockSessionModel = {
+    find: jest.fn(),
+    findById: jest.fn(),
+  };
+  const mockExamModel = {
+    findById: jest.fn(),
+  };
+  const mockGradingService = { gradeExamSession: jest.fn() };
+
+  const exec = (value: any) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+  const buildSession = (overrides: Partial<ExamSession> = {}) =>
+    ({
+      _id: new Types.ObjectId(),
+      examId: new Types.ObjectId(),
+      status: SessionStatus.IN_PROGRESS,
+      startTime: start,
+      endTime: minutes(60),
+      timeExtensions: [],
+      sections: [],
+      currentSectionIndex: 0,
+      save: jest.fn().mockResolvedValue(undefined),
+      markModified: jest.fn(),
+      ...overrides,
+    }) as any;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionTimerService,
+        {
+          provide: getModelToken(ExamSession.name),
+          useValue: mockSessionModel,
+        },
+        { provide: getModelToken(Exam.name), useValue: mockExamModel },
+        { provide: GradingService, useValue: mockGradingService },
+      ],
+    }).compile();
+
+    service = module.get<SessionTimerService>(SessionTimerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getTimer', () => {
+    it('should compute the remaining time from the server clock', () => {
+      const timer = service.getTimer(buildSession(), minutes(45));
+
+      expect(timer.remainingSeconds).toBe(15 * 60);
+      expect(
+        service.getTimer(buildSession(), minutes(61)).remainingSeconds,
+      ).toBe(0);
+    });
+  });
+
+  describe('isExpired', () => {
+    it('should allow the submission grace after endTime', () => {
+      const session = buildSession();
+      const justLate = new Date(
+        minutes(60).getTime() + (SUBMISSION_GRACE_SECONDS - 1) * 1000,
+      );
+
+      expect(service.isExpired(session, justLate)).toBe(false);
+      expect(service.isExpired(session, minutes(61))).toBe(true);
+    });
+  });
+
+  describe('sweepExpired', () => {
+    it('should time out and grade expired sessions', async () => {
+      const session = buildSession();
+      mockSessionModel.find.mockReturnValue(exec([session]));
+
+      const count = await service.sweepExpired(minutes(70));
+
+      expect(count).toBe(1);
+      expect(session.status).toBe(SessionStatus.TIMED_OUT);
+      expect(session.submittedAt).toEqual(minutes(60));
+      expect(mockGradingService.gradeExamSession).toHaveBeenCalledWith(
+        session._id.toString(),
+      );
+    });
+  });
+
+  describe('breaks', () => {
+    const accommodations = {
+      timeMultiplier: 1,
+      extraMinutes: 0,
+      breakMinutes: 15,
+      proctoringProfile: ProctoringProfile.STANDARD,
+    };
+
+    it('should freeze the clock and return unused break time', async () => {
+      const session = buildSession({ accommodations, breaks: [] });
+
+      const onBreak = await service.startBreak(session, minutes(30));
+
+      expect(session.endTime).toEqual(minutes(75));
+      expect(onBreak.onBreak).toBe(true);
+      expect(onBreak.remainingSeconds).toBe(30 * 60);
+      expect(service.getTimer(session, minutes(40)).remainingSeconds).toBe(
+        30 * 60,
+      );
+
+      const resumed = await service.endBreak(session, minutes(36));
+
+      expect(session.endTime).toEqual(minutes(66));
+      expect(resumed.onBreak).toBe(false);
+      expect(resumed.remainingSeconds).toBe(30 * 60);
+      expect(resumed.breakMinutesRemaining).toBe(9);
+    });
+
+    it('should reject a break without remaining budget', async () => {
+      const session = buildSession({ breaks: [] });
+
+      await expect(service.startBreak(session, minutes(30))).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('extend', () => {
+    const userId = new Types.ObjectId().toString();
+
+    it('should move endTime and the current timed section', async () => {
+      const session = buildSession({
+        sections: [
+          {
+            name: 'Aptitude',
+            questionIds: ['q1'],
+            duration: 20,
+            forwardOnly: false,
+            startedAt: start,
+            deadline: minutes(20),
+          },
+        ],
+      });
+      mockSessionModel.findById.mockReturnValue(exec(session));
+      mockExamModel.findById.mockReturnValue({
+        select: () => exec({ organizationId }),
+      });
+
+      await service.extend(
+        session._id.toString(),
+        10,
+        userId,
+        [organizationId.toString()],
+        'Connection lost',
+      );
+
+      expect(session.endTime).toEqual(minutes(70));
+      expect(session.sections[0].deadline).toEqual(minutes(30));
+      expect(session.timeExtensions).toHaveLength(1);
+      expect(service.getTimer(session, start).extendedMinutes).toBe(10);
+    });
+
+    it('should reject proctors from another organization', async () => {
+      const session = buildSession();
+      mockSessionModel.findById.mockReturnValue(exec(session));
+      mockExamModel.findById.mockReturnValue({
+        select: () => exec({ organizationId }),
+      });
+
+      await expect(
+        service.extend(session._id.toString(), 10, userId, [
+          new Types.ObjectId().toString(),
+        ]),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject sessions that are already closed', async () => {
+      const session = buildSession({ status: SessionStatus.COMPLETED });
+      mockSessionModel.findById.mockReturnValue(exec(session));
+      mockExamModel.findById.mockReturnValue({
+        select: () => exec({ organizationId }),
+      });
+
+      await expect(
+        service.extend(session._id.toString(), 10, userId, [
+          organizationId.toString(),
+        ]),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ExamSession, SessionStatus } from '../schemas/exam-session.schema';
+import { Exam } from '../../exams/schemas/exam.schema';
+import { GradingService } from '../../results/services/grading.service';
+import { AccommodationUtil } from '../../../common/utils';
+
+// Allowance for a submit sent just before the deadline arriving just after
+export const SUBMISSION_GRACE_SECONDS = 30;
+
+export const OPEN_SESSION_STATUSES = [
+  SessionStatus.IN_PROGRESS,
+  SessionStatus.ACTIVE,
+];
+
+export interface SessionTimer {
+  serverTime: Date;
+  startTime: Date;
+  endTime: Date;
+  remainingSeconds: number;
+  extendedMinutes: number;
+  onBreak: boolean;
+  breakEndsAt?: Date;
+  breakMinutesRemaining: number;
+}
+
+/**
+ * The server is the only clock for a session: endTime is set at start and
+ * only moved by proctor extensions and accommodation breaks. Sessions past
+ * their endTime are closed as TIMED_OUT and graded from their saved answers.
+ */
+@Injectable()
+export class SessionTimerService {
+  private readonly logger = new Logger(SessionTimerService.name);
+
+  constructor(
+    @InjectModel(ExamSession.name) private sessionModel: Model<ExamSession>,
+    @InjectModel(Exam.name) private examModel: Model<Exam>,
+    private readonly gradingService: GradingService,
+  ) {}
+
+  getTimer(session: ExamSession, now: Date = new Date()): SessionTimer {
+    const endTime = new Date(session.endTime).getTime();
+    const activeBreak = AccommodationUtil.activeBreak(session.breaks);
+    const breakEndsAt = activeBreak
+      ? new Date(
+          new Date(activeBreak.startedAt).getTime() +
+            activeBreak.reservedMinutes * 60 * 1000,
+        )
+      : undefined;
+
+    // The exam clock stands still for the reserved part of a break
+    const remainingMs = breakEndsAt
+      ? Math.min(endTime - breakEndsAt.getTime(), endTime - now.getTime())
+      : endTime - now.getTime();
+
+    return {
+      serverTime: now,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      remainingSeconds: Math.max(0, Math.ceil(remainingMs / 1000)),
+      extendedMinutes: (session.timeExtensions || []).reduce(
+        (sum, extension) => sum + extension.minutes,
+        0,
+      ),
+      onBreak: !!activeBreak,
+      breakEndsAt,
+      breakMinutesRemaining: AccommodationUtil.remainingBreakMinutes(
+        session.accommodations,
+        session.breaks,
+      ),
+    };
+  }
+
+  /**
+   * Whether the session's time, including the submission grace, is over
+   */
+  isExpired(session: ExamSession, now: Date = new Date()): boolean {
+    return (
+      now.getTime() >
+      new Date(session.endTime).getTime() + SUBMISSION_GRACE_SECONDS * 1000
+    );
+  }
+
+  /**
+   * Close a session whose time ran out and grade its saved answers
+   */
+  async timeOut(session: ExamSession): Promise<void> {
+    const activeBreak = AccommodationUtil.activeBreak(session.breaks);
+    if (activeBreak) {
+      activeBreak.endedAt = session.endTime;
+      activeBreak.minutes = activeBreak.reservedMinutes;
+      session.markModified('breaks');
+    }
+
+    session.status = SessionStatus.TIMED_OUT;
+    session.autoSubmitReason = 'Time limit reached';
+    session.submittedAt = session.endTime;
+    await session.save();
+
+    // Previews are scored on explicit submit only and never produce a Result
+    if (session.isPreview) {
+      return;
+    }
+
+    try {
+      await this.gradingService.gradeExamSession(session._id.toString());
+    } catch (error) {
+      this.logger.error(
+        `Failed to grade timed out session ${session._id}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Time out every open session past its endTime, plus sessions marked
+   * TIMED_OUT elsewhere that were never graded
+   */
+  async sweepExpired(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - SUBMISSION_GRACE_SECONDS * 1000);
+    const sessions = await this.sessionModel
+      .find({
+        $or: [
+          { status: { $in: OPEN_SESSION_STATUSES }, endTime: { $lt: cutoff } },
+          { status: SessionStatus.TIMED_OUT, submittedAt: { $exists: false } },
+        ],
+      })
+      .exec();
+
+    for (const session of sessions) {
+      await this.timeOut(session);
+    }
+
+    return sessions.length;
+  }
+
+  /**
+   * Give one candidate extra time. Also extends the current section when
+   * it is timed, so the extra time can be used where the candidate is.
+   * @param organizationIds Organizations of the proctor; the exam must
+   * belong to one of them
+   */
+  async extend(
+    sessionId: string,
+    minutes: number,
+    grantedBy: string,
+    organizationIds: string[],
+    reason?: string,
+  ): Promise<ExamSession> {
+    const session = Types.ObjectId.isValid(sessionId)
+      ? await this.sessionModel.findById(sessionId).exec()
+      : null;
+    if (!session) {
+      throw new NotFoundException('Exam session not found');
+    }
+
+    const exam = await this.examModel
+      .findById(session.examId)
+      .select('organizationId')
+      .exec();
+    if (!exam || !organizationIds.includes(exam.organizationId?.toString())) {
+      throw new ForbiddenException(
+        'You are not authorized to extend this session',
+      );
+    }
+
+    if (!OPEN_SESSION_STATUSES.includes(session.status as SessionStatus)) {
+      throw new BadRequestException(
+        `Cannot extend a session that is ${session.status}`,
+      );
+    }
+
+    this.shiftDeadlines(session, minutes);
+    session.timeExtensions = [
+      ...(session.timeExtensions || []),
+      { minutes, reason, grantedBy, grantedAt: new Date() },
+    ];
+
+    await session.save();
+
+    this.logger.log(
+      `Session ${sessionId} extended by ${minutes} minute(s) by ${grantedBy}`,
+    );
+
+    return session;
+  }
+
+  /**
+   * Pause the exam clock for an accommodation break. The whole remaining
+   * break budget is reserved on endTime; endBreak returns what was unused.
+   */
+  async startBreak(
+    session: ExamSession,
+    now: Date = new Date(),
+  ): Promise<SessionTimer> {
+    if (session.status !== SessionStatus.IN_PROGRESS) {
+      throw new BadRequestException(
+        `Cannot take a break in a session that is ${session.status}`,
+      );
+    }
+    if (AccommodationUtil.activeBreak(session.breaks)) {
+      throw new BadRequestException('A break is already in progress');
+    }
+
+    const reservedMinutes = AccommodationUtil.remainingBreakMinutes(
+      session.accommodations,
+      session.breaks,
+    );
+    if (reservedMinutes <= 0) {
+      throw new BadRequestException('No break time remaining');
+    }
+
+    this.shiftDeadlines(session, reservedMinutes);
+    session.breaks = [
+      ...(session.breaks || []),
+      { startedAt: now, reservedMinutes },
+    ];
+    await session.save();
+
+    return this.getTimer(session, now);
+  }
+
+  /**
+   * Resume the exam clock. Started minutes count in full against the break
+   * budget; a break that overran its reserve is charged the reserve only.
+   */
+  async endBreak(
+    session: ExamSession,
+    now: Date = new Date(),
+  ): Promise<SessionTimer> {
+    const activeBreak = AccommodationUtil.activeBreak(session.breaks);
+    if (!activeBreak) {
+      throw new BadRequestException('No break in progress');
+    }
+
+    const elapsedMs = now.getTime() - new Date(activeBreak.startedAt).getTime();
+    const usedMinutes = Math.min(
+      activeBreak.reservedMinutes,
+      Math.max(1, Math.ceil(elapsedMs / (60 * 1000))),
+    );
+
+    activeBreak.endedAt = now;
+    activeBreak.minutes = usedMinutes;
+    session.markModified('breaks');
+    this.shiftDeadlines(session, usedMinutes - activeBreak.reservedMinutes);
+    await session.save();
+
+    return this.getTimer(session, now);
+  }
+
+  /**
+   * Move endTime and the current timed section's deadline, so the change
+   * applies where the candidate is
+   */
+  private shiftDeadlines(session: ExamSession, minutes: number) {
+    const shiftMs = minutes * 60 * 1000;
+    session.endTime = new Date(new Date(session.endTime).getTime() + shiftMs);
+
+    const current = session.sections?.[session.currentSectionIndex];
+    if (current?.deadline && !current.completedAt) {
+      current.deadline = new Date(
+        new Date(current.deadline).getTime() + shiftMs,
+      );
+      session.markModified('sections');
+    }
+  }
+}
@@ -25,6 +25,7 @@ import {
   QuestionPoolDocument,
 } from '../schemas/question-pool.schema';
 import { PoolSelectionService } from '../services/pool-selection.service';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
 
 @Controller('question-pools')
 @UseGuards(JwtAuthGuard)
@@ -139,6 +140,7 @@ export class QuestionPoolsController {
   }
 
   @Delete(':id')
+  @BlockImpersonation()
   async remove(@Param('id') id: string) {
     const pool = await this.questionPoolModel.findByIdAndUpdate(
       id,
@@ -176,6 +178,7 @@ export class QuestionPoolsController {
   }
 
   @Delete(':id/questions/:questionId')
+  @BlockImpersonation()
   async removeQuestion(
     @Param('id') id: string,
     @Param('questionId') questionId: string,
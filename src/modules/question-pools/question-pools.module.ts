@@ -6,6 +6,8 @@ import { QuestionPool, QuestionPoolSchema } from './schemas/question-pool.schema
 import { Question, QuestionSchema } from '../questions/schemas/question.schema';
 import { Exam, ExamSchema } from '../exams/schemas/exam.schema';
 import { PoolSelectionService } from './services/pool-selection.service';
+import { QuestionSetService } from './services/question-set.service';
+import { AdaptiveTestingService } from './services/adaptive-testing.service';
 import { CommandHandlers } from './commands/handlers';
 
 @Module({
@@ -18,7 +20,17 @@ import { CommandHandlers } from './commands/handlers';
     CqrsModule,
   ],
   controllers: [QuestionPoolsController],
-  providers: [...CommandHandlers, PoolSelectionService],
-  exports: [MongooseModule, PoolSelectionService],
+  providers: [
+    ...CommandHandlers,
+    PoolSelectionService,
+    QuestionSetService,
+    AdaptiveTestingService,
+  ],
+  exports: [
+    MongooseModule,
+    PoolSelectionService,
+    QuestionSetService,
+    AdaptiveTestingService,
+  ],
 })
 export class QuestionPoolsModule {}
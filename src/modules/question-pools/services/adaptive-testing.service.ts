@@ -0,0 +1,306 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { QuestionPool } from '../schemas/question-pool.schema';
+import { Question } from '../../questions/schemas/question.schema';
+import { Exam } from '../../exams/schemas/exam.schema';
+import {
+  AdaptiveSessionState,
+  ExamSession,
+} from '../../proctoring/schemas/exam-session.schema';
+import { AdaptiveTestingUtil } from '../../../common/utils/adaptive-testing.util';
+import { GradingUtil } from '../../../common/utils/grading.util';
+
+export interface AdaptiveStep {
+  finished: boolean;
+  itemsServed: number;
+  question?: Question;
+}
+
+export interface AdaptiveScoringSummary {
+  ability: number;
+  standardError: number;
+  percentage: number;
+  itemsServed: number;
+  correctAnswers: number;
+  rawScore: number;
+  rawMarks: number;
+}
+
+type SessionAnswer = ExamSession['answers'][number];
+
+/**
+ * Runs adaptive exams one question at a time.
+ *
+ * The item bank is the exam's static questions plus every active question in
+ * its pools. Each answer updates the ability estimate in
+ * ExamSession.adaptive, and the next question is chosen from it until the
+ * stop rule in exam.adaptiveSettings is met.
+ */
+@Injectable()
+export class AdaptiveTestingService {
+  constructor(
+    @InjectModel(QuestionPool.name)
+    private questionPoolModel: Model<QuestionPool>,
+    @InjectModel(Question.name) private questionModel: Model<Question>,
+  ) {}
+
+  initialState(): AdaptiveSessionState {
+    return {
+      ability: 0,
+      standardError: 1,
+      responses: [],
+      finished: false,
+    };
+  }
+
+  /**
+   * Score the pending answer, if any, and serve the next question.
+   * Mutates the session; the caller saves it.
+   * @param answer Answer to the pending question; falls back to the answer
+   * saved through save-answer, and a pending question left unanswered
+   * counts as wrong
+   */
+  async nextQuestion(
+    session: ExamSession,
+    exam: Exam,
+    answer?: Partial<SessionAnswer>,
+  ): Promise<AdaptiveStep> {
+    const state = this.getState(session);
+
+    if (!state.finished && state.pendingQuestionId) {
+      await this.recordPendingAnswer(session, answer, true);
+    }
+
+    const settings = exam.adaptiveSettings;
+    const rule = {
+      minQuestions: settings?.minQuestions ?? 5,
+      maxQuestions: settings?.maxQuestions ?? 20,
+      targetStandardError: settings?.targetStandardError,
+    };
+
+    if (
+      state.finished ||
+      AdaptiveTestingUtil.shouldStop(state, state.responses.length, rule)
+    ) {
+      state.finished = true;
+      session.markModified('adaptive');
+      return { finished: true, itemsServed: state.responses.length };
+    }
+
+    const served = new Set(session.questionOrder.map((id) => id.toString()));
+    const bank = (await this.getItemBank(exam)).filter(
+      (item) => !served.has(item.question._id.toString()),
+    );
+    const next = AdaptiveTestingUtil.selectNextItem(bank, state.ability);
+
+    if (!next) {
+      // Item bank exhausted before the stop rule was met
+      state.finished = true;
+      session.markModified('adaptive');
+      return { finished: true, itemsServed: state.responses.length };
+    }
+
+    state.pendingQuestionId = next.question._id.toString();
+    state.pendingDifficulty = next.difficulty;
+    session.questionOrder.push(state.pendingQuestionId);
+    session.markModified('adaptive');
+
+    const question = await this.questionModel
+      .findById(state.pendingQuestionId)
+      .exec();
+
+    return {
+      finished: false,
+      itemsServed: state.responses.length + 1,
+      question,
+    };
+  }
+
+  /**
+   * Close the adaptive run on submit and summarise it.
+   * A pending question only counts toward the estimate if it was answered.
+   */
+  async finish(
+    session: ExamSession,
+    submittedAnswers: Partial<SessionAnswer>[] = [],
+  ): Promise<AdaptiveScoringSummary> {
+    const state = this.getState(session);
+
+    if (!state.finished && state.pendingQuestionId) {
+      const submitted = submittedAnswers.find(
+        (a) => a.questionId?.toString() === state.pendingQuestionId,
+      );
+      await this.recordPendingAnswer(session, submitted, false);
+    }
+    state.finished = true;
+    session.markModified('adaptive');
+
+    const questions = await this.questionModel
+      .find({ _id: { $in: state.responses.map((r) => r.questionId) } })
+      .select('marks')
+      .exec();
+    const marksById = new Map(
+      questions.map((q) => [q._id.toString(), q.marks || 0]),
+    );
+    const correct = state.responses.filter((r) => r.correct);
+
+    return {
+      ability: state.ability,
+      standardError: state.standardError,
+      percentage:
+        Math.round(
+          AdaptiveTestingUtil.abilityToPercentage(state.ability) * 100,
+        ) / 100,
+      itemsServed: state.responses.length,
+      correctAnswers: correct.length,
+      rawScore: correct.reduce(
+        (sum, r) => sum + (marksById.get(r.questionId) || 0),
+        0,
+      ),
+      rawMarks: state.responses.reduce(
+        (sum, r) => sum + (marksById.get(r.questionId) || 0),
+        0,
+      ),
+    };
+  }
+
+  /**
+   * Questions an adaptive exam can serve, with their difficulty in logits
+   */
+  async getItemBank(
+    exam: Pick<Exam, 'questions' | 'questionPools'>,
+  ): Promise<Array<{ question: Question; difficulty: number }>> {
+    const configs = exam.questionPools || [];
+    const pools = await this.questionPoolModel
+      .find({ _id: { $in: configs.map((c) => c.poolId) } })
+      .select('questions')
+      .exec();
+
+    const poolQuestionIds = pools.flatMap((pool) => pool.questions);
+    const questions = await this.questionModel
+      .find({
+        _id: { $in: [...(exam.questions || []), ...poolQuestionIds] },
+        isActive: { $ne: false },
+      })
+      .select('difficulty analytics category')
+      .exec();
+
+    const staticIds = new Set(
+      (exam.questions || []).map((id) => id.toString()),
+    );
+    const poolMembers = new Map(
+      pools.map((pool) => [
+        pool._id.toString(),
+        new Set(pool.questions.map((id) => id.toString())),
+      ]),
+    );
+
+    return questions
+      .filter(
+        (question) =>
+          staticIds.has(question._id.toString()) ||
+          configs.some((config) => {
+            const members = poolMembers.get(config.poolId.toString());
+            return (
+              members?.has(question._id.toString()) &&
+              (!config.category || config.category === question.category) &&
+              (!config.difficulty || config.difficulty === question.difficulty)
+            );
+          }),
+      )
+      .map((question) => ({
+        question,
+        difficulty: AdaptiveTestingUtil.itemDifficulty(question),
+      }));
+  }
+
+  private getState(session: ExamSession): AdaptiveSessionState {
+    if (!session.adaptive) {
+      throw new BadRequestException('This is not an adaptive exam session');
+    }
+    return session.adaptive;
+  }
+
+  private async recordPendingAnswer(
+    session: ExamSession,
+    answer: Partial<SessionAnswer> | undefined,
+    unansweredIsWrong: boolean,
+  ): Promise<void> {
+    const state = session.adaptive;
+    const questionId = state.pendingQuestionId;
+
+    const saved = session.answers.find(
+      (a) => a.questionId?.toString() === questionId,
+    );
+    const given = answer && this.hasAnswer(answer) ? answer : saved;
+
+    // Served but never answered at submit, e.g. time ran out while reading
+    // it: it stays in questionOrder but does not move the ability estimate
+    if (given || unansweredIsWrong) {
+      const question = await this.questionModel.findById(questionId).exec();
+      const correct =
+        given && question ? this.isCorrect(question, given) : false;
+
+      if (given && given !== saved) {
+        session.answers = session.answers.filter(
+          (a) => a.questionId?.toString() !== questionId,
+        );
+        session.answers.push({ ...given, questionId, savedAt: new Date() });
+      }
+
+      state.responses.push({
+        questionId,
+        difficulty: state.pendingDifficulty ?? 0,
+        correct,
+        answeredAt: new Date(),
+      });
+
+      const estimate = AdaptiveTestingUtil.estimateAbility(state.responses);
+      state.ability = estimate.ability;
+      state.standardError = estimate.standardError;
+    }
+
+    state.pendingQuestionId = undefined;
+    state.pendingDifficulty = undefined;
+  }
+
+  private hasAnswer(answer: Partial<SessionAnswer>): boolean {
+    return (
+      answer.answer !== undefined ||
+      answer.selectedOption !== undefined ||
+      (answer.selectedOptions?.length || 0) > 0
+    );
+  }
+
+  private isCorrect(question: Question, answer: Partial<SessionAnswer>) {
+    let studentAnswer;
+    let correctAnswer = question.correctAnswer;
+
+    if (
+      question.type === 'MULTIPLE_CHOICE' ||
+      question.type === 'MULTIPLE_RESPONSE'
+    ) {
+      studentAnswer =
+        answer.selectedOptions ||
+        (answer.selectedOption ? [answer.selectedOption] : []);
+      const correctOptions =
+        question.options?.filter((opt) => opt.isCorrect) || [];
+      if (correctOptions.length > 0) {
+        correctAnswer = correctOptions.map((opt) => opt.id);
+      }
+    } else if (question.type === 'TRUE_FALSE') {
+      studentAnswer = answer.selectedOption;
+    } else {
+      studentAnswer = answer.answer;
+    }
+
+    return GradingUtil.gradeQuestion({
+      questionType: question.type,
+      correctAnswer,
+      studentAnswer,
+      marks: question.marks,
+      negativeMarks: question.negativeMarks || 0,
+    }).isCorrect;
+  }
+}
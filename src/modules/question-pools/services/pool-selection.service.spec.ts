@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { PoolSelectionService } from './pool-selection.service';
+import { QuestionPool } from '../schemas/question-pool.schema';
+import { Question } from '../../questions/schemas/question.schema';
+import { Exam } from '../../exams/schemas/exam.schema';
+
+describe('PoolSelectionService', () => {
+  let service: PoolSelectionService;
+
+  const poolQuestions = Array.from(
+    { length: 20 },
+    () => new Types.ObjectId(),
+  ).sort((a, b) => a.toString().localeCompare(b.toString()));
+  const staticQuestion = poolQuestions[0];
+
+  const pool = {
+    _id: new Types.ObjectId(),
+    name: 'Algebra',
+    isActive: true,
+    questions: poolQuestions,
+    stats: { usageCount: 0 },
+    save: jest.fn().mockResolvedValue(undefined),
+  };
+  const exam = {
+    _id: new Types.ObjectId(),
+    questions: [staticQuestion],
+    questionPools: [{ poolId: pool._id, questionsToSelect: 5 }],
+    sections: [],
+  };
+
+  // Mirrors the pool query: the pool's questions minus the excluded ones
+  const mockQuestionModel = {
+    find: jest.fn((filter) => {
+      const excluded = (filter._id.$nin || []).map((id) => id.toString());
+      const available = poolQuestions
+        .filter((id) => !excluded.includes(id.toString()))
+        .map((_id) => ({ _id }));
+      const chain: any = { select: jest.fn(() => chain) };
+      chain.sort = jest.fn().mockResolvedValue(available);
+      return chain;
+    }),
+  };
+  const mockPoolModel = { findById: jest.fn().mockResolvedValue(pool) };
+  const mockExamModel = { findById: jest.fn().mockResolvedValue(exam) };
+
+  const draw = async (candidateId: string, attemptNumber?: number) =>
+    (
+      await service.generateStudentQuestionSet(
+        exam._id.toString(),
+        candidateId,
+        attemptNumber,
+      )
+    ).questionIds;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PoolSelectionService,
+        { provide: getModelToken(QuestionPool.name), useValue: mockPoolModel },
+        { provide: getModelToken(Question.name), useValue: mockQuestionModel },
+        { provide: getModelToken(Exam.name), useValue: mockExamModel },
+      ],
+    }).compile();
+
+    service = module.get<PoolSelectionService>(PoolSelectionService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('generateStudentQuestionSet', () => {
+    const alice = new Types.ObjectId().toString();
+    const bob = new Types.ObjectId().toString();
+
+    it('should serve the static questions plus the requested pool draw', async () => {
+      const questionIds = await draw(alice);
+
+      expect(questionIds).toHaveLength(6);
+      expect(questionIds[0]).toBe(staticQuestion.toString());
+      expect(new Set(questionIds).size).toBe(6);
+      expect(
+        questionIds
+          .slice(1)
+          .every((id) => poolQuestions.some((q) => q.toString() === id)),
+      ).toBe(true);
+    });
+
+    it('should draw the same set for a candidate every time', async () => {
+      expect(await draw(alice)).toEqual(await draw(alice));
+    });
+
+    it('should draw different sets for different candidates', async () => {
+      expect(await draw(alice)).not.toEqual(await draw(bob));
+    });
+
+    it('should draw again for a retake, reproducibly', async () => {
+      const firstAttempt = await draw(alice, 1);
+      const retake = await draw(alice, 2);
+
+      expect(retake).not.toEqual(firstAttempt);
+      expect(await draw(alice, 2)).toEqual(retake);
+    });
+
+    it('should leave Math.random untouched', async () => {
+      const random = Math.random;
+
+      await draw(alice);
+
+      expect(Math.random).toBe(random);
+    });
+  });
+});
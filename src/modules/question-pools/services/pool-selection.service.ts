@@ -32,7 +32,10 @@ export class PoolSelectionService {
   /**
    * Select random questions from a pool based on criteria
    */
-  async selectQuestionsFromPool(config: PoolSelectionConfig): Promise<PoolSelectionResult> {
+  async selectQuestionsFromPool(
+    config: PoolSelectionConfig,
+    random: () => number = Math.random,
+  ): Promise<PoolSelectionResult> {
     const { poolId, questionsToSelect, category, difficulty, excludeQuestions = [] } = config;
 
     // Get pool
@@ -66,7 +69,11 @@ export class PoolSelectionService {
     }
 
     // Get available questions
-    const availableQuestions = await this.questionModel.find(query).select('_id');
+    // Stable order so a seeded selection is reproducible
+    const availableQuestions = await this.questionModel
+      .find(query)
+      .select('_id')
+      .sort({ _id: 1 });
 
     if (availableQuestions.length === 0) {
       throw new BadRequestException(
@@ -78,6 +85,7 @@ export class PoolSelectionService {
     const selectedQuestions = this.randomSelect(
       availableQuestions.map((q) => q._id.toString()),
       Math.min(questionsToSelect, availableQuestions.length),
+      random,
     );
 
     // Update pool usage stats
@@ -99,16 +107,20 @@ export class PoolSelectionService {
    */
   async selectQuestionsFromPools(
     configs: PoolSelectionConfig[],
+    random: () => number = Math.random,
   ): Promise<PoolSelectionResult[]> {
     const results: PoolSelectionResult[] = [];
     const usedQuestions: string[] = [];
 
     for (const config of configs) {
       // Exclude already selected questions from previous pools
-      const result = await this.selectQuestionsFromPool({
-        ...config,
-        excludeQuestions: [...(config.excludeQuestions || []), ...usedQuestions],
-      });
+      const result = await this.selectQuestionsFromPool(
+        {
+          ...config,
+          excludeQuestions: [...(config.excludeQuestions || []), ...usedQuestions],
+        },
+        random,
+      );
 
       results.push(result);
       usedQuestions.push(...result.selectedQuestions);
@@ -124,8 +136,9 @@ export class PoolSelectionService {
   async generateStudentQuestionSet(
     examId: string,
     studentId: string,
+    attemptNumber = 1,
   ): Promise<{ questionIds: string[]; poolResults: PoolSelectionResult[] }> {
-    const exam = await this.examModel.findById(examId).populate('questions');
+    const exam = await this.examModel.findById(examId);
     if (!exam) {
       throw new BadRequestException('Exam not found');
     }
@@ -139,9 +152,10 @@ export class PoolSelectionService {
     }
 
     // Seed random generator with student ID for consistent results per student
-    // This ensures the same student always gets the same questions
-    const seed = this.hashStudentExam(studentId, examId);
-    this.seedRandom(seed);
+    // This ensures the same student always gets the same questions per attempt
+    const random = this.createSeededRandom(
+      this.hashStudentExam(studentId, examId, attemptNumber),
+    );
 
     // Select questions from each pool
     const poolConfigs: PoolSelectionConfig[] = exam.questionPools.map((poolConfig: any) => ({
@@ -149,9 +163,10 @@ export class PoolSelectionService {
       questionsToSelect: poolConfig.questionsToSelect,
       category: poolConfig.category,
       difficulty: poolConfig.difficulty,
+      excludeQuestions: exam.questions.map((q) => q.toString()),
     }));
 
-    const poolResults = await this.selectQuestionsFromPools(poolConfigs);
+    const poolResults = await this.selectQuestionsFromPools(poolConfigs, random);
 
     // Combine static questions + pool questions
     const staticQuestions = exam.questions.map((q) => q.toString());
@@ -163,6 +178,57 @@ export class PoolSelectionService {
     };
   }
 
+  /**
+   * Generate a student's question set for each section of a sectioned exam.
+   * Uses the same per-student seed as generateStudentQuestionSet, and never
+   * serves a question twice across sections.
+   */
+  async generateStudentSectionSets(
+    examId: string,
+    studentId: string,
+    attemptNumber = 1,
+  ): Promise<string[][]> {
+    const exam = await this.examModel.findById(examId);
+    if (!exam) {
+      throw new BadRequestException('Exam not found');
+    }
+
+    const sections = exam.sections || [];
+    const random = this.createSeededRandom(
+      this.hashStudentExam(studentId, examId, attemptNumber),
+    );
+
+    // Static questions of every section are never drawn from a pool
+    const usedQuestions = sections.flatMap((section) =>
+      (section.questions || []).map((q) => q.toString()),
+    );
+
+    const sectionSets: string[][] = [];
+    for (const section of sections) {
+      const poolConfigs: PoolSelectionConfig[] = (
+        section.questionPools || []
+      ).map((poolConfig: any) => ({
+        poolId: poolConfig.poolId.toString(),
+        questionsToSelect: poolConfig.questionsToSelect,
+        category: poolConfig.category,
+        difficulty: poolConfig.difficulty,
+        excludeQuestions: [...usedQuestions],
+      }));
+
+      const poolQuestions = (
+        await this.selectQuestionsFromPools(poolConfigs, random)
+      ).flatMap((r) => r.selectedQuestions);
+      usedQuestions.push(...poolQuestions);
+
+      sectionSets.push([
+        ...(section.questions || []).map((q) => q.toString()),
+        ...poolQuestions,
+      ]);
+    }
+
+    return sectionSets;
+  }
+
   /**
    * Validate pool configuration for an exam
    * Ensures pools have enough questions to meet requirements
@@ -250,19 +316,35 @@ export class PoolSelectionService {
   // Helper methods
 
   /**
-   * Random selection without replacement
+   * Random selection without replacement (partial Fisher-Yates shuffle)
    */
-  private randomSelect<T>(array: T[], count: number): T[] {
-    const shuffled = [...array].sort(() => Math.random() - 0.5);
+  private randomSelect<T>(
+    array: T[],
+    count: number,
+    random: () => number = Math.random,
+  ): T[] {
+    const shuffled = [...array];
+    for (let i = 0; i < count; i++) {
+      const j = i + Math.floor(random() * (shuffled.length - i));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
     return shuffled.slice(0, count);
   }
 
   /**
-   * Hash function to generate seed from student ID and exam ID
-   * Ensures consistent random selection for same student-exam combination
+   * Hash function to generate seed from student ID, exam ID and attempt
+   * Ensures consistent random selection for same student-exam attempt.
+   * The first attempt keeps the original student-exam seed.
    */
-  private hashStudentExam(studentId: string, examId: string): number {
-    const str = `${studentId}-${examId}`;
+  private hashStudentExam(
+    studentId: string,
+    examId: string,
+    attemptNumber = 1,
+  ): number {
+    const str =
+      attemptNumber > 1
+        ? `${studentId}-${examId}-${attemptNumber}`
+        : `${studentId}-${examId}`;
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
       const char = str.charCodeAt(i);
@@ -273,18 +355,17 @@ export class PoolSelectionService {
   }
 
   /**
-   * Seed the random number generator
-   * (Note: This is a simplified version. For production, consider using a proper seeded RNG library)
+   * Deterministic random number generator (mulberry32) for a seed.
+   * Kept local to the selection so the global Math.random is never replaced.
    */
-  private seedRandom(seed: number) {
-    // Simple seeded random (for demonstration)
-    // In production, use a library like seedrandom
-    Math.random = (() => {
-      let x = Math.sin(seed++) * 10000;
-      return () => {
-        x = Math.sin(x) * 10000;
-        return x - Math.floor(x);
-      };
-    })();
+  private createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
   }
 }
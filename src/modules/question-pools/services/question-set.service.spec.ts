@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { QuestionSetService } from './question-set.service';
+import { PoolSelectionService } from './pool-selection.service';
+import { Exam } from '../../exams/schemas/exam.schema';
+
+describe('QuestionSetService', () => {
+  let service: QuestionSetService;
+
+  const staticQuestions = [new Types.ObjectId(), new Types.ObjectId()];
+  const drawn = [new Types.ObjectId(), new Types.ObjectId()].map((id) =>
+    id.toString(),
+  );
+
+  const mockExamModel = { findById: jest.fn() };
+  const mockPoolSelectionService = {
+    generateStudentQuestionSet: jest.fn(),
+    generateStudentSectionSets: jest.fn(),
+  };
+
+  const query = (value: any) => {
+    const chain: any = { exec: jest.fn().mockResolvedValue(value) };
+    chain.select = jest.fn(() => chain);
+    return chain;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuestionSetService,
+        { provide: getModelToken(Exam.name), useValue: mockExamModel },
+        { provide: PoolSelectionService, useValue: mockPoolSelectionService },
+      ],
+    }).compile();
+
+    service = module.get<QuestionSetService>(QuestionSetService);
+    mockPoolSelectionService.generateStudentQuestionSet.mockResolvedValue({
+      questionIds: drawn,
+      poolResults: [],
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('drawQuestionSet', () => {
+    const examId = new Types.ObjectId().toString();
+    const candidateId = new Types.ObjectId().toString();
+
+    it('should serve the static list for exams without pools', async () => {
+      mockExamModel.findById.mockReturnValue(
+        query({ questions: staticQuestions, questionPools: [], sections: [] }),
+      );
+
+      const set = await service.drawQuestionSet(examId, candidateId);
+
+      expect(set.questionIds).toEqual(staticQuestions.map(String));
+      expect(
+        mockPoolSelectionService.generateStudentQuestionSet,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should draw from the pools per candidate and attempt', async () => {
+      mockExamModel.findById.mockReturnValue(
+        query({
+          questions: [],
+          questionPools: [{ poolId: new Types.ObjectId() }],
+          sections: [],
+        }),
+      );
+
+      const set = await service.drawQuestionSet(examId, candidateId, 2);
+
+      expect(set.questionIds).toEqual(drawn);
+      expect(
+        mockPoolSelectionService.generateStudentQuestionSet,
+      ).toHaveBeenCalledWith(examId, candidateId, 2);
+    });
+
+    it('should serve a question listed in two sections only once', async () => {
+      mockExamModel.findById.mockReturnValue(
+        query({
+          questions: [],
+          questionPools: [],
+          sections: [{ name: 'A' }, { name: 'B', forwardOnly: true }],
+        }),
+      );
+      mockPoolSelectionService.generateStudentSectionSets.mockResolvedValue([
+        drawn,
+        [drawn[1], staticQuestions[0].toString()],
+      ]);
+
+      const set = await service.drawQuestionSet(examId, candidateId);
+
+      expect(set.sections.map((section) => section.questionIds)).toEqual([
+        drawn,
+        [staticQuestions[0].toString()],
+      ]);
+      expect(set.sections[1].forwardOnly).toBe(true);
+      expect(set.questionIds).toEqual([
+        ...drawn,
+        staticQuestions[0].toString(),
+      ]);
+    });
+  });
+
+  describe('getSessionQuestionIds', () => {
+    it("should use the session's drawn set over the exam's list", () => {
+      expect(
+        service.getSessionQuestionIds(
+          { questionOrder: drawn },
+          { questions: staticQuestions },
+        ),
+      ).toEqual(drawn);
+    });
+
+    it('should fall back to the exam list for sessions without a set', () => {
+      expect(
+        service.getSessionQuestionIds(
+          { questionOrder: [] },
+          { questions: staticQuestions },
+        ),
+      ).toEqual(staticQuestions.map(String));
+    });
+  });
+});
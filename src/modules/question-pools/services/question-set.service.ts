@@ -0,0 +1,198 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Exam, ExamDeliveryMode } from '../../exams/schemas/exam.schema';
+import {
+  ExamSession,
+  SessionSection,
+} from '../../proctoring/schemas/exam-session.schema';
+import { PoolSelectionService } from './pool-selection.service';
+
+export interface DrawnQuestionSet {
+  questionIds: string[];
+  // Empty for exams without sections
+  sections: SessionSection[];
+}
+
+/**
+ * Resolves which questions a candidate sits.
+ *
+ * Exams without question pools serve the static exam.questions list. Exams
+ * with pools draw a per-candidate set at start, which is persisted in
+ * ExamSession.questionOrder and used from then on for resuming, grading and
+ * analytics. Sectioned exams draw each section separately and keep the
+ * per-section split in ExamSession.sections.
+ */
+@Injectable()
+export class QuestionSetService {
+  constructor(
+    @InjectModel(Exam.name) private examModel: Model<Exam>,
+    private readonly poolSelectionService: PoolSelectionService,
+  ) {}
+
+  usesPools(
+    exam: Pick<Exam, 'questionPools'> & Partial<Pick<Exam, 'sections'>>,
+  ): boolean {
+    return (
+      (exam.questionPools?.length || 0) > 0 ||
+      (exam.sections || []).some((section) => section.questionPools?.length)
+    );
+  }
+
+  usesSections(exam: Partial<Pick<Exam, 'sections'>>): boolean {
+    return (exam.sections?.length || 0) > 0;
+  }
+
+  /**
+   * Adaptive exams serve one question at a time (see AdaptiveTestingService)
+   * and score candidates on a 0-100 ability scale instead of marks
+   */
+  isAdaptive(exam: Partial<Pick<Exam, 'deliveryMode'>>): boolean {
+    return exam.deliveryMode === ExamDeliveryMode.ADAPTIVE;
+  }
+
+  /**
+   * Draw the question set for a new session
+   * @param candidateKey Candidate id, or invitation id for guest sessions
+   * @param attemptNumber Each retake draws afresh from the pools
+   */
+  async drawQuestionSet(
+    examId: string,
+    candidateKey: string,
+    attemptNumber = 1,
+  ): Promise<DrawnQuestionSet> {
+    const exam = await this.examModel
+      .findById(examId)
+      .select('questions questionPools sections')
+      .exec();
+
+    if (!exam) {
+      throw new BadRequestException('Exam not found');
+    }
+
+    if (this.usesSections(exam)) {
+      const sectionSets =
+        await this.poolSelectionService.generateStudentSectionSets(
+          examId,
+          candidateKey,
+          attemptNumber,
+        );
+
+      const seen = new Set<string>();
+      const sections = exam.sections.map((section, index) => ({
+        name: section.name,
+        // A question listed in two sections is served in the first only
+        questionIds: this.validIds(sectionSets[index] || []).filter((id) => {
+          if (seen.has(id)) {
+            return false;
+          }
+          seen.add(id);
+          return true;
+        }),
+        duration: section.duration,
+        forwardOnly: section.forwardOnly || false,
+      }));
+
+      return {
+        questionIds: sections.flatMap((section) => section.questionIds),
+        sections,
+      };
+    }
+
+    const questionIds = this.usesPools(exam)
+      ? (
+          await this.poolSelectionService.generateStudentQuestionSet(
+            examId,
+            candidateKey,
+            attemptNumber,
+          )
+        ).questionIds
+      : (exam.questions || []).map((id) => id.toString());
+
+    return { questionIds: this.validIds(questionIds), sections: [] };
+  }
+
+  /**
+   * Questions served in a session, falling back to the exam's static list
+   * for sessions started before question sets were persisted
+   */
+  getSessionQuestionIds(
+    session: Pick<ExamSession, 'questionOrder'>,
+    exam: Pick<Exam, 'questions'>,
+  ): string[] {
+    if (session.questionOrder?.length) {
+      return session.questionOrder.map((id) => id.toString());
+    }
+    return (exam.questions || []).map((id) => id.toString());
+  }
+
+  /**
+   * Number of questions a candidate will be served
+   */
+  getQuestionCount(
+    exam: Pick<Exam, 'questions' | 'questionPools'> &
+      Partial<Pick<Exam, 'sections' | 'deliveryMode' | 'adaptiveSettings'>>,
+  ): number {
+    if (this.isAdaptive(exam)) {
+      return exam.adaptiveSettings?.maxQuestions ?? 20;
+    }
+
+    if (this.usesSections(exam)) {
+      return exam.sections.reduce(
+        (sum, section) => sum + this.getQuestionCount(section),
+        0,
+      );
+    }
+
+    const poolQuestions = (exam.questionPools || []).reduce(
+      (sum, pool) => sum + (pool.questionsToSelect || 0),
+      0,
+    );
+    return (exam.questions?.length || 0) + poolQuestions;
+  }
+
+  /**
+   * Total marks of the questions actually served. Pool draws can differ in
+   * marks, so the configured grading.totalMarks only applies to static exams.
+   */
+  getTotalMarks(
+    exam: Pick<Exam, 'questionPools' | 'grading'> &
+      Partial<Pick<Exam, 'sections' | 'deliveryMode'>>,
+    questions: Array<{ marks?: number }>,
+  ): number {
+    if (this.isAdaptive(exam)) {
+      return 100;
+    }
+    if (!this.usesPools(exam) && exam.grading?.totalMarks) {
+      return exam.grading.totalMarks;
+    }
+    return questions.reduce((sum, question) => sum + (question.marks || 0), 0);
+  }
+
+  /**
+   * Passing marks scaled to the served total for pool-based and adaptive
+   * exams
+   */
+  getPassingMarks(
+    exam: Pick<Exam, 'questionPools' | 'grading'> &
+      Partial<Pick<Exam, 'sections' | 'deliveryMode'>>,
+    totalMarks: number,
+  ): number {
+    const grading = exam.grading;
+    if (!this.usesPools(exam) && !this.isAdaptive(exam)) {
+      return grading?.passingMarks || totalMarks * 0.4;
+    }
+
+    if (grading?.passingPercentage) {
+      return (grading.passingPercentage / 100) * totalMarks;
+    }
+    if (grading?.totalMarks && grading.passingMarks !== undefined) {
+      return (grading.passingMarks / grading.totalMarks) * totalMarks;
+    }
+    return totalMarks * 0.4;
+  }
+
+  private validIds(questionIds: string[]): string[] {
+    return [...new Set(questionIds)].filter((id) => Types.ObjectId.isValid(id));
+  }
+}
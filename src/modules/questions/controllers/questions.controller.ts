@@ -9,7 +9,11 @@ import {
   Query,
   UseGuards,
   Request,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { CommandBus } from '@nestjs/cqrs';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
@@ -20,6 +24,8 @@ import {
   ApiResponse,
   ApiParam,
   ApiQuery,
+  ApiConsumes,
+  ApiBody,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
 import { CreateQuestionCommand } from '../commands/impl/create-question.command';
@@ -27,7 +33,13 @@ import { UpdateQuestionCommand } from '../commands/impl/update-question.command'
 import { DeleteQuestionCommand } from '../commands/impl/delete-question.command';
 import { CreateQuestionDto } from '../dto/create-question.dto';
 import { UpdateQuestionDto } from '../dto/update-question.dto';
+import { ImportQtiPackageDto } from '../dto/import-qti.dto';
 import { Question, QuestionType, DifficultyLevel } from '../schemas/question.schema';
+import {
+  QtiImportService,
+  QTI_MAX_PACKAGE_SIZE,
+} from '../services/qti-import.service';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
 
 @ApiTags('questions')
 @Controller('questions')
@@ -35,6 +47,7 @@ export class QuestionsController {
   constructor(
     private readonly commandBus: CommandBus,
     @InjectModel(Question.name) private questionModel: Model<Question>,
+    private readonly qtiImportService: QtiImportService,
   ) {}
 
   @Post()
@@ -57,6 +70,51 @@ export class QuestionsController {
     );
   }
 
+  @Post('import/qti')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: QTI_MAX_PACKAGE_SIZE } }),
+  )
+  @ApiBearerAuth()
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ type: ImportQtiPackageDto })
+  @ApiOperation({
+    summary: 'Import questions from a QTI 2.1 package',
+    description:
+      'Choice, text entry and extended text items become questions of the ' +
+      'matching type. The import is tracked as a QUESTION_IMPORT bulk ' +
+      'operation whose errors list every item that could not be imported.',
+  })
+  @ApiResponse({ status: 201, description: 'Package processed' })
+  @ApiResponse({ status: 400, description: 'Not a readable QTI package' })
+  async importQtiPackage(
+    @UploadedFile() file: { originalname: string; buffer: Buffer },
+    @Request() req,
+  ) {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('A QTI package file is required');
+    }
+
+    if (!req.user.organizationId) {
+      throw new BadRequestException(
+        'Questions can only be imported into an organization',
+      );
+    }
+
+    const operation = await this.qtiImportService.importPackage(
+      file.buffer,
+      file.originalname,
+      req.user.id,
+      req.user.organizationId,
+    );
+    const { successful, total } = operation.progress;
+
+    return {
+      message: `${successful} of ${total} questions imported`,
+      data: operation,
+    };
+  }
+
   @Get()
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -156,6 +214,7 @@ export class QuestionsController {
 
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
+  @BlockImpersonation()
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Delete a question (soft delete)' })
   @ApiParam({ name: 'id', description: 'Question ID' })
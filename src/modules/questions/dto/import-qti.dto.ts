@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ImportQtiPackageDto {
+  @ApiProperty({
+    type: 'string',
+    format: 'binary',
+    description: 'QTI 2.1 content package (zip with imsmanifest.xml)',
+  })
+  file: any;
+}
@@ -4,14 +4,17 @@ import { CqrsModule } from '@nestjs/cqrs';
 import { Question, QuestionSchema } from './schemas/question.schema';
 import { QuestionsController } from './controllers/questions.controller';
 import { CommandHandlers } from './commands/handlers';
+import { QtiImportService } from './services/qti-import.service';
+import { BulkOperationsModule } from '../bulk-operations/bulk-operations.module';
 
 @Module({
   imports: [
     CqrsModule,
+    BulkOperationsModule,
     MongooseModule.forFeature([{ name: Question.name, schema: QuestionSchema }]),
   ],
   controllers: [QuestionsController],
-  providers: [...CommandHandlers],
+  providers: [...CommandHandlers, QtiImportService],
   exports: [MongooseModule],
 })
 export class QuestionsModule {}
@@ -0,0 +1,137 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Error as MongooseError, Model } from 'mongoose';
+import { Question } from '../schemas/question.schema';
+import { BulkOperationsService } from '../../bulk-operations/services/bulk-operations.service';
+import {
+  BulkOperationDocument,
+  OperationStatus,
+  OperationType,
+} from '../../bulk-operations/schemas/bulk-operation.schema';
+import { QtiPackageItem, QtiUtil } from '../../../common/utils';
+
+export const QTI_MAX_PACKAGE_SIZE = 20 * 1024 * 1024; // bytes
+export const QTI_MAX_ITEMS = 1000;
+
+/**
+ * Imports QTI 2.1 packages into the question bank as a QUESTION_IMPORT bulk
+ * operation; each item that cannot be imported is logged against its
+ * position in the manifest.
+ */
+@Injectable()
+export class QtiImportService {
+  constructor(
+    @InjectModel(Question.name) private questionModel: Model<Question>,
+    private readonly bulkOperationsService: BulkOperationsService,
+  ) {}
+
+  async importPackage(
+    archive: Buffer,
+    fileName: string,
+    userId: string,
+    organizationId: string,
+  ): Promise<BulkOperationDocument> {
+    let items: QtiPackageItem[];
+    try {
+      items = QtiUtil.readPackage(archive);
+    } catch (error) {
+      throw new BadRequestException(`Invalid QTI package: ${error.message}`);
+    }
+
+    if (items.length > QTI_MAX_ITEMS) {
+      throw new BadRequestException(
+        `A package can hold at most ${QTI_MAX_ITEMS} items`,
+      );
+    }
+
+    const operation = await this.bulkOperationsService.createOperation({
+      type: OperationType.QUESTION_IMPORT,
+      organizationId,
+      fileUrl: fileName,
+      initiatedBy: userId,
+      total: items.length,
+    });
+    const operationId = operation._id.toString();
+
+    await this.bulkOperationsService.updateProgress(operationId, {
+      status: OperationStatus.PROCESSING,
+    });
+
+    let successful = 0;
+    let failed = 0;
+    try {
+      for (const [index, item] of items.entries()) {
+        const error = await this.importItem(item, userId, organizationId);
+        if (error) {
+          failed++;
+          await this.bulkOperationsService.addError(operationId, {
+            row: index + 1,
+            ...error,
+          });
+        } else {
+          successful++;
+        }
+      }
+    } catch (error) {
+      await this.bulkOperationsService.updateProgress(operationId, {
+        processed: successful + failed,
+        successful,
+        failed,
+        status: OperationStatus.FAILED,
+      });
+      throw error;
+    }
+
+    await this.bulkOperationsService.updateProgress(operationId, {
+      processed: items.length,
+      successful,
+      failed,
+    });
+
+    return this.bulkOperationsService.completeOperation(operationId);
+  }
+
+  /**
+   * Save one item as a question, returning the error row when it fails
+   */
+  private async importItem(
+    item: QtiPackageItem,
+    userId: string,
+    organizationId: string,
+  ): Promise<{ field: string; error: string } | null> {
+    if (item.xml === undefined) {
+      return {
+        field: 'href',
+        error: `${item.href || item.identifier} is missing from the package`,
+      };
+    }
+
+    const { question, error } = QtiUtil.parseItem(item.xml);
+    if (error) {
+      return error;
+    }
+
+    if (question.negativeMarks > question.marks) {
+      return {
+        field: 'negativeMarks',
+        error: 'Negative marks cannot exceed total marks',
+      };
+    }
+
+    try {
+      await this.questionModel.create({
+        ...question,
+        createdBy: userId,
+        organizationId,
+      });
+    } catch (saveError) {
+      if (saveError instanceof MongooseError.ValidationError) {
+        const [first] = Object.values(saveError.errors);
+        return { field: first.path, error: first.message };
+      }
+      throw saveError;
+    }
+
+    return null;
+  }
+}
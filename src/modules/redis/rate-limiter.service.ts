@@ -0,0 +1,29 @@
+import { Inject, Injectable } from '@nestjs/common';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from './redis.constants';
+
+/**
+ * Fixed-window counters backed by Redis
+ */
+@Injectable()
+export class RateLimiterService {
+  constructor(@Inject(REDIS_CLIENT) private readonly redis: Redis) {}
+
+  /**
+   * Increment the counter for a key and return the count in the current window
+   */
+  async hit(key: string, windowSeconds: number): Promise<number> {
+    const count = await this.redis.incr(key);
+    if (count === 1) {
+      await this.redis.expire(key, windowSeconds);
+    }
+    return count;
+  }
+
+  /**
+   * Clear the counter for a key
+   */
+  async reset(key: string): Promise<void> {
+    await this.redis.del(key);
+  }
+}
@@ -1,4 +1,30 @@
-import { Module } from '@nestjs/common';
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from './redis.constants';
+import { RateLimiterService } from './rate-limiter.service';
 
-@Module({})
+/**
+ * Shared Redis connection for short-lived security state
+ * (token allow/deny lists, counters). Uses the same connection
+ * settings as the Bull queues.
+ */
+@Global()
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: REDIS_CLIENT,
+      useFactory: (configService: ConfigService) =>
+        new Redis({
+          host: configService.get('REDIS_HOST', 'localhost'),
+          port: configService.get('REDIS_PORT', 6379),
+          password: configService.get('REDIS_PASSWORD'),
+        }),
+      inject: [ConfigService],
+    },
+    RateLimiterService,
+  ],
+  exports: [REDIS_CLIENT, RateLimiterService],
+})
 export class RedisModule {}
@@ -6,9 +6,14 @@ import { Exam, ExamSchema } from '../exams/schemas/exam.schema';
 import { ExamSession, ExamSessionSchema } from '../proctoring/schemas/exam-session.schema';
 import { Violation, ViolationSchema } from '../proctoring/schemas/violation.schema';
 import { User, UserSchema } from '../users/schemas/user.schema';
+import {
+  ExamInvitation,
+  ExamInvitationSchema,
+} from '../exams/schemas/exam-invitation.schema';
 import { GradingService } from './services/grading.service';
 import { EmailModule } from '../email/email.module';
 import { CertificatesModule } from '../certificates/certificates.module';
+import { QuestionPoolsModule } from '../question-pools/question-pools.module';
 
 @Module({
   imports: [
@@ -19,9 +24,11 @@ import { CertificatesModule } from '../certificates/certificates.module';
       { name: ExamSession.name, schema: ExamSessionSchema },
       { name: Violation.name, schema: ViolationSchema },
       { name: User.name, schema: UserSchema },
+      { name: ExamInvitation.name, schema: ExamInvitationSchema },
     ]),
     EmailModule,
     CertificatesModule,
+    QuestionPoolsModule,
   ],
   providers: [GradingService],
   exports: [MongooseModule, GradingService],
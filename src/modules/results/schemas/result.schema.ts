@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { EffectiveScoring } from '../../../common/utils/attempt-policy.util';
 
 export enum ResultStatus {
   EVALUATING = 'EVALUATING',
@@ -124,6 +125,27 @@ class CategoryScore {
   accuracy: number;
 }
 
+@Schema()
+class SectionScore {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true })
+  score: number;
+
+  @Prop({ required: true })
+  maxScore: number;
+
+  @Prop({ required: true })
+  percentage: number;
+
+  @Prop()
+  cutoffScore?: number;
+
+  @Prop({ type: Boolean })
+  cleared?: boolean;
+}
+
 @Schema()
 class TimeAnalysis {
   @Prop({ required: true })
@@ -215,6 +237,18 @@ export class Result extends Document {
   @Prop({ type: Number, default: 1 })
   attemptNumber: number;
 
+  @Prop({ type: Number })
+  examVersion?: number; // Exam version the candidate sat, see ExamVersion
+
+  // The attempt that represents the candidate under the exam's attempt
+  // scoring policy. Only counted attempts are ranked, shortlisted and certified.
+  @Prop({ type: Boolean, default: true })
+  isCountedAttempt: boolean;
+
+  // Policy score across attempts, set on the counted attempt
+  @Prop({ type: Object })
+  effectiveScoring?: EffectiveScoring;
+
   @Prop({ type: String, enum: ResultStatus, default: ResultStatus.PENDING })
   status: ResultStatus;
 
@@ -230,6 +264,21 @@ export class Result extends Document {
   @Prop({ type: [CategoryScore], default: [] })
   categoryWiseScore: CategoryScore[];
 
+  // Section-wise performance for sectioned exams
+  @Prop({ type: [SectionScore], default: [] })
+  sectionScores: SectionScore[];
+
+  // Adaptive exams: scoring.percentage is derived from this ability estimate
+  @Prop({ type: Object })
+  adaptiveScoring?: {
+    ability: number;
+    standardError: number;
+    itemsServed: number;
+    correctAnswers: number;
+    rawScore: number;
+    rawMarks: number;
+  };
+
   // Time analysis
   @Prop({ type: TimeAnalysis })
   timeAnalysis?: TimeAnalysis;
@@ -376,7 +425,7 @@ ResultSchema.index(
   { exam: 1, candidate: 1, attemptNumber: 1 },
   {
     unique: true,
-    partialFilterExpression: { candidate: { $exists: true, $ne: null } },
+    partialFilterExpression: { candidate: { $type: 'objectId' } },
   }
 );
 
@@ -385,7 +434,7 @@ ResultSchema.index(
   { exam: 1, invitationId: 1, attemptNumber: 1 },
   {
     unique: true,
-    partialFilterExpression: { invitationId: { $exists: true, $ne: null } },
+    partialFilterExpression: { invitationId: { $type: 'objectId' } },
   }
 );
 
@@ -395,6 +444,7 @@ ResultSchema.index({ exam: 1, 'scoring.percentileRank': -1 });
 ResultSchema.index({ candidate: 1, status: 1 });
 ResultSchema.index({ exam: 1, shortlisted: 1 });
 ResultSchema.index({ exam: 1, 'ranking.rank': 1 });
+ResultSchema.index({ exam: 1, isCountedAttempt: 1 });
 ResultSchema.index({ status: 1, exam: 1 });
 
 // New indexes for invitation-based results
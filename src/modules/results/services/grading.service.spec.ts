@@ -0,0 +1,424 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { EventBus } from '@nestjs/cqrs';
+import { ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { GradingService } from './grading.service';
+import { Result, ResultStatus } from '../schemas/result.schema';
+import { Question } from '../../questions/schemas/question.schema';
+import {
+  AttemptScoringPolicy,
+  Exam,
+  ExamStatus,
+} from '../../exams/schemas/exam.schema';
+import {
+  ExamInvitation,
+  InvitationStatus,
+} from '../../exams/schemas/exam-invitation.schema';
+import {
+  ExamSession,
+  SessionStatus,
+} from '../../proctoring/schemas/exam-session.schema';
+import { Violation } from '../../proctoring/schemas/violation.schema';
+import { User } from '../../users/schemas/user.schema';
+import { EmailService } from '../../email/services/email.service';
+import { CertificateService } from '../../certificates/services/certificate.service';
+import { QuestionSetService } from '../../question-pools/services/question-set.service';
+import { AdaptiveTestingService } from '../../question-pools/services/adaptive-testing.service';
+import { SessionTimerService } from '../../proctoring/services/session-timer.service';
+import { ExamLifecycleService } from '../../exams/services/exam-lifecycle.service';
+
+describe('GradingService', () => {
+  let service: GradingService;
+  let sessionTimerService: SessionTimerService;
+  let lifecycleService: ExamLifecycleService;
+
+  const exam = {
+    _id: new Types.ObjectId(),
+    version: 1,
+    status: ExamStatus.ACTIVE,
+  } as any;
+  const endTime = new Date('2026-01-01T11:00:00Z');
+
+  // In-memory stand-ins for the result and invitation collections
+  let results: any[];
+  let invitations: Map<string, any>;
+  let sessions: Map<string, any>;
+
+  const exec = (value: any) => ({ exec: jest.fn().mockResolvedValue(value) });
+  const query = (value: any) => {
+    const chain: any = exec(value);
+    chain.select = jest.fn(() => chain);
+    chain.populate = jest.fn(() => chain);
+    chain.sort = jest.fn(() => chain);
+    return chain;
+  };
+  const matches = (doc: any, filter: Record<string, any>) =>
+    Object.entries(filter).every(
+      ([key, value]) => String(doc[key]) === String(value),
+    );
+
+  const mockResultModel = {
+    find: jest.fn((filter) =>
+      query(results.filter((result) => matches(result, filter))),
+    ),
+    findOne: jest.fn((filter) =>
+      exec(results.find((result) => matches(result, filter)) || null),
+    ),
+    findOneAndUpdate: jest.fn(async (filter, update) => {
+      let result = results.find((r) => matches(r, filter));
+      if (!result) {
+        result = { _id: new Types.ObjectId() };
+        results.push(result);
+      }
+      return Object.assign(result, update);
+    }),
+  };
+  const mockInvitationModel = {
+    findById: jest.fn((id) => exec(invitations.get(id.toString()) || null)),
+  };
+  const mockExamModel = {
+    findById: jest.fn(() => query(exam)),
+    findOneAndUpdate: jest.fn(() =>
+      exec({ ...exam, status: ExamStatus.COMPLETED }),
+    ),
+  };
+  const mockSessionModel = {
+    find: jest.fn(() => exec([...sessions.values()])),
+    findById: jest.fn((id) => query(sessions.get(id.toString()) || null)),
+  };
+  const mockQuestionModel = { find: jest.fn() };
+  const mockViolationModel = { find: jest.fn(() => query([])) };
+  const mockQuestionSetService = {
+    getSessionQuestionIds: jest.fn(
+      QuestionSetService.prototype.getSessionQuestionIds,
+    ),
+    getPassingMarks: jest.fn(
+      (gradedExam, totalMarks) =>
+        gradedExam.grading?.passingMarks ?? totalMarks * 0.4,
+    ),
+  };
+
+  const buildGuestSession = (email: string, score: number) => {
+    const invitation: any = {
+      _id: new Types.ObjectId(),
+      status: InvitationStatus.STARTED,
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    invitations.set(invitation._id.toString(), invitation);
+
+    const session = {
+      _id: new Types.ObjectId(),
+      examId: exam._id,
+      candidateId: null,
+      accessSource: 'INVITATION',
+      invitationId: invitation._id,
+      guestCandidateInfo: { email, name: email.split('@')[0] },
+      status: SessionStatus.IN_PROGRESS,
+      endTime,
+      breaks: [],
+      score,
+      save: jest.fn().mockResolvedValue(undefined),
+      markModified: jest.fn(),
+    };
+    sessions.set(session._id.toString(), session);
+
+    return { session, invitation };
+  };
+
+  beforeEach(async () => {
+    results = [];
+    invitations = new Map();
+    sessions = new Map();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GradingService,
+        SessionTimerService,
+        ExamLifecycleService,
+        { provide: getModelToken(Result.name), useValue: mockResultModel },
+        { provide: getModelToken(Question.name), useValue: mockQuestionModel },
+        { provide: getModelToken(Exam.name), useValue: mockExamModel },
+        {
+          provide: getModelToken(ExamSession.name),
+          useValue: mockSessionModel,
+        },
+        {
+          provide: getModelToken(Violation.name),
+          useValue: mockViolationModel,
+        },
+        { provide: getModelToken(User.name), useValue: {} },
+        {
+          provide: getModelToken(ExamInvitation.name),
+          useValue: mockInvitationModel,
+        },
+        { provide: EmailService, useValue: {} },
+        { provide: CertificateService, useValue: {} },
+        { provide: QuestionSetService, useValue: mockQuestionSetService },
+        { provide: AdaptiveTestingService, useValue: {} },
+        { provide: EventBus, useValue: { publish: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<GradingService>(GradingService);
+    sessionTimerService = module.get<SessionTimerService>(SessionTimerService);
+    lifecycleService = module.get<ExamLifecycleService>(ExamLifecycleService);
+
+    // Scoring itself is covered by GradingUtil; each session scores its own
+    jest
+      .spyOn(service as any, 'evaluateSession')
+      .mockImplementation(async (sessionId: string) => {
+        const session = sessions.get(sessionId);
+        return {
+          session,
+          exam,
+          evaluation: {
+            status: ResultStatus.GRADED,
+            scoring: { totalScore: session.score },
+          },
+        };
+      });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('gradeExamSession', () => {
+    it('should keep a separate result per guest when sessions time out', async () => {
+      const first = buildGuestSession('ada@example.com', 7);
+      const second = buildGuestSession('alan@example.com', 3);
+
+      await sessionTimerService.timeOut(first.session as any);
+      await sessionTimerService.timeOut(second.session as any);
+
+      expect(results).toHaveLength(2);
+      for (const { session, invitation } of [first, second]) {
+        const result = results.find((r) => r.session === session._id);
+
+        expect(result).toMatchObject({
+          candidate: null,
+          invitationId: invitation._id,
+          guestCandidateInfo: session.guestCandidateInfo,
+          isRecruitmentExam: true,
+          scoring: { totalScore: session.score },
+        });
+        expect(invitation.status).toBe(InvitationStatus.COMPLETED);
+        expect(invitation.examCompletedAt).toEqual(endTime);
+        expect(invitation.resultId).toBe(result._id);
+      }
+    });
+
+    it('should keep a separate result per guest when the exam closes', async () => {
+      const guests = [
+        buildGuestSession('ada@example.com', 7),
+        buildGuestSession('alan@example.com', 3),
+        buildGuestSession('grace@example.com', 9),
+      ];
+
+      await lifecycleService.transition(
+        exam._id.toString(),
+        ExamStatus.COMPLETED,
+        null,
+      );
+
+      expect(results).toHaveLength(guests.length);
+      for (const { session, invitation } of guests) {
+        const result = results.find((r) => r.session === session._id);
+
+        expect(session.status).toBe(SessionStatus.AUTO_SUBMITTED);
+        expect(result).toMatchObject({
+          candidate: null,
+          invitationId: invitation._id,
+          guestCandidateInfo: session.guestCandidateInfo,
+          scoring: { totalScore: session.score },
+        });
+        expect(invitation.status).toBe(InvitationStatus.COMPLETED);
+        expect(invitation.resultId).toBe(result._id);
+      }
+    });
+  });
+
+  describe('concurrent grading', () => {
+    const duplicate = () =>
+      Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+
+    it('should return the result stored by a concurrent grading', async () => {
+      const { session } = buildGuestSession('ada@example.com', 7);
+      const stored = { _id: new Types.ObjectId(), session: session._id };
+      mockResultModel.findOneAndUpdate.mockImplementationOnce(async () => {
+        results.push(stored);
+        throw duplicate();
+      });
+
+      await expect(
+        service.gradeExamSession(session._id.toString()),
+      ).resolves.toBe(stored);
+    });
+
+    it('should surface a result held by another session for the attempt', async () => {
+      const { session } = buildGuestSession('ada@example.com', 7);
+      mockResultModel.findOneAndUpdate.mockRejectedValueOnce(duplicate());
+
+      await expect(
+        service.gradeExamSession(session._id.toString()),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('getStudentResult', () => {
+    const candidate = new Types.ObjectId();
+    const attempt = (attemptNumber: number, percentage: number) => ({
+      _id: new Types.ObjectId(),
+      exam: exam._id,
+      candidate,
+      attemptNumber,
+      status: ResultStatus.GRADED,
+      scoring: { totalScore: percentage, percentage },
+    });
+
+    afterEach(() => {
+      delete exam.settings;
+    });
+
+    it('should return the best attempt by default', async () => {
+      results = [attempt(1, 40), attempt(2, 80), attempt(3, 60)];
+
+      const result = await service.getStudentResult(
+        exam._id.toString(),
+        candidate.toString(),
+      );
+
+      expect(result.attemptNumber).toBe(2);
+    });
+
+    it('should follow the exam attempt scoring policy', async () => {
+      exam.settings = { attemptScoringPolicy: AttemptScoringPolicy.LATEST };
+      results = [attempt(1, 40), attempt(2, 80), attempt(3, 60)];
+
+      const result = await service.getStudentResult(
+        exam._id.toString(),
+        candidate.toString(),
+      );
+
+      expect(result.attemptNumber).toBe(3);
+    });
+  });
+  describe('session evaluation', () => {
+    const startTime = new Date('2026-01-01T10:00:00Z');
+    const right = new Types.ObjectId();
+    const wrong = new Types.ObjectId();
+    const gradedExam = {
+      ...exam,
+      // Static list of the exam, which pool draws replace per session
+      questions: [new Types.ObjectId()],
+      grading: { negativeMarking: true, negativeMarkValue: 1, passingMarks: 2 },
+      schedule: {
+        endDate: endTime,
+        lateSubmissionAllowed: true,
+        lateSubmissionPenalty: 2,
+      },
+    };
+
+    const buildAnsweredSession = (overrides: Record<string, any> = {}) => {
+      const session = {
+        _id: new Types.ObjectId(),
+        examId: exam._id,
+        candidateId: new Types.ObjectId(),
+        status: SessionStatus.COMPLETED,
+        startTime,
+        submittedAt: new Date('2026-01-01T10:30:00Z'),
+        questionOrder: [right, wrong],
+        answers: [
+          { questionId: right.toString(), selectedOption: true },
+          { questionId: wrong.toString(), selectedOption: true },
+        ],
+        sections: [],
+        violations: [],
+        warningCount: 0,
+        save: jest.fn().mockResolvedValue(undefined),
+        ...overrides,
+      };
+      sessions.set(session._id.toString(), session);
+      return session;
+    };
+
+    beforeEach(() => {
+      (service as any).evaluateSession.mockRestore();
+      mockExamModel.findById.mockReturnValueOnce(query(gradedExam));
+      mockQuestionModel.find.mockReturnValue(
+        exec([
+          { _id: right, type: 'TRUE_FALSE', correctAnswer: true, marks: 4 },
+          { _id: wrong, type: 'TRUE_FALSE', correctAnswer: false, marks: 4 },
+        ]),
+      );
+    });
+
+    it("should apply the exam's negative marking", async () => {
+      const session = buildAnsweredSession();
+
+      const result = await service.gradeExamSession(session._id.toString());
+
+      expect(result.scoring).toMatchObject({
+        totalScore: 3,
+        totalMarks: 8,
+        passed: true,
+      });
+      expect(result.questionResults.map((qr) => qr.marksObtained)).toEqual([
+        4, -1,
+      ]);
+    });
+
+    it("should grade the session's drawn set rather than the exam's list", async () => {
+      const session = buildAnsweredSession();
+
+      const result = await service.gradeExamSession(session._id.toString());
+
+      expect(mockQuestionModel.find).toHaveBeenCalledWith({
+        _id: { $in: [right.toString(), wrong.toString()] },
+      });
+      expect(result.scoring.totalMarks).toBe(8);
+    });
+
+    it('should apply the late submission penalty', async () => {
+      const session = buildAnsweredSession({
+        submittedAt: new Date('2026-01-01T11:10:00Z'),
+      });
+
+      const result = await service.gradeExamSession(session._id.toString());
+
+      expect(result.scoring).toMatchObject({ totalScore: 1, passed: false });
+      expect(result.lateSubmission).toMatchObject({
+        isLate: true,
+        lateByMinutes: 10,
+        penaltyApplied: 2,
+        originalScore: 3,
+      });
+    });
+
+    it('should score a preview exactly like an attempt, without a result', async () => {
+      const attempt = buildAnsweredSession();
+      const graded = await service.gradeExamSession(attempt._id.toString());
+      results = [];
+
+      mockExamModel.findById.mockReturnValueOnce(query(gradedExam));
+      const preview = buildAnsweredSession({ isPreview: true });
+      const evaluation = await service.previewExamSession(
+        preview._id.toString(),
+      );
+
+      expect(evaluation.scoring).toEqual(graded.scoring);
+      expect(evaluation.questionResults).toEqual(graded.questionResults);
+      expect(results).toHaveLength(0);
+    });
+
+    it('should not grade a preview into a result', async () => {
+      const preview = buildAnsweredSession({ isPreview: true });
+
+      await expect(
+        service.gradeExamSession(preview._id.toString()),
+      ).rejects.toThrow('Preview sessions are not graded into results');
+      expect(results).toHaveLength(0);
+    });
+  });
+});
@@ -1,18 +1,59 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { Result, ResultStatus } from '../schemas/result.schema';
 import { Question } from '../../questions/schemas/question.schema';
 import { Exam } from '../../exams/schemas/exam.schema';
 import { ExamSession } from '../../proctoring/schemas/exam-session.schema';
 import { Violation } from '../../proctoring/schemas/violation.schema';
 import { User } from '../../users/schemas/user.schema';
+import {
+  ExamInvitation,
+  InvitationStatus,
+} from '../../exams/schemas/exam-invitation.schema';
 import { GradingUtil } from '../../../common/utils/grading.util';
+import { AttemptPolicyUtil } from '../../../common/utils/attempt-policy.util';
+import { SectionNavigationUtil } from '../../../common/utils/section-navigation.util';
 import { EmailService } from '../../email/services/email.service';
 import { CertificateService } from '../../certificates/services/certificate.service';
+import { QuestionSetService } from '../../question-pools/services/question-set.service';
+import { AdaptiveTestingService } from '../../question-pools/services/adaptive-testing.service';
+
+/**
+ * Scoring of one session, as stored on its Result
+ */
+export type SessionEvaluation = Pick<
+  Result,
+  | 'status'
+  | 'scoring'
+  | 'questionResults'
+  | 'sectionScores'
+  | 'adaptiveScoring'
+  | 'analysis'
+  | 'proctoringReport'
+  | 'lateSubmission'
+>;
+
+/**
+ * Result statuses an attempt can be counted from under the attempt policy
+ */
+const SCORED_RESULT_STATUSES = [
+  ResultStatus.PENDING,
+  ResultStatus.EVALUATED,
+  ResultStatus.GRADED,
+  ResultStatus.PUBLISHED,
+];
 
 @Injectable()
 export class GradingService {
+  private readonly logger = new Logger(GradingService.name);
+
   constructor(
     @InjectModel(Result.name) private resultModel: Model<Result>,
     @InjectModel(Question.name) private questionModel: Model<Question>,
@@ -20,14 +61,141 @@ export class GradingService {
     @InjectModel(ExamSession.name) private sessionModel: Model<ExamSession>,
     @InjectModel(Violation.name) private violationModel: Model<Violation>,
     @InjectModel(User.name) private userModel: Model<User>,
+    @InjectModel(ExamInvitation.name)
+    private invitationModel: Model<ExamInvitation>,
     private emailService: EmailService,
     private certificateService: CertificateService,
+    private questionSetService: QuestionSetService,
+    private adaptiveTestingService: AdaptiveTestingService,
   ) {}
 
   /**
    * Grade an exam session automatically
    */
   async gradeExamSession(sessionId: string): Promise<Result> {
+    const { session, exam, evaluation } = await this.evaluateSession(sessionId);
+
+    if (session.isPreview) {
+      throw new BadRequestException(
+        'Preview sessions are not graded into results',
+      );
+    }
+
+    // Each session is graded once; later attempts have their own session.
+    // Guests have no candidate id, so their Result hangs off the invitation.
+    const isInvitation =
+      session.accessSource === 'INVITATION' && !!session.invitationId;
+    const attemptNumber = session.attemptNumber || 1;
+    const existingResult = await this.resultModel
+      .findOne(
+        isInvitation
+          ? { exam: exam._id, invitationId: session.invitationId, attemptNumber }
+          : { exam: exam._id, session: session._id },
+      )
+      .exec();
+
+    if (existingResult) {
+      this.logger.debug(`Result already exists for session ${session._id}`);
+      return existingResult;
+    }
+
+    this.logger.debug(`Creating result for session ${session._id}`);
+    const owner = isInvitation
+      ? {
+          candidate: null,
+          invitationId: session.invitationId,
+          guestCandidateInfo: session.guestCandidateInfo,
+          isRecruitmentExam: true,
+        }
+      : { candidate: session.candidateId };
+    let result: Result;
+    try {
+      result = await this.resultModel.findOneAndUpdate(
+        { session: session._id },
+        {
+          exam: exam._id,
+          ...owner,
+          attemptNumber,
+          examVersion: session.examVersion ?? exam.version ?? 1,
+          session: session._id,
+          ...evaluation,
+        },
+        { new: true, upsert: true },
+      );
+    } catch (error) {
+      if (error.code !== 11000) {
+        throw error;
+      }
+      // Graded concurrently (e.g. submit racing the timeout job) ...
+      const stored = await this.resultModel
+        .findOne({ session: session._id })
+        .exec();
+      if (stored) {
+        return stored;
+      }
+      // ... or another session already holds this attempt's result
+      throw new ConflictException(
+        `Attempt ${attemptNumber} of this exam already has a result`,
+      );
+    }
+
+    if (isInvitation) {
+      await this.completeInvitation(session, exam, result);
+    } else if (session.candidateId) {
+      await this.applyAttemptPolicy(exam._id.toString(), {
+        candidate: session.candidateId,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Mark a guest's invitation finished and link its Result, as a submit does
+   */
+  private async completeInvitation(
+    session: ExamSession,
+    exam: Exam,
+    result: Result,
+  ): Promise<void> {
+    const invitation = await this.invitationModel
+      .findById(session.invitationId)
+      .exec();
+    if (!invitation) {
+      return;
+    }
+
+    invitation.status = exam.invitationSettings?.autoExpireOnSubmit
+      ? InvitationStatus.EXPIRED
+      : InvitationStatus.COMPLETED;
+    invitation.examCompletedAt = session.submittedAt || new Date();
+    invitation.resultId = result._id as Types.ObjectId;
+    await invitation.save();
+  }
+
+  /**
+   * Run a preview session through the same grading as a real attempt and
+   * return the breakdown without storing a Result
+   */
+  async previewExamSession(sessionId: string): Promise<SessionEvaluation> {
+    const { session, evaluation } = await this.evaluateSession(sessionId);
+
+    if (!session.isPreview) {
+      throw new BadRequestException('Not a preview session');
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Score a submitted session: per-question results, totals, sections,
+   * adaptive ability, late penalty and proctoring report
+   */
+  private async evaluateSession(sessionId: string): Promise<{
+    session: ExamSession;
+    exam: Exam;
+    evaluation: SessionEvaluation;
+  }> {
     // Fetch session with answers
     const session = await this.sessionModel
       .findById(sessionId)
@@ -48,9 +216,21 @@ export class GradingService {
       throw new NotFoundException('Exam not found');
     }
 
-    // Fetch all questions
+    // Close an adaptive run still waiting on its current question
+    const adaptiveScoring = session.adaptive
+      ? await this.adaptiveTestingService.finish(session)
+      : null;
+    if (adaptiveScoring) {
+      await session.save();
+    }
+
+    // Fetch the questions served in this session
     const questions = await this.questionModel
-      .find({ _id: { $in: exam.questions } })
+      .find({
+        _id: {
+          $in: this.questionSetService.getSessionQuestionIds(session, exam),
+        },
+      })
       .exec();
 
     // Create a map of answers
@@ -96,7 +276,12 @@ export class GradingService {
         correctAnswer: correctAnswer,
         studentAnswer: studentAnswer,
         marks: question.marks,
-        negativeMarks: question.negativeMarks || 0,
+        // A question's own negative marks take precedence over the exam's
+        negativeMarks:
+          question.negativeMarks ||
+          (exam.grading?.negativeMarking
+            ? exam.grading.negativeMarkValue || 0
+            : 0),
       });
 
       questionResults.push({
@@ -141,8 +326,16 @@ export class GradingService {
         )
       : 0;
 
+    // Adaptive exams are scored on the 0-100 ability scale
+    if (adaptiveScoring) {
+      totalPossibleMarks = 100;
+    }
+    const unpenalizedScore = adaptiveScoring
+      ? adaptiveScoring.percentage
+      : scoreCalculation.totalMarks;
+
     // Apply late submission penalty if applicable
-    let finalScore = scoreCalculation.totalMarks;
+    let finalScore = unpenalizedScore;
     let isLateSubmission = false;
     let lateByMinutes = 0;
     let penaltyApplied = 0;
@@ -172,7 +365,10 @@ export class GradingService {
         : 0;
 
     // Determine pass/fail based on final score
-    const passingMarks = exam.grading?.passingMarks || totalPossibleMarks * 0.4;
+    const passingMarks = this.questionSetService.getPassingMarks(
+      exam,
+      totalPossibleMarks,
+    );
     const passed = finalScore >= passingMarks;
 
     // Fetch violations count
@@ -184,28 +380,10 @@ export class GradingService {
       ? ResultStatus.PENDING
       : ResultStatus.GRADED;
 
-    // Check for existing results
-    const existingResults = await this.resultModel.find({
-      exam: exam._id,
-      candidate: session.candidateId
-    }).exec();
-
-    console.log('[GradingService] Existing results:', existingResults.length);
-    if (existingResults.length > 0) {
-      console.log('[GradingService] ⚠️ Result already exists, returning existing result');
-      return existingResults[0];
-    }
-
-    // Create or update result
-    const attemptNumber = 1; // Default to attempt 1
-    console.log('[GradingService] Creating new result for session:', session._id);
-    const result = await this.resultModel.findOneAndUpdate(
-      { exam: exam._id, candidate: session.candidateId, attemptNumber },
-      {
-        exam: exam._id,
-        candidate: session.candidateId,
-        attemptNumber,
-        session: session._id,
+    return {
+      session,
+      exam,
+      evaluation: {
         status,
         scoring: {
           totalScore: Math.max(0, finalScore), // Use final score after penalty
@@ -215,9 +393,28 @@ export class GradingService {
           correctAnswers: analysis.correct,
           incorrectAnswers: analysis.incorrect,
           unanswered: analysis.unanswered,
-          negativeMarks: scoreCalculation.totalMarks - finalScore, // Penalty amount
+          negativeMarks: unpenalizedScore - finalScore, // Penalty amount
         },
         questionResults,
+        sectionScores: SectionNavigationUtil.scoreSections(
+          session.sections || [],
+          questionResults.map((qr) => ({
+            questionId: qr.questionId.toString(),
+            marksObtained: qr.marksObtained,
+            totalMarks: qr.totalMarks,
+          })),
+          (exam.sections || []).map((section) => section.cutoffScore),
+        ),
+        adaptiveScoring: adaptiveScoring
+          ? {
+              ability: adaptiveScoring.ability,
+              standardError: adaptiveScoring.standardError,
+              itemsServed: adaptiveScoring.itemsServed,
+              correctAnswers: adaptiveScoring.correctAnswers,
+              rawScore: adaptiveScoring.rawScore,
+              rawMarks: adaptiveScoring.rawMarks,
+            }
+          : undefined,
         analysis: {
           timeSpent,
           attempted: analysis.attempted,
@@ -232,17 +429,66 @@ export class GradingService {
           autoSubmitted: session.autoSubmitReason ? true : false,
           warningsIssued: session.warningCount || 0,
         },
-        lateSubmission: isLateSubmission ? {
-          isLate: true,
-          lateByMinutes,
-          penaltyApplied,
-          originalScore: scoreCalculation.totalMarks,
-        } : undefined,
+        lateSubmission: isLateSubmission
+          ? {
+              isLate: true,
+              lateByMinutes,
+              penaltyApplied,
+              originalScore: unpenalizedScore,
+            }
+          : undefined,
       },
-      { new: true, upsert: true },
+    };
+  }
+
+  /**
+   * Re-evaluate which of a candidate's attempts counts under the exam's
+   * attempt scoring policy, and store the policy score on it
+   */
+  async applyAttemptPolicy(
+    examId: string,
+    owner: { candidate?: Types.ObjectId; invitationId?: Types.ObjectId },
+  ): Promise<Result | null> {
+    const exam = await this.examModel
+      .findById(examId)
+      .select('settings grading')
+      .exec();
+    if (!exam) {
+      throw new NotFoundException('Exam not found');
+    }
+
+    const attempts = await this.resultModel
+      .find({
+        exam: exam._id,
+        ...owner,
+        status: { $in: SCORED_RESULT_STATUSES },
+      })
+      .exec();
+
+    const policy = exam.settings?.attemptScoringPolicy;
+    const counted = AttemptPolicyUtil.selectCountedAttempt(attempts, policy);
+    if (!counted) {
+      return null;
+    }
+
+    const effectiveScoring = AttemptPolicyUtil.getEffectiveScoring(
+      attempts,
+      policy,
+      exam.grading?.passingPercentage,
     );
 
-    return result;
+    await this.resultModel.updateMany(
+      { _id: { $in: attempts.map((attempt) => attempt._id) } },
+      { $set: { isCountedAttempt: false }, $unset: { effectiveScoring: 1 } },
+    );
+
+    return this.resultModel
+      .findByIdAndUpdate(
+        counted._id,
+        { $set: { isCountedAttempt: true, effectiveScoring } },
+        { new: true },
+      )
+      .exec();
   }
 
   /**
@@ -331,7 +577,12 @@ export class GradingService {
 
       // Generate certificate for passed students
       let certificateUrl = result.certificate?.certificateUrl;
-      if (result.score?.passed && exam.resultsSettings?.generateCertificate) {
+      // Only the attempt that counts under the attempt policy is certified
+      if (
+        result.isCountedAttempt !== false &&
+        AttemptPolicyUtil.scoreOf(result).passed &&
+        exam.resultsSettings?.generateCertificate
+      ) {
         try {
           certificateUrl = await this.certificateService.generateCertificate(
             result._id.toString(),
@@ -432,27 +683,51 @@ export class GradingService {
    * Get result for a specific candidate
    */
   async getStudentResult(examId: string, studentId: string): Promise<Result> {
-    const result = await this.resultModel
-      .findOne({ exam: examId, candidate: studentId })
+    const attempts = await this.resultModel
+      .find({ exam: examId, candidate: studentId })
       .populate('candidate', 'name email')
       .exec();
 
-    if (!result) {
+    if (attempts.length === 0) {
       throw new NotFoundException('Result not found');
     }
 
-    return result;
+    // The attempt that counts under the exam's attempt scoring policy
+    const exam = await this.examModel
+      .findById(examId)
+      .select('settings')
+      .exec();
+    const scored = attempts.filter((attempt) =>
+      SCORED_RESULT_STATUSES.includes(attempt.status),
+    );
+
+    return AttemptPolicyUtil.selectCountedAttempt(
+      scored.length > 0 ? scored : attempts,
+      exam?.settings?.attemptScoringPolicy,
+    );
   }
 
   /**
    * Calculate ranks for all students in an exam
    */
   async calculateRanks(examId: string): Promise<void> {
+    // One entry per candidate: the attempt that counts under the attempt policy
     const results = await this.resultModel
-      .find({ exam: examId, status: { $in: [ResultStatus.GRADED, ResultStatus.PUBLISHED] } })
-      .sort({ 'score.obtained': -1, 'analysis.timeSpent': 1 }) // Higher score, less time = better rank
+      .find({
+        exam: examId,
+        status: { $in: [ResultStatus.GRADED, ResultStatus.PUBLISHED] },
+        isCountedAttempt: { $ne: false },
+      })
       .exec();
 
+    // Higher score, less time = better rank
+    results.sort(
+      (a, b) =>
+        AttemptPolicyUtil.scoreOf(b).totalScore -
+          AttemptPolicyUtil.scoreOf(a).totalScore ||
+        (a.analysis?.timeSpent || 0) - (b.analysis?.timeSpent || 0),
+    );
+
     const totalStudents = results.length;
 
     for (let i = 0; i < results.length; i++) {
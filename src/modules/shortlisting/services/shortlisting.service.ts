@@ -3,6 +3,7 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Exam } from '../../exams/schemas/exam.schema';
 import { Result } from '../../results/schemas/result.schema';
+import { AttemptPolicyUtil } from '../../../common/utils/attempt-policy.util';
 
 @Injectable()
 export class ShortlistingService {
@@ -28,11 +29,23 @@ export class ShortlistingService {
       throw new Error('Shortlisting is not enabled for this exam');
     }
 
-    // Fetch all results for the exam
+    // Only the attempt that counts under the exam's attempt policy
     const results = await this.resultModel.find({
       exam: examId,
       status: { $in: ['EVALUATED', 'PUBLISHED'] },
-    }).sort({ 'scoring.totalScore': -1 });
+      isCountedAttempt: { $ne: false },
+    });
+    results.sort(
+      (a, b) =>
+        AttemptPolicyUtil.scoreOf(b).totalScore -
+        AttemptPolicyUtil.scoreOf(a).totalScore,
+    );
+
+    // Superseded attempts are never shortlisted on their own
+    await this.resultModel.updateMany(
+      { exam: examId, isCountedAttempt: false, shortlisted: true },
+      { $set: { shortlisted: false, shortlistingReason: null } },
+    );
 
     if (results.length === 0) {
       return {
@@ -90,11 +103,12 @@ export class ShortlistingService {
     allResults: any[],
   ): boolean {
     let meetsAllCriteria = true;
+    const scoring = AttemptPolicyUtil.scoreOf(result);
 
     // Check minimum score
     if (
       criteria.minimumScore &&
-      result.scoring.totalScore < criteria.minimumScore
+      scoring.totalScore < criteria.minimumScore
     ) {
       meetsAllCriteria = false;
     }
@@ -102,7 +116,7 @@ export class ShortlistingService {
     // Check minimum percentage
     if (
       criteria.minimumPercentage &&
-      result.scoring.percentage < criteria.minimumPercentage
+      scoring.percentage < criteria.minimumPercentage
     ) {
       meetsAllCriteria = false;
     }
@@ -137,9 +151,14 @@ export class ShortlistingService {
       criteria.sectionWiseCutoff.length > 0
     ) {
       for (const sectionCutoff of criteria.sectionWiseCutoff) {
-        const categoryScore = result.categoryWiseScore?.find(
-          (cs: any) => cs.category === sectionCutoff.category,
-        );
+        // Exam sections first, then question categories
+        const categoryScore =
+          result.sectionScores?.find(
+            (ss: any) => ss.name === sectionCutoff.category,
+          ) ||
+          result.categoryWiseScore?.find(
+            (cs: any) => cs.category === sectionCutoff.category,
+          );
 
         if (!categoryScore || categoryScore.score < sectionCutoff.minimumScore) {
           meetsAllCriteria = false;
@@ -153,6 +172,7 @@ export class ShortlistingService {
 
   private buildShortlistingReason(result: any, criteria: any): string {
     const reasons: string[] = [];
+    const scoring = AttemptPolicyUtil.scoreOf(result);
 
     if (criteria.percentileThreshold) {
       reasons.push(
@@ -162,13 +182,13 @@ export class ShortlistingService {
 
     if (criteria.minimumScore) {
       reasons.push(
-        `Score ${result.scoring.totalScore} >= minimum ${criteria.minimumScore}`,
+        `Score ${scoring.totalScore} >= minimum ${criteria.minimumScore}`,
       );
     }
 
     if (criteria.minimumPercentage) {
       reasons.push(
-        `Percentage ${result.scoring.percentage} >= minimum ${criteria.minimumPercentage}`,
+        `Percentage ${scoring.percentage} >= minimum ${criteria.minimumPercentage}`,
       );
     }
 
@@ -189,6 +209,7 @@ export class ShortlistingService {
         exam: examId,
         shortlisted: true,
         status: { $in: ['EVALUATED', 'PUBLISHED'] },
+        isCountedAttempt: { $ne: false },
       })
       .populate('candidate', 'name email profile')
       .sort({ 'scoring.totalScore': -1 });
@@ -42,6 +42,7 @@ import {
   CreatePricingPlanDto,
   UpdatePricingPlanDto,
 } from '../dto/create-pricing-plan.dto';
+import { BlockImpersonation } from '../../../common/decorators/block-impersonation.decorator';
 
 @ApiTags('Super Admin - System Configuration')
 @ApiBearerAuth()
@@ -88,6 +89,7 @@ export class SystemConfigController {
   }
 
   @Delete('templates/:id')
+  @BlockImpersonation()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete exam template' })
   @ApiParam({ name: 'id', description: 'Template ID' })
@@ -139,6 +141,7 @@ export class SystemConfigController {
   }
 
   @Delete('question-pools/:id')
+  @BlockImpersonation()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete question pool' })
   @ApiParam({ name: 'id', description: 'Pool ID' })
@@ -207,6 +210,7 @@ export class SystemConfigController {
   }
 
   @Delete('certifications/:id')
+  @BlockImpersonation()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete system certification' })
   @ApiParam({ name: 'id', description: 'Certification ID' })
@@ -268,6 +272,7 @@ export class SystemConfigController {
   }
 
   @Delete('pricing-plans/:id')
+  @BlockImpersonation()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete pricing plan' })
   @ApiParam({ name: 'id', description: 'Plan ID' })
@@ -213,6 +213,10 @@ export class User extends Document {
   @Prop({ type: String, enum: ['EMPLOYEE', 'EXTERNAL'] })
   candidateType?: 'EMPLOYEE' | 'EXTERNAL'; // For Type 1 vs Type 3 differentiation
 
+  // Custom organization roles (OrgRole) granted on top of the role preset
+  @Prop({ type: [Types.ObjectId], ref: 'OrgRole', default: [] })
+  customRoles: Types.ObjectId[];
+
   @Prop({ type: [Object], default: [] })
   roleHistory?: Array<{
     previousRole: UserRole;
@@ -255,6 +259,31 @@ export class User extends Document {
   @Prop()
   emailVerificationToken?: string;
 
+  @Prop({ type: Date })
+  emailVerificationExpires?: Date;
+
+  // Two-factor authentication (TOTP)
+  @Prop({ type: Boolean, default: false })
+  mfaEnabled: boolean;
+
+  @Prop({ select: false })
+  mfaSecret?: string;
+
+  // Secret awaiting confirmation during enrollment
+  @Prop({ select: false })
+  mfaPendingSecret?: string;
+
+  // SHA-256 hashes of unused recovery codes
+  @Prop({ type: [String], select: false })
+  mfaRecoveryCodes?: string[];
+
+  // Single sign-on identity (set when provisioned or linked through OIDC)
+  @Prop()
+  ssoIssuer?: string;
+
+  @Prop()
+  ssoSubject?: string;
+
   // Legacy field for backward compatibility
   @Prop({ type: Object })
   metadata?: {
@@ -295,6 +324,7 @@ UserSchema.pre('save', function (next) {
 // Indexes
 UserSchema.index({ email: 1 });
 UserSchema.index({ candidateId: 1 });
+UserSchema.index({ ssoIssuer: 1, ssoSubject: 1 }, { sparse: true });
 UserSchema.index({ role: 1, isActive: 1 });
 UserSchema.index({ organizationIds: 1, role: 1 });
 UserSchema.index({ 'profile.college': 1 });